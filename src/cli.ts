@@ -1,39 +1,82 @@
 import yargs from "yargs";
 import type { Argv, ArgumentsCamelCase } from "yargs";
 import { hideBin } from "yargs/helpers";
-import type { JudgeQualityMode } from "./types.js";
+import type { JudgeQualityMode, KinMode, NeedScoringMode } from "./types.js";
 import { DEFAULT_CONVERGENCE, DEFAULT_CONCURRENCY } from "./types.js";
 
 export interface RunArgs {
   models?: string[];
   judges?: string[];
-  prompts: string;
+  prompts?: string;
   filter?: string[];
   outputs?: number;
+  revisionRounds: number;
+  selfRevision: boolean;
+  selfCritique: boolean;
   resume?: string;
   dryRun: boolean;
   speed: boolean;
   reasoning: boolean;
   noCache: boolean;
-  confidence: number;
-  maxRounds: number;
-  writingWeight: number;
-  feedbackWeight: number;
-  revisedWeight: number;
-  judgeQuality: boolean;
-  judgeQualityMode: JudgeQualityMode;
-  judgeSensitivity: "low" | "medium" | "high";
+  confidence?: number;
+  maxRounds?: number;
+  writingWeight?: number;
+  feedbackWeight?: number;
+  revisedWeight?: number;
+  judgeQuality?: boolean;
+  judgeQualityMode?: JudgeQualityMode;
+  judgeSensitivity?: "low" | "medium" | "high";
   judgeDecay?: number;
   judgePruneThreshold?: number;
-  concurrency: number;
+  concurrency?: number;
+  rateLimit?: string[];
+  rateLimitFile?: string;
+  budget?: number;
+  needScoring?: NeedScoringMode;
+  pointwise: boolean;
+  pointwiseGames: boolean;
+  criteriaVerdicts: boolean;
+  gradedPreference: boolean;
+  gradeResults?: string;
+  bothOrders: boolean;
+  seed?: number;
+  gold?: string;
+  retestWeights: boolean;
+  styleBiasCorrection: boolean;
+  kin: KinMode;
+  kinGroup?: string[];
   cacheOnly: boolean;
   skipSeeding: boolean;
+  record?: string;
+  replay?: string;
+  profile?: string;
+  config?: string;
 }
 
 export interface ResultsArgs {
   runId?: string;
   latest: boolean;
   format: "table" | "json";
+  gold?: string;
+}
+
+export interface AgreementArgs {
+  runId?: string;
+  cumulative: boolean;
+  metric: "agreement" | "kappa" | "alpha";
+  format: "table" | "json";
+}
+
+export interface JudgesRetestArgs {
+  models?: string[];
+  judges?: string[];
+  prompts: string;
+  filter?: string[];
+  count: number;
+  seed?: number;
+  format: "table" | "json";
+  rateLimit?: string[];
+  rateLimitFile?: string;
 }
 
 export interface ExportArgs {
@@ -74,6 +117,8 @@ export interface CacheCombineArgs {
 export type Command =
   | { command: "run"; args: RunArgs }
   | { command: "results"; args: ResultsArgs }
+  | { command: "agreement"; args: AgreementArgs }
+  | { command: "judges-retest"; args: JudgesRetestArgs }
   | { command: "export"; args: ExportArgs }
   | { command: "elo"; args: EloArgs }
   | { command: "serve"; args: ServeArgs }
@@ -235,7 +280,7 @@ export async function parseArgs(): Promise<Command> {
               type: "string",
               array: true,
               describe:
-                "Model specs: provider:model[=label] (repeatable). Required unless --cache-only is used.",
+                "Model specs: provider:model[=label] (repeatable). Required unless --profile, --cache-only or --resume is used.",
             })
             .option("judges", {
               alias: "j",
@@ -247,8 +292,7 @@ export async function parseArgs(): Promise<Command> {
             .option("prompts", {
               alias: "p",
               type: "string",
-              default: "prompts/*.toml",
-              describe: "Glob pattern for prompt files",
+              describe: "Glob pattern for prompt files (default: prompts/*.toml)",
             })
             .option("filter", {
               alias: "f",
@@ -263,9 +307,28 @@ export async function parseArgs(): Promise<Command> {
               describe:
                 "Max outputs per model per prompt (default: unlimited, adaptive)",
             })
+            .option("revision-rounds", {
+              type: "number",
+              default: 1,
+              describe:
+                "Feedback-and-revise rounds per sample; each round revises the previous round's revision and is rated separately",
+            })
+            .option("self-revision", {
+              type: "boolean",
+              default: false,
+              describe:
+                "Add a no-feedback control arm (__self__): writers revise from a generic instruction, rated as a baseline on the feedback leaderboard",
+            })
+            .option("self-critique", {
+              type: "boolean",
+              default: false,
+              describe:
+                "Have every writer critique and revise its own samples, and report a self-editing rate beside its feedback rating",
+            })
             .option("resume", {
               type: "string",
-              describe: "Resume an interrupted run by ID",
+              describe:
+                "Resume an interrupted run by ID. Models, judges, prompts and convergence settings are reloaded from that run.",
             })
             .option("dry-run", {
               type: "boolean",
@@ -283,6 +346,46 @@ export async function parseArgs(): Promise<Command> {
               describe:
                 "Include reasoning in judgments (use --no-reasoning to skip)",
             })
+            .option("pointwise", {
+              type: "boolean",
+              default: false,
+              describe:
+                "Also have each judge score every sample 1-10 on each judging criterion",
+            })
+            .option("pointwise-games", {
+              type: "boolean",
+              default: false,
+              describe:
+                "Feed pointwise score differences into the ratings as pseudo-pairwise games (implies --pointwise)",
+            })
+            .option("criteria-verdicts", {
+              type: "boolean",
+              default: false,
+              describe:
+                "Ask judges for a winner on each judging criterion as well as overall, and rate models per criterion",
+            })
+            .option("graded-preference", {
+              type: "boolean",
+              default: false,
+              describe:
+                "Ask judges how strong their preference is (A>>B, A>B, tie, B>A, B>>A) and rate with fractional results",
+            })
+            .option("grade-results", {
+              type: "string",
+              describe:
+                "WHR result for each grade, strongest A first (default 1,0.75,0.5,0.25,0; implies --graded-preference)",
+            })
+            .option("both-orders", {
+              type: "boolean",
+              default: false,
+              describe:
+                "Judge every pair in both presentation orders with the same judge; verdicts that disagree count as ties (doubles judging cost)",
+            })
+            .option("seed", {
+              type: "number",
+              describe:
+                "Seed every random choice (position swaps, ids, retry jitter) so cache-only runs are reproducible",
+            })
             .option("cache", {
               type: "boolean",
               default: true,
@@ -291,33 +394,38 @@ export async function parseArgs(): Promise<Command> {
             })
             .option("confidence", {
               type: "number",
-              default: DEFAULT_CONVERGENCE.ciThreshold,
               describe:
-                "CI convergence threshold in Elo points (0 = stop when no CIs overlap, N > 0 = stop when all CIs < \u00b1N)",
+                `CI convergence threshold in Elo points (0 = stop when no CIs overlap, N > 0 = stop when all CIs < \u00b1N; default: ${DEFAULT_CONVERGENCE.ciThreshold})`,
             })
             .option("max-rounds", {
               type: "number",
-              default: DEFAULT_CONVERGENCE.maxRounds,
               describe:
-                "Maximum number of productive adaptive rounds",
+                `Maximum number of productive adaptive rounds (default: ${DEFAULT_CONVERGENCE.maxRounds})`,
             })
             .option("writing-weight", {
               type: "number",
-              default: DEFAULT_CONVERGENCE.writingWeight,
               describe:
-                "Priority weight for writing judgments",
+                `Priority weight for writing judgments (default: ${DEFAULT_CONVERGENCE.writingWeight})`,
             })
             .option("feedback-weight", {
               type: "number",
-              default: DEFAULT_CONVERGENCE.feedbackWeight,
               describe:
-                "Priority weight for feedback judgments",
+                `Priority weight for feedback judgments (default: ${DEFAULT_CONVERGENCE.feedbackWeight})`,
             })
             .option("revised-weight", {
               type: "number",
-              default: DEFAULT_CONVERGENCE.revisedWeight,
               describe:
-                "Priority weight for revised judgments",
+                `Priority weight for revised judgments (default: ${DEFAULT_CONVERGENCE.revisedWeight})`,
+            })
+            .option("profile", {
+              type: "string",
+              describe:
+                "Named profile from the project file: roster, prompts, concurrency and convergence settings (flags override it)",
+            })
+            .option("config", {
+              type: "string",
+              describe:
+                "Project file with model overrides, rosters and profiles (default: writing-bench.toml if present)",
             })
             .option("cache-only", {
               type: "boolean",
@@ -325,25 +433,62 @@ export async function parseArgs(): Promise<Command> {
               describe:
                 "Only use cached data, no API calls. Auto-discovers models from cache if --models is omitted.",
             })
+            .option("record", {
+              type: "string",
+              describe:
+                "Record every provider request and response to cassettes in this directory",
+            })
+            .option("replay", {
+              type: "string",
+              describe:
+                "Serve provider calls from cassettes recorded with --record in this directory (no network)",
+            })
             .option("judge-quality", {
               type: "boolean",
-              default: DEFAULT_CONVERGENCE.judgeQuality,
               describe:
-                "Enable judge quality estimation and weighted ratings (use --no-judge-quality to disable)",
+                "Enable judge quality estimation and weighted ratings (on by default; use --no-judge-quality to disable)",
             })
             .option("judge-quality-mode", {
               type: "string",
-              choices: ["consensus", "writing", "feedback", "revised"] as const,
-              default: "consensus" as const,
+              choices: ["consensus", "writing", "feedback", "revised", "gold"] as const,
               describe:
-                "Signal for judge quality weights: consensus (majority vote), or use model ELO from writing/feedback/revised dimension",
+                `Signal for judge quality weights: consensus (majority vote), model ELO from writing/feedback/revised dimension, or gold (agreement with --gold; default: ${DEFAULT_CONVERGENCE.judgeQualityMode})`,
+            })
+            .option("gold", {
+              type: "string",
+              describe:
+                "TOML file of human-labelled pairs; reports each judge's agreement, kappa and position consistency against it",
+            })
+            .option("retest-weights", {
+              type: "boolean",
+              default: false,
+              describe:
+                "Scale judge weights by verdict stability measured with `judges retest`",
+            })
+            .option("style-bias-correction", {
+              type: "boolean",
+              default: false,
+              describe:
+                "Down-weight votes that follow a judge's measured preference for longer or Markdown-formatted samples",
+            })
+            .option("kin", {
+              type: "string",
+              choices: ["family", "provider", "none"] as const,
+              default: "family" as const,
+              describe:
+                "Which writers count as a judge's kin for kin-preference bias: same model family, same vendor, or none (only --kin-group)",
+            })
+            .option("kin-group", {
+              type: "string",
+              array: true,
+              describe:
+                "Comma-separated models (labels, registry IDs or provider:model) treated as kin of each other (repeatable)",
             })
             .option("judge-sensitivity", {
               type: "string",
               choices: ["low", "medium", "high"] as const,
-              default: "high" as const,
               describe:
-                "Judge quality sensitivity preset: low (gentle), medium, high (aggressive)",
+                "Judge quality sensitivity preset: low (gentle), medium, high (aggressive; default)",
             })
             .option("judge-decay", {
               type: "number",
@@ -357,18 +502,40 @@ export async function parseArgs(): Promise<Command> {
             })
             .option("concurrency", {
               type: "number",
-              default: DEFAULT_CONCURRENCY,
               describe:
-                "Max needs fulfilled concurrently. Each need may make 1-6 API calls across models. "
+                `Max needs fulfilled concurrently (default: ${DEFAULT_CONCURRENCY}). Each need may make 1-6 API calls across models. `
                 + "Lower this if you hit rate limits; raise it if your providers allow high throughput. "
                 + "Needs are interleaved across models, so a value of 8 typically means 1-3 concurrent calls per model.",
             })
             .check((argv) => {
-              if (argv.concurrency < 1) {
+              if (argv.concurrency != null && argv.concurrency < 1) {
                 throw new Error("--concurrency must be at least 1");
               }
               return true;
             })
+            .option("rate-limit", {
+              type: "string",
+              array: true,
+              describe:
+                "Per-provider or per-model limit: target:key=value[,key=value] with keys concurrency, rpm, tpm "
+                + "(repeatable, e.g. ollama:concurrency=2 or openai:gpt-4o:rpm=500,tpm=30000). Overrides --rate-limit-file.",
+            })
+            .option("budget", {
+              type: "number",
+              describe:
+                "Hard spend ceiling in USD. Checked before each batch; the run stops once the next batch's expected cost would exceed it.",
+            })
+            .option("need-scoring", {
+              type: "string",
+              choices: ["gain", "cost"] as const,
+              describe:
+                `Need prioritization: gain (information gain per API call) or cost (information gain per expected dollar; default: ${DEFAULT_CONVERGENCE.needScoring})`,
+            })
+            .option("rate-limit-file", {
+              type: "string",
+              describe:
+                "TOML file of rate limits with [providers.<name>] and [models.\"provider:model\"] tables",
+            })
             .option("skip-seeding", {
               type: "boolean",
               default: false,
@@ -376,16 +543,23 @@ export async function parseArgs(): Promise<Command> {
                 "Skip exhaustive cache scan (Phase 1). The adaptive loop discovers cached data lazily.",
             })
             .check((argv) => {
-              if (!argv.cacheOnly && (!argv.models || argv.models.length === 0)) {
-                throw new Error("--models is required unless --cache-only is used");
+              if (!argv.cacheOnly && !argv.resume && !argv.profile && (!argv.models || argv.models.length === 0)) {
+                throw new Error("--models is required unless --profile, --cache-only or --resume is used");
               }
               if (argv.cacheOnly && !argv.cache) {
                 throw new Error("--cache-only and --no-cache are mutually exclusive");
               }
+              if (argv.record && argv.replay) {
+                throw new Error("--record and --replay are mutually exclusive");
+              }
               if ((argv.writingWeight as number) < 0) throw new Error("--writing-weight must be non-negative");
               if ((argv.feedbackWeight as number) < 0) throw new Error("--feedback-weight must be non-negative");
               if ((argv.revisedWeight as number) < 0) throw new Error("--revised-weight must be non-negative");
               if (argv.judgeDecay != null && (argv.judgeDecay as number) <= 0) throw new Error("--judge-decay must be positive");
+              if (argv.budget != null && !((argv.budget as number) > 0)) throw new Error("--budget must be positive");
+              if (!Number.isInteger(argv.revisionRounds) || (argv.revisionRounds as number) < 1) throw new Error("--revision-rounds must be a positive integer");
+              if (argv.judgeQualityMode === "gold" && !argv.gold && !argv.resume) throw new Error("--judge-quality-mode gold requires --gold");
+              if (argv.retestWeights && argv.judgeQuality === false) throw new Error("--retest-weights requires judge quality (drop --no-judge-quality)");
               if (argv.judgePruneThreshold != null && ((argv.judgePruneThreshold as number) < 0 || (argv.judgePruneThreshold as number) > 1)) throw new Error("--judge-prune-threshold must be between 0 and 1");
               return true;
             }),
@@ -398,6 +572,9 @@ export async function parseArgs(): Promise<Command> {
               prompts: argv.prompts,
               filter: argv.filter,
               outputs: argv.outputs != null ? Math.max(argv.outputs, 1) : undefined,
+              revisionRounds: argv.revisionRounds,
+              selfRevision: argv.selfRevision,
+              selfCritique: argv.selfCritique,
               resume: argv.resume,
               dryRun: argv.dryRun,
               speed: argv.speed,
@@ -409,13 +586,33 @@ export async function parseArgs(): Promise<Command> {
               feedbackWeight: argv.feedbackWeight,
               revisedWeight: argv.revisedWeight,
               judgeQuality: argv.judgeQuality,
-              judgeQualityMode: argv.judgeQualityMode as JudgeQualityMode,
-              judgeSensitivity: argv.judgeSensitivity as "low" | "medium" | "high",
+              judgeQualityMode: argv.judgeQualityMode as JudgeQualityMode | undefined,
+              judgeSensitivity: argv.judgeSensitivity as "low" | "medium" | "high" | undefined,
               judgeDecay: argv.judgeDecay,
               judgePruneThreshold: argv.judgePruneThreshold,
               concurrency: argv.concurrency,
+              rateLimit: argv.rateLimit,
+              rateLimitFile: argv.rateLimitFile,
+              budget: argv.budget,
+              needScoring: argv.needScoring as NeedScoringMode | undefined,
+              pointwise: argv.pointwise || argv.pointwiseGames,
+              pointwiseGames: argv.pointwiseGames,
+              criteriaVerdicts: argv.criteriaVerdicts,
+              gradedPreference: argv.gradedPreference || argv.gradeResults != null,
+              gradeResults: argv.gradeResults,
+              bothOrders: argv.bothOrders,
+              seed: argv.seed,
+              gold: argv.gold,
+              retestWeights: argv.retestWeights,
+              styleBiasCorrection: argv.styleBiasCorrection,
+              kin: argv.kin as KinMode,
+              kinGroup: argv.kinGroup,
               cacheOnly: argv.cacheOnly,
               skipSeeding: argv.skipSeeding,
+              record: argv.record,
+              replay: argv.replay,
+              profile: argv.profile,
+              config: argv.config,
             },
           });
         }
@@ -439,6 +636,10 @@ export async function parseArgs(): Promise<Command> {
               choices: ["table", "json"] as const,
               default: "table" as const,
               describe: "Output format",
+            })
+            .option("gold", {
+              type: "string",
+              describe: "TOML file of human-labelled pairs to measure the run's judges against",
             }),
         (argv) => {
           resolve({
@@ -447,6 +648,7 @@ export async function parseArgs(): Promise<Command> {
               runId: argv.runId,
               latest: argv.latest,
               format: argv.format,
+              gold: argv.gold,
             },
           });
         }
@@ -467,6 +669,127 @@ export async function parseArgs(): Promise<Command> {
           });
         }
       )
+      .command(
+        "agreement [run-id]",
+        "Show how often judges agree with each other",
+        (y) =>
+          y
+            .positional("run-id", {
+              type: "string",
+              describe: "Run ID to show (default: latest run)",
+            })
+            .option("cumulative", {
+              type: "boolean",
+              default: false,
+              describe: "Pool judgments from all stored runs",
+            })
+            .option("metric", {
+              type: "string",
+              choices: ["agreement", "kappa", "alpha"] as const,
+              default: "kappa" as const,
+              describe: "Statistic shown in the judge-by-judge matrix",
+            })
+            .option("format", {
+              type: "string",
+              choices: ["table", "json"] as const,
+              default: "table" as const,
+              describe: "Output format",
+            }),
+        (argv) => {
+          resolve({
+            command: "agreement",
+            args: {
+              runId: argv.runId,
+              cumulative: argv.cumulative,
+              metric: argv.metric,
+              format: argv.format,
+            },
+          });
+        }
+      )
+      .command(
+        "judges",
+        "Judge diagnostics",
+        (y) =>
+          y
+            .command(
+              "retest",
+              "Re-judge a random sample of cached judgments and report how often verdicts flip",
+              (sy) =>
+                sy
+                  .option("models", {
+                    alias: "m",
+                    type: "string",
+                    array: true,
+                    describe: "Writer models whose cached outputs are paired (auto-discovers from cache if omitted)",
+                  })
+                  .option("judges", {
+                    alias: "j",
+                    type: "string",
+                    array: true,
+                    describe: "Judge models to retest (assumes judges=writers if omitted)",
+                  })
+                  .option("prompts", {
+                    alias: "p",
+                    type: "string",
+                    default: "prompts/*.toml",
+                    describe: "Glob pattern for prompt files",
+                  })
+                  .option("filter", {
+                    alias: "f",
+                    type: "string",
+                    array: true,
+                    describe: "Filter prompts by id or tag",
+                  })
+                  .option("count", {
+                    alias: "n",
+                    type: "number",
+                    default: 20,
+                    describe: "Cached judgments to retest per judge",
+                  })
+                  .option("seed", {
+                    type: "number",
+                    describe: "Seed for pair selection and presentation order",
+                  })
+                  .option("rate-limit", {
+                    type: "string",
+                    array: true,
+                    describe: "Per-provider or per-model limit, as for run (repeatable). Overrides --rate-limit-file.",
+                  })
+                  .option("rate-limit-file", {
+                    type: "string",
+                    describe: "TOML file of rate limits, as for run",
+                  })
+                  .option("format", {
+                    type: "string",
+                    choices: ["table", "json"] as const,
+                    default: "table" as const,
+                    describe: "Output format",
+                  })
+                  .check((argv) => {
+                    if (!(argv.count >= 1)) throw new Error("--count must be at least 1");
+                    return true;
+                  }),
+              (argv) => {
+                resolve({
+                  command: "judges-retest",
+                  args: {
+                    models: argv.models,
+                    judges: argv.judges,
+                    prompts: argv.prompts,
+                    filter: argv.filter,
+                    count: Math.floor(argv.count),
+                    seed: argv.seed,
+                    format: argv.format,
+                    rateLimit: argv.rateLimit,
+                    rateLimitFile: argv.rateLimitFile,
+                  },
+                });
+              }
+            )
+            .demandCommand(1, "Please specify a judges subcommand"),
+        () => {}
+      )
       .command(
         "elo",
         "Show cumulative ELO leaderboard",
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "bun:test";
-import { loadPrompts, parseModelConfigs, mergeModelEndpoints, createRunConfig, filterPrompts } from "./config.js";
+import { loadPrompts, parseModelConfigs, mergeModelEndpoints, createRunConfig, filterPrompts, parseRateLimitSpecs, mergeRateLimits, parseGradeResults, parseKinGroups, parseProjectConfig, projectProfile, applyModelOverrides, mergeDefined } from "./config.js";
 import type { ModelConfig, PromptConfig } from "./types.js";
 
 describe("loadPrompts", () => {
@@ -16,6 +16,21 @@ describe("loadPrompts", () => {
     }
   });
 
+  it("maps [constraints] tables with defaults", async () => {
+    const prompts = await loadPrompts("prompts/kids-talk.toml");
+    expect(prompts[0].constraints).toEqual({
+      minWords: 500,
+      maxWords: 800,
+      requiredPhrases: undefined,
+      forbiddenPhrases: undefined,
+      mustMatch: undefined,
+      mustNotMatch: undefined,
+      maxHeadings: undefined,
+      onViolation: "report",
+      penaltyWeight: 0.5,
+    });
+  });
+
   it("throws on non-existent pattern", async () => {
     await expect(loadPrompts("nonexistent/*.toml")).rejects.toThrow(
       "No prompt files found"
@@ -282,3 +297,176 @@ describe("mergeModelEndpoints", () => {
     expect(result[1].apiModelIds).toBeUndefined();
   });
 });
+
+describe("parseRateLimitSpecs", () => {
+  it("parses a provider limit", () => {
+    expect(parseRateLimitSpecs(["ollama:concurrency=2"])).toEqual({
+      providers: { ollama: { concurrency: 2 } },
+      models: {},
+    });
+  });
+
+  it("parses model limits, including ollama variants", () => {
+    const result = parseRateLimitSpecs([
+      "openai:gpt-4o:rpm=500,tpm=30000",
+      "ollama:llama3.1:8b:concurrency=1",
+    ]);
+    expect(result.models).toEqual({
+      "openai:gpt-4o": { rpm: 500, tpm: 30000 },
+      "ollama:llama3.1:8b": { concurrency: 1 },
+    });
+  });
+
+  it("merges repeated targets", () => {
+    const result = parseRateLimitSpecs(["openai:rpm=100", "openai:concurrency=4"]);
+    expect(result.providers.openai).toEqual({ rpm: 100, concurrency: 4 });
+  });
+
+  it("rejects malformed specs, unknown keys and bad values", () => {
+    expect(() => parseRateLimitSpecs(["ollama"])).toThrow("Invalid rate limit");
+    expect(() => parseRateLimitSpecs(["ollama:burst=3"])).toThrow("Invalid rate limit");
+    expect(() => parseRateLimitSpecs(["ollama:concurrency=0"])).toThrow("Invalid rate limit");
+    expect(() => parseRateLimitSpecs(["ollama:rpm=fast"])).toThrow("Invalid rate limit");
+  });
+});
+
+describe("mergeRateLimits", () => {
+  it("lets later configs override per field", () => {
+    const merged = mergeRateLimits(
+      { providers: { openai: { rpm: 100, tpm: 1000 } }, models: {} },
+      { providers: { openai: { rpm: 50 }, ollama: { concurrency: 2 } }, models: {} },
+    );
+    expect(merged.providers).toEqual({
+      openai: { rpm: 50, tpm: 1000 },
+      ollama: { concurrency: 2 },
+    });
+  });
+
+  it("leaves RunConfig.rateLimits unset when nothing is configured", () => {
+    const config = createRunConfig({
+      models: [], prompts: [], rateLimits: mergeRateLimits(),
+    });
+    expect(config.rateLimits).toBeUndefined();
+  });
+});
+
+describe("parseGradeResults", () => {
+  it("maps five results to grades, strongest A first", () => {
+    expect(parseGradeResults("1, 0.7, 0.5, 0.3, 0")).toEqual({
+      "A>>B": 1, "A>B": 0.7, "tie": 0.5, "B>A": 0.3, "B>>A": 0,
+    });
+  });
+
+  it("rejects the wrong count, out-of-range values and increasing results", () => {
+    expect(() => parseGradeResults("1,0.5,0")).toThrow("Invalid grade results");
+    expect(() => parseGradeResults("1.5,0.75,0.5,0.25,0")).toThrow("Invalid grade results");
+    expect(() => parseGradeResults("1,x,0.5,0.25,0")).toThrow("Invalid grade results");
+    expect(() => parseGradeResults("0,0.25,0.5,0.75,1")).toThrow("must not increase");
+  });
+});
+
+describe("parseKinGroups", () => {
+  it("splits and trims comma-separated members", () => {
+    expect(parseKinGroups(["gpt-4o, openai:o3", "a,b,c"])).toEqual([["gpt-4o", "openai:o3"], ["a", "b", "c"]]);
+  });
+
+  it("rejects groups with fewer than two members", () => {
+    expect(() => parseKinGroups(["solo"])).toThrow("Invalid kin group");
+    expect(() => parseKinGroups(["a, "])).toThrow("Invalid kin group");
+  });
+});
+
+describe("parseProjectConfig", () => {
+  const toml = `
+[models."openai:gpt-4o"]
+label = "GPT-4o hot"
+temperature = 1.1
+max_tokens = 4000
+
+[rosters.frontier]
+writers = ["openai:gpt-4o", "anthropic:claude-sonnet-4-20250514=sonnet"]
+judges = ["openai:gpt-4o"]
+
+[profiles.nightly]
+roster = "frontier"
+filter = ["sermon"]
+concurrency = 4
+
+[profiles.nightly.convergence]
+ci_threshold = 25
+judge_quality_mode = "writing"
+`;
+
+  it("maps models, rosters and profiles", () => {
+    const project = parseProjectConfig(toml);
+    expect(project.models["openai:gpt-4o"]).toEqual({ label: "GPT-4o hot", params: { temperature: 1.1, maxTokens: 4000 } });
+    expect(project.rosters.frontier.judges).toEqual(["openai:gpt-4o"]);
+    expect(projectProfile(project, "nightly")).toEqual({
+      roster: "frontier",
+      prompts: undefined,
+      filter: ["sermon"],
+      concurrency: 4,
+      convergence: { ciThreshold: 25, judgeQualityMode: "writing" },
+    });
+  });
+
+  it("rejects unknown keys and rosters", () => {
+    expect(() => parseProjectConfig(`[profiles.x]\nconcurency = 2`)).toThrow();
+    expect(() => parseProjectConfig(`[profiles.x]\nroster = "missing"`)).toThrow(/unknown roster/);
+  });
+
+  it("names the known profiles when one is missing", () => {
+    expect(() => projectProfile(parseProjectConfig(toml), "weekly")).toThrow(/Known profiles: nightly/);
+    expect(() => projectProfile(null, "nightly")).toThrow(/no writing-bench.toml/);
+  });
+});
+
+describe("applyModelOverrides", () => {
+  it("sets generation settings by registry ID and keeps explicit labels", () => {
+    const overrides = {
+      "openai:gpt-4o": { label: "hot", params: { temperature: 1.1 }, apiBase: "http://localhost:8080/v1" },
+    };
+    const [auto, labelled, other] = applyModelOverrides(
+      parseModelConfigs(["openai:gpt-4o", "openai:gpt-4o=mine", "openai:o3"]),
+      overrides,
+    );
+    expect(auto).toMatchObject({ label: "hot", params: { temperature: 1.1 }, apiBase: "http://localhost:8080/v1" });
+    expect(labelled).toMatchObject({ label: "mine", params: { temperature: 1.1 } });
+    expect(other).toEqual(parseModelConfigs(["openai:o3"])[0]);
+  });
+
+  it("folds file parameters into the model's identity, spec parameters winning", () => {
+    const overrides = parseProjectConfig(`
+      [models."openai:gpt-4o"]
+      label = "hot"
+      temperature = 1.0
+      max_tokens = 4000
+    `).models;
+    const [plain, variant] = applyModelOverrides(
+      parseModelConfigs(["openai:gpt-4o", "openai:gpt-4o@t=0.3"]),
+      overrides,
+    );
+    expect(plain).toMatchObject({
+      model: "gpt-4o@t=1,max_tokens=4000", registryId: "openai:gpt-4o@t=1,max_tokens=4000", label: "hot",
+    });
+    // Same identity as writing the parameters in the spec
+    expect(plain.registryId).toBe(parseModelConfigs(["openai:gpt-4o@max_tokens=4000,t=1"])[0].registryId);
+    expect(variant).toMatchObject({
+      registryId: "openai:gpt-4o@t=0.3,max_tokens=4000",
+      label: "gpt-4o@t=0.3,max_tokens=4000",
+      params: { temperature: 0.3, maxTokens: 4000 },
+    });
+  });
+});
+
+describe("mergeDefined", () => {
+  it("lets later layers win without unset fields overriding", () => {
+    const merged = mergeDefined<{ a: number; b: number; c: number }>(
+      { a: 1, b: 1, c: 1 },
+      { b: 2, c: 2 },
+      { c: undefined },
+      undefined,
+    );
+    expect(merged).toEqual({ a: 1, b: 2, c: 2 });
+  });
+});
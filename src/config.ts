@@ -1,15 +1,38 @@
+import { existsSync } from "fs";
 import { readFile } from "fs/promises";
 import { basename } from "path";
 import { parse as parseTOML } from "smol-toml";
 import { z } from "zod";
 import { Glob } from "bun";
-import type { PromptConfig, ModelConfig, RunConfig, ConvergenceConfig } from "./types.js";
-import { DEFAULT_CONVERGENCE, DEFAULT_CONCURRENCY } from "./types.js";
+import type { PromptConfig, ModelConfig, RunConfig, ConvergenceConfig, RateLimit, RateLimitConfig, GradeResults, GoldPair, KinMode, GenerationParams, ModelOverrides, ProjectConfig, RunProfile } from "./types.js";
+import { DEFAULT_CONVERGENCE, DEFAULT_CONCURRENCY, PREFERENCE_GRADES, PROJECT_CONFIG_FILE } from "./types.js";
 import { parseModelSpec } from "./providers/registry.js";
+import { baseModelId, formatGenerationParams } from "./providers/params.js";
 import { getModelDisplayName, getProviderDisplayName } from "./providers/models.js";
 
 // ── Zod schemas for TOML prompt validation ──────────
 
+const RegexSchema = z.string().refine((pattern) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: "Invalid regular expression" });
+
+const ConstraintsTomlSchema = z.object({
+  min_words: z.number().int().nonnegative().optional(),
+  max_words: z.number().int().positive().optional(),
+  required_phrases: z.array(z.string().min(1)).optional(),
+  forbidden_phrases: z.array(z.string().min(1)).optional(),
+  must_match: z.array(RegexSchema).optional(),
+  must_not_match: z.array(RegexSchema).optional(),
+  max_headings: z.number().int().nonnegative().optional(),
+  on_violation: z.enum(["report", "penalty", "loss"]).default("report"),
+  penalty_weight: z.number().positive().default(0.5),
+}).strict();
+
 const PromptTomlSchema = z.object({
   name: z.string(),
   tags: z.array(z.string()).min(1),
@@ -18,7 +41,14 @@ const PromptTomlSchema = z.object({
   judging_criteria: z.array(z.string()),
   feedback_prompt: z.string().optional(),
   revision_prompt: z.string().optional(),
+  judge_system_prompt: z.string().optional(),
+  judge_user_template: z.string()
+    .refine((t) => t.includes("{sample_a}") && t.includes("{sample_b}"), {
+      message: "Invalid judge_user_template: must contain {sample_a} and {sample_b}",
+    })
+    .optional(),
   max_words: z.number().int().positive().optional(),
+  constraints: ConstraintsTomlSchema.optional(),
 });
 
 type PromptToml = z.infer<typeof PromptTomlSchema>;
@@ -44,7 +74,20 @@ async function loadPromptFile(path: string): Promise<PromptConfig> {
     judgingCriteria: validated.judging_criteria,
     feedbackPrompt: validated.feedback_prompt,
     revisionPrompt: validated.revision_prompt,
+    judgeSystemPrompt: validated.judge_system_prompt,
+    judgeUserTemplate: validated.judge_user_template,
     maxWords: validated.max_words,
+    constraints: validated.constraints && {
+      minWords: validated.constraints.min_words,
+      maxWords: validated.constraints.max_words,
+      requiredPhrases: validated.constraints.required_phrases,
+      forbiddenPhrases: validated.constraints.forbidden_phrases,
+      mustMatch: validated.constraints.must_match,
+      mustNotMatch: validated.constraints.must_not_match,
+      maxHeadings: validated.constraints.max_headings,
+      onViolation: validated.constraints.on_violation,
+      penaltyWeight: validated.constraints.penalty_weight,
+    },
   };
 }
 
@@ -82,13 +125,14 @@ export function apiModelId(cfg: ModelConfig): string {
  */
 export function parseModelConfigs(specs: string[]): ModelConfig[] {
   return specs.map((spec) => {
-    const { provider, model, label, registryId, apiModelIds } = parseModelSpec(spec);
+    const { provider, model, label, registryId, apiModelIds, params } = parseModelSpec(spec);
     return {
       provider: provider as ModelConfig["provider"],
       model,
       label,
       registryId,
       apiModelIds,
+      params,
     };
   });
 }
@@ -150,6 +194,7 @@ export function mergeModelEndpoints(models: ModelConfig[]): ModelConfig[] {
       registryId,
       label: explicitLabel ?? group[0].model,
       apiModelIds: allApiIds.length > 0 ? allApiIds : undefined,
+      params: group[0].params,
     };
 
     result.push(merged);
@@ -217,6 +262,354 @@ export function filterPrompts(
   );
 }
 
+// ── Rate limits ─────────────────────────────────────
+
+const RateLimitSchema = z.object({
+  concurrency: z.number().int().positive().optional(),
+  rpm: z.number().int().positive().optional(),
+  tpm: z.number().int().positive().optional(),
+}).strict();
+
+const RateLimitTomlSchema = z.object({
+  providers: z.record(z.string(), RateLimitSchema).default({}),
+  models: z.record(z.string(), RateLimitSchema).default({}),
+}).strict();
+
+/**
+ * Load rate limits from a TOML file:
+ *
+ *   [providers.ollama]
+ *   concurrency = 2
+ *
+ *   [models."openai:gpt-4o"]
+ *   rpm = 500
+ *   tpm = 30000
+ */
+export async function loadRateLimitFile(path: string): Promise<RateLimitConfig> {
+  const raw = await readFile(path, "utf-8");
+  return RateLimitTomlSchema.parse(parseTOML(raw));
+}
+
+/**
+ * Parse CLI rate limit specs of the form `target:key=value[,key=value]`,
+ * where target is a provider ("ollama") or a model spec
+ * ("openai:gpt-4o", "ollama:llama3.1:8b") and key is one of
+ * concurrency, rpm or tpm. Repeated targets merge.
+ */
+export function parseRateLimitSpecs(specs: string[]): RateLimitConfig {
+  const result: RateLimitConfig = { providers: {}, models: {} };
+  for (const spec of specs) {
+    // Greedy target: everything up to the last ':' before the first key=value
+    const match = spec.match(/^(.+):([a-z]+=[^:]*)$/);
+    if (!match) {
+      throw new Error(
+        `Invalid rate limit "${spec}". Expected target:key=value[,key=value] (e.g. ollama:concurrency=2)`,
+      );
+    }
+    const [, target, body] = match;
+    const limit: Record<string, number> = {};
+    for (const part of body.split(",")) {
+      const [key, value] = part.split("=");
+      limit[key] = Number(value);
+    }
+    const parsed = RateLimitSchema.safeParse(limit);
+    if (!parsed.success) {
+      throw new Error(`Invalid rate limit "${spec}": ${parsed.error.issues[0].message}`);
+    }
+    const bucket = target.includes(":") ? result.models : result.providers;
+    bucket[target] = { ...bucket[target], ...parsed.data };
+  }
+  return result;
+}
+
+/** Merge rate limit configs field by field; later configs win. */
+export function mergeRateLimits(...configs: RateLimitConfig[]): RateLimitConfig {
+  const merge = (maps: Record<string, RateLimit>[]) => {
+    const out: Record<string, RateLimit> = {};
+    for (const m of maps) {
+      for (const [key, limit] of Object.entries(m)) out[key] = { ...out[key], ...limit };
+    }
+    return out;
+  };
+  return {
+    providers: merge(configs.map((c) => c.providers)),
+    models: merge(configs.map((c) => c.models)),
+  };
+}
+
+/** True if any provider or model has a limit configured. */
+export function hasRateLimits(config: RateLimitConfig): boolean {
+  return Object.keys(config.providers).length > 0 || Object.keys(config.models).length > 0;
+}
+
+// ── Gold set ────────────────────────────────────────
+
+const GoldPairTomlSchema = z.object({
+  prompt: z.string().optional(),
+  sample_a: z.string().optional(),
+  text_a: z.string().min(1).optional(),
+  sample_b: z.string().optional(),
+  text_b: z.string().min(1).optional(),
+  winner: z.enum(["A", "B", "tie"]),
+}).strict().refine(
+  (p) => (p.sample_a != null || p.text_a != null) && (p.sample_b != null || p.text_b != null),
+  { message: "Each side needs sample_a/sample_b or text_a/text_b" },
+);
+
+const GoldTomlSchema = z.object({
+  pairs: z.array(GoldPairTomlSchema).min(1),
+}).strict();
+
+/**
+ * Load human-labelled pairs from a TOML file. Each side is a sample ID
+ * from the run or the sample's exact text:
+ *
+ *   [[pairs]]
+ *   prompt = "sermon"
+ *   sample_a = "V1StGXR8_Z5jdHi6B-myT"
+ *   text_b = """The full text of the other sample..."""
+ *   winner = "A"
+ */
+export async function loadGoldFile(path: string): Promise<GoldPair[]> {
+  const raw = await readFile(path, "utf-8");
+  return GoldTomlSchema.parse(parseTOML(raw)).pairs.map((p) => ({
+    promptId: p.prompt,
+    sampleA: p.sample_a,
+    textA: p.text_a,
+    sampleB: p.sample_b,
+    textB: p.text_b,
+    winner: p.winner,
+  }));
+}
+
+// ── Preference grades ───────────────────────────────
+
+/**
+ * Parse a --grade-results spec: five comma-separated results in [0, 1]
+ * for A>>B, A>B, tie, B>A and B>>A, non-increasing from first to last.
+ */
+export function parseGradeResults(spec: string): GradeResults {
+  const values = spec.split(",").map((v) => Number(v.trim()));
+  if (values.length !== PREFERENCE_GRADES.length || values.some((v) => isNaN(v) || v < 0 || v > 1)) {
+    throw new Error(
+      `Invalid grade results "${spec}". Expected ${PREFERENCE_GRADES.length} numbers between 0 and 1 (e.g. 1,0.75,0.5,0.25,0)`,
+    );
+  }
+  if (values.some((v, i) => i > 0 && v > values[i - 1])) {
+    throw new Error(`Invalid grade results "${spec}": results must not increase from A>>B to B>>A`);
+  }
+  return Object.fromEntries(PREFERENCE_GRADES.map((g, i) => [g, values[i]])) as GradeResults;
+}
+
+// ── Kin groups ──────────────────────────────────────
+
+/**
+ * Parse --kin-group specs: each is a comma-separated list of at least
+ * two models (labels, registry IDs or provider:model specs) to treat
+ * as kin of each other.
+ */
+export function parseKinGroups(specs: string[]): string[][] {
+  return specs.map((spec) => {
+    const members = spec.split(",").map((m) => m.trim()).filter((m) => m.length > 0);
+    if (members.length < 2) {
+      throw new Error(`Invalid kin group "${spec}". Expected two or more comma-separated models`);
+    }
+    return members;
+  });
+}
+
+// ── Project file ────────────────────────────────────
+
+const ModelOverridesTomlSchema = z.object({
+  label: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  top_p: z.number().gt(0).max(1).optional(),
+  max_tokens: z.number().int().positive().optional(),
+  effort: z.string().regex(/^[a-z]+$/).optional(),
+  thinking: z.number().int().positive().optional(),
+  api_base: z.string().url().optional(),
+}).strict();
+
+const RosterTomlSchema = z.object({
+  writers: z.array(z.string()).min(1),
+  judges: z.array(z.string()).min(1).optional(),
+}).strict();
+
+const ConvergenceTomlSchema = z.object({
+  ci_threshold: z.number().nonnegative().optional(),
+  max_rounds: z.number().int().positive().optional(),
+  min_pairs_per_model: z.number().int().positive().optional(),
+  writing_weight: z.number().nonnegative().optional(),
+  feedback_weight: z.number().nonnegative().optional(),
+  revised_weight: z.number().nonnegative().optional(),
+  judge_quality: z.boolean().optional(),
+  judge_quality_mode: z.enum(["consensus", "writing", "feedback", "revised", "gold"]).optional(),
+  judge_decay: z.number().positive().optional(),
+  judge_prune_threshold: z.number().min(0).max(1).optional(),
+  need_scoring: z.enum(["gain", "cost"]).optional(),
+}).strict();
+
+const ProfileTomlSchema = z.object({
+  roster: z.string().optional(),
+  prompts: z.string().optional(),
+  filter: z.array(z.string()).optional(),
+  concurrency: z.number().int().positive().optional(),
+  convergence: ConvergenceTomlSchema.default({}),
+}).strict();
+
+const ProjectTomlSchema = z.object({
+  models: z.record(z.string(), ModelOverridesTomlSchema).default({}),
+  rosters: z.record(z.string(), RosterTomlSchema).default({}),
+  profiles: z.record(z.string(), ProfileTomlSchema).default({}),
+}).strict().superRefine((project, ctx) => {
+  for (const [name, profile] of Object.entries(project.profiles)) {
+    if (profile.roster != null && !Object.hasOwn(project.rosters, profile.roster)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["profiles", name, "roster"],
+        message: `Invalid profile "${name}": unknown roster "${profile.roster}"`,
+      });
+    }
+  }
+});
+
+/**
+ * Parse a project file:
+ *
+ *   [models."openai:gpt-4o"]
+ *   temperature = 0.9
+ *   max_tokens = 4000
+ *
+ *   [rosters.frontier]
+ *   writers = ["openai:gpt-4o", "anthropic:claude-sonnet-4-20250514"]
+ *   judges = ["openai:gpt-4o"]
+ *
+ *   [profiles.nightly]
+ *   roster = "frontier"
+ *   filter = ["sermon"]
+ *   concurrency = 4
+ *   convergence = { ci_threshold = 25, max_rounds = 100 }
+ */
+export function parseProjectConfig(toml: string): ProjectConfig {
+  const validated = ProjectTomlSchema.parse(parseTOML(toml));
+  const profiles: Record<string, RunProfile> = {};
+  for (const [name, p] of Object.entries(validated.profiles)) {
+    const c = p.convergence;
+    profiles[name] = {
+      roster: p.roster,
+      prompts: p.prompts,
+      filter: p.filter,
+      concurrency: p.concurrency,
+      convergence: mergeDefined<ConvergenceConfig>({
+        ciThreshold: c.ci_threshold,
+        maxRounds: c.max_rounds,
+        minPairsPerModel: c.min_pairs_per_model,
+        writingWeight: c.writing_weight,
+        feedbackWeight: c.feedback_weight,
+        revisedWeight: c.revised_weight,
+        judgeQuality: c.judge_quality,
+        judgeQualityMode: c.judge_quality_mode,
+        judgeDecay: c.judge_decay,
+        judgePruneThreshold: c.judge_prune_threshold,
+        needScoring: c.need_scoring,
+      }),
+    };
+  }
+  return {
+    models: Object.fromEntries(Object.entries(validated.models).map(([spec, m]) => {
+      const params = mergeDefined<GenerationParams>({
+        temperature: m.temperature,
+        topP: m.top_p,
+        maxTokens: m.max_tokens,
+        reasoningEffort: m.effort,
+        thinkingBudget: m.thinking,
+      });
+      return [spec, mergeDefined<ModelOverrides>({
+        label: m.label,
+        params: Object.keys(params).length > 0 ? params : undefined,
+        apiBase: m.api_base,
+      })];
+    })),
+    rosters: validated.rosters,
+    profiles,
+  };
+}
+
+/**
+ * Load the project file at `path`, or the default writing-bench.toml
+ * when no path is given. Returns null if the default file is absent;
+ * a named file must exist.
+ */
+export async function loadProjectConfig(path?: string): Promise<ProjectConfig | null> {
+  if (path == null && !existsSync(PROJECT_CONFIG_FILE)) return null;
+  return parseProjectConfig(await readFile(path ?? PROJECT_CONFIG_FILE, "utf-8"));
+}
+
+/** Look up a profile by name. */
+export function projectProfile(project: ProjectConfig | null, name: string): RunProfile {
+  if (!project) {
+    throw new Error(`Invalid profile "${name}": no ${PROJECT_CONFIG_FILE} found (use --config to name one)`);
+  }
+  if (!Object.hasOwn(project.profiles, name)) {
+    const known = Object.keys(project.profiles);
+    throw new Error(
+      `Invalid profile "${name}". Known profiles: ${known.length > 0 ? known.join(", ") : "(none)"}`,
+    );
+  }
+  return project.profiles[name];
+}
+
+/**
+ * Apply project file overrides to models, matched by registry ID without
+ * spec parameters, so "openai:gpt-4o@t=1" picks up the entry for
+ * "openai:gpt-4o". The file's generation parameters join the spec's
+ * (which win) in the canonical "@params" suffix, so they are part of
+ * the model's cache and rating identity. An explicit =label in the spec
+ * wins over the file's label, which is not applied to specs with
+ * parameters of their own.
+ */
+export function applyModelOverrides(
+  models: ModelConfig[],
+  overrides: Record<string, ModelOverrides>,
+): ModelConfig[] {
+  const byBase = new Map(Object.entries(overrides).map(([spec, o]) => [baseModelId(spec), o]));
+  return models.map((m) => {
+    const override = byBase.get(`${m.provider}:${baseModelId(m.model)}`);
+    if (!override) return m;
+    const explicitLabel = m.label !== m.model;
+    let { model, params } = m;
+    if (override.params) {
+      params = { ...override.params, ...m.params };
+      model = `${baseModelId(m.model)}@${formatGenerationParams(params)}`;
+    }
+    return {
+      ...m,
+      model,
+      registryId: `${m.provider}:${model}`,
+      params,
+      apiBase: override.apiBase ?? m.apiBase,
+      // The file's label names the model as configured there, not a spec's variant of it
+      label: explicitLabel ? m.label : (!m.params && override.label) || model,
+    };
+  });
+}
+
+/**
+ * Merge layers of settings field by field, later layers winning.
+ * Undefined fields never override, so unset CLI flags fall through
+ * to the profile and the profile to the defaults.
+ */
+export function mergeDefined<T extends object>(...layers: (Partial<T> | undefined)[]): Partial<T> {
+  const out: Partial<T> = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) out[key as keyof T] = value as T[keyof T];
+    }
+  }
+  return out;
+}
+
 // ── Run config assembly ─────────────────────────────
 
 /**
@@ -227,11 +620,28 @@ export function createRunConfig(opts: {
   judges?: ModelConfig[];
   prompts: PromptConfig[];
   outputsPerModel?: number;
+  revisionRounds?: number;
   reasoning?: boolean;
   noCache?: boolean;
   cacheOnly?: boolean;
   skipSeeding?: boolean;
   concurrency?: number;
+  rateLimits?: RateLimitConfig;
+  budget?: number;
+  pointwise?: boolean;
+  pointwiseGames?: boolean;
+  criterionVerdicts?: boolean;
+  gradedPreference?: boolean;
+  gradeResults?: GradeResults;
+  bothOrders?: boolean;
+  seed?: number;
+  gold?: GoldPair[];
+  selfRevision?: boolean;
+  selfCritique?: boolean;
+  kinMode?: KinMode;
+  kinGroups?: string[][];
+  styleBiasCorrection?: boolean;
+  retestWeights?: Record<string, number>;
   convergence?: Partial<ConvergenceConfig>;
 }): RunConfig {
   const now = new Date();
@@ -243,11 +653,28 @@ export function createRunConfig(opts: {
     judges: opts.judges?.length ? opts.judges : undefined,
     prompts: opts.prompts,
     outputsPerModel: opts.outputsPerModel ?? Infinity,
+    revisionRounds: opts.revisionRounds != null && opts.revisionRounds > 1 ? opts.revisionRounds : undefined,
+    selfRevision: opts.selfRevision || undefined,
+    selfCritique: opts.selfCritique || undefined,
     reasoning: opts.reasoning ?? true,
     noCache: opts.noCache ?? false,
     cacheOnly: opts.cacheOnly ?? false,
     skipSeeding: opts.skipSeeding ?? false,
     concurrency: opts.concurrency ?? DEFAULT_CONCURRENCY,
+    rateLimits: opts.rateLimits && hasRateLimits(opts.rateLimits) ? opts.rateLimits : undefined,
+    budget: opts.budget,
+    pointwise: opts.pointwise || undefined,
+    pointwiseGames: opts.pointwiseGames || undefined,
+    criterionVerdicts: opts.criterionVerdicts || undefined,
+    gradedPreference: opts.gradedPreference || undefined,
+    gradeResults: opts.gradedPreference ? opts.gradeResults : undefined,
+    bothOrders: opts.bothOrders || undefined,
+    seed: opts.seed,
+    gold: opts.gold?.length ? opts.gold : undefined,
+    kinMode: opts.kinMode ?? "family",
+    kinGroups: opts.kinGroups?.length ? opts.kinGroups : undefined,
+    styleBiasCorrection: opts.styleBiasCorrection || undefined,
+    retestWeights: opts.retestWeights && Object.keys(opts.retestWeights).length ? opts.retestWeights : undefined,
     timestamp: now.toISOString(),
     convergence: { ...DEFAULT_CONVERGENCE, ...opts.convergence },
   };
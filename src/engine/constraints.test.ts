@@ -0,0 +1,124 @@
+import { describe, it, expect } from "bun:test";
+import {
+  checkConstraints,
+  constraintPenaltyGames,
+  constraintWinner,
+  countHeadings,
+  summarizeConstraints,
+} from "./constraints.js";
+import type { ConstraintResult, PairwiseJudgment, PromptConstraints, WritingSample } from "../types.js";
+
+const base: PromptConstraints = { onViolation: "report", penaltyWeight: 0.5 };
+
+const PASS: ConstraintResult = { passed: true, violations: [] };
+const FAIL: ConstraintResult = { passed: false, violations: [{ rule: "max_words", detail: "" }] };
+
+describe("countHeadings", () => {
+  it("counts ATX headings only", () => {
+    expect(countHeadings("# One\ntext\n## Two\n#hashtag\n   ### Three\n    # code")).toBe(3);
+    expect(countHeadings("no headings")).toBe(0);
+  });
+});
+
+describe("checkConstraints", () => {
+  it("passes text that meets every rule", () => {
+    const result = checkConstraints("# Title\nGrace and peace to you.", {
+      ...base,
+      minWords: 3,
+      maxWords: 10,
+      requiredPhrases: ["GRACE"],
+      forbiddenPhrases: ["delve"],
+      mustMatch: ["^# "],
+      mustNotMatch: ["\\bTODO\\b"],
+      maxHeadings: 1,
+    });
+    expect(result).toEqual({ passed: true, violations: [] });
+  });
+
+  it("reports each broken rule", () => {
+    const result = checkConstraints("# A\n## B\nLet us delve. TODO", {
+      ...base,
+      minWords: 10,
+      requiredPhrases: ["grace"],
+      forbiddenPhrases: ["Delve"],
+      mustMatch: ["amen$"],
+      mustNotMatch: ["TODO"],
+      maxHeadings: 1,
+    });
+    expect(result.passed).toBe(false);
+    expect(result.violations.map((v) => v.rule)).toEqual([
+      "min_words", "required_phrase", "forbidden_phrase", "must_match", "must_not_match", "max_headings",
+    ]);
+  });
+
+  it("flags text over the word limit", () => {
+    const result = checkConstraints("one two three four", { ...base, maxWords: 3 });
+    expect(result.violations).toEqual([{ rule: "max_words", detail: "4 words, maximum is 3" }]);
+  });
+});
+
+describe("constraintWinner", () => {
+  it("decides only when exactly one side passes", () => {
+    expect(constraintWinner(PASS, FAIL)).toBe("A");
+    expect(constraintWinner(FAIL, PASS)).toBe("B");
+    expect(constraintWinner(PASS, PASS)).toBeUndefined();
+    expect(constraintWinner(FAIL, FAIL)).toBeUndefined();
+    expect(constraintWinner(undefined, FAIL)).toBeUndefined();
+  });
+});
+
+describe("constraintPenaltyGames", () => {
+  const judgment = (promptId: string, sampleA: string, sampleB: string): PairwiseJudgment => ({
+    id: `${sampleA}-${sampleB}`,
+    judgeModel: "judge",
+    promptId,
+    sampleA,
+    sampleB,
+    winner: "A",
+    reasoning: "",
+    stage: "initial",
+    usage: { inputTokens: 0, outputTokens: 0 },
+    cost: { input: 0, output: 0, total: 0, totalUncached: 0 },
+    latencyMs: 0,
+  });
+  const s2m = new Map([["a", "m1"], ["b", "m2"], ["c", "m3"]]);
+  const results = new Map([["a", FAIL], ["b", PASS], ["c", PASS]]);
+
+  it("adds a weighted win for the compliant side on penalty prompts", () => {
+    const games = constraintPenaltyGames(
+      [judgment("p", "a", "b"), judgment("p", "b", "c"), judgment("other", "a", "c")],
+      s2m, results, new Map([["p", 0.25]]),
+    );
+    expect(games).toEqual([{ playerWhite: "m1", playerBlack: "m2", result: 0.0, weight: 0.25 }]);
+  });
+});
+
+describe("summarizeConstraints", () => {
+  const sample = (model: string, stage: "initial" | "revised", constraints?: ConstraintResult): WritingSample => ({
+    id: `${model}-${stage}`,
+    model,
+    promptId: "p",
+    outputIndex: 0,
+    text: "",
+    stage,
+    constraints,
+    usage: { inputTokens: 0, outputTokens: 0 },
+    cost: { input: 0, output: 0, total: 0, totalUncached: 0 },
+    latencyMs: 0,
+  });
+
+  it("tallies pass rates and rule counts per model and stage", () => {
+    const summaries = summarizeConstraints([
+      sample("m1", "initial", FAIL),
+      sample("m1", "initial", PASS),
+      sample("m2", "initial", PASS),
+      sample("m2", "revised", FAIL),
+      sample("m3", "initial"),
+    ]);
+    expect(summaries).toEqual([
+      { model: "m2", stage: "initial", checked: 1, passed: 1, violations: {} },
+      { model: "m1", stage: "initial", checked: 2, passed: 1, violations: { max_words: 1 } },
+      { model: "m2", stage: "revised", checked: 1, passed: 0, violations: { max_words: 1 } },
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import type {
+  ConstraintResult,
+  ConstraintRule,
+  ConstraintSummary,
+  ConstraintViolation,
+  PairwiseJudgment,
+  PromptConstraints,
+  WritingSample,
+} from "../types.js";
+import { revisionRound } from "../types.js";
+import { countWords, type WhrGame } from "./whr.js";
+
+// ── Checks ──────────────────────────────────────────
+
+/** Number of ATX markdown headings (`#` through `######`) in `text`. */
+export function countHeadings(text: string): number {
+  return text.match(/^ {0,3}#{1,6}(?:[ \t]|$)/gm)?.length ?? 0;
+}
+
+/**
+ * Check `text` against a prompt's constraints. Phrase checks are
+ * case-insensitive; regexes are used as written.
+ */
+export function checkConstraints(text: string, c: PromptConstraints): ConstraintResult {
+  const violations: ConstraintViolation[] = [];
+  const lower = text.toLowerCase();
+
+  const words = countWords(text);
+  if (c.minWords != null && words < c.minWords) {
+    violations.push({ rule: "min_words", detail: `${words} words, minimum is ${c.minWords}` });
+  }
+  if (c.maxWords != null && words > c.maxWords) {
+    violations.push({ rule: "max_words", detail: `${words} words, maximum is ${c.maxWords}` });
+  }
+  for (const phrase of c.requiredPhrases ?? []) {
+    if (!lower.includes(phrase.toLowerCase())) {
+      violations.push({ rule: "required_phrase", detail: `missing "${phrase}"` });
+    }
+  }
+  for (const phrase of c.forbiddenPhrases ?? []) {
+    if (lower.includes(phrase.toLowerCase())) {
+      violations.push({ rule: "forbidden_phrase", detail: `contains "${phrase}"` });
+    }
+  }
+  for (const pattern of c.mustMatch ?? []) {
+    if (!new RegExp(pattern).test(text)) {
+      violations.push({ rule: "must_match", detail: `does not match /${pattern}/` });
+    }
+  }
+  for (const pattern of c.mustNotMatch ?? []) {
+    if (new RegExp(pattern).test(text)) {
+      violations.push({ rule: "must_not_match", detail: `matches /${pattern}/` });
+    }
+  }
+  if (c.maxHeadings != null) {
+    const headings = countHeadings(text);
+    if (headings > c.maxHeadings) {
+      violations.push({ rule: "max_headings", detail: `${headings} headings, maximum is ${c.maxHeadings}` });
+    }
+  }
+
+  return { passed: violations.length === 0, violations };
+}
+
+/** One-line description of a result's violations, for reasoning text. */
+export function describeViolations(result: ConstraintResult): string {
+  return result.violations.map((v) => `${v.rule}: ${v.detail}`).join("; ");
+}
+
+// ── Verdicts ────────────────────────────────────────
+
+/**
+ * The side constraints alone decide a pairing for: "A" or "B" when
+ * exactly one sample was checked and passed while the other failed,
+ * undefined otherwise (both pass, both fail, or either is unchecked).
+ */
+export function constraintWinner(
+  a: ConstraintResult | undefined,
+  b: ConstraintResult | undefined,
+): "A" | "B" | undefined {
+  if (!a || !b || a.passed === b.passed) return undefined;
+  return a.passed ? "A" : "B";
+}
+
+/**
+ * Penalty games for prompts with on_violation = "penalty": every judgment
+ * whose pairing constraints alone decide adds one extra game the
+ * compliant sample's model wins, weighted by the prompt's penalty weight.
+ * The judge's own verdict still counts as usual.
+ */
+export function constraintPenaltyGames(
+  judgments: PairwiseJudgment[],
+  sampleToModel: Map<string, string>,
+  sampleResults: Map<string, ConstraintResult>,
+  penaltyWeights: Map<string, number>,
+): WhrGame[] {
+  const games: WhrGame[] = [];
+  for (const j of judgments) {
+    const weight = penaltyWeights.get(j.promptId);
+    if (weight == null) continue;
+    const winner = constraintWinner(sampleResults.get(j.sampleA), sampleResults.get(j.sampleB));
+    if (!winner) continue;
+    const modelA = sampleToModel.get(j.sampleA);
+    const modelB = sampleToModel.get(j.sampleB);
+    if (!modelA || !modelB || modelA === modelB) continue;
+    games.push({
+      playerWhite: modelA,
+      playerBlack: modelB,
+      result: winner === "A" ? 1.0 : 0.0,
+      weight,
+    });
+  }
+  return games;
+}
+
+// ── Summaries ───────────────────────────────────────
+
+/**
+ * Per-model, per-stage compliance over samples that were checked.
+ * Sorted by stage (initial first, then revision rounds in order), then by descending pass rate.
+ */
+export function summarizeConstraints(samples: WritingSample[]): ConstraintSummary[] {
+  const groups = new Map<string, ConstraintSummary>();
+  for (const s of samples) {
+    if (!s.constraints) continue;
+    const key = `${s.stage}:${s.model}`;
+    let summary = groups.get(key);
+    if (!summary) {
+      summary = { model: s.model, stage: s.stage, checked: 0, passed: 0, violations: {} };
+      groups.set(key, summary);
+    }
+    summary.checked++;
+    if (s.constraints.passed) summary.passed++;
+    for (const rule of new Set<ConstraintRule>(s.constraints.violations.map((v) => v.rule))) {
+      summary.violations[rule] = (summary.violations[rule] ?? 0) + 1;
+    }
+  }
+
+  const rate = (s: ConstraintSummary) => s.passed / s.checked;
+  return [...groups.values()].sort((a, b) =>
+    revisionRound(a.stage) - revisionRound(b.stage) ||
+    rate(b) - rate(a) ||
+    a.model.localeCompare(b.model));
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "bun:test";
+import { CostEstimator } from "./cost-model.js";
+import type { ModelInfo } from "../types.js";
+
+function makeInfo(costPer1MInput: number, costPer1MOutput: number): ModelInfo {
+  return {
+    name: "test",
+    family: "test",
+    openWeights: false,
+    supportsTemperature: true,
+    supportsStructuredOutput: true,
+    contextLimit: 128_000,
+    outputLimit: 16_000,
+    costPer1MInput,
+    costPer1MOutput,
+  };
+}
+
+describe("CostEstimator", () => {
+  it("uses priors before anything is observed", () => {
+    const est = new CostEstimator();
+    const usage = est.expectedUsage("a", "write");
+    expect(usage.inputTokens).toBeGreaterThan(0);
+    expect(usage.outputTokens).toBeGreaterThan(0);
+  });
+
+  it("averages observed usage per model and step", () => {
+    const est = new CostEstimator();
+    est.observe("a", "write", { inputTokens: 100, outputTokens: 1000 });
+    est.observe("a", "write", { inputTokens: 300, outputTokens: 3000 });
+    expect(est.expectedUsage("a", "write")).toEqual({ inputTokens: 200, outputTokens: 2000 });
+  });
+
+  it("falls back to the step average for unobserved models", () => {
+    const est = new CostEstimator();
+    est.observe("a", "judge", { inputTokens: 1000, outputTokens: 10 });
+    est.observe("b", "judge", { inputTokens: 3000, outputTokens: 30 });
+    expect(est.expectedUsage("c", "judge")).toEqual({ inputTokens: 2000, outputTokens: 20 });
+    // Other steps are unaffected
+    expect(est.expectedUsage("c", "write")).toEqual(new CostEstimator().expectedUsage("c", "write"));
+  });
+
+  it("prices expected usage with model info", () => {
+    const est = new CostEstimator({ a: makeInfo(1, 10) });
+    est.observe("a", "judge", { inputTokens: 1_000_000, outputTokens: 100_000 });
+    expect(est.stepCost("a", "judge")).toBeCloseTo(2, 10);
+  });
+
+  it("costs zero for models without pricing", () => {
+    const est = new CostEstimator();
+    expect(est.stepCost("a", "write")).toBe(0);
+  });
+
+  it("picks up model info set after construction", () => {
+    const est = new CostEstimator();
+    est.observe("a", "write", { inputTokens: 0, outputTokens: 1_000_000 });
+    est.setModelInfo({ a: makeInfo(0, 5) });
+    expect(est.stepCost("a", "write")).toBeCloseTo(5, 10);
+  });
+});
@@ -0,0 +1,74 @@
+import { calculateCost } from "../providers/models.js";
+import type { ModelInfo, TokenUsage } from "../types.js";
+
+// ── Cost Model ──────────────────────────────────────
+
+/** One API call in a need's cascade. */
+export type CostStep = "write" | "feedback" | "revise" | "judge";
+
+/** Prices one cascade step for a model, in USD. */
+export type StepCostFn = (model: string, step: CostStep) => number;
+
+/**
+ * Token counts assumed before any call of a step has been observed.
+ * Rough figures for a ~1000-word piece; replaced by running averages
+ * as soon as real usage (fresh or cached) is seen.
+ */
+const PRIOR_TOKENS: Record<CostStep, { input: number; output: number }> = {
+  write:    { input: 300,  output: 1500 },
+  feedback: { input: 1800, output: 800 },
+  revise:   { input: 3000, output: 1500 },
+  judge:    { input: 3500, output: 150 },
+};
+
+/** [inputTokens, outputTokens, calls] */
+type TokenAccum = [number, number, number];
+
+function addUsage<K>(map: Map<K, TokenAccum>, key: K, usage: TokenUsage): void {
+  const acc = map.get(key) ?? [0, 0, 0];
+  acc[0] += usage.inputTokens;
+  acc[1] += usage.outputTokens;
+  acc[2] += 1;
+  map.set(key, acc);
+}
+
+/**
+ * Running estimate of what each cascade step costs per model, built
+ * from token usage seen so far and priced with models.dev rates.
+ *
+ * Average tokens are tracked per (model, step), falling back to the
+ * average across all models for that step, then to PRIOR_TOKENS.
+ * Cached artifacts are observed too: their usage is representative of
+ * what a fresh call would cost even though this run paid nothing.
+ */
+export class CostEstimator {
+  private byModel = new Map<string, TokenAccum>();
+  private byStep = new Map<CostStep, TokenAccum>();
+
+  constructor(private modelInfo: Record<string, ModelInfo> = {}) {}
+
+  /** Replace pricing metadata (fetched after construction in run()). */
+  setModelInfo(modelInfo: Record<string, ModelInfo>): void {
+    this.modelInfo = modelInfo;
+  }
+
+  /** Record the token usage of one completed (or cached) call. */
+  observe(model: string, step: CostStep, usage: TokenUsage): void {
+    addUsage(this.byModel, `${model}:${step}`, usage);
+    addUsage(this.byStep, step, usage);
+  }
+
+  /** Expected token usage of one call. */
+  expectedUsage(model: string, step: CostStep): TokenUsage {
+    const acc = this.byModel.get(`${model}:${step}`) ?? this.byStep.get(step);
+    if (!acc || acc[2] === 0) {
+      const prior = PRIOR_TOKENS[step];
+      return { inputTokens: prior.input, outputTokens: prior.output };
+    }
+    return { inputTokens: acc[0] / acc[2], outputTokens: acc[1] / acc[2] };
+  }
+
+  /** Expected USD cost of one call. Zero for models without pricing. */
+  stepCost: StepCostFn = (model, step) =>
+    calculateCost(this.modelInfo[model] ?? null, this.expectedUsage(model, step)).total;
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "bun:test";
+import { calibrateAgainstGold, computeGoldAgreement, resolveGoldPairs } from "./gold.js";
+import type { PairwiseJudgment, WritingSample } from "../types.js";
+
+function sample(id: string, text: string, promptId = "p1", stage: "initial" | "revised" = "initial"): WritingSample {
+  return {
+    id, model: `m-${id}`, promptId, outputIndex: 0, text, stage,
+    usage: { inputTokens: 0, outputTokens: 0 },
+    cost: { input: 0, output: 0, total: 0, totalUncached: 0 },
+    latencyMs: 0,
+  };
+}
+
+function judgment(
+  judge: string,
+  sampleA: string,
+  sampleB: string,
+  winner: "A" | "B" | "tie",
+  extra: Partial<PairwiseJudgment> = {},
+): PairwiseJudgment {
+  return {
+    id: `${judge}-${sampleA}-${sampleB}`, judgeModel: judge, promptId: "p1",
+    sampleA, sampleB, winner, reasoning: "", stage: "initial",
+    usage: { inputTokens: 0, outputTokens: 0 },
+    cost: { input: 0, output: 0, total: 0, totalUncached: 0 },
+    latencyMs: 0,
+    ...extra,
+  };
+}
+
+const samples = [
+  sample("s1", "First story."),
+  sample("s2", "Second story."),
+  sample("s3", "Third story."),
+  sample("s4", "First story.", "p2"),
+];
+
+describe("resolveGoldPairs", () => {
+  it("matches sides by ID or trimmed text", () => {
+    const resolved = resolveGoldPairs([
+      { sampleA: "s1", sampleB: "s2", winner: "A" },
+      { textA: "  Third story.\n", sampleB: "s2", winner: "B" },
+    ], samples);
+    expect(resolved).toEqual([
+      { sampleA: "s1", sampleB: "s2", winner: "A" },
+      { sampleA: "s3", sampleB: "s2", winner: "B" },
+    ]);
+  });
+
+  it("pairs text matches within one prompt", () => {
+    const resolved = resolveGoldPairs([{ textA: "First story.", sampleB: "s2", winner: "tie" }], samples);
+    expect(resolved).toEqual([{ sampleA: "s1", sampleB: "s2", winner: "tie" }]);
+  });
+
+  it("drops pairs that don't match", () => {
+    expect(resolveGoldPairs([
+      { sampleA: "missing", sampleB: "s2", winner: "A" },
+      { textA: "Unknown.", sampleB: "s2", winner: "A" },
+      { sampleA: "s1", sampleB: "s4", winner: "A" },
+      { promptId: "p2", sampleA: "s1", sampleB: "s2", winner: "A" },
+    ], samples)).toEqual([]);
+  });
+});
+
+describe("computeGoldAgreement", () => {
+  const gold = [
+    { sampleA: "s1", sampleB: "s2", winner: "A" as const },
+    { sampleA: "s2", sampleB: "s3", winner: "B" as const },
+  ];
+
+  it("compares verdicts in the gold pair's orientation", () => {
+    const result = computeGoldAgreement([
+      judgment("j1", "s2", "s1", "B"),
+      judgment("j1", "s2", "s3", "B"),
+      judgment("j2", "s1", "s2", "B"),
+      judgment("j2", "s3", "s2", "tie"),
+    ], gold, ["j1", "j2"]);
+    expect(result.map((a) => [a.judge, a.pairs, a.agreed])).toEqual([["j1", 2, 2], ["j2", 2, 0]]);
+    expect(result[0].agreement).toBe(1);
+    expect(result[0].kappa).toBe(1);
+  });
+
+  it("measures position consistency from both-order judgments", () => {
+    const result = computeGoldAgreement([
+      judgment("j1", "s1", "s2", "A", { orderWinners: ["A", "A"] }),
+      judgment("j1", "s2", "s3", "tie", { orderWinners: ["A", "B"] }),
+    ], gold, ["j1"]);
+    expect(result[0].bothOrders).toBe(2);
+    expect(result[0].positionConsistency).toBe(0.5);
+  });
+
+  it("skips other judges, non-gold pairs and constraint losses", () => {
+    const result = computeGoldAgreement([
+      judgment("human:ann", "s1", "s2", "A"),
+      judgment("j1", "s1", "s3", "A"),
+      judgment("j1", "s1", "s2", "B", { constraintLoss: true }),
+    ], gold, ["j1"]);
+    expect(result).toEqual([]);
+  });
+});
+
+describe("calibrateAgainstGold", () => {
+  it("reports matched pairs alongside judge agreement", () => {
+    const result = calibrateAgainstGold(
+      [{ sampleA: "s1", sampleB: "s2", winner: "A" }, { sampleA: "x", sampleB: "s2", winner: "A" }],
+      samples,
+      [judgment("j1", "s1", "s2", "A", { positionSwapped: true })],
+      ["j1"],
+    );
+    expect(result.pairs).toBe(2);
+    expect(result.matched).toBe(1);
+    expect(result.judges[0]).toMatchObject({ judge: "j1", agreement: 1, positionConsistency: null });
+  });
+});
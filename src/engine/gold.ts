@@ -0,0 +1,143 @@
+import type {
+  GoldAgreement,
+  GoldCalibration,
+  GoldPair,
+  PairwiseJudgment,
+  WritingSample,
+} from "../types.js";
+import { cohensKappa } from "./judge-agreement.js";
+
+type Verdict = "A" | "B" | "tie";
+
+/** A gold pair matched to two samples of a run. */
+export interface ResolvedGoldPair {
+  sampleA: string;
+  sampleB: string;
+  winner: Verdict;
+}
+
+// ── Resolution ──────────────────────────────────────
+
+/** Samples a gold side may refer to: by ID, else by exact (trimmed) text. */
+function candidates(
+  id: string | undefined,
+  text: string | undefined,
+  byId: Map<string, WritingSample>,
+  byText: Map<string, WritingSample[]>,
+): WritingSample[] {
+  if (id != null) {
+    const s = byId.get(id);
+    return s ? [s] : [];
+  }
+  return byText.get(text!.trim()) ?? [];
+}
+
+/**
+ * Match gold pairs to samples. Both sides must be different samples of
+ * the same prompt and stage; pairs that don't match are dropped.
+ */
+export function resolveGoldPairs(
+  pairs: GoldPair[],
+  samples: WritingSample[],
+): ResolvedGoldPair[] {
+  const byId = new Map(samples.map((s) => [s.id, s]));
+  const byText = new Map<string, WritingSample[]>();
+  for (const s of samples) {
+    const key = s.text.trim();
+    const list = byText.get(key);
+    if (list) list.push(s);
+    else byText.set(key, [s]);
+  }
+
+  const resolved: ResolvedGoldPair[] = [];
+  for (const p of pairs) {
+    const inPrompt = (s: WritingSample) => p.promptId == null || s.promptId === p.promptId;
+    const as = candidates(p.sampleA, p.textA, byId, byText).filter(inPrompt);
+    const bs = candidates(p.sampleB, p.textB, byId, byText).filter(inPrompt);
+    const match = as.flatMap((a) => bs.map((b) => [a, b] as const)).find(([a, b]) =>
+      a.id !== b.id && a.promptId === b.promptId && a.stage === b.stage);
+    if (match) resolved.push({ sampleA: match[0].id, sampleB: match[1].id, winner: p.winner });
+  }
+  return resolved;
+}
+
+// ── Agreement ───────────────────────────────────────
+
+function flip(v: Verdict): Verdict {
+  return v === "A" ? "B" : v === "B" ? "A" : "tie";
+}
+
+/**
+ * Each judge's agreement, Cohen's kappa and position consistency on the
+ * gold pairs. Verdicts are compared in the gold pair's orientation;
+ * constraint losses are skipped since no judge was called. Only judges
+ * in `judgeLabels` with at least one judged gold pair are returned,
+ * sorted by descending agreement.
+ */
+export function computeGoldAgreement(
+  judgments: PairwiseJudgment[],
+  gold: ResolvedGoldPair[],
+  judgeLabels: string[],
+): GoldAgreement[] {
+  const goldByPair = new Map<string, ResolvedGoldPair>();
+  for (const g of gold) {
+    goldByPair.set(`${g.sampleA}:${g.sampleB}`, g);
+    goldByPair.set(`${g.sampleB}:${g.sampleA}`, g);
+  }
+
+  const judges = new Set(judgeLabels);
+  const verdicts = new Map<string, [Verdict, Verdict][]>();
+  const orders = new Map<string, { both: number; consistent: number }>();
+  for (const j of judgments) {
+    if (j.constraintLoss || !judges.has(j.judgeModel)) continue;
+    const g = goldByPair.get(`${j.sampleA}:${j.sampleB}`);
+    if (!g) continue;
+    const aligned = j.sampleA === g.sampleA;
+    const verdict = aligned ? j.winner : flip(j.winner);
+
+    let list = verdicts.get(j.judgeModel);
+    if (!list) {
+      list = [];
+      verdicts.set(j.judgeModel, list);
+    }
+    list.push([verdict, g.winner]);
+
+    if (j.orderWinners) {
+      const o = orders.get(j.judgeModel) ?? { both: 0, consistent: 0 };
+      o.both++;
+      if (j.orderWinners[0] === j.orderWinners[1]) o.consistent++;
+      orders.set(j.judgeModel, o);
+    }
+  }
+
+  const result: GoldAgreement[] = [];
+  for (const [judge, list] of verdicts) {
+    const agreed = list.filter(([v, w]) => v === w).length;
+    const o = orders.get(judge);
+    result.push({
+      judge,
+      pairs: list.length,
+      agreed,
+      agreement: agreed / list.length,
+      kappa: cohensKappa(list),
+      bothOrders: o?.both ?? 0,
+      positionConsistency: o ? o.consistent / o.both : null,
+    });
+  }
+  return result.sort((a, b) => b.agreement - a.agreement || a.judge.localeCompare(b.judge));
+}
+
+/** Resolve a gold set against a run's samples and measure its judges. */
+export function calibrateAgainstGold(
+  pairs: GoldPair[],
+  samples: WritingSample[],
+  judgments: PairwiseJudgment[],
+  judgeLabels: string[],
+): GoldCalibration {
+  const resolved = resolveGoldPairs(pairs, samples);
+  return {
+    pairs: pairs.length,
+    matched: resolved.length,
+    judges: computeGoldAgreement(judgments, resolved, judgeLabels),
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "bun:test";
+import { buildHumanJudgment, humanJudgeLabel, nextHumanPair, parseVoteRequest } from "./human-judge.js";
+import { createRunConfig } from "../config.js";
+import { DEFAULT_CONVERGENCE } from "../types.js";
+import type { PairwiseJudgment, RunResult, WritingSample } from "../types.js";
+
+const ZERO = {
+  usage: { inputTokens: 0, outputTokens: 0 },
+  cost: { input: 0, output: 0, total: 0, totalUncached: 0 },
+  latencyMs: 0,
+};
+
+function sample(id: string, model: string, promptId: string, stage: "initial" | "revised" = "initial"): WritingSample {
+  return { id, model, promptId, outputIndex: 0, text: id, stage, ...ZERO };
+}
+
+function vote(judgeModel: string, sampleA: string, sampleB: string): PairwiseJudgment {
+  return {
+    id: `${sampleA}-${sampleB}`, judgeModel, promptId: "p1", sampleA, sampleB,
+    winner: "A", reasoning: "", stage: "initial", ...ZERO,
+  };
+}
+
+function makeRun(judgments: PairwiseJudgment[] = []): RunResult {
+  const model = (label: string) => ({ provider: "openai" as const, model: label, label, registryId: `openai:${label}` });
+  const prompt = (id: string) => ({ id, name: id, tags: ["essay"], description: "", prompt: id, judgingCriteria: [] });
+  return {
+    config: {
+      id: "run-1",
+      models: [model("m1"), model("m2")],
+      prompts: [prompt("p1"), prompt("p2")],
+      outputsPerModel: 1,
+      reasoning: false,
+      noCache: false,
+      cacheOnly: false,
+      skipSeeding: false,
+      concurrency: 1,
+      timestamp: "2026-01-01T00:00:00.000Z",
+      convergence: DEFAULT_CONVERGENCE,
+    },
+    samples: [
+      sample("a1", "m1", "p1"), sample("b1", "m2", "p1"),
+      sample("a2", "m1", "p2"), sample("r1", "m1", "p1", "revised"),
+    ],
+    feedback: [],
+    judgments,
+    elo: { initial: { stage: "initial", ratings: [] }, revised: { stage: "revised", ratings: [] } },
+    meta: {
+      totalTokens: 0, totalCost: 0, totalCostUncached: 0,
+      costByModel: {}, costByStage: {}, costByModelByStage: {}, speedByModel: {}, durationMs: 0,
+    },
+    modelInfo: {},
+  };
+}
+
+describe("humanJudgeLabel", () => {
+  it("prefixes valid names and rejects unsafe ones", () => {
+    expect(humanJudgeLabel(" alice ")).toBe("human:alice");
+    expect(() => humanJudgeLabel("")).toThrow();
+    expect(() => humanJudgeLabel("../x")).toThrow();
+  });
+});
+
+describe("nextHumanPair", () => {
+  it("picks a pair of existing initial samples by different models", () => {
+    const pair = nextHumanPair(makeRun(), "human:alice", () => 0);
+    expect(pair).not.toBeNull();
+    expect(pair!.promptId).toBe("p1");
+    expect([pair!.sampleA.id, pair!.sampleB.id].sort()).toEqual(["a1", "b1"]);
+  });
+
+  it("bounds output indices by the run's samples under default config", () => {
+    const run = makeRun();
+    run.config = createRunConfig({ models: run.config.models, prompts: run.config.prompts });
+    run.samples.push({ ...sample("b2", "m2", "p1"), outputIndex: 1 });
+    const pair = nextHumanPair(run, "human:alice", () => 0);
+    expect(pair).not.toBeNull();
+    expect(pair!.promptId).toBe("p1");
+  });
+
+  it("skips pairs the voter already judged", () => {
+    expect(nextHumanPair(makeRun([vote("human:alice", "b1", "a1")]), "human:alice")).toBeNull();
+    expect(nextHumanPair(makeRun([vote("human:bob", "a1", "b1")]), "human:alice")).not.toBeNull();
+  });
+});
+
+describe("buildHumanJudgment", () => {
+  it("records the vote relative to display order", () => {
+    const j = buildHumanJudgment(makeRun(), "human:alice", {
+      sampleA: "b1", sampleB: "a1", winner: "B", reasoning: " clearer ", latencyMs: 1234.4,
+    });
+    expect(j).toMatchObject({
+      judgeModel: "human:alice", promptId: "p1", sampleA: "b1", sampleB: "a1",
+      winner: "B", reasoning: "clearer", stage: "initial", positionSwapped: false, latencyMs: 1234,
+    });
+  });
+
+  it("validates posted votes", () => {
+    expect(parseVoteRequest({ sampleA: "a1", sampleB: "b1", winner: "tie", voter: "alice", latencyMs: 10 }))
+      .toEqual({ sampleA: "a1", sampleB: "b1", winner: "tie", voter: "alice", latencyMs: 10 });
+    expect(() => parseVoteRequest({ sampleA: "a1", sampleB: "b1", winner: "A", latencyMs: "slow" }))
+      .toThrow("Invalid vote: latencyMs");
+    expect(() => parseVoteRequest({ sampleA: "a1", sampleB: "b1", winner: "A", reasoning: 3 }))
+      .toThrow("reasoning");
+    expect(() => parseVoteRequest(null)).toThrow("Invalid vote");
+  });
+
+  it("rejects invalid pairs and repeat votes", () => {
+    const run = makeRun([vote("human:alice", "a1", "b1")]);
+    const build = (sampleA: string, sampleB: string) =>
+      () => buildHumanJudgment(run, "human:alice", { sampleA, sampleB, winner: "A" });
+    expect(build("a1", "zz")).toThrow("Unknown sample");
+    expect(build("a1", "r1")).toThrow("Only initial samples");
+    expect(build("a1", "a2")).toThrow("different prompts");
+    expect(build("b1", "a1")).toThrow("Already voted");
+  });
+});
@@ -0,0 +1,254 @@
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import type { ModelConfig, PairwiseJudgment, ProviderName, RunResult, WritingSample } from "../types.js";
+import { computeWhr, judgmentsToGames, runGradeResults } from "./whr.js";
+import { emptyCompletedWork, identifyNeeds, judgmentKey, sampleKey } from "./need-identifier.js";
+import type { Need } from "./need-identifier.js";
+import type { Random } from "./random.js";
+import { SampleCache, type CachedJudgment } from "../storage/sample-cache.js";
+import { saveRun } from "../storage/run-store.js";
+import { addCumulativeJudgments } from "../storage/elo-store.js";
+
+/** Judge labels of human voters start with this prefix. */
+export const HUMAN_JUDGE_PREFIX = "human:";
+
+/** Cache provider key under which human votes are stored. */
+const HUMAN_CACHE_PROVIDER = "human";
+
+/** Candidate needs considered per pick; the best-scoring one is shown. */
+const PICK_BATCH_SIZE = 16;
+
+/** A blind pair for a human to vote on, in display order. */
+export interface HumanPair {
+  promptId: string;
+  sampleA: WritingSample;
+  sampleB: WritingSample;
+}
+
+/** A human's verdict on a pair, relative to the order it was shown in. */
+export interface HumanVote {
+  sampleA: string;
+  sampleB: string;
+  winner: "A" | "B" | "tie";
+  reasoning?: string;
+  latencyMs?: number;
+}
+
+/** A vote as posted by the voting page: the vote plus its run and voter. */
+export interface VoteRequest extends HumanVote {
+  /** Run ID; the latest run when absent. */
+  run?: string;
+  voter?: string;
+}
+
+const VoteRequestSchema = z.object({
+  sampleA: z.string(),
+  sampleB: z.string(),
+  winner: z.enum(["A", "B", "tie"]),
+  reasoning: z.string().max(10_000).optional(),
+  latencyMs: z.number().finite().nonnegative().optional(),
+  run: z.string().optional(),
+  voter: z.string().optional(),
+});
+
+// ── Labels ──────────────────────────────────────────
+
+/**
+ * Judge label for a human voter: `human:<name>`. Names are limited to
+ * letters, digits, `_`, `.` and `-` so they are safe as cache keys.
+ */
+export function humanJudgeLabel(name: string): string {
+  const trimmed = name.trim();
+  if (!/^[\w.-]{1,40}$/.test(trimmed)) {
+    throw new Error("Voter name must be 1-40 letters, digits, '_', '.' or '-'");
+  }
+  return `${HUMAN_JUDGE_PREFIX}${trimmed}`;
+}
+
+// ── Pair Selection ──────────────────────────────────
+
+/**
+ * Pick the initial-stage pair from `run` whose vote would tell us the
+ * most, using identifyNeeds with `judgeLabel` as the only judge. Ratings
+ * come from this voter's own earlier votes, so a new voter starts with
+ * every pair open and pairs they have already separated drop out. Pairs
+ * the voter has already judged are skipped. Returns null when nothing is
+ * left to vote on. The display order is randomized. Output indices are
+ * bounded by the samples the run has, not `outputsPerModel`, which is
+ * unbounded by default.
+ */
+export function nextHumanPair(
+  run: RunResult,
+  judgeLabel: string,
+  random: Random = Math.random,
+): HumanPair | null {
+  const { models, prompts } = run.config;
+
+  const samples = new Map<string, WritingSample>();
+  let outputsPerModel = 0;
+  for (const s of run.samples) {
+    if (s.stage !== "initial") continue;
+    samples.set(sampleKey(s.model, s.promptId, s.outputIndex), s);
+    outputsPerModel = Math.max(outputsPerModel, s.outputIndex + 1);
+  }
+  const sampleById = new Map(run.samples.map((s) => [s.id, s]));
+
+  const completedWork = emptyCompletedWork();
+  for (const m of models) {
+    for (const p of prompts) {
+      for (let oi = 0; oi < outputsPerModel; oi++) {
+        const key = sampleKey(m.label, p.id, oi);
+        if (!samples.has(key)) completedWork.missingSamples.add(key);
+      }
+    }
+  }
+
+  const votes = run.judgments.filter((j) => j.judgeModel === judgeLabel && j.stage === "initial");
+  for (const j of votes) {
+    const a = sampleById.get(j.sampleA);
+    const b = sampleById.get(j.sampleB);
+    if (!a || !b) continue;
+    completedWork.judgments.add(
+      judgmentKey("initial", a.model, b.model, j.promptId, judgeLabel, a.outputIndex, b.outputIndex),
+    );
+  }
+
+  const sampleToModel = new Map(run.samples.map((s) => [s.id, s.model]));
+  const { ratings } = computeWhr(
+    judgmentsToGames(votes, sampleToModel, undefined, undefined, runGradeResults(run.config)),
+  );
+
+  // identifyNeeds only reads a judge's label
+  const judge: ModelConfig = {
+    provider: HUMAN_CACHE_PROVIDER as ProviderName,
+    model: judgeLabel.slice(HUMAN_JUDGE_PREFIX.length),
+    label: judgeLabel,
+    registryId: judgeLabel,
+  };
+  const { needs } = identifyNeeds(
+    ratings, [], [], completedWork, models, [judge], prompts,
+    run.config.convergence, PICK_BATCH_SIZE, outputsPerModel,
+  );
+
+  let best: Extract<Need, { type: "initial_judgment" }> | undefined;
+  for (const need of needs) {
+    if (need.type === "initial_judgment" && (!best || need.score > best.score)) best = need;
+  }
+  if (!best) return null;
+
+  const a = samples.get(sampleKey(best.modelA, best.promptId, best.outputIdxA))!;
+  const b = samples.get(sampleKey(best.modelB, best.promptId, best.outputIdxB))!;
+  return random() < 0.5
+    ? { promptId: best.promptId, sampleA: a, sampleB: b }
+    : { promptId: best.promptId, sampleA: b, sampleB: a };
+}
+
+// ── Recording ───────────────────────────────────────
+
+/** Validate a posted vote. Throws with every problem found. */
+export function parseVoteRequest(body: unknown): VoteRequest {
+  const parsed = VoteRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`);
+    throw new Error(`Invalid vote: ${problems.join("; ")}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Turn a vote into a judgment on `run`. Throws when the samples are not
+ * two initial samples of the same prompt by different models, or when
+ * the voter has already judged the pair.
+ */
+export function buildHumanJudgment(
+  run: RunResult,
+  judgeLabel: string,
+  vote: HumanVote,
+): PairwiseJudgment {
+  const a = run.samples.find((s) => s.id === vote.sampleA);
+  const b = run.samples.find((s) => s.id === vote.sampleB);
+  if (!a || !b) throw new Error("Unknown sample");
+  if (a.stage !== "initial" || b.stage !== "initial") throw new Error("Only initial samples can be voted on");
+  if (a.promptId !== b.promptId) throw new Error("Samples are for different prompts");
+  if (a.model === b.model) throw new Error("Samples are by the same model");
+  if (!["A", "B", "tie"].includes(vote.winner)) throw new Error(`Invalid winner: ${vote.winner}`);
+
+  const voted = run.judgments.some((j) =>
+    j.judgeModel === judgeLabel && j.stage === "initial" &&
+    ((j.sampleA === a.id && j.sampleB === b.id) || (j.sampleA === b.id && j.sampleB === a.id)));
+  if (voted) throw new Error("Already voted on this pair");
+
+  return {
+    id: nanoid(),
+    judgeModel: judgeLabel,
+    promptId: a.promptId,
+    sampleA: a.id,
+    sampleB: b.id,
+    winner: vote.winner,
+    reasoning: vote.reasoning?.trim() ?? "",
+    stage: "initial",
+    // sampleA is the one shown first
+    positionSwapped: false,
+    usage: { inputTokens: 0, outputTokens: 0 },
+    cost: { input: 0, output: 0, total: 0, totalUncached: 0 },
+    latencyMs: Math.max(0, Math.round(vote.latencyMs ?? 0)),
+  };
+}
+
+/**
+ * Cache ID of an initial sample, found by matching its text against the
+ * writer's cached outputs for the prompt. Runs don't store cache IDs.
+ */
+async function findWriteCacheId(
+  cache: SampleCache,
+  run: RunResult,
+  sample: WritingSample,
+): Promise<string | undefined> {
+  const model = run.config.models.find((m) => m.label === sample.model);
+  const prompt = run.config.prompts.find((p) => p.id === sample.promptId);
+  if (!model || !prompt) return undefined;
+  const writes = await cache.getCachedWrites(model.provider, model.model, prompt.prompt);
+  return writes.find((w) => w.text === sample.text)?.cacheId;
+}
+
+/**
+ * Save a human judgment with its run, in the sample cache (under the
+ * `human` provider, when both samples are still cached) and in the
+ * cumulative ratings. The run's `elo` snapshot is left as the run
+ * computed it (it depends on judge weights fitted during the run), so
+ * it excludes human votes; they count in the cumulative ratings.
+ */
+export async function recordHumanJudgment(
+  run: RunResult,
+  judgment: PairwiseJudgment,
+  cache: SampleCache = new SampleCache(),
+): Promise<void> {
+  run.judgments.push(judgment);
+  await saveRun(run);
+
+  const a = run.samples.find((s) => s.id === judgment.sampleA)!;
+  const b = run.samples.find((s) => s.id === judgment.sampleB)!;
+  const [cacheIdA, cacheIdB] = await Promise.all([
+    findWriteCacheId(cache, run, a),
+    findWriteCacheId(cache, run, b),
+  ]);
+  if (cacheIdA && cacheIdB) {
+    const entry: CachedJudgment = {
+      cacheId: judgment.id,
+      winner: judgment.winner,
+      reasoning: judgment.reasoning,
+      stage: judgment.stage,
+      positionSwapped: judgment.positionSwapped,
+      usage: judgment.usage,
+      cost: judgment.cost,
+      latencyMs: judgment.latencyMs,
+      createdAt: new Date().toISOString(),
+    };
+    await cache.addCachedJudgment(
+      HUMAN_CACHE_PROVIDER, judgment.judgeModel.slice(HUMAN_JUDGE_PREFIX.length),
+      judgment.stage, cacheIdA, cacheIdB, entry,
+    );
+  }
+
+  await addCumulativeJudgments(run, [judgment]);
+}
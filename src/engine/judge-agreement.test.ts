@@ -0,0 +1,122 @@
+import { describe, it, expect } from "bun:test";
+import { cohensKappa, computeJudgeAgreement, krippendorffAlpha, poolRunJudgments } from "./judge-agreement.js";
+import type { PairwiseJudgment } from "../types.js";
+
+function judgment(
+  judge: string,
+  sampleA: string,
+  sampleB: string,
+  winner: "A" | "B" | "tie",
+  stage: PairwiseJudgment["stage"] = "initial",
+): PairwiseJudgment {
+  return {
+    id: `${judge}-${sampleA}-${sampleB}`, judgeModel: judge, promptId: "p1",
+    sampleA, sampleB, winner, reasoning: "", stage,
+    usage: { inputTokens: 0, outputTokens: 0 },
+    cost: { input: 0, output: 0, total: 0, totalUncached: 0 },
+    latencyMs: 0,
+  };
+}
+
+describe("cohensKappa", () => {
+  it("is 1 for perfect agreement and 0 at chance", () => {
+    expect(cohensKappa([["A", "A"], ["B", "B"]])).toBe(1);
+    expect(cohensKappa([["A", "A"], ["A", "B"], ["B", "A"], ["B", "B"]])).toBe(0);
+  });
+
+  it("is null when both raters use a single category", () => {
+    expect(cohensKappa([["A", "A"], ["A", "A"]])).toBeNull();
+    expect(cohensKappa([])).toBeNull();
+  });
+});
+
+describe("krippendorffAlpha", () => {
+  it("is 1 for perfect agreement", () => {
+    expect(krippendorffAlpha([["A", "A", "A"], ["B", "B"], ["tie", "tie"]])).toBe(1);
+  });
+
+  it("corrects chance agreement for small samples", () => {
+    // Same data as the kappa = 0 case: alpha = 1 - 7 * 4 / 32
+    expect(krippendorffAlpha([["A", "A"], ["A", "B"], ["B", "A"], ["B", "B"]])).toBeCloseTo(0.125, 10);
+  });
+
+  it("ignores units with a single verdict", () => {
+    expect(krippendorffAlpha([["A", "A"], ["B", "B"], ["A"]])).toBe(1);
+  });
+
+  it("is null when verdicts never vary", () => {
+    expect(krippendorffAlpha([["A", "A"], ["A", "A"]])).toBeNull();
+    expect(krippendorffAlpha([])).toBeNull();
+  });
+});
+
+describe("computeJudgeAgreement", () => {
+  it("builds a per-stage pair matrix from shared instances", () => {
+    const report = computeJudgeAgreement([
+      judgment("j1", "s1", "s2", "A"),
+      judgment("j2", "s2", "s1", "B"), // same verdict, other order
+      judgment("j3", "s1", "s2", "B"),
+      judgment("j1", "s3", "s4", "A"),
+      judgment("j2", "s3", "s4", "B"),
+      judgment("j1", "s5", "s6", "A"), // single judge: not an instance
+      judgment("j1", "r1", "r2", "tie", "revised"),
+      judgment("j2", "r1", "r2", "tie", "revised"),
+    ]);
+
+    expect(report.map((s) => s.stage)).toEqual(["initial", "revised"]);
+    const initial = report[0];
+    expect(initial.instances).toBe(2);
+    expect(initial.judges).toEqual(["j1", "j2", "j3"]);
+    expect(initial.pairs.map((p) => [p.judgeA, p.judgeB, p.instances, p.agreement])).toEqual([
+      ["j1", "j2", 2, 0.5],
+      ["j1", "j3", 1, 0],
+      ["j2", "j3", 1, 0],
+    ]);
+    expect(report[1].pairs[0].agreement).toBe(1);
+  });
+
+  it("reports every revision round, in order", () => {
+    const report = computeJudgeAgreement([
+      judgment("j1", "i1", "i2", "A", "improvement"),
+      judgment("j2", "i1", "i2", "A", "improvement"),
+      judgment("j1", "t1", "t2", "A", "revised-2"),
+      judgment("j2", "t1", "t2", "B", "revised-2"),
+      judgment("j1", "s1", "s2", "A"),
+      judgment("j2", "s1", "s2", "A"),
+    ]);
+    expect(report.map((s) => s.stage)).toEqual(["initial", "revised-2", "improvement"]);
+  });
+
+  it("ignores constraint losses", () => {
+    const report = computeJudgeAgreement([
+      judgment("j1", "s1", "s2", "A"),
+      { ...judgment("j2", "s1", "s2", "A"), constraintLoss: true },
+    ]);
+    expect(report).toEqual([]);
+  });
+});
+
+describe("poolRunJudgments", () => {
+  const sample = (id: string, text: string) => ({
+    id, model: "m", promptId: "p1", outputIndex: 0, text, stage: "initial" as const,
+    usage: { inputTokens: 0, outputTokens: 0 },
+    cost: { input: 0, output: 0, total: 0, totalUncached: 0 },
+    latencyMs: 0,
+  });
+
+  it("counts a rerun's judgments of the same samples once", () => {
+    const first = {
+      samples: [sample("s1", "one"), sample("s2", "two")],
+      judgments: [judgment("j1", "s1", "s2", "A"), judgment("j2", "s1", "s2", "B")],
+    };
+    // A cache-sharing rerun: same texts under fresh IDs, plus a repeat under the old IDs
+    const rerun = {
+      samples: [sample("x1", "one"), sample("x2", "two")],
+      judgments: [judgment("j1", "x2", "x1", "B"), judgment("j2", "x1", "x2", "B"), judgment("j1", "s1", "s2", "A")],
+    };
+
+    const pooled = poolRunJudgments([first, rerun]);
+    expect(pooled.map((j) => [j.judgeModel, j.sampleA, j.sampleB])).toEqual([["j1", "s1", "s2"], ["j2", "s1", "s2"]]);
+    expect(computeJudgeAgreement(pooled)[0].instances).toBe(1);
+  });
+});
@@ -0,0 +1,161 @@
+import type { JudgePairAgreement, JudgmentStage, PairwiseJudgment, RunResult, StageAgreement } from "../types.js";
+import { revisionRound } from "../types.js";
+import { groupByInstance } from "./judge-quality.js";
+
+type Verdict = "A" | "B" | "tie";
+
+const VERDICTS: Verdict[] = ["A", "B", "tie"];
+
+/** Report order: initial, then revision rounds in order, then improvement. */
+function stageOrder(stage: JudgmentStage): number {
+  return stage === "improvement" ? Infinity : revisionRound(stage);
+}
+
+// ── Statistics ──────────────────────────────────────
+
+/**
+ * Cohen's kappa between two raters' verdicts on the same items; null
+ * when chance agreement is 1 (both raters only ever use one category).
+ */
+export function cohensKappa(pairs: [Verdict, Verdict][]): number | null {
+  if (pairs.length === 0) return null;
+  const n = pairs.length;
+  const observed = pairs.filter(([x, y]) => x === y).length / n;
+  let expected = 0;
+  for (const c of VERDICTS) {
+    const px = pairs.filter(([x]) => x === c).length / n;
+    const py = pairs.filter(([, y]) => y === c).length / n;
+    expected += px * py;
+  }
+  if (expected >= 1) return null;
+  return (observed - expected) / (1 - expected);
+}
+
+/**
+ * Krippendorff's alpha for nominal data. Each unit holds the verdicts
+ * of the raters who judged it; units with fewer than two are ignored,
+ * so raters need not overlap fully. Null when every pairable verdict
+ * is the same category (no expected disagreement).
+ */
+export function krippendorffAlpha(units: Verdict[][]): number | null {
+  const totals = new Map<Verdict, number>();
+  let n = 0;
+  let observed = 0;
+  for (const unit of units) {
+    const m = unit.length;
+    if (m < 2) continue;
+    const counts = new Map<Verdict, number>();
+    for (const v of unit) counts.set(v, (counts.get(v) ?? 0) + 1);
+    let sameSquares = 0;
+    for (const [v, c] of counts) {
+      sameSquares += c * c;
+      totals.set(v, (totals.get(v) ?? 0) + c);
+    }
+    // Ordered pairs of differing verdicts, scaled by 1/(m - 1)
+    observed += (m * m - sameSquares) / (m - 1);
+    n += m;
+  }
+
+  let totalSquares = 0;
+  for (const c of totals.values()) totalSquares += c * c;
+  const expected = n * n - totalSquares;
+  if (expected === 0) return null;
+  return 1 - ((n - 1) * observed) / expected;
+}
+
+// ── Agreement Report ────────────────────────────────
+
+/**
+ * Judge-by-judge agreement for each stage with shared instances: raw
+ * agreement, Cohen's kappa and Krippendorff's alpha per judge pair,
+ * plus alpha across all judges. Instances come from groupByInstance,
+ * so constraint losses are excluded and verdicts are compared in
+ * canonical sample order.
+ */
+export function computeJudgeAgreement(judgments: PairwiseJudgment[]): StageAgreement[] {
+  const stages = [...new Set(judgments.map((j) => j.stage))].sort((a, b) => stageOrder(a) - stageOrder(b));
+  const report: StageAgreement[] = [];
+  for (const stage of stages) {
+    const instances = groupByInstance(judgments.filter((j) => j.stage === stage));
+    if (instances.size === 0) continue;
+
+    const shared = new Map<string, [Verdict, Verdict][]>();
+    const units: Verdict[][] = [];
+    for (const { verdicts } of instances.values()) {
+      units.push([...verdicts.values()]);
+      const judges = [...verdicts.keys()].sort();
+      for (let i = 0; i < judges.length; i++) {
+        for (let k = i + 1; k < judges.length; k++) {
+          const key = `${judges[i]}\u0000${judges[k]}`;
+          let list = shared.get(key);
+          if (!list) {
+            list = [];
+            shared.set(key, list);
+          }
+          list.push([verdicts.get(judges[i])!, verdicts.get(judges[k])!]);
+        }
+      }
+    }
+
+    const pairs: JudgePairAgreement[] = [];
+    const judges = new Set<string>();
+    for (const [key, list] of shared) {
+      const [judgeA, judgeB] = key.split("\u0000");
+      judges.add(judgeA);
+      judges.add(judgeB);
+      pairs.push({
+        judgeA,
+        judgeB,
+        instances: list.length,
+        agreement: list.filter(([a, b]) => a === b).length / list.length,
+        kappa: cohensKappa(list),
+        alpha: krippendorffAlpha(list),
+      });
+    }
+    pairs.sort((a, b) => a.judgeA.localeCompare(b.judgeA) || a.judgeB.localeCompare(b.judgeB));
+
+    report.push({
+      stage,
+      judges: [...judges].sort(),
+      instances: instances.size,
+      alpha: krippendorffAlpha(units),
+      pairs,
+    });
+  }
+  return report;
+}
+
+/**
+ * Judgments of several runs, pooled for a cumulative agreement report.
+ * Reruns that share cached outputs see the same sample under the same
+ * or a fresh ID, so samples are identified by prompt, stage and text
+ * (the first run's ID is kept) and each judge's first verdict on an
+ * instance is the only one counted.
+ */
+export function poolRunJudgments(runs: Pick<RunResult, "samples" | "judgments">[]): PairwiseJudgment[] {
+  const idByContent = new Map<string, string>();
+  const canonical = new Map<string, string>();
+  for (const run of runs) {
+    for (const s of run.samples) {
+      const key = `${s.promptId}\u0000${s.stage}\u0000${s.text}`;
+      const id = idByContent.get(key) ?? s.id;
+      idByContent.set(key, id);
+      canonical.set(s.id, id);
+    }
+  }
+
+  const seen = new Set<string>();
+  const pooled: PairwiseJudgment[] = [];
+  for (const run of runs) {
+    for (const j of run.judgments) {
+      const sampleA = canonical.get(j.sampleA) ?? j.sampleA;
+      const sampleB = canonical.get(j.sampleB) ?? j.sampleB;
+      const [first, second] = sampleA <= sampleB ? [sampleA, sampleB] : [sampleB, sampleA];
+      const key = `${j.judgeModel}\u0000${j.stage}\u0000${j.promptId}\u0000${first}\u0000${second}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      pooled.push({ ...j, sampleA, sampleB });
+    }
+  }
+  return pooled;
+}
@@ -1,17 +1,23 @@
 import { describe, it, expect } from "bun:test";
 import {
   computeSelfPreferenceBias,
+  computeKinPreferenceBias,
   computePositionBias,
   computeJudgeBias,
+  computeStyleBias,
   computeBiasCorrections,
   composeWeights,
+  countMarkdownElements,
+  kinRelation,
+  sampleStyle,
   MIN_SELF_JUDGMENTS,
   MIN_POSITION_JUDGMENTS,
+  MIN_STYLE_JUDGMENTS,
   BIAS_DEAD_ZONE,
 } from "./judge-bias.js";
 import type { JudgeBiasData } from "./judge-bias.js";
 import { MIN_JUDGE_WEIGHT } from "./judge-quality.js";
-import type { PairwiseJudgment } from "../types.js";
+import type { ModelConfig, ModelInfo, PairwiseJudgment } from "../types.js";
 
 // ── computeSelfPreferenceBias ───────────────────────
 
@@ -300,6 +306,60 @@ describe("computePositionBias", () => {
     expect(result.get("judge1")!.sufficient).toBe(false);
   });
 
+  it("splits graded judgments into strong and weak preferences", () => {
+    const judgments: PairwiseJudgment[] = [];
+    for (let i = 0; i < 8; i++) {
+      const swapped = i % 2 === 0;
+      // Weak preferences always go to presented-A; strong ones alternate
+      judgments.push({
+        ...makeJudgment(`w_${i}`, `sA_${i}`, `sB_${i}`, swapped ? "B" : "A", "judge1", "initial", "p1", swapped),
+        grade: swapped ? "B>A" : "A>B",
+      });
+      judgments.push({
+        ...makeJudgment(`s_${i}`, `sC_${i}`, `sD_${i}`, i < 4 ? "A" : "B", "judge1", "initial", "p1", false),
+        grade: i < 4 ? "A>>B" : "B>>A",
+      });
+    }
+    judgments.push({
+      ...makeJudgment("t", "sX", "sY", "tie", "judge1", "initial", "p1", false),
+      grade: "tie",
+    });
+
+    const bias = computePositionBias(judgments, ["judge1"]).get("judge1")!;
+    expect(bias.weakCount).toBe(8);
+    expect(bias.weakPositionARate).toBe(1.0);
+    expect(bias.strongCount).toBe(8);
+    expect(bias.strongPositionARate).toBe(0.5);
+    expect(bias.positionARate).toBe(0.75);
+  });
+
+  it("reports NaN strength rates without graded judgments", () => {
+    const bias = computePositionBias(
+      [makeJudgment("j1", "sA", "sB", "A", "judge1", "initial", "p1", false)],
+      ["judge1"],
+    ).get("judge1")!;
+    expect(bias.strongCount).toBe(0);
+    expect(bias.weakCount).toBe(0);
+    expect(bias.strongPositionARate).toBeNaN();
+    expect(bias.weakPositionARate).toBeNaN();
+  });
+
+  it("counts both presentations of dual-order judgments", () => {
+    const judgments: PairwiseJudgment[] = [];
+    for (let i = 0; i < MIN_POSITION_JUDGMENTS; i++) {
+      // Judge always picks whichever sample is shown first
+      judgments.push({
+        ...makeJudgment(`j_${i}`, `sA_${i}`, `sB_${i}`, "tie", "judge1"),
+        orderWinners: ["A", "B"],
+      });
+    }
+
+    const bias = computePositionBias(judgments, ["judge1"]).get("judge1")!;
+    expect(bias.positionKnownCount).toBe(MIN_POSITION_JUDGMENTS * 2);
+    expect(bias.positionARate).toBe(1.0);
+    expect(bias.sufficient).toBe(true);
+  });
+
   it("correctly interprets swapped=true winner=B as presented-A win", () => {
     // swapped=true, winner="B" → judge picked what was originally presented as A
     const judgments = [];
@@ -331,6 +391,67 @@ describe("computePositionBias", () => {
   });
 });
 
+// ── computeStyleBias ────────────────────────────────
+
+describe("countMarkdownElements", () => {
+  it("counts headings, list items and bold spans", () => {
+    const text = "# Title\n\nSome **bold** and __strong__ text.\n\n- one\n- two\n1. first\n";
+    expect(countMarkdownElements(text)).toBe(6);
+  });
+
+  it("ignores plain prose", () => {
+    expect(countMarkdownElements("A story about #hashtags and 3.5 apples - or *emphasis*.")).toBe(0);
+  });
+});
+
+describe("computeStyleBias", () => {
+  /** mA vs mB pairs; even pairs have the longer sample from mA. */
+  function setup(pick: (i: number, aLonger: boolean) => "A" | "B", baseline: (i: number) => "A" | "B") {
+    const judgments: PairwiseJudgment[] = [];
+    const sampleToModel = new Map<string, string>();
+    const words = new Map<string, number>();
+    for (let i = 0; i < MIN_STYLE_JUDGMENTS + 2; i++) {
+      const aLonger = i % 2 === 0;
+      sampleToModel.set(`a${i}`, "mA");
+      sampleToModel.set(`b${i}`, "mB");
+      words.set(`a${i}`, aLonger ? 500 : 300);
+      words.set(`b${i}`, aLonger ? 300 : 500);
+      judgments.push(makeJudgment(`j1_${i}`, `a${i}`, `b${i}`, pick(i, aLonger), "judge1"));
+      judgments.push(makeJudgment(`j2_${i}`, `a${i}`, `b${i}`, baseline(i), "judge2"));
+    }
+    return computeStyleBias(judgments, sampleToModel, ["judge1", "judge2"], words);
+  }
+
+  it("detects a judge that always picks the longer sample", () => {
+    const result = setup((_, aLonger) => (aLonger ? "A" : "B"), () => "A");
+    const bias = result.get("judge1")!;
+    expect(bias.sufficient).toBe(true);
+    expect(bias.featureWinRate).toBe(1);
+    // Other judge: mA always wins, so half the longer samples are expected to win
+    expect(bias.expectedWinRate).toBe(0.5);
+    expect(bias.biasDelta).toBe(0.5);
+    expect(result.get("judge2")!.biasDelta).toBe(0);
+  });
+
+  it("controls for model strength", () => {
+    // mA is stronger: both judges pick it regardless of length
+    const result = setup(() => "A", () => "A");
+    expect(result.get("judge1")!.featureWinRate).toBe(0.5);
+    expect(result.get("judge1")!.biasDelta).toBe(0);
+  });
+
+  it("skips equal-length pairs and pairs without a baseline", () => {
+    const sampleToModel = new Map([["a", "mA"], ["b", "mB"], ["c", "mC"]]);
+    const words = new Map([["a", 100], ["b", 100], ["c", 200]]);
+    const result = computeStyleBias([
+      makeJudgment("j1", "a", "b", "A", "judge1"),
+      makeJudgment("j2", "a", "c", "B", "judge1"), // no other judge saw mA vs mC
+    ], sampleToModel, ["judge1"], words);
+    expect(result.get("judge1")!.comparedCount).toBe(0);
+    expect(result.get("judge1")!.sufficient).toBe(false);
+  });
+});
+
 // ── computeBiasCorrections ──────────────────────────
 
 describe("computeBiasCorrections", () => {
@@ -419,6 +540,144 @@ describe("computeBiasCorrections", () => {
   });
 });
 
+describe("computeBiasCorrections with style", () => {
+  const style = sampleStyle([
+    { id: "sA", text: "one two three four five six seven eight" },
+    { id: "sB", text: "# Heading\n\n- one" },
+  ]);
+  const sampleToModel = new Map([["sA", "writerA"], ["sB", "writerB"]]);
+
+  function styleBias(lengthDelta: number, formattingDelta: number): JudgeBiasData {
+    const bias = (biasDelta: number) => new Map([["judgeX", {
+      comparedCount: 20, featureWins: 10, featureTies: 0, featureWinRate: 0.5,
+      expectedWinRate: 0.5 - biasDelta, biasDelta, sufficient: true,
+    }]]);
+    return {
+      selfPreference: new Map(), positionBias: new Map(), kinPreference: new Map(),
+      lengthBias: bias(lengthDelta), formattingBias: bias(formattingDelta),
+    };
+  }
+
+  it("down-weights votes for the favored longer sample", () => {
+    const judgments = [makeJudgment("j1", "sA", "sB", "A", "judgeX")];
+    const corrections = computeBiasCorrections(judgments, sampleToModel, styleBias(0.3, 0), style);
+    expect(corrections.get("j1")).toBeCloseTo(0.7, 5);
+  });
+
+  it("corrects a preference for shorter samples the same way", () => {
+    const judgments = [
+      makeJudgment("j1", "sA", "sB", "B", "judgeX"),
+      makeJudgment("j2", "sA", "sB", "A", "judgeX"),
+    ];
+    const corrections = computeBiasCorrections(judgments, sampleToModel, styleBias(-0.2, 0), style);
+    expect(corrections.get("j1")).toBeCloseTo(0.8, 5);
+    expect(corrections.has("j2")).toBe(false);
+  });
+
+  it("multiplies length and formatting factors", () => {
+    // sB is shorter and has more Markdown: a judge favoring both is corrected twice
+    const judgments = [makeJudgment("j1", "sA", "sB", "B", "judgeX")];
+    const corrections = computeBiasCorrections(judgments, sampleToModel, styleBias(-0.5, 0.5), style);
+    expect(corrections.get("j1")).toBeCloseTo(0.25, 5);
+  });
+
+  it("ignores style bias without sample style data", () => {
+    const judgments = [makeJudgment("j1", "sA", "sB", "A", "judgeX")];
+    const corrections = computeBiasCorrections(judgments, sampleToModel, styleBias(0.3, 0.3));
+    expect(corrections.size).toBe(0);
+  });
+});
+
+// ── Kin-Preference Bias ─────────────────────────────
+
+describe("kinRelation", () => {
+  function model(provider: ModelConfig["provider"], name: string): ModelConfig {
+    return { provider, model: name, label: name, registryId: `${provider}:${name}` };
+  }
+  const models = [
+    model("openai", "gpt-4o"),
+    model("openai", "o3"),
+    model("openrouter", "openai/gpt-4.1"),
+    model("anthropic", "claude-sonnet"),
+  ];
+  const info = (family: string) => ({ family } as ModelInfo);
+  const modelInfo = { "gpt-4o": info("gpt"), "openai/gpt-4.1": info("gpt"), "o3": info("o") };
+
+  it("relates models of the same family, never a model to itself", () => {
+    const isKin = kinRelation(models, modelInfo, "family")!;
+    expect(isKin("gpt-4o", "openai/gpt-4.1")).toBe(true);
+    expect(isKin("gpt-4o", "o3")).toBe(false);
+    expect(isKin("gpt-4o", "gpt-4o")).toBe(false);
+    // No family known
+    expect(isKin("claude-sonnet", "o3")).toBe(false);
+  });
+
+  it("relates models of the same vendor, including aggregator prefixes", () => {
+    const isKin = kinRelation(models, modelInfo, "provider")!;
+    expect(isKin("gpt-4o", "o3")).toBe(true);
+    expect(isKin("o3", "openai/gpt-4.1")).toBe(true);
+    expect(isKin("o3", "claude-sonnet")).toBe(false);
+  });
+
+  it("relates explicit group members by label, registry ID or spec", () => {
+    const isKin = kinRelation(models, modelInfo, "none", [["o3", "anthropic:claude-sonnet"]])!;
+    expect(isKin("o3", "claude-sonnet")).toBe(true);
+    expect(isKin("gpt-4o", "o3")).toBe(false);
+    expect(kinRelation(models, modelInfo, "none")).toBeUndefined();
+  });
+});
+
+describe("computeKinPreferenceBias", () => {
+  const isKin = (a: string, b: string) =>
+    (a === "judgeA" && b === "modelA") || (a === "modelA" && b === "judgeA");
+
+  it("compares votes for a kin sample with unrelated judges' verdicts", () => {
+    const judgments: PairwiseJudgment[] = [];
+    const sampleToModel = new Map<string, string>();
+    for (let i = 0; i < MIN_SELF_JUDGMENTS + 2; i++) {
+      sampleToModel.set(`sA_${i}`, "modelA");
+      sampleToModel.set(`sB_${i}`, "modelB");
+      judgments.push(makeJudgment(`jA_${i}`, `sA_${i}`, `sB_${i}`, "A", "judgeA"));
+      judgments.push(makeJudgment(`jB_${i}`, `sA_${i}`, `sB_${i}`, i % 2 === 0 ? "A" : "B", "judgeB"));
+    }
+
+    const result = computeKinPreferenceBias(judgments, sampleToModel, ["judgeA", "judgeB"], isKin);
+    const bias = result.get("judgeA")!;
+    expect(bias.sufficient).toBe(true);
+    expect(bias.selfWinRate).toBe(1.0);
+    expect(bias.expectedWinRate).toBe(0.5);
+    expect(bias.biasDelta).toBe(0.5);
+    // judgeB has no kin among the writers
+    expect(result.get("judgeB")!.selfJudgmentCount).toBe(0);
+  });
+
+  it("skips pairs with the judge's own sample or kin on both sides", () => {
+    const sampleToModel = new Map([["s1", "judgeA"], ["s2", "modelA"], ["s3", "modelA"]]);
+    const judgments = [
+      makeJudgment("j1", "s1", "s2", "A", "judgeA"),
+      makeJudgment("j2", "s2", "s3", "A", "judgeA"),
+    ];
+    const result = computeKinPreferenceBias(judgments, sampleToModel, ["judgeA"], isKin);
+    expect(result.get("judgeA")!.selfJudgmentCount).toBe(0);
+  });
+
+  it("corrects votes for kin samples like self-judgments", () => {
+    const sampleToModel = new Map([["sA", "modelB"], ["sB", "modelA"]]);
+    const judgments = [
+      makeJudgment("j1", "sA", "sB", "B", "judgeA"), // for kin
+      makeJudgment("j2", "sA", "sB", "A", "judgeA"), // against kin
+    ];
+    const kinPreference = makeBiasData("judgeA", { biasDelta: 0.3, sufficient: true }).selfPreference;
+    const biasData: JudgeBiasData = { ...makeBiasData("other", { biasDelta: 0, sufficient: false }), kinPreference };
+
+    const corrections = computeBiasCorrections(judgments, sampleToModel, biasData, undefined, isKin);
+    expect(corrections.get("j1")).toBeCloseTo(0.7, 5);
+    expect(corrections.has("j2")).toBe(false);
+    // Without a kin relation nothing is corrected
+    expect(computeBiasCorrections(judgments, sampleToModel, biasData).size).toBe(0);
+  });
+});
+
 // ── composeWeights ──────────────────────────────────
 
 describe("composeWeights", () => {
@@ -471,6 +730,16 @@ describe("computeJudgeBias", () => {
     const result = computeJudgeBias(judgments, sampleToModel, ["modelA"]);
     expect(result.selfPreference.has("modelA")).toBe(true);
     expect(result.positionBias.has("modelA")).toBe(true);
+    expect(result.lengthBias.size).toBe(0);
+    expect(result.formattingBias.size).toBe(0);
+  });
+
+  it("adds length and formatting bias with sample style data", () => {
+    const sampleToModel = new Map([["sA", "modelA"], ["sB", "modelB"]]);
+    const style = sampleStyle([{ id: "sA", text: "short" }, { id: "sB", text: "a bit longer" }]);
+    const result = computeJudgeBias([], sampleToModel, ["modelA"], style);
+    expect(result.lengthBias.has("modelA")).toBe(true);
+    expect(result.formattingBias.has("modelA")).toBe(true);
   });
 });
 
@@ -519,5 +788,8 @@ function makeBiasData(
       sufficient: selfPreference.sufficient,
     }]]),
     positionBias: new Map(),
+    kinPreference: new Map(),
+    lengthBias: new Map(),
+    formattingBias: new Map(),
   };
 }
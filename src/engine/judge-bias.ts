@@ -1,5 +1,6 @@
-import type { PairwiseJudgment } from "../types.js";
+import type { KinMode, ModelConfig, ModelInfo, PairwiseJudgment } from "../types.js";
 import { MIN_JUDGE_WEIGHT } from "./judge-quality.js";
+import { countWords } from "./whr.js";
 
 // ── Constants ───────────────────────────────────────
 
@@ -9,6 +10,9 @@ export const MIN_SELF_JUDGMENTS = 8;
 /** Minimum judgments with position data before position bias is reported. */
 export const MIN_POSITION_JUDGMENTS = 10;
 
+/** Minimum decisive judgments between differing samples before length or formatting bias is reported. */
+export const MIN_STYLE_JUDGMENTS = 10;
+
 /** Bias magnitude below which no correction is applied. */
 export const BIAS_DEAD_ZONE = 0.05;
 
@@ -35,7 +39,7 @@ export interface SelfPreferenceBias {
 
 /** Per-judge position bias statistics. */
 export interface PositionBias {
-  /** Total judgments with known position data (positionSwapped !== undefined). */
+  /** Judgments with known position data (positionSwapped !== undefined); dual-order judgments count twice. */
   positionKnownCount: number;
   /** Wins for the sample presented in position A (as seen by judge, before correction). */
   presentedAWins: number;
@@ -47,139 +51,251 @@ export interface PositionBias {
   positionBiasDelta: number;
   /** Whether we have enough data to report this bias. */
   sufficient: boolean;
+  /** Graded judgments with a strong preference (A>>B or B>>A). */
+  strongCount: number;
+  /** Share of strong preferences for the presented-A sample. NaN if none. */
+  strongPositionARate: number;
+  /** Graded judgments with a weak preference (A>B or B>A). */
+  weakCount: number;
+  /** Share of weak preferences for the presented-A sample. NaN if none. */
+  weakPositionARate: number;
+}
+
+/**
+ * Per-judge preference for the sample with more of a style feature
+ * (length in words, Markdown structure), controlled for model strength.
+ */
+export interface StyleBias {
+  /** Judgments between samples that differ in the feature (and have a baseline). */
+  comparedCount: number;
+  /** Of those, how many the judge gave to the sample with more of the feature. */
+  featureWins: number;
+  /** Of those, how many were ties. */
+  featureTies: number;
+  /** featureWins / (comparedCount - featureTies). NaN if no decisive judgments. */
+  featureWinRate: number;
+  /** Expected rate for the same judgments from OTHER judges' verdicts on
+   *  the same model pairs. NaN if no decisive judgments. */
+  expectedWinRate: number;
+  /** featureWinRate - expectedWinRate. Positive = favors more of the feature. */
+  biasDelta: number;
+  /** Whether we have enough data to report this bias. */
+  sufficient: boolean;
+}
+
+/** Per-sample style measurements used by the length and formatting detectors. */
+export interface SampleStyle {
+  /** Sample ID -> word count. */
+  words: Map<string, number>;
+  /** Sample ID -> Markdown elements (headings, list items, bold spans). */
+  markdown: Map<string, number>;
 }
 
 /** Combined bias data for all judges. */
 export interface JudgeBiasData {
   selfPreference: Map<string, SelfPreferenceBias>;
   positionBias: Map<string, PositionBias>;
+  /** Self-preference statistics for kin models' samples. Empty without a kin relation. */
+  kinPreference: Map<string, SelfPreferenceBias>;
+  /** Preference for the longer sample. Empty without sample style data. */
+  lengthBias: Map<string, StyleBias>;
+  /** Preference for the sample with more Markdown structure. Empty without sample style data. */
+  formattingBias: Map<string, StyleBias>;
 }
 
 // ── Self-Preference Bias ────────────────────────────
 
 /**
- * Compute per-judge self-preference bias statistics.
- *
- * A "self-judgment" is one where the judge model label matches one of
- * the two compared samples' model labels (looked up via sampleToModel).
- *
- * The expected win rate is computed from OTHER judges' verdicts on pairs
- * between the same model pair (grouped by writer labels, not exact sample
- * IDs). This aggregation across output indices and prompts provides a
- * robust baseline even when the adaptive loop converges before every
- * judge covers the same exact sample pairs.
+ * Which side of a pair a judge is partial to (its own model's or a kin
+ * model's sample), or null when it has no stake in the pair.
  */
-export function computeSelfPreferenceBias(
+type PartialSide = (judge: string, modelA: string, modelB: string) => "A" | "B" | null;
+
+/**
+ * Shared computation for self- and kin-preference. A judgment counts
+ * when `partialSide` gives the judge a side. The expected win rate for
+ * that side comes from verdicts of judges that `unrelated` accepts, on
+ * pairs where the judge would have been partial to the same side,
+ * aggregated across output indices and prompts.
+ */
+function computePreferenceBias(
   judgments: PairwiseJudgment[],
   sampleToModel: Map<string, string>,
   judgeLabels: string[],
+  partialSide: PartialSide,
+  unrelated: (judge: string, otherJudge: string) => boolean,
+  minJudgments: number,
 ): Map<string, SelfPreferenceBias> {
-  // Build a set of judge labels for fast lookup
-  const judgeLabelSet = new Set(judgeLabels);
-
-  // Per-judge self-judgment accumulators
-  const selfCounts = new Map<string, { count: number; wins: number; ties: number }>();
-  for (const label of judgeLabels) {
-    selfCounts.set(label, { count: 0, wins: 0, ties: 0 });
-  }
-
-  // Group all verdicts by (writerModelA, writerModelB, stage) for pairs
-  // where at least one side was written by a judge model. Each verdict
-  // stores the judge, winner, and which writer model is on which side
-  // (since different sample orderings within the same model-pair group
-  // may swap A/B positions).
-  type Verdict = {
-    judgeModel: string;
-    winner: "A" | "B" | "tie";
-    modelALabel: string;
-    modelBLabel: string;
-  };
-  const modelPairGroups = new Map<string, Verdict[]>();
-
+  // Constraint losses carry no judge opinion
+  const judged: Array<{ judgeModel: string; winner: "A" | "B" | "tie"; modelA: string; modelB: string }> = [];
   for (const j of judgments) {
+    if (j.constraintLoss) continue;
     const modelA = sampleToModel.get(j.sampleA);
     const modelB = sampleToModel.get(j.sampleB);
     if (!modelA || !modelB) continue;
-
-    // Track self-judgment counts
-    const isSelfA = j.judgeModel === modelA;
-    const isSelfB = j.judgeModel === modelB;
-    if (isSelfA || isSelfB) {
-      const ownSide: "A" | "B" = isSelfA ? "A" : "B";
-      const acc = selfCounts.get(j.judgeModel);
-      if (acc) {
-        acc.count++;
-        if (j.winner === "tie") acc.ties++;
-        else if (j.winner === ownSide) acc.wins++;
-      }
-    }
-
-    // Only group pairs where at least one side is a judge model
-    if (!judgeLabelSet.has(modelA) && !judgeLabelSet.has(modelB)) continue;
-
-    // Canonical key: sort model labels so (A-vs-B) and (B-vs-A) map to same group
-    const [sortedFirst, sortedSecond] = modelA < modelB
-      ? [modelA, modelB] : [modelB, modelA];
-    const pairKey = `${sortedFirst}\0${sortedSecond}\0${j.stage}`;
-    let group = modelPairGroups.get(pairKey);
-    if (!group) {
-      group = [];
-      modelPairGroups.set(pairKey, group);
-    }
-    group.push({
-      judgeModel: j.judgeModel,
-      winner: j.winner,
-      modelALabel: modelA,
-      modelBLabel: modelB,
-    });
+    judged.push({ judgeModel: j.judgeModel, winner: j.winner, modelA, modelB });
   }
 
-  // Compute expected win rate per judge from other judges' verdicts on
-  // model pairs involving that judge's model.
   const result = new Map<string, SelfPreferenceBias>();
 
   for (const label of judgeLabels) {
-    const acc = selfCounts.get(label)!;
-    const decisive = acc.count - acc.ties;
-    const selfWinRate = decisive > 0 ? acc.wins / decisive : NaN;
-
+    let count = 0;
+    let wins = 0;
+    let ties = 0;
     let expectedWins = 0;
     let expectedDecisive = 0;
 
-    for (const verdicts of modelPairGroups.values()) {
-      for (const v of verdicts) {
-        // Only use verdicts from OTHER judges
-        if (v.judgeModel === label) continue;
-        if (v.winner === "tie") continue;
-
-        // Determine which side this judge's model is on for THIS verdict
-        let ownSide: "A" | "B" | null = null;
-        if (v.modelALabel === label) ownSide = "A";
-        else if (v.modelBLabel === label) ownSide = "B";
-        if (!ownSide) continue;
+    for (const v of judged) {
+      const side = partialSide(label, v.modelA, v.modelB);
+      if (!side) continue;
 
+      if (v.judgeModel === label) {
+        count++;
+        if (v.winner === "tie") ties++;
+        else if (v.winner === side) wins++;
+      } else if (v.winner !== "tie" && unrelated(label, v.judgeModel)) {
         expectedDecisive++;
-        if (v.winner === ownSide) expectedWins++;
+        if (v.winner === side) expectedWins++;
       }
     }
 
+    const decisive = count - ties;
+    const selfWinRate = decisive > 0 ? wins / decisive : NaN;
     const expectedWinRate = expectedDecisive > 0 ? expectedWins / expectedDecisive : NaN;
     const biasDelta = selfWinRate - expectedWinRate;
 
     result.set(label, {
-      selfJudgmentCount: acc.count,
-      selfWins: acc.wins,
-      selfTies: acc.ties,
+      selfJudgmentCount: count,
+      selfWins: wins,
+      selfTies: ties,
       selfWinRate,
       expectedWinRate,
       biasDelta,
-      sufficient: !isNaN(biasDelta) && decisive >= MIN_SELF_JUDGMENTS,
+      sufficient: !isNaN(biasDelta) && decisive >= minJudgments,
     });
   }
 
   return result;
 }
 
+/** The side holding the judge's own model. */
+const ownSide: PartialSide = (judge, modelA, modelB) =>
+  modelA === judge ? "A" : modelB === judge ? "B" : null;
+
+/**
+ * Compute per-judge self-preference bias statistics.
+ *
+ * A "self-judgment" is one where the judge model label matches one of
+ * the two compared samples' model labels (looked up via sampleToModel).
+ *
+ * The expected win rate is computed from OTHER judges' verdicts on pairs
+ * between the same model pair (grouped by writer labels, not exact sample
+ * IDs). This aggregation across output indices and prompts provides a
+ * robust baseline even when the adaptive loop converges before every
+ * judge covers the same exact sample pairs.
+ */
+export function computeSelfPreferenceBias(
+  judgments: PairwiseJudgment[],
+  sampleToModel: Map<string, string>,
+  judgeLabels: string[],
+): Map<string, SelfPreferenceBias> {
+  return computePreferenceBias(
+    judgments, sampleToModel, judgeLabels, ownSide,
+    (judge, other) => other !== judge,
+    MIN_SELF_JUDGMENTS,
+  );
+}
+
+// ── Kin-Preference Bias ─────────────────────────────
+
+/**
+ * Whether two model labels are kin: different models of the same family,
+ * provider or configured group. Never true for a model and itself.
+ */
+export type KinRelation = (a: string, b: string) => boolean;
+
+/**
+ * The maker of a model: its provider, or the vendor prefix of the model
+ * ID on aggregators that serve several vendors ("anthropic/claude-..."
+ * on openrouter).
+ */
+function modelVendor(m: ModelConfig): string {
+  const slash = m.model.indexOf("/");
+  return slash > 0 ? m.model.slice(0, slash) : m.provider;
+}
+
+/**
+ * Build the kin relation for a run. `mode` relates models of the same
+ * models.dev family or the same vendor; each of `groups` (members given
+ * by label, registry ID or provider:model spec) relates its members
+ * regardless of mode. Returns undefined when nothing can be kin.
+ */
+export function kinRelation(
+  models: ModelConfig[],
+  modelInfo: Record<string, ModelInfo>,
+  mode: KinMode,
+  groups: string[][] = [],
+): KinRelation | undefined {
+  if (mode === "none" && groups.length === 0) return undefined;
+
+  const keyOf = new Map<string, string>();
+  if (mode !== "none") {
+    for (const m of models) {
+      const key = mode === "family" ? modelInfo[m.label]?.family : modelVendor(m);
+      if (key) keyOf.set(m.label, key);
+    }
+  }
+
+  const groupsOf = new Map<string, Set<number>>();
+  groups.forEach((members, i) => {
+    const wanted = new Set(members);
+    for (const m of models) {
+      if (!wanted.has(m.label) && !wanted.has(m.registryId) && !wanted.has(`${m.provider}:${m.model}`)) continue;
+      const set = groupsOf.get(m.label) ?? new Set<number>();
+      set.add(i);
+      groupsOf.set(m.label, set);
+    }
+  });
+
+  return (a, b) => {
+    if (a === b) return false;
+    const ka = keyOf.get(a);
+    if (ka != null && ka === keyOf.get(b)) return true;
+    const ga = groupsOf.get(a);
+    const gb = groupsOf.get(b);
+    return !!ga && !!gb && [...ga].some((g) => gb.has(g));
+  };
+}
+
+/**
+ * Compute per-judge kin-preference bias: self-preference statistics for
+ * pairs where exactly one side was written by a kin of the judge (and
+ * neither by the judge itself, which self-preference covers). The
+ * baseline comes from judges that are neither the judge nor its kin.
+ */
+export function computeKinPreferenceBias(
+  judgments: PairwiseJudgment[],
+  sampleToModel: Map<string, string>,
+  judgeLabels: string[],
+  isKin: KinRelation,
+): Map<string, SelfPreferenceBias> {
+  return computePreferenceBias(
+    judgments, sampleToModel, judgeLabels,
+    (judge, modelA, modelB) => kinSide(judge, modelA, modelB, isKin),
+    (judge, other) => other !== judge && !isKin(judge, other),
+    MIN_SELF_JUDGMENTS,
+  );
+}
+
+/** The side holding a kin of the judge, when only one side does. */
+function kinSide(judge: string, modelA: string, modelB: string, isKin: KinRelation): "A" | "B" | null {
+  if (modelA === judge || modelB === judge) return null;
+  const kinA = isKin(judge, modelA);
+  const kinB = isKin(judge, modelB);
+  if (kinA === kinB) return null;
+  return kinA ? "A" : "B";
+}
+
 // ── Position Bias ───────────────────────────────────
 
 /**
@@ -193,17 +309,39 @@ export function computeSelfPreferenceBias(
  *   - If !swapped and winner === "A": judge picked presented-A → presented-A win
  *   - If swapped and winner === "B": judge picked what was originally presented
  *     as A (now corrected to B) → presented-A win
+ *
+ * Dual-order judgments (--both-orders) count as two presentations, one
+ * with each sample in position A.
+ *
+ * Graded judgments are also split by preference strength, since a judge
+ * may lean towards position A only when it is unsure (weak preferences)
+ * while its strong preferences stay balanced.
  */
 export function computePositionBias(
   judgments: PairwiseJudgment[],
   judgeLabels: string[],
 ): Map<string, PositionBias> {
-  const acc = new Map<string, { count: number; aWins: number; ties: number }>();
+  type Tally = { count: number; aWins: number };
+  const acc = new Map<string, { count: number; aWins: number; ties: number; strong: Tally; weak: Tally }>();
   for (const label of judgeLabels) {
-    acc.set(label, { count: 0, aWins: 0, ties: 0 });
+    acc.set(label, { count: 0, aWins: 0, ties: 0, strong: { count: 0, aWins: 0 }, weak: { count: 0, aWins: 0 } });
   }
 
   for (const j of judgments) {
+    // --both-orders: one presentation each way. sampleA was presented
+    // first in the forward order, sampleB in the reversed order.
+    if (j.orderWinners) {
+      const entry = acc.get(j.judgeModel);
+      if (!entry) continue;
+      const [forward, reversed] = j.orderWinners;
+      entry.count += 2;
+      if (forward === "tie") entry.ties++;
+      else if (forward === "A") entry.aWins++;
+      if (reversed === "tie") entry.ties++;
+      else if (reversed === "B") entry.aWins++;
+      continue;
+    }
+
     if (j.positionSwapped == null) continue;
     const entry = acc.get(j.judgeModel);
     if (!entry) continue;
@@ -217,6 +355,13 @@ export function computePositionBias(
         (j.positionSwapped && j.winner === "B");
       if (presentedAWon) entry.aWins++;
     }
+
+    if (j.grade && j.grade !== "tie") {
+      const tally = j.grade.includes(">>") ? entry.strong : entry.weak;
+      tally.count++;
+      // Grades are corrected like winners: "A..." means presented-A unless swapped
+      if ((j.grade[0] === "A") !== j.positionSwapped) tally.aWins++;
+    }
   }
 
   const result = new Map<string, PositionBias>();
@@ -231,6 +376,140 @@ export function computePositionBias(
       positionARate,
       positionBiasDelta: positionARate - 0.5,
       sufficient: decisive >= MIN_POSITION_JUDGMENTS,
+      strongCount: a.strong.count,
+      strongPositionARate: a.strong.count > 0 ? a.strong.aWins / a.strong.count : NaN,
+      weakCount: a.weak.count,
+      weakPositionARate: a.weak.count > 0 ? a.weak.aWins / a.weak.count : NaN,
+    });
+  }
+
+  return result;
+}
+
+// ── Length and Formatting Bias ──────────────────────
+
+const MARKDOWN_PATTERNS = [
+  /^#{1,6}[ \t]+\S/gm, // headings
+  /^[ \t]*(?:[-*+]|\d+[.)])[ \t]+\S/gm, // bullet and numbered list items
+  /\*\*[^*\n]+\*\*|__[^_\n]+__/g, // bold text
+];
+
+/** Count Markdown structure in a text: headings, list items and bold spans. */
+export function countMarkdownElements(text: string): number {
+  let count = 0;
+  for (const pattern of MARKDOWN_PATTERNS) count += text.match(pattern)?.length ?? 0;
+  return count;
+}
+
+/** Measure word counts and Markdown structure for each sample. */
+export function sampleStyle(samples: Array<{ id: string; text: string }>): SampleStyle {
+  return {
+    words: new Map(samples.map((s) => [s.id, countWords(s.text)])),
+    markdown: new Map(samples.map((s) => [s.id, countMarkdownElements(s.text)])),
+  };
+}
+
+/**
+ * The side of a judgment whose sample has more of `feature`, or null
+ * when either value is unknown or both are equal.
+ */
+function featureSide(j: PairwiseJudgment, feature: Map<string, number>): "A" | "B" | null {
+  const a = feature.get(j.sampleA);
+  const b = feature.get(j.sampleB);
+  if (a == null || b == null || a === b) return null;
+  return a > b ? "A" : "B";
+}
+
+/**
+ * Compute per-judge preference for the sample with more of `feature`.
+ *
+ * A stronger model may simply write longer (or more structured) text,
+ * so picking the longer sample is not bias by itself. Each judgment's
+ * baseline is the rate at which OTHER judges preferred the featured
+ * sample's model over the other model (decisive verdicts on the same
+ * model pair and stage, any samples); pairs of one model's own samples
+ * have a baseline of 0.5. Judgments with no baseline are skipped. The
+ * bias delta is the judge's featured-sample win rate minus the mean
+ * baseline over the same decisive judgments.
+ */
+export function computeStyleBias(
+  judgments: PairwiseJudgment[],
+  sampleToModel: Map<string, string>,
+  judgeLabels: string[],
+  feature: Map<string, number>,
+): Map<string, StyleBias> {
+  // Decisive verdicts per ordered (stage, model, opponent): all judges
+  // and per judge, so one judge's own verdicts can be left out.
+  type Tally = { wins: number; decisive: number };
+  const all = new Map<string, Tally>();
+  const byJudge = new Map<string, Tally>();
+  const tally = (map: Map<string, Tally>, key: string, won: boolean) => {
+    const t = map.get(key) ?? { wins: 0, decisive: 0 };
+    t.decisive++;
+    if (won) t.wins++;
+    map.set(key, t);
+  };
+  for (const j of judgments) {
+    if (j.constraintLoss || j.winner === "tie") continue;
+    const modelA = sampleToModel.get(j.sampleA);
+    const modelB = sampleToModel.get(j.sampleB);
+    if (!modelA || !modelB || modelA === modelB) continue;
+    const [winner, loser] = j.winner === "A" ? [modelA, modelB] : [modelB, modelA];
+    for (const [key, won] of [[`${j.stage}\0${winner}\0${loser}`, true], [`${j.stage}\0${loser}\0${winner}`, false]] as const) {
+      tally(all, key, won);
+      tally(byJudge, `${j.judgeModel}\0${key}`, won);
+    }
+  }
+
+  const acc = new Map<string, { count: number; wins: number; ties: number; expected: number }>();
+  for (const label of judgeLabels) {
+    acc.set(label, { count: 0, wins: 0, ties: 0, expected: 0 });
+  }
+
+  for (const j of judgments) {
+    if (j.constraintLoss) continue;
+    const entry = acc.get(j.judgeModel);
+    if (!entry) continue;
+    const side = featureSide(j, feature);
+    if (!side) continue;
+    const modelA = sampleToModel.get(j.sampleA);
+    const modelB = sampleToModel.get(j.sampleB);
+    if (!modelA || !modelB) continue;
+
+    const [featured, other] = side === "A" ? [modelA, modelB] : [modelB, modelA];
+    let baseline = 0.5;
+    if (featured !== other) {
+      const key = `${j.stage}\0${featured}\0${other}`;
+      const t = all.get(key);
+      const own = byJudge.get(`${j.judgeModel}\0${key}`);
+      const decisive = (t?.decisive ?? 0) - (own?.decisive ?? 0);
+      if (decisive === 0) continue;
+      baseline = ((t?.wins ?? 0) - (own?.wins ?? 0)) / decisive;
+    }
+
+    entry.count++;
+    if (j.winner === "tie") {
+      entry.ties++;
+    } else {
+      if (j.winner === side) entry.wins++;
+      entry.expected += baseline;
+    }
+  }
+
+  const result = new Map<string, StyleBias>();
+  for (const label of judgeLabels) {
+    const a = acc.get(label)!;
+    const decisive = a.count - a.ties;
+    const featureWinRate = decisive > 0 ? a.wins / decisive : NaN;
+    const expectedWinRate = decisive > 0 ? a.expected / decisive : NaN;
+    result.set(label, {
+      comparedCount: a.count,
+      featureWins: a.wins,
+      featureTies: a.ties,
+      featureWinRate,
+      expectedWinRate,
+      biasDelta: featureWinRate - expectedWinRate,
+      sufficient: decisive >= MIN_STYLE_JUDGMENTS,
     });
   }
 
@@ -240,16 +519,26 @@ export function computePositionBias(
 // ── Combined Computation ────────────────────────────
 
 /**
- * Compute all bias statistics for all judges.
+ * Compute all bias statistics for all judges. Length and formatting
+ * bias need `style`, and kin preference needs `isKin`; without them
+ * their maps are empty.
  */
 export function computeJudgeBias(
   judgments: PairwiseJudgment[],
   sampleToModel: Map<string, string>,
   judgeLabels: string[],
+  style?: SampleStyle,
+  isKin?: KinRelation,
 ): JudgeBiasData {
   return {
     selfPreference: computeSelfPreferenceBias(judgments, sampleToModel, judgeLabels),
     positionBias: computePositionBias(judgments, judgeLabels),
+    kinPreference: isKin
+      ? computeKinPreferenceBias(judgments, sampleToModel, judgeLabels, isKin) : new Map(),
+    lengthBias: style
+      ? computeStyleBias(judgments, sampleToModel, judgeLabels, style.words) : new Map(),
+    formattingBias: style
+      ? computeStyleBias(judgments, sampleToModel, judgeLabels, style.markdown) : new Map(),
   };
 }
 
@@ -268,38 +557,85 @@ export function computeJudgeBias(
  *
  * Only positive bias (self-preference) triggers down-weighting.
  * Negative bias (disfavoring own work) does not trigger any correction.
+ *
+ * With `style` (--style-bias-correction), length and formatting bias are
+ * corrected the same way in either direction: a judge that significantly
+ * favors longer (or shorter) samples has its votes for the longer (or
+ * shorter) sample scaled by max(MIN_JUDGE_WEIGHT, 1 - |biasDelta|).
+ * With `isKin`, votes for a kin model's sample are corrected by the
+ * judge's kin-preference bias exactly like self-judgments.
+ *
+ * Factors for one judgment multiply.
  */
 export function computeBiasCorrections(
   judgments: PairwiseJudgment[],
   sampleToModel: Map<string, string>,
   biasData: JudgeBiasData,
+  style?: SampleStyle,
+  isKin?: KinRelation,
 ): Map<string, number> {
   const corrections = new Map<string, number>();
 
   for (const j of judgments) {
-    const modelA = sampleToModel.get(j.sampleA);
-    const modelB = sampleToModel.get(j.sampleB);
+    if (j.constraintLoss) continue;
+    // Judgments without a correction default to 1.0 via the fallback in
+    // composeWeights, so we keep the map sparse.
+    let factor = preferenceCorrection(j, sampleToModel, biasData.selfPreference, ownSide);
+    if (isKin) {
+      factor *= preferenceCorrection(j, sampleToModel, biasData.kinPreference,
+        (judge, modelA, modelB) => kinSide(judge, modelA, modelB, isKin));
+    }
+    if (style) {
+      factor *= styleCorrection(j, biasData.lengthBias, style.words);
+      factor *= styleCorrection(j, biasData.formattingBias, style.markdown);
+    }
+    if (factor < 1.0) corrections.set(j.id, Math.max(MIN_JUDGE_WEIGHT, factor));
+  }
+
+  return corrections;
+}
 
-    const isSelfA = j.judgeModel === modelA;
-    const isSelfB = j.judgeModel === modelB;
+/** Self- or kin-preference correction factor for one judgment (1.0 = none). */
+function preferenceCorrection(
+  j: PairwiseJudgment,
+  sampleToModel: Map<string, string>,
+  biases: Map<string, SelfPreferenceBias>,
+  partialSide: PartialSide,
+): number {
+  const modelA = sampleToModel.get(j.sampleA);
+  const modelB = sampleToModel.get(j.sampleB);
+  if (!modelA || !modelB) return 1.0;
 
-    // Only self-judgments can be corrected; non-self default to 1.0 via
-    // the fallback in composeWeights, so we keep the map sparse.
-    if (!isSelfA && !isSelfB) continue;
+  // Only self- (or kin-) judgments can be corrected
+  const side = partialSide(j.judgeModel, modelA, modelB);
+  if (!side) return 1.0;
 
-    const bias = biasData.selfPreference.get(j.judgeModel);
-    if (!bias || !bias.sufficient || bias.biasDelta <= BIAS_DEAD_ZONE) continue;
+  const bias = biases.get(j.judgeModel);
+  if (!bias || !bias.sufficient || bias.biasDelta <= BIAS_DEAD_ZONE) return 1.0;
 
-    // Only correct when the judge voted FOR its own model
-    const ownSide: "A" | "B" = isSelfA ? "A" : "B";
-    if (j.winner !== ownSide) continue;
+  // Only correct when the judge voted FOR the side it is partial to
+  if (j.winner !== side) return 1.0;
 
-    // Proportional correction: down-weight by the excess bias
-    const factor = Math.max(MIN_JUDGE_WEIGHT, 1.0 - bias.biasDelta);
-    corrections.set(j.id, factor);
-  }
+  // Proportional correction: down-weight by the excess bias
+  return Math.max(MIN_JUDGE_WEIGHT, 1.0 - bias.biasDelta);
+}
 
-  return corrections;
+/** Length or formatting correction factor for one judgment (1.0 = none). */
+function styleCorrection(
+  j: PairwiseJudgment,
+  biases: Map<string, StyleBias>,
+  feature: Map<string, number>,
+): number {
+  const bias = biases.get(j.judgeModel);
+  if (!bias || !bias.sufficient || Math.abs(bias.biasDelta) <= BIAS_DEAD_ZONE) return 1.0;
+  if (j.winner === "tie") return 1.0;
+  const side = featureSide(j, feature);
+  if (!side) return 1.0;
+
+  // Only correct votes in the direction the judge leans
+  const favored = bias.biasDelta > 0 ? side : side === "A" ? "B" : "A";
+  if (j.winner !== favored) return 1.0;
+  return Math.max(MIN_JUDGE_WEIGHT, 1.0 - Math.abs(bias.biasDelta));
 }
 
 // ── Weight Composition ──────────────────────────────
@@ -3,15 +3,17 @@ import {
   buildJudgeGames,
   computeJudgeQuality,
   computeEloBasedJudgeQuality,
+  computeGoldJudgeQuality,
   ratingsToWeights,
   getJudgeWeight,
   shouldPruneJudge,
   MIN_JUDGE_INSTANCES,
   MIN_JUDGE_WEIGHT,
+  MIN_GOLD_PAIRS,
 } from "./judge-quality.js";
 import type { JudgeQualityData } from "./judge-quality.js";
 import type { WhrRating } from "./whr.js";
-import type { PairwiseJudgment } from "../types.js";
+import type { GoldAgreement, PairwiseJudgment } from "../types.js";
 import { DEFAULT_CONVERGENCE } from "../types.js";
 
 describe("buildJudgeGames", () => {
@@ -487,3 +489,37 @@ function makeJudgment(
     latencyMs: 0,
   };
 }
+
+describe("computeGoldJudgeQuality", () => {
+  const agreement = (judge: string, agreed: number, pairs: number): GoldAgreement => ({
+    judge, pairs, agreed, agreement: agreed / pairs, kappa: null, bothOrders: 0, positionConsistency: null,
+  });
+
+  it("stays inactive until two judges have enough gold pairs", () => {
+    const result = computeGoldJudgeQuality(
+      [agreement("judge1", 10, 10), agreement("judge2", 1, MIN_GOLD_PAIRS - 1)],
+      ["judge1", "judge2"],
+      DEFAULT_CONVERGENCE.judgeDecay,
+      10,
+    );
+    expect(result.active).toBe(false);
+    expect(result.ratings.map((r) => r.model)).toEqual(["judge1"]);
+    expect(result.weights.get("judge2")).toBe(1.0);
+    expect(result.instanceCount).toBe(10);
+  });
+
+  it("weights judges by gold agreement", () => {
+    const result = computeGoldJudgeQuality(
+      [agreement("judge1", 18, 20), agreement("judge2", 10, 20)],
+      ["judge1", "judge2", "judge3"],
+      DEFAULT_CONVERGENCE.judgeDecay,
+      20,
+    );
+    expect(result.active).toBe(true);
+    expect(result.weights.get("judge1")).toBe(1.0);
+    expect(result.weights.get("judge2")!).toBeLessThan(1.0);
+    // Coin-flip agreement rates at 1500
+    expect(result.ratings.find((r) => r.model === "judge2")!.rating).toBe(1500);
+    expect(result.weights.get("judge3")).toBe(1.0);
+  });
+});
@@ -1,4 +1,4 @@
-import type { PairwiseJudgment } from "../types.js";
+import type { GoldAgreement, PairwiseJudgment } from "../types.js";
 import type { WhrGame, WhrRating } from "./whr.js";
 import { computeWhr } from "./whr.js";
 
@@ -10,6 +10,9 @@ export const MIN_JUDGE_INSTANCES = 5;
 /** Floor for judge weights -- never fully zero out a judge. */
 export const MIN_JUDGE_WEIGHT = 0.1;
 
+/** Minimum judged gold pairs before a judge's gold agreement is used. */
+export const MIN_GOLD_PAIRS = 5;
+
 // ── Types ───────────────────────────────────────────
 
 /** Judge quality data computed from cross-evaluation. */
@@ -20,7 +23,7 @@ export interface JudgeQualityData {
   weights: Map<string, number>;
   /** Whether we have enough data to use judge quality (past bootstrap). */
   active: boolean;
-  /** Number of evaluation instances with >=2 judges used. */
+  /** Number of evaluation instances with >=2 judges used (matched gold pairs in gold mode). */
   instanceCount: number;
 }
 
@@ -57,13 +60,15 @@ export interface InstanceData {
  * Group judgments by evaluation instance and compute consensus.
  * Returns only instances with >=2 judges.
  */
-function groupByInstance(
+export function groupByInstance(
   judgments: PairwiseJudgment[],
 ): Map<string, InstanceData> {
   // Group: instanceKey -> Map<judgeModel, verdict>
   const groups = new Map<string, Map<string, "A" | "B" | "tie">>();
 
   for (const j of judgments) {
+    // Constraint losses are identical across judges, not agreement
+    if (j.constraintLoss) continue;
     const key = instanceKey(j);
     let group = groups.get(key);
     if (!group) {
@@ -283,6 +288,80 @@ export function computeEloBasedJudgeQuality(
   };
 }
 
+/**
+ * Express gold agreement as an Elo-scale rating: a judge agreeing with
+ * the gold winner with probability p rates 400 * log10(p / (1 - p))
+ * above 1500, as if it played the gold set. p is smoothed by one
+ * agreement and one disagreement so perfect judges stay finite.
+ */
+function goldRating(a: GoldAgreement): WhrRating {
+  const n = a.pairs + 2;
+  const p = (a.agreed + 1) / n;
+  const rating = 1500 + (400 * Math.log10(p / (1 - p)));
+  // Delta method: se(p) * d(rating)/dp
+  const ci95 = 1.96 * Math.sqrt(p * (1 - p) / n) * (400 / (Math.LN10 * p * (1 - p)));
+  return {
+    model: a.judge,
+    rating: Math.round(rating),
+    ci95: Math.round(ci95),
+    wins: a.agreed,
+    losses: a.pairs - a.agreed,
+    ties: 0,
+    matchCount: a.pairs,
+  };
+}
+
+/**
+ * Compute judge quality from agreement with a human gold set.
+ *
+ * Each judge with at least MIN_GOLD_PAIRS judged gold pairs gets a
+ * rating from its agreement rate, which ratingsToWeights turns into
+ * weights like any other mode. Returns bootstrap (all weights 1.0)
+ * when fewer than 2 judges qualify.
+ */
+export function computeGoldJudgeQuality(
+  agreements: GoldAgreement[],
+  judgeLabels: string[],
+  k: number,
+  goldPairCount: number,
+): JudgeQualityData {
+  const defaultWeights = new Map<string, number>();
+  for (const label of judgeLabels) {
+    defaultWeights.set(label, 1.0);
+  }
+
+  const judgeSet = new Set(judgeLabels);
+  const judgeRatings = agreements
+    .filter((a) => judgeSet.has(a.judge) && a.pairs >= MIN_GOLD_PAIRS)
+    .map(goldRating)
+    .sort((a, b) => b.rating - a.rating);
+
+  if (judgeRatings.length < 2) {
+    return {
+      ratings: judgeRatings,
+      weights: defaultWeights,
+      active: false,
+      instanceCount: goldPairCount,
+    };
+  }
+
+  const weights = ratingsToWeights(judgeRatings, k);
+
+  // Judges without enough gold pairs keep weight 1.0, as in the ELO modes
+  for (const label of judgeLabels) {
+    if (!weights.has(label)) {
+      weights.set(label, 1.0);
+    }
+  }
+
+  return {
+    ratings: judgeRatings,
+    weights,
+    active: true,
+    instanceCount: goldPairCount,
+  };
+}
+
 /**
  * Get the weight for a specific judge. Returns 1.0 if not found.
  */
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "bun:test";
-import { extractJson } from "./judge.js";
+import { extractJson, fillJudgeTemplate, pointwiseCriteria, correctCriteriaForSwap, correctGradeForSwap, gradeWinner, combineBothOrders } from "./judge.js";
+import type { PairwiseJudgment, PromptConfig } from "../types.js";
 
 describe("extractJson", () => {
   it("parses plain JSON", () => {
@@ -56,3 +57,126 @@ describe("extractJson", () => {
     expect(extractJson(text)).toEqual({ winner: "B" });
   });
 });
+
+describe("fillJudgeTemplate", () => {
+  it("fills known placeholders and leaves others as written", () => {
+    expect(fillJudgeTemplate("{prompt}: {sample_a} / {sample_b} {other}", {
+      prompt: "Talk", sample_a: "one", sample_b: "two",
+    })).toBe("Talk: one / two {other}");
+  });
+
+  it("does not substitute placeholders inside filled values", () => {
+    expect(fillJudgeTemplate("A: {sample_a}\nB: {sample_b}", {
+      sample_a: "I wrote {sample_b} here", sample_b: "plain",
+    })).toBe("A: I wrote {sample_b} here\nB: plain");
+  });
+});
+
+describe("pointwiseCriteria", () => {
+  const prompt = (judgingCriteria: string[]): PromptConfig => ({
+    id: "p1", name: "P1", tags: ["test"], description: "", prompt: "Write.", judgingCriteria,
+  });
+
+  it("uses the prompt's judging criteria", () => {
+    expect(pointwiseCriteria(prompt(["Voice", "Pacing"]))).toEqual(["Voice", "Pacing"]);
+  });
+
+  it("falls back to a single overall criterion", () => {
+    expect(pointwiseCriteria(prompt([]))).toEqual(["Overall quality"]);
+  });
+});
+
+describe("correctCriteriaForSwap", () => {
+  it("flips every criterion winner when swapped", () => {
+    expect(correctCriteriaForSwap({ voice: "A", pacing: "B", imagery: "tie" }, true))
+      .toEqual({ voice: "B", pacing: "A", imagery: "tie" });
+  });
+
+  it("leaves winners alone when not swapped", () => {
+    const winners = { voice: "A" as const };
+    expect(correctCriteriaForSwap(winners, false)).toBe(winners);
+  });
+
+  it("passes through undefined", () => {
+    expect(correctCriteriaForSwap(undefined, true)).toBeUndefined();
+  });
+});
+
+describe("gradeWinner", () => {
+  it("maps strong and weak preferences to the same winner", () => {
+    expect(gradeWinner("A>>B")).toBe("A");
+    expect(gradeWinner("A>B")).toBe("A");
+    expect(gradeWinner("tie")).toBe("tie");
+    expect(gradeWinner("B>A")).toBe("B");
+    expect(gradeWinner("B>>A")).toBe("B");
+  });
+});
+
+describe("correctGradeForSwap", () => {
+  it("mirrors the grade when swapped, keeping its strength", () => {
+    expect(correctGradeForSwap("A>>B", true)).toBe("B>>A");
+    expect(correctGradeForSwap("B>A", true)).toBe("A>B");
+    expect(correctGradeForSwap("tie", true)).toBe("tie");
+  });
+
+  it("leaves the grade alone when not swapped", () => {
+    expect(correctGradeForSwap("A>B", false)).toBe("A>B");
+    expect(correctGradeForSwap(undefined, true)).toBeUndefined();
+  });
+});
+
+describe("combineBothOrders", () => {
+  function judged(
+    sampleA: string,
+    sampleB: string,
+    winner: "A" | "B" | "tie",
+    overrides: Partial<PairwiseJudgment> = {},
+  ): PairwiseJudgment {
+    return {
+      id: `${sampleA}-${sampleB}`,
+      judgeModel: "judge",
+      promptId: "p1",
+      sampleA,
+      sampleB,
+      winner,
+      reasoning: "",
+      stage: "initial",
+      positionSwapped: false,
+      usage: { inputTokens: 100, outputTokens: 10 },
+      cost: { input: 0.1, output: 0.2, total: 0.3, totalUncached: 0.3 },
+      latencyMs: 50,
+      ...overrides,
+    };
+  }
+
+  it("keeps verdicts that agree across orders", () => {
+    // s1 wins both times: shown first ("A"), then shown second ("B")
+    const j = combineBothOrders(judged("s1", "s2", "A"), judged("s2", "s1", "B"));
+    expect(j.sampleA).toBe("s1");
+    expect(j.winner).toBe("A");
+    expect(j.orderWinners).toEqual(["A", "A"]);
+    expect(j.positionSwapped).toBeUndefined();
+  });
+
+  it("turns verdicts that follow position into ties", () => {
+    const j = combineBothOrders(judged("s1", "s2", "A"), judged("s2", "s1", "A"));
+    expect(j.winner).toBe("tie");
+    expect(j.orderWinners).toEqual(["A", "B"]);
+  });
+
+  it("combines criteria and keeps the weaker of agreeing grades", () => {
+    const j = combineBothOrders(
+      judged("s1", "s2", "A", { grade: "A>>B", criterionWinners: { voice: "A", pacing: "B" } }),
+      judged("s2", "s1", "B", { grade: "B>A", criterionWinners: { voice: "B", pacing: "B" } }),
+    );
+    expect(j.grade).toBe("A>B");
+    expect(j.criterionWinners).toEqual({ voice: "A", pacing: "tie" });
+  });
+
+  it("sums usage, cost and latency", () => {
+    const j = combineBothOrders(judged("s1", "s2", "A"), judged("s2", "s1", "B"));
+    expect(j.usage.inputTokens).toBe(200);
+    expect(j.cost.total).toBeCloseTo(0.6, 10);
+    expect(j.latencyMs).toBe(100);
+  });
+});
@@ -2,12 +2,17 @@ import { generateObject, streamText } from "ai";
 import { z } from "zod";
 import { resolveModel } from "../providers/registry.js";
 import { apiModelId } from "../config.js";
+import type { Random } from "./random.js";
 import { withRetry, isRetryable, isProviderError, MalformedOutputError, safeStreamText } from "./retry.js";
-import { resolveTemperature } from "./model-utils.js";
+import { callSettings } from "./model-utils.js";
+import { RateLimiter, UNLIMITED, usageTokens } from "./rate-limiter.js";
 import {
   extractUsage,
+  PREFERENCE_GRADES,
   type WritingSample,
   type PairwiseJudgment,
+  type PreferenceGrade,
+  type PointwiseScore,
   type PromptConfig,
   type ModelConfig,
   type CostBreakdown,
@@ -17,37 +22,84 @@ import {
 import { calculateCost } from "../providers/models.js";
 import { nanoid } from "nanoid";
 
-const JudgmentSchemaWithReasoning = z.object({
-  winner: z.enum(["A", "B", "tie"]),
-  reasoning: z.string(),
-});
+type Verdict = "A" | "B" | "tie";
 
-const JudgmentSchemaCompact = z.object({
-  winner: z.enum(["A", "B", "tie"]),
-});
+/** A judge's raw reply: a winner, or a preference grade in graded mode. */
+interface JudgmentReply {
+  winner?: Verdict;
+  preference?: PreferenceGrade;
+  criteria?: Verdict[];
+  reasoning?: string;
+}
+
+/**
+ * Judgment schema: an overall winner (a five-point preference when
+ * `graded`), plus one verdict per criterion when `criteriaCount` > 0.
+ */
+function judgmentSchema(
+  reasoning: boolean,
+  criteriaCount: number,
+  graded: boolean
+): z.ZodType<JudgmentReply> {
+  const verdict = z.enum(["A", "B", "tie"]);
+  const shape: z.ZodRawShape = graded
+    ? { preference: z.enum(PREFERENCE_GRADES) }
+    : { winner: verdict };
+  if (criteriaCount > 0) shape.criteria = z.array(verdict).length(criteriaCount);
+  if (reasoning) shape.reasoning = z.string();
+  return z.object(shape) as z.ZodType<JudgmentReply>;
+}
+
+/**
+ * Fill `{name}` placeholders in a judge template from `values` in a
+ * single pass, so placeholder-like text inside a sample is never
+ * substituted. Unknown placeholders are left as written.
+ */
+export function fillJudgeTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.hasOwn(values, name) ? values[name] : match,
+  );
+}
+
+/** A prompt's judging criteria as a numbered list. */
+function criteriaList(prompt: PromptConfig): string {
+  return prompt.judgingCriteria.map((c, i) => `${i + 1}. ${c}`).join("\n");
+}
 
 /**
  * Build the system prompt for judging a pair of writing samples.
+ * With `perCriterion`, the judge also gives a verdict per criterion;
+ * with `graded`, it states how strong its preference is. A prompt's
+ * `judgeSystemPrompt` replaces the built-in text, keeping the JSON
+ * response format so replies still parse.
  */
 function buildJudgingSystemPrompt(
   prompt: PromptConfig,
-  reasoning: boolean
+  reasoning: boolean,
+  perCriterion = false,
+  graded = false
 ): string {
-  const criteria = prompt.judgingCriteria
-    .map((c, i) => `${i + 1}. ${c}`)
-    .join("\n");
+  const criteria = criteriaList(prompt);
 
+  const fields = [graded
+    ? `- "preference": one of "A>>B" (A is much better), "A>B" (A is somewhat better), "tie", "B>A" (B is somewhat better), or "B>>A" (B is much better). Reserve the strong grades for clear quality gaps`
+    : `- "winner": either "A", "B", or "tie"`];
+  if (perCriterion) {
+    fields.push(`- "criteria": an array of exactly ${prompt.judgingCriteria.length} verdicts ("A", "B", or "tie"), one per criterion in the order listed`);
+  }
   if (reasoning) {
-    return `You are an expert literary judge. You will compare two writing samples produced for the same prompt and determine which is better.
+    fields.push(`- "reasoning": a brief explanation of your judgment (2-3 sentences)`);
+  }
 
-Evaluate based on these criteria:
-${criteria}
+  if (prompt.judgeSystemPrompt) {
+    const intro = fillJudgeTemplate(prompt.judgeSystemPrompt.trim(), {
+      criteria,
+      prompt: prompt.prompt.trim(),
+    });
+    return `${intro}
 
 You must respond with a JSON object containing:
-- "winner": either "A", "B", or "tie"
-- "reasoning": a brief explanation of your judgment (2-3 sentences)
-
-Be fair and objective. Do not let the position (A vs B) bias your judgment. Focus on quality differences.`;
+${fields.join("\n")}`;
   }
 
   return `You are an expert literary judge. You will compare two writing samples produced for the same prompt and determine which is better.
@@ -56,19 +108,29 @@ Evaluate based on these criteria:
 ${criteria}
 
 You must respond with a JSON object containing:
-- "winner": either "A", "B", or "tie"
+${fields.join("\n")}
 
 Be fair and objective. Do not let the position (A vs B) bias your judgment. Focus on quality differences.`;
 }
 
 /**
- * Build the user prompt presenting two samples for comparison.
+ * Build the user prompt presenting two samples for comparison, from
+ * the prompt's `judgeUserTemplate` when it has one.
  */
 function buildJudgingUserPrompt(
   prompt: PromptConfig,
   sampleA: WritingSample,
   sampleB: WritingSample
 ): string {
+  if (prompt.judgeUserTemplate) {
+    return fillJudgeTemplate(prompt.judgeUserTemplate.trim(), {
+      criteria: criteriaList(prompt),
+      prompt: prompt.prompt.trim(),
+      sample_a: sampleA.text,
+      sample_b: sampleB.text,
+    });
+  }
+
   return `Original writing prompt: "${prompt.prompt.trim()}"
 
 --- Sample A ---
@@ -116,57 +178,46 @@ export function extractJson(text: string): unknown | null {
 }
 
 /**
- * Have a judge model compare two writing samples.
+ * Run a judge prompt and validate the JSON reply against `schema`.
  *
  * Tries generateObject first (structured output). If the model doesn't
- * support responseFormat / JSON schema, falls back to generateText and
- * parses the JSON from the response text.
+ * support responseFormat / JSON schema, falls back to streamText and
+ * parses the JSON from the response text. `reasoningSummary` is the
+ * model's hidden reasoning, when its provider returns any.
  */
-export async function judgePair(
+async function generateJudgeObject<T>(
   judgeConfig: ModelConfig,
-  prompt: PromptConfig,
-  sampleA: WritingSample,
-  sampleB: WritingSample,
+  schema: z.ZodType<T>,
+  system: string,
+  prompt: string,
   modelInfo: ModelInfo | null,
-  reasoning = true
-): Promise<PairwiseJudgment> {
-  const startTime = Date.now();
-
-  const model = await resolveModel(apiModelId(judgeConfig));
-
-  const schema = reasoning
-    ? JudgmentSchemaWithReasoning
-    : JudgmentSchemaCompact;
-
-  const systemPrompt = buildJudgingSystemPrompt(prompt, reasoning);
-  const userPrompt = buildJudgingUserPrompt(prompt, sampleA, sampleB);
-
-  let winner: "A" | "B" | "tie" | undefined;
-  let reasoningText = "";
-  let usage!: TokenUsage;
-  let cost!: CostBreakdown;
+  limiter: RateLimiter,
+  what: string,
+  random: Random,
+): Promise<{ object: T; usage: TokenUsage; cost: CostBreakdown; reasoningSummary?: string }> {
+  const apiSpec = apiModelId(judgeConfig);
+  const model = await resolveModel(apiSpec, judgeConfig.apiBase);
+  const settings = callSettings(judgeConfig, 0.2, modelInfo);
 
   if (!modelInfo || modelInfo.supportsStructuredOutput) {
     try {
       // Primary path: structured output via generateObject (with retry)
-      await withRetry(async () => {
-        const result = await generateObject({
+      return await withRetry(async () => {
+        const result = await limiter.run(apiSpec, () => generateObject({
           model,
           schema,
-          system: systemPrompt,
-          prompt: userPrompt,
-          temperature: resolveTemperature(judgeConfig.temperature, 0.2, modelInfo),
+          system,
+          prompt,
+          ...settings,
           maxRetries: 0,
-        });
-
-        usage = extractUsage(result.usage);
-        cost = calculateCost(modelInfo, usage);
-        winner = result.object.winner;
-        reasoningText =
-          "reasoning" in result.object
-            ? String(result.object.reasoning)
-            : "";
-      });
+        }), (r) => usageTokens(r.usage));
+
+        const usage = extractUsage(result.usage);
+        return {
+          object: result.object as T, usage, cost: calculateCost(modelInfo, usage),
+          reasoningSummary: result.reasoning || undefined,
+        };
+      }, undefined, undefined, random);
     } catch (err) {
       // Transient errors already exhausted retries -- propagate rather than
       // falling through to the streamText path (which would also fail).
@@ -177,45 +228,78 @@ export async function judgePair(
     }
   }
 
-  if (!winner) {
-    // Fallback: streamText + JSON extraction (with retry).
-    // Used when generateObject fails or model lacks structured output support.
-    await withRetry(async () => {
+  // Fallback: streamText + JSON extraction (with retry).
+  // Used when generateObject fails or model lacks structured output support.
+  return withRetry(async () => {
+    const { text, rawUsage, reasoningText } = await limiter.run(apiSpec, async () => {
       const { text, result } = await safeStreamText((handler) => streamText({
         model,
-        system: systemPrompt,
-        prompt: userPrompt,
-        temperature: resolveTemperature(judgeConfig.temperature, 0.2, modelInfo),
+        system,
+        prompt,
+        ...settings,
         maxRetries: 0,
         ...handler,
       }));
-      usage = extractUsage(await result.usage);
-      cost = calculateCost(modelInfo, usage);
-
-      const parsed = extractJson(text);
-      if (!parsed) {
-        throw new MalformedOutputError(
-          `${judgeConfig.label}: could not extract JSON from judgment response`
-        );
-      }
-
-      const validated = schema.safeParse(parsed);
-      if (!validated.success) {
-        throw new MalformedOutputError(
-          `${judgeConfig.label}: judgment JSON did not match schema: ${validated.error.message}`
-        );
-      }
-
-      winner = validated.data.winner;
-      reasoningText =
-        "reasoning" in validated.data
-          ? String(validated.data.reasoning)
-          : "";
-    });
-  }
+      return { text, rawUsage: await result.usage, reasoningText: await result.reasoningText };
+    }, (r) => usageTokens(r.rawUsage));
+    const usage = extractUsage(rawUsage);
+
+    const parsed = extractJson(text);
+    if (!parsed) {
+      throw new MalformedOutputError(
+        `${judgeConfig.label}: could not extract JSON from ${what} response`
+      );
+    }
+
+    const validated = schema.safeParse(parsed);
+    if (!validated.success) {
+      throw new MalformedOutputError(
+        `${judgeConfig.label}: ${what} JSON did not match schema: ${validated.error.message}`
+      );
+    }
+
+    return {
+      object: validated.data, usage, cost: calculateCost(modelInfo, usage),
+      reasoningSummary: reasoningText || undefined,
+    };
+  }, undefined, undefined, random);
+}
+
+/**
+ * Have a judge model compare two writing samples. With
+ * `criterionVerdicts`, the judge also picks a winner for each of the
+ * prompt's judging criteria (skipped when the prompt lists none). With
+ * `gradedPreference`, the judge grades its preference on a five-point
+ * scale and the winner is derived from the grade. `random` drives retry
+ * jitter.
+ */
+export async function judgePair(
+  judgeConfig: ModelConfig,
+  prompt: PromptConfig,
+  sampleA: WritingSample,
+  sampleB: WritingSample,
+  modelInfo: ModelInfo | null,
+  reasoning = true,
+  limiter: RateLimiter = UNLIMITED,
+  criterionVerdicts = false,
+  gradedPreference = false,
+  random: Random = Math.random,
+): Promise<PairwiseJudgment> {
+  const startTime = Date.now();
+
+  const perCriterion = criterionVerdicts && prompt.judgingCriteria.length > 0;
+  const schema = judgmentSchema(reasoning, perCriterion ? prompt.judgingCriteria.length : 0, gradedPreference);
+
+  const { object, usage, cost, reasoningSummary } = await generateJudgeObject(
+    judgeConfig, schema,
+    buildJudgingSystemPrompt(prompt, reasoning, perCriterion, gradedPreference),
+    buildJudgingUserPrompt(prompt, sampleA, sampleB),
+    modelInfo, limiter, "judgment", random,
+  );
 
   const latencyMs = Date.now() - startTime;
 
+  const winner = object.preference ? gradeWinner(object.preference) : object.winner;
   if (!winner) {
     throw new MalformedOutputError(`${judgeConfig.label}: judgment produced no winner`);
   }
@@ -227,23 +311,120 @@ export async function judgePair(
     sampleA: sampleA.id,
     sampleB: sampleB.id,
     winner,
-    reasoning: reasoningText,
+    reasoning: object.reasoning != null ? String(object.reasoning) : "",
+    reasoningSummary,
     stage: sampleA.stage,
+    criterionWinners: object.criteria
+      ? Object.fromEntries(prompt.judgingCriteria.map((c, i) => [c, object.criteria![i]]))
+      : undefined,
+    grade: object.preference,
     usage,
     cost,
     latencyMs,
   };
 }
 
+// ── Pointwise Scoring ───────────────────────────────
+
+/** Lowest and highest pointwise score a judge may give. */
+export const POINTWISE_MIN = 1;
+export const POINTWISE_MAX = 10;
+
+/**
+ * Criteria a sample is scored on: the prompt's judging criteria, or a
+ * single overall criterion when the prompt lists none.
+ */
+export function pointwiseCriteria(prompt: PromptConfig): string[] {
+  return prompt.judgingCriteria.length > 0 ? prompt.judgingCriteria : ["Overall quality"];
+}
+
+/**
+ * Build the system prompt for scoring a single writing sample.
+ */
+function buildScoringSystemPrompt(
+  criteria: string[],
+  reasoning: boolean
+): string {
+  const list = criteria.map((c, i) => `${i + 1}. ${c}`).join("\n");
+
+  return `You are an expert literary judge. You will score a single writing sample produced for a prompt.
+
+Score the sample on each of these criteria, in order:
+${list}
+
+Use an integer scale from ${POINTWISE_MIN} (very poor) to ${POINTWISE_MAX} (exceptional). Score against an absolute standard of published writing, not relative to other samples you may have seen.
+
+You must respond with a JSON object containing:
+- "scores": an array of exactly ${criteria.length} integers, one per criterion in the order listed${reasoning ? `
+- "reasoning": a brief explanation of your scores (2-3 sentences)` : ""}`;
+}
+
+/**
+ * Build the user prompt presenting one sample for scoring.
+ */
+function buildScoringUserPrompt(
+  prompt: PromptConfig,
+  sample: WritingSample
+): string {
+  return `Original writing prompt: "${prompt.prompt.trim()}"
+
+--- Sample ---
+${sample.text}
+
+Score the sample. Respond with JSON.`;
+}
+
+/**
+ * Have a judge model score one writing sample from 1 to 10 on each of
+ * the prompt's judging criteria.
+ */
+export async function scoreSample(
+  judgeConfig: ModelConfig,
+  prompt: PromptConfig,
+  sample: WritingSample,
+  modelInfo: ModelInfo | null,
+  reasoning = true,
+  limiter: RateLimiter = UNLIMITED,
+  random: Random = Math.random,
+): Promise<PointwiseScore> {
+  const startTime = Date.now();
+  const criteria = pointwiseCriteria(prompt);
+
+  const scoresSchema = z.array(z.number().int().min(POINTWISE_MIN).max(POINTWISE_MAX)).length(criteria.length);
+  const schema: z.ZodType<{ scores: number[]; reasoning?: string }> = reasoning
+    ? z.object({ scores: scoresSchema, reasoning: z.string() })
+    : z.object({ scores: scoresSchema });
+
+  const { object, usage, cost } = await generateJudgeObject(
+    judgeConfig, schema,
+    buildScoringSystemPrompt(criteria, reasoning),
+    buildScoringUserPrompt(prompt, sample),
+    modelInfo, limiter, "score", random,
+  );
+
+  return {
+    id: nanoid(),
+    judgeModel: judgeConfig.label,
+    promptId: prompt.id,
+    sampleId: sample.id,
+    stage: sample.stage,
+    scores: Object.fromEntries(criteria.map((c, i) => [c, object.scores[i]])),
+    reasoning: object.reasoning != null ? String(object.reasoning) : "",
+    usage,
+    cost,
+    latencyMs: Date.now() - startTime,
+  };
+}
+
 /**
  * Randomize pair order to avoid position bias.
  * Returns the pair with a 50% chance of being swapped.
  */
-export function randomizePairOrder<T>(pair: [T, T]): {
+export function randomizePairOrder<T>(pair: [T, T], random: Random = Math.random): {
   pair: [T, T];
   swapped: boolean;
 } {
-  const swapped = Math.random() < 0.5;
+  const swapped = random() < 0.5;
   return {
     pair: swapped ? [pair[1], pair[0]] : pair,
     swapped,
@@ -260,3 +441,102 @@ export function correctForSwap(
   if (!swapped || winner === "tie") return winner;
   return winner === "A" ? "B" : "A";
 }
+
+/**
+ * Correct every per-criterion winner if the pair was swapped.
+ */
+export function correctCriteriaForSwap(
+  criterionWinners: Record<string, "A" | "B" | "tie"> | undefined,
+  swapped: boolean
+): Record<string, "A" | "B" | "tie"> | undefined {
+  if (!criterionWinners || !swapped) return criterionWinners;
+  return Object.fromEntries(
+    Object.entries(criterionWinners).map(([c, w]) => [c, correctForSwap(w, true)]),
+  );
+}
+
+/** The winner a preference grade implies. */
+export function gradeWinner(grade: PreferenceGrade): "A" | "B" | "tie" {
+  if (grade === "A>>B" || grade === "A>B") return "A";
+  if (grade === "B>>A" || grade === "B>A") return "B";
+  return "tie";
+}
+
+/**
+ * Correct a preference grade if the pair was swapped.
+ */
+export function correctGradeForSwap(
+  grade: PreferenceGrade | undefined,
+  swapped: boolean
+): PreferenceGrade | undefined {
+  if (!grade || !swapped) return grade;
+  const i = PREFERENCE_GRADES.indexOf(grade);
+  return PREFERENCE_GRADES[PREFERENCE_GRADES.length - 1 - i];
+}
+
+function sumOptional(a?: number, b?: number): number | undefined {
+  return a == null && b == null ? undefined : (a ?? 0) + (b ?? 0);
+}
+
+/**
+ * Combine two judgments of the same pair by the same judge, `forward`
+ * shown as (A, B) and `reversed` shown as (B, A), both uncorrected as
+ * returned by judgePair. Verdicts that agree stand; verdicts that
+ * disagree followed the position rather than the text and become ties.
+ * Agreeing grades of different strength keep the weaker one.
+ */
+export function combineBothOrders(
+  forward: PairwiseJudgment,
+  reversed: PairwiseJudgment
+): PairwiseJudgment {
+  const agree = (a: Verdict, b: Verdict): Verdict => (a === b ? a : "tie");
+  const back = correctForSwap(reversed.winner, true);
+
+  let criterionWinners: Record<string, Verdict> | undefined;
+  const reversedCriteria = correctCriteriaForSwap(reversed.criterionWinners, true);
+  if (forward.criterionWinners && reversedCriteria) {
+    criterionWinners = Object.fromEntries(Object.entries(forward.criterionWinners)
+      .map(([c, w]) => [c, agree(w, reversedCriteria[c] ?? "tie")]));
+  }
+
+  let grade: PreferenceGrade | undefined;
+  const reversedGrade = correctGradeForSwap(reversed.grade, true);
+  if (forward.grade && reversedGrade) {
+    const tie = PREFERENCE_GRADES.indexOf("tie");
+    const strength = (g: PreferenceGrade) => Math.abs(PREFERENCE_GRADES.indexOf(g) - tie);
+    grade = gradeWinner(forward.grade) !== gradeWinner(reversedGrade)
+      ? "tie"
+      : strength(forward.grade) <= strength(reversedGrade) ? forward.grade : reversedGrade;
+  }
+
+  return {
+    ...forward,
+    id: nanoid(),
+    winner: agree(forward.winner, back),
+    reasoning: [forward.reasoning, reversed.reasoning].some(Boolean)
+      ? `A shown first: ${forward.reasoning}\n\nB shown first: ${reversed.reasoning}`
+      : "",
+    reasoningSummary: [forward.reasoningSummary, reversed.reasoningSummary].some(Boolean)
+      ? `A shown first: ${forward.reasoningSummary ?? ""}\n\nB shown first: ${reversed.reasoningSummary ?? ""}`
+      : undefined,
+    positionSwapped: undefined,
+    criterionWinners,
+    grade,
+    orderWinners: [forward.winner, back],
+    usage: {
+      inputTokens: forward.usage.inputTokens + reversed.usage.inputTokens,
+      outputTokens: forward.usage.outputTokens + reversed.usage.outputTokens,
+      cacheReadTokens: sumOptional(forward.usage.cacheReadTokens, reversed.usage.cacheReadTokens),
+      cacheWriteTokens: sumOptional(forward.usage.cacheWriteTokens, reversed.usage.cacheWriteTokens),
+      reasoningTokens: sumOptional(forward.usage.reasoningTokens, reversed.usage.reasoningTokens),
+    },
+    cost: {
+      input: forward.cost.input + reversed.cost.input,
+      output: forward.cost.output + reversed.cost.output,
+      total: forward.cost.total + reversed.cost.total,
+      totalUncached: forward.cost.totalUncached + reversed.cost.totalUncached,
+      reasoning: sumOptional(forward.cost.reasoning, reversed.cost.reasoning),
+    },
+    latencyMs: forward.latencyMs + reversed.latencyMs,
+  };
+}
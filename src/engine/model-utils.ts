@@ -1,4 +1,5 @@
-import type { ModelInfo } from "../types.js";
+import type { JSONValue } from "ai";
+import type { ModelConfig, ModelInfo } from "../types.js";
 
 /** Global cap -- same as opencode's OUTPUT_TOKEN_MAX. */
 const OUTPUT_TOKEN_CAP = 32_000;
@@ -28,3 +29,60 @@ export function resolveTemperature(
   if (modelInfo && !modelInfo.supportsTemperature) return undefined;
   return configTemp ?? defaultTemp;
 }
+
+const ANTHROPIC_PROVIDERS = new Set(["anthropic", "google-vertex-anthropic"]);
+const GOOGLE_PROVIDERS = new Set(["google", "google-vertex"]);
+
+/**
+ * AI SDK provider options for a model's spec parameters: reasoning
+ * effort and thinking budget in the shape its provider family expects,
+ * then any options passed through verbatim (which win).
+ */
+export function providerOptionsFor(
+  cfg: ModelConfig,
+): Record<string, Record<string, JSONValue>> | undefined {
+  const params = cfg.params;
+  if (!params) return undefined;
+  const options: Record<string, Record<string, JSONValue>> = {};
+  const { reasoningEffort: effort, thinkingBudget: budget } = params;
+
+  if (ANTHROPIC_PROVIDERS.has(cfg.provider)) {
+    if (budget != null) options.anthropic = { thinking: { type: "enabled", budgetTokens: budget } };
+  } else if (GOOGLE_PROVIDERS.has(cfg.provider)) {
+    if (effort != null || budget != null) {
+      options.google = {
+        thinkingConfig: {
+          ...(budget != null && { thinkingBudget: budget }),
+          ...(effort != null && { thinkingLevel: effort }),
+        },
+      };
+    }
+  } else if (effort != null) {
+    // OpenAI reads "openai"; OpenAI-compatible providers read their own name
+    options.openai = { reasoningEffort: effort };
+    options[cfg.provider] = { reasoningEffort: effort };
+  }
+
+  for (const [provider, passthrough] of Object.entries(params.providerOptions ?? {})) {
+    options[provider] = { ...options[provider], ...passthrough };
+  }
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/**
+ * Sampling settings for one call: the spec's parameters first, then
+ * the model's configured temperature and token limit, then `defaultTemp`.
+ */
+export function callSettings(cfg: ModelConfig, defaultTemp: number, modelInfo: ModelInfo | null): {
+  temperature: number | undefined;
+  topP: number | undefined;
+  maxOutputTokens: number;
+  providerOptions: Record<string, Record<string, JSONValue>> | undefined;
+} {
+  return {
+    temperature: resolveTemperature(cfg.params?.temperature ?? cfg.temperature, defaultTemp, modelInfo),
+    topP: cfg.params?.topP,
+    maxOutputTokens: resolveMaxOutputTokens(cfg.params?.maxTokens ?? cfg.maxTokens, modelInfo),
+    providerOptions: providerOptionsFor(cfg),
+  };
+}
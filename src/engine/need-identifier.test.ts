@@ -12,11 +12,14 @@ import {
   revisionKey,
   primaryModel,
   interleaveByModel,
+  expectedNeedCost,
+  sampleKey,
 } from "./need-identifier.js";
 import type { Need, CompletedWork } from "./need-identifier.js";
 import type { WhrRating } from "./whr.js";
 import type { ModelConfig, PromptConfig, ConvergenceConfig } from "../types.js";
-import { DEFAULT_CONVERGENCE } from "../types.js";
+import type { StepCostFn } from "./cost-model.js";
+import { DEFAULT_CONVERGENCE, SELF_FEEDBACK } from "../types.js";
 
 /** Wrapper that returns just the needs array for test convenience. */
 function identifyNeeds(
@@ -1266,6 +1269,37 @@ describe("batch dimension coverage", () => {
     expect(feedbackModels.size).toBeGreaterThan(2);
   });
 
+  it("adds the self-revision control arm as an improvement player only", () => {
+    const emptyRatings: WhrRating[] = [];
+    const needs = identifyNeeds(
+      emptyRatings, emptyRatings, emptyRatings,
+      workWith(), twoModels(), oneJudge(), onePrompt(),
+      DEFAULT_CONVERGENCE, 50, 1, undefined, undefined, undefined, true,
+    );
+    const self = needs.filter((n) => "feedbackModel" in n && n.feedbackModel === SELF_FEEDBACK);
+    expect(self.length).toBeGreaterThan(0);
+    expect(self.every((n) => n.type === "improvement_judgment")).toBe(true);
+
+    const without = identifyNeeds(
+      emptyRatings, emptyRatings, emptyRatings,
+      workWith(), twoModels(), oneJudge(), onePrompt(),
+      DEFAULT_CONVERGENCE, 50, 1,
+    );
+    expect(without.some((n) => "feedbackModel" in n && n.feedbackModel === SELF_FEEDBACK)).toBe(false);
+  });
+
+  it("emits self-critique needs once per writer even when feedback pairs are resolved", () => {
+    const needs = identifyNeeds(
+      convergedRatings(2), convergedRatings(2), convergedRatings(2),
+      workWith(), twoModels(), oneJudge(), onePrompt(),
+      DEFAULT_CONVERGENCE, 50, 1, undefined, undefined, undefined, false, true,
+    );
+    const improvement = needs.filter((n) => n.type === "improvement_judgment");
+    expect(improvement.map((n) => [n.writer, n.feedbackModel]).sort()).toEqual([
+      ["modelA", "modelA"], ["modelB", "modelB"],
+    ]);
+  });
+
   it("covers multiple writer pairs in revised needs", () => {
     // With 5 models, there are C(5,2)=10 writer pairs.
     // The revised batch should cover multiple pairs, not just the first.
@@ -1440,6 +1474,10 @@ describe("uncachedSteps", () => {
     expect(uncachedSteps(work, "writer", "fbModel", "p1", 0)).toBe(0);
   });
 
+  it("never counts self-revision feedback as a call", () => {
+    expect(uncachedSteps(workWith(), "writer", SELF_FEEDBACK, "p1", 0)).toBe(1);
+  });
+
   it("does not match different output indices", () => {
     const work = workWith({
       existingFeedback: new Set([feedbackKey("fbModel", "writer", "p1", 0)]),
@@ -1649,6 +1687,96 @@ describe("cost-aware scoring", () => {
   });
 });
 
+// ── Dollar-cost scoring ─────────────────────────────
+
+/** Flat per-step prices, with per-model overrides for the judge step. */
+function flatStepCost(judgeCosts: Record<string, number> = {}): StepCostFn {
+  return (model, step) =>
+    step === "judge" ? (judgeCosts[model] ?? 0.01) : 0.1;
+}
+
+describe("expectedNeedCost", () => {
+  it("counts only the judge when both samples exist", () => {
+    const work = workWith({
+      existingSamples: new Set([sampleKey("modelA", "p1", 0), sampleKey("modelB", "p1", 0)]),
+    });
+    const cost = expectedNeedCost(makeInitialNeed("modelA", "modelB"), work, flatStepCost());
+    expect(cost).toBeCloseTo(0.01, 10);
+  });
+
+  it("adds missing samples to an initial judgment", () => {
+    const work = workWith({ existingSamples: new Set([sampleKey("modelA", "p1", 0)]) });
+    const cost = expectedNeedCost(makeInitialNeed("modelA", "modelB"), work, flatStepCost());
+    expect(cost).toBeCloseTo(0.11, 10);
+  });
+
+  it("adds the uncached cascade to an improvement judgment", () => {
+    const need = makeImprovementNeed("writer", "fb");
+    expect(expectedNeedCost(need, workWith(), flatStepCost())).toBeCloseTo(0.31, 10);
+
+    const cached = workWith({
+      existingSamples: new Set([sampleKey("writer", "p1", 0)]),
+      existingFeedback: new Set([feedbackKey("fb", "writer", "p1", 0)]),
+      existingRevisions: new Set([revisionKey("writer", "fb", "p1", 0)]),
+    });
+    expect(expectedNeedCost(need, cached, flatStepCost())).toBeCloseTo(0.01, 10);
+  });
+
+  it("adds both cascades to a revised judgment", () => {
+    const need = makeRevisedNeed("modelA", "modelB", "fb");
+    expect(expectedNeedCost(need, workWith(), flatStepCost())).toBeCloseTo(0.61, 10);
+  });
+
+  it("adds every later revision round to a revised judgment", () => {
+    const need = makeRevisedNeed("modelA", "modelB", "fb");
+    // Each later round: two feedbacks, two revisions and a judgment
+    expect(expectedNeedCost(need, workWith(), flatStepCost(), 3)).toBeCloseTo(0.61 + 2 * 0.41, 10);
+  });
+});
+
+describe("needScoring", () => {
+  const judges = [makeModel("cheapJudge"), makeModel("dearJudge")];
+  const stepCost = flatStepCost({ cheapJudge: 0.001, dearJudge: 0.1 });
+  const work = workWith({
+    existingSamples: new Set([sampleKey("modelA", "p1", 0), sampleKey("modelB", "p1", 0)]),
+  });
+  const scoreFor = (needs: Need[], judge: string) =>
+    needs.find((n) => n.type === "initial_judgment" && n.judgeModel.label === judge)?.score;
+
+  it("cost mode prefers the cheaper of two equally informative judges", () => {
+    const needs = identifyNeeds(
+      [], [], [], work, twoModels(), judges, onePrompt(),
+      { ...DEFAULT_CONVERGENCE, needScoring: "cost" }, 100, 1,
+      undefined, undefined, stepCost,
+    );
+    const cheap = scoreFor(needs, "cheapJudge");
+    const dear = scoreFor(needs, "dearJudge");
+    expect(cheap).toBeDefined();
+    expect(dear).toBeDefined();
+    expect(cheap!).toBeCloseTo(dear! * 100, 6);
+  });
+
+  it("gain mode ignores dollar cost", () => {
+    const needs = identifyNeeds(
+      [], [], [], work, twoModels(), judges, onePrompt(),
+      DEFAULT_CONVERGENCE, 100, 1,
+      undefined, undefined, stepCost,
+    );
+    expect(scoreFor(needs, "cheapJudge")).toBe(scoreFor(needs, "dearJudge"));
+  });
+
+  it("cost mode without a cost function falls back to step counts", () => {
+    const convergence: ConvergenceConfig = { ...DEFAULT_CONVERGENCE, needScoring: "cost" };
+    const withMode = identifyNeeds(
+      [], [], [], work, twoModels(), judges, onePrompt(), convergence, 100, 1,
+    );
+    const gain = identifyNeeds(
+      [], [], [], work, twoModels(), judges, onePrompt(), DEFAULT_CONVERGENCE, 100, 1,
+    );
+    expect(withMode.map((n) => n.score)).toEqual(gain.map((n) => n.score));
+  });
+});
+
 // ── primaryModel ────────────────────────────────────
 
 describe("primaryModel", () => {
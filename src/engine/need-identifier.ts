@@ -1,8 +1,10 @@
 import { sigmoid, LOG10E_TIMES_400, hasOverlap, hasAnyOverlap } from "./whr.js";
 import type { WhrRating } from "./whr.js";
 import type { ModelConfig, PromptConfig, ConvergenceConfig } from "../types.js";
+import { SELF_FEEDBACK } from "../types.js";
 import type { JudgeQualityData } from "./judge-quality.js";
 import { shouldPruneJudge } from "./judge-quality.js";
+import type { StepCostFn } from "./cost-model.js";
 
 // ── Types ───────────────────────────────────────────
 
@@ -53,6 +55,8 @@ export interface CompletedWork {
   missingRevisions: Set<string>;
   /** Missing judgments: "modelA:modelB:promptId:idxA:idxB" (models sorted). All judges missed. */
   missingJudgments: Set<string>;
+  /** Existing writing samples (sampleKey format). Used for cascade cost estimation. */
+  existingSamples: Set<string>;
   /** Existing feedback artifacts (feedbackKey format). Used for cascade cost estimation. */
   existingFeedback: Set<string>;
   /** Existing revision artifacts (revisionKey format). Used for cascade cost estimation. */
@@ -67,6 +71,7 @@ export function emptyCompletedWork(): CompletedWork {
     missingFeedback: new Set(),
     missingRevisions: new Set(),
     missingJudgments: new Set(),
+    existingSamples: new Set(),
     existingFeedback: new Set(),
     existingRevisions: new Set(),
   };
@@ -219,7 +224,8 @@ function isCascadeBroken(
 /**
  * Count uncached cascade steps (feedback + revision) for a single
  * (writer, fbModel, prompt, outputIdx) tuple. Each uncached level is
- * one additional API call on top of the judgment itself.
+ * one additional API call on top of the judgment itself. SELF_FEEDBACK
+ * "feedback" is a fixed instruction, so it never costs a call.
  */
 export function uncachedSteps(
   work: CompletedWork,
@@ -228,10 +234,55 @@ export function uncachedSteps(
   promptId: string,
   outputIdx: number,
 ): number {
-  return (work.existingFeedback.has(feedbackKey(fbModel, writer, promptId, outputIdx)) ? 0 : 1)
+  return (fbModel === SELF_FEEDBACK || work.existingFeedback.has(feedbackKey(fbModel, writer, promptId, outputIdx)) ? 0 : 1)
     + (work.existingRevisions.has(revisionKey(writer, fbModel, promptId, outputIdx)) ? 0 : 1);
 }
 
+/**
+ * Floor on a need's expected dollar cost in cost-aware scoring, so
+ * fully-cached cascades on free models keep a finite score.
+ */
+export const MIN_NEED_COST = 0.0001;
+
+/**
+ * Expected USD cost of a need: the judgment plus every cascade step
+ * (sample, feedback, revision) not already known to exist. Unknown
+ * artifacts are assumed uncached, which overestimates cost until
+ * seeding or lazy discovery records them. With `revisionRounds` > 1 a
+ * revised judgment also pays for every later round (feedback and a
+ * revision per side, plus a judgment), which is never tracked as done.
+ */
+export function expectedNeedCost(
+  need: Need,
+  work: CompletedWork,
+  stepCost: StepCostFn,
+  revisionRounds = 1,
+): number {
+  const sample = (model: string, idx: number) =>
+    work.existingSamples.has(sampleKey(model, need.promptId, idx)) ? 0 : stepCost(model, "write");
+  const cascade = (writer: string, fbModel: string, idx: number) =>
+    sample(writer, idx)
+    + (work.existingFeedback.has(feedbackKey(fbModel, writer, need.promptId, idx)) ? 0 : stepCost(fbModel, "feedback"))
+    + (work.existingRevisions.has(revisionKey(writer, fbModel, need.promptId, idx)) ? 0 : stepCost(writer, "revise"));
+
+  const judge = stepCost(need.judgeModel.label, "judge");
+  switch (need.type) {
+    case "initial_judgment":
+      return judge + sample(need.modelA, need.outputIdxA) + sample(need.modelB, need.outputIdxB);
+    case "improvement_judgment":
+      return judge + cascade(need.writer, need.feedbackModel, need.outputIdx);
+    case "revised_judgment": {
+      const laterRound = judge
+        + 2 * stepCost(need.feedbackModel, "feedback")
+        + stepCost(need.modelA, "revise") + stepCost(need.modelB, "revise");
+      return judge
+        + cascade(need.modelA, need.feedbackModel, need.outputIdxA)
+        + cascade(need.modelB, need.feedbackModel, need.outputIdxB)
+        + (revisionRounds - 1) * laterRound;
+    }
+  }
+}
+
 // ── Batch Selection Helpers ─────────────────────────
 
 /** Compute diversification key based on the player pair in each dimension.
@@ -331,6 +382,21 @@ export function judgmentKey(
  * `outputsPerModel` controls how many output indices per model per
  * prompt are considered for comparisons. Default is 1 (single output).
  * The runner passes min(cap, currentMax + 1) to allow adaptive growth.
+ *
+ * With `convergence.needScoring === "cost"` and a `stepCost` pricer,
+ * the cascade divisor is the need's expected dollar cost instead of its
+ * uncached step count, so cheap judges and cached cascades win when
+ * they buy similar CI shrinkage.
+ *
+ * With `selfRevision`, SELF_FEEDBACK joins the feedback models as an
+ * improvement-judgment player, so real feedback providers are compared
+ * against writers revising on their own. It is not a revised-judgment
+ * feedback source.
+ *
+ * With `selfCritique`, every writer's improvement judgments on its own
+ * feedback are emitted for their own sake (scored by the uncertainty of
+ * the writer's feedback rating), not only while that rating is close to
+ * another feedback model's.
  */
 export function identifyNeeds(
   writingRatings: WhrRating[],
@@ -345,8 +411,21 @@ export function identifyNeeds(
   outputsPerModel: number,
   judgeQuality?: JudgeQualityData,
   modelOutputCaps?: Map<string, number>,
+  stepCost?: StepCostFn,
+  selfRevision = false,
+  selfCritique = false,
 ): { needs: Need[]; ratingMap: Map<string, WhrRating> } {
   const candidates: Need[] = [];
+
+  // Cascade cost divisor: uncached step count by default, expected
+  // dollars in cost-aware mode.
+  const costAware = convergence.needScoring === "cost" && stepCost != null;
+  const scored = (need: Need, base: number, steps: number): Need => {
+    need.score = base / (costAware
+      ? Math.max(MIN_NEED_COST, expectedNeedCost(need, completedWork, stepCost!))
+      : steps);
+    return need;
+  };
   const ratingMap = buildRatingMap(writingRatings, revisedRatings, feedbackRatings);
 
   // Default rating for models not yet in WHR
@@ -401,7 +480,7 @@ export function identifyNeeds(
               if (completedWork.judgments.has(key)) continue;
 
               const judgeWeight = jw.get(judge.label) ?? 1.0;
-              candidates.push({
+              candidates.push(scored({
                 type: "initial_judgment",
                 modelA: models[i].label,
                 modelB: models[j].label,
@@ -409,8 +488,8 @@ export function identifyNeeds(
                 outputIdxB: oj,
                 promptId: prompt.id,
                 judgeModel: judge,
-                score: gain * judgeWeight / (1 + Math.max(oi, oj)),
-              });
+                score: 0,
+              }, gain * judgeWeight / (1 + Math.max(oi, oj)), 1));
             }
           }
         }
@@ -421,10 +500,12 @@ export function identifyNeeds(
   // ── Improvement judgment needs ────────────────────
   // For improvement, the "players" are feedback models. We pair them
   // using information gain on the feedback rating dimension.
-  for (let i = 0; i < models.length; i++) {
-    for (let j = i + 1; j < models.length; j++) {
-      const fbA = ratingMap.get(`feedback:${models[i].label}`) ?? { ...defaultRating, model: models[i].label };
-      const fbB = ratingMap.get(`feedback:${models[j].label}`) ?? { ...defaultRating, model: models[j].label };
+  const feedbackModels = models.map((m) => m.label);
+  if (selfRevision) feedbackModels.push(SELF_FEEDBACK);
+  for (let i = 0; i < feedbackModels.length; i++) {
+    for (let j = i + 1; j < feedbackModels.length; j++) {
+      const fbA = ratingMap.get(`feedback:${feedbackModels[i]}`) ?? { ...defaultRating, model: feedbackModels[i] };
+      const fbB = ratingMap.get(`feedback:${feedbackModels[j]}`) ?? { ...defaultRating, model: feedbackModels[j] };
 
       if (pairResolved(fbA, fbB, convergence)) continue;
 
@@ -432,55 +513,58 @@ export function identifyNeeds(
 
       // Each improvement comparison needs a writer to apply both feedbacks to
       for (const writer of models) {
+        // Self-critique sides get their own needs below
+        const selfA = selfCritique && feedbackModels[i] === writer.label;
+        const selfB = selfCritique && feedbackModels[j] === writer.label;
         for (let oi = 0; oi < capFor(writer.label); oi++) {
           for (const prompt of prompts) {
             // Pre-check per-side cascade deps and triple pruning (independent of judge).
             // isCascadeBroken checks sample, feedback, and revision for each side.
-            const sideAMissing =
-              isCascadeBroken(completedWork, writer.label, models[i].label, prompt.id, oi)
-              || completedWork.missingJudgments.has(judgmentGroupKey(writer.label, models[i].label, prompt.id, oi, 0));
-            const sideBMissing =
-              isCascadeBroken(completedWork, writer.label, models[j].label, prompt.id, oi)
-              || completedWork.missingJudgments.has(judgmentGroupKey(writer.label, models[j].label, prompt.id, oi, 0));
+            const sideAMissing = selfA
+              || isCascadeBroken(completedWork, writer.label, feedbackModels[i], prompt.id, oi)
+              || completedWork.missingJudgments.has(judgmentGroupKey(writer.label, feedbackModels[i], prompt.id, oi, 0));
+            const sideBMissing = selfB
+              || isCascadeBroken(completedWork, writer.label, feedbackModels[j], prompt.id, oi)
+              || completedWork.missingJudgments.has(judgmentGroupKey(writer.label, feedbackModels[j], prompt.id, oi, 0));
             if (sideAMissing && sideBMissing) continue;
 
             // Cascade cost: 1 (judgment) + uncached intermediate steps.
             // Only computed for non-missing sides (missing sides emit no needs).
             const costA = sideAMissing ? 0
-              : 1 + uncachedSteps(completedWork, writer.label, models[i].label, prompt.id, oi);
+              : 1 + uncachedSteps(completedWork, writer.label, feedbackModels[i], prompt.id, oi);
             const costB = sideBMissing ? 0
-              : 1 + uncachedSteps(completedWork, writer.label, models[j].label, prompt.id, oi);
+              : 1 + uncachedSteps(completedWork, writer.label, feedbackModels[j], prompt.id, oi);
 
             for (const judge of effectiveJudges) {
               // Emit needs for whichever side is incomplete
-              const keyA = judgmentKey("improvement", writer.label, models[i].label, prompt.id, judge.label, oi);
-              const keyB = judgmentKey("improvement", writer.label, models[j].label, prompt.id, judge.label, oi);
+              const keyA = judgmentKey("improvement", writer.label, feedbackModels[i], prompt.id, judge.label, oi);
+              const keyB = judgmentKey("improvement", writer.label, feedbackModels[j], prompt.id, judge.label, oi);
               if (completedWork.judgments.has(keyA) && completedWork.judgments.has(keyB)) continue;
 
               const judgeWeight = jw.get(judge.label) ?? 1.0;
               if (!sideAMissing && !completedWork.judgments.has(keyA)) {
-                candidates.push({
+                candidates.push(scored({
                   type: "improvement_judgment",
                   writer: writer.label,
                   outputIdx: oi,
-                  feedbackModel: models[i].label,
-                  againstFeedbackModel: models[j].label,
+                  feedbackModel: feedbackModels[i],
+                  againstFeedbackModel: feedbackModels[j],
                   promptId: prompt.id,
                   judgeModel: judge,
-                  score: gain * judgeWeight / (1 + oi) / costA,
-                });
+                  score: 0,
+                }, gain * judgeWeight / (1 + oi), costA));
               }
               if (!sideBMissing && !completedWork.judgments.has(keyB)) {
-                candidates.push({
+                candidates.push(scored({
                   type: "improvement_judgment",
                   writer: writer.label,
                   outputIdx: oi,
-                  feedbackModel: models[j].label,
-                  againstFeedbackModel: models[i].label,
+                  feedbackModel: feedbackModels[j],
+                  againstFeedbackModel: feedbackModels[i],
                   promptId: prompt.id,
                   judgeModel: judge,
-                  score: gain * judgeWeight / (1 + oi) / costB,
-                });
+                  score: 0,
+                }, gain * judgeWeight / (1 + oi), costB));
               }
             }
           }
@@ -489,6 +573,39 @@ export function identifyNeeds(
     }
   }
 
+  // ── Self-critique needs ───────────────────────────
+  // Each writer critiques and revises its own samples (--self-critique)
+  if (selfCritique) {
+    for (const writer of models) {
+      const fb = ratingMap.get(`feedback:${writer.label}`) ?? { ...defaultRating, model: writer.label };
+      const gain = informationGain(fb, fb) * convergence.feedbackWeight;
+      for (let oi = 0; oi < capFor(writer.label); oi++) {
+        for (const prompt of prompts) {
+          if (isCascadeBroken(completedWork, writer.label, writer.label, prompt.id, oi)
+            || completedWork.missingJudgments.has(judgmentGroupKey(writer.label, writer.label, prompt.id, oi, 0))) continue;
+          const cost = 1 + uncachedSteps(completedWork, writer.label, writer.label, prompt.id, oi);
+
+          for (const judge of effectiveJudges) {
+            const key = judgmentKey("improvement", writer.label, writer.label, prompt.id, judge.label, oi);
+            if (completedWork.judgments.has(key)) continue;
+
+            const judgeWeight = jw.get(judge.label) ?? 1.0;
+            candidates.push(scored({
+              type: "improvement_judgment",
+              writer: writer.label,
+              outputIdx: oi,
+              feedbackModel: writer.label,
+              againstFeedbackModel: writer.label,
+              promptId: prompt.id,
+              judgeModel: judge,
+              score: 0,
+            }, gain * judgeWeight / (1 + oi), cost));
+          }
+        }
+      }
+    }
+  }
+
   // ── Revised judgment needs ────────────────────────
   for (let i = 0; i < models.length; i++) {
     for (let j = i + 1; j < models.length; j++) {
@@ -522,7 +639,7 @@ export function identifyNeeds(
                 if (completedWork.judgments.has(key)) continue;
 
                 const judgeWeight = jw.get(judge.label) ?? 1.0;
-                candidates.push({
+                candidates.push(scored({
                   type: "revised_judgment",
                   modelA: models[i].label,
                   modelB: models[j].label,
@@ -531,8 +648,8 @@ export function identifyNeeds(
                   feedbackModel: fbModel.label,
                   promptId: prompt.id,
                   judgeModel: judge,
-                  score: gain * judgeWeight / (1 + Math.max(oi, oj)) / revisedCost,
-                });
+                  score: 0,
+                }, gain * judgeWeight / (1 + Math.max(oi, oj)), revisedCost));
               }
             }
           }
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "bun:test";
+import { distribution, meanScore, pointwiseToGames, summarizePointwise } from "./pointwise.js";
+import type { PointwiseScore } from "../types.js";
+
+const ZERO = { input: 0, output: 0, total: 0, totalUncached: 0 };
+
+function makeScore(
+  sampleId: string,
+  scores: Record<string, number>,
+  overrides: Partial<PointwiseScore> = {},
+): PointwiseScore {
+  return {
+    id: `${overrides.judgeModel ?? "judge"}-${sampleId}`,
+    judgeModel: "judge",
+    promptId: "p1",
+    sampleId,
+    stage: "initial",
+    scores,
+    reasoning: "",
+    usage: { inputTokens: 0, outputTokens: 0 },
+    cost: ZERO,
+    latencyMs: 0,
+    ...overrides,
+  };
+}
+
+describe("meanScore", () => {
+  it("averages across criteria", () => {
+    expect(meanScore(makeScore("s1", { a: 4, b: 7 }))).toBe(5.5);
+  });
+
+  it("is zero with no criteria", () => {
+    expect(meanScore(makeScore("s1", {}))).toBe(0);
+  });
+});
+
+describe("distribution", () => {
+  it("computes mean, standard deviation and histogram", () => {
+    const d = distribution([2, 4, 4, 4, 5, 5, 7, 9]);
+    expect(d.mean).toBe(5);
+    expect(d.stdDev).toBe(2);
+    expect(d.count).toBe(8);
+    expect(d.histogram).toEqual([0, 1, 0, 3, 2, 0, 1, 0, 1, 0]);
+  });
+
+  it("bins fractional values to the nearest score", () => {
+    expect(distribution([5.5, 6.4]).histogram[5]).toBe(2);
+  });
+
+  it("handles no values", () => {
+    expect(distribution([])).toEqual({ mean: 0, stdDev: 0, count: 0, histogram: new Array(10).fill(0) });
+  });
+});
+
+describe("summarizePointwise", () => {
+  const sampleToModel = new Map([["s1", "a"], ["s2", "a"], ["s3", "b"], ["r1", "a"]]);
+
+  it("groups by model and stage with per-criterion distributions", () => {
+    const summary = summarizePointwise([
+      makeScore("s1", { voice: 8, pacing: 6 }),
+      makeScore("s2", { voice: 6, pacing: 6 }, { judgeModel: "other" }),
+      makeScore("s3", { voice: 3, pacing: 5 }),
+      makeScore("r1", { voice: 9, pacing: 9 }, { stage: "revised" }),
+    ], sampleToModel);
+
+    expect(summary.map((s) => `${s.stage}:${s.model}`)).toEqual(["initial:a", "initial:b", "revised:a"]);
+    const a = summary[0];
+    expect(a.overall.count).toBe(2);
+    expect(a.overall.mean).toBe(6.5);
+    expect(a.criteria.voice.mean).toBe(7);
+    expect(a.criteria.pacing.stdDev).toBe(0);
+  });
+
+  it("skips scores for unknown samples", () => {
+    expect(summarizePointwise([makeScore("zz", { voice: 5 })], sampleToModel)).toEqual([]);
+  });
+});
+
+describe("pointwiseToGames", () => {
+  const sampleToModel = new Map([["s1", "a"], ["s2", "b"], ["s3", "a"]]);
+
+  it("turns score differences into wins, losses and ties", () => {
+    const games = pointwiseToGames([
+      makeScore("s1", { q: 8 }),
+      makeScore("s2", { q: 5 }),
+    ], sampleToModel);
+    expect(games).toEqual([{ playerWhite: "a", playerBlack: "b", result: 1.0, weight: 1.0 }]);
+
+    const tie = pointwiseToGames([
+      makeScore("s1", { q: 6 }),
+      makeScore("s2", { q: 6 }),
+    ], sampleToModel);
+    expect(tie[0].result).toBe(0.5);
+  });
+
+  it("skips same-model pairs", () => {
+    const games = pointwiseToGames([
+      makeScore("s1", { q: 8 }),
+      makeScore("s3", { q: 5 }),
+    ], sampleToModel);
+    expect(games).toEqual([]);
+  });
+
+  it("only compares scores from the same judge, prompt and stage", () => {
+    const games = pointwiseToGames([
+      makeScore("s1", { q: 8 }, { judgeModel: "j1" }),
+      makeScore("s2", { q: 5 }, { judgeModel: "j2" }),
+      makeScore("s2", { q: 5 }, { judgeModel: "j1", promptId: "p2" }),
+      makeScore("s2", { q: 5 }, { judgeModel: "j1", stage: "revised" }),
+    ], sampleToModel);
+    expect(games).toEqual([]);
+  });
+
+  it("applies judge weights", () => {
+    const games = pointwiseToGames([
+      makeScore("s1", { q: 4 }, { judgeModel: "j1" }),
+      makeScore("s2", { q: 9 }, { judgeModel: "j1" }),
+    ], sampleToModel, new Map([["j1", 0.25]]));
+    expect(games).toEqual([{ playerWhite: "a", playerBlack: "b", result: 0.0, weight: 0.25 }]);
+  });
+});
@@ -0,0 +1,117 @@
+import type { PointwiseScore, PointwiseSummary, SampleStage, ScoreDistribution } from "../types.js";
+import { revisionRound } from "../types.js";
+import type { WhrGame } from "./whr.js";
+import { POINTWISE_MIN, POINTWISE_MAX } from "./judge.js";
+
+// ── Summaries ───────────────────────────────────────
+
+/** Mean of a score's values across all criteria. */
+export function meanScore(score: PointwiseScore): number {
+  const values = Object.values(score.scores);
+  if (values.length === 0) return 0;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/** Mean, population standard deviation and 1-10 histogram of `values`. */
+export function distribution(values: number[]): ScoreDistribution {
+  const histogram = new Array(POINTWISE_MAX - POINTWISE_MIN + 1).fill(0);
+  if (values.length === 0) return { mean: 0, stdDev: 0, count: 0, histogram };
+
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length;
+  for (const v of values) {
+    const bin = Math.round(v) - POINTWISE_MIN;
+    if (bin >= 0 && bin < histogram.length) histogram[bin]++;
+  }
+  return { mean, stdDev: Math.sqrt(variance), count: values.length, histogram };
+}
+
+/**
+ * Per-model, per-stage score distributions for each criterion plus the
+ * per-sample mean across criteria. Scores from every judge are pooled.
+ * Sorted by stage (initial first), then by descending overall mean.
+ */
+export function summarizePointwise(
+  scores: PointwiseScore[],
+  sampleToModel: Map<string, string>,
+): PointwiseSummary[] {
+  const groups = new Map<string, { model: string; stage: SampleStage; scores: PointwiseScore[] }>();
+  for (const s of scores) {
+    const model = sampleToModel.get(s.sampleId);
+    if (!model) continue;
+    const key = `${s.stage}:${model}`;
+    const group = groups.get(key) ?? { model, stage: s.stage, scores: [] };
+    group.scores.push(s);
+    groups.set(key, group);
+  }
+
+  const summaries: PointwiseSummary[] = [];
+  for (const { model, stage, scores: group } of groups.values()) {
+    const byCriterion = new Map<string, number[]>();
+    for (const s of group) {
+      for (const [criterion, value] of Object.entries(s.scores)) {
+        const values = byCriterion.get(criterion) ?? [];
+        values.push(value);
+        byCriterion.set(criterion, values);
+      }
+    }
+    summaries.push({
+      model,
+      stage,
+      overall: distribution(group.map(meanScore)),
+      criteria: Object.fromEntries(
+        [...byCriterion].map(([criterion, values]) => [criterion, distribution(values)]),
+      ),
+    });
+  }
+
+  return summaries.sort((a, b) =>
+    revisionRound(a.stage) - revisionRound(b.stage) ||
+    b.overall.mean - a.overall.mean);
+}
+
+// ── Pseudo-pairwise Games ───────────────────────────
+
+/**
+ * Turn pointwise scores into pseudo-pairwise WHR games. Within each
+ * (judge, prompt, stage) group, every pair of samples from different
+ * models becomes one game: the higher mean score wins, equal means tie.
+ *
+ * Only same-judge pairs are compared so one judge's harsher scale never
+ * decides a game against another judge's. `judgeWeights` scales games
+ * the same way it scales that judge's pairwise judgments.
+ */
+export function pointwiseToGames(
+  scores: PointwiseScore[],
+  sampleToModel: Map<string, string>,
+  judgeWeights?: Map<string, number>,
+): WhrGame[] {
+  const groups = new Map<string, PointwiseScore[]>();
+  for (const s of scores) {
+    const key = `${s.judgeModel}:${s.promptId}:${s.stage}`;
+    const group = groups.get(key) ?? [];
+    group.push(s);
+    groups.set(key, group);
+  }
+
+  const games: WhrGame[] = [];
+  for (const group of groups.values()) {
+    for (let i = 0; i < group.length; i++) {
+      const modelA = sampleToModel.get(group[i].sampleId);
+      if (!modelA) continue;
+      const meanA = meanScore(group[i]);
+      for (let j = i + 1; j < group.length; j++) {
+        const modelB = sampleToModel.get(group[j].sampleId);
+        if (!modelB || modelA === modelB) continue;
+        const meanB = meanScore(group[j]);
+        games.push({
+          playerWhite: modelA,
+          playerBlack: modelB,
+          result: meanA > meanB ? 1.0 : meanA < meanB ? 0.0 : 0.5,
+          weight: judgeWeights?.get(group[i].judgeModel) ?? 1.0,
+        });
+      }
+    }
+  }
+  return games;
+}
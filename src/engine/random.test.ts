@@ -0,0 +1,44 @@
+import { describe, it, expect } from "bun:test";
+import { keyedRandom, mulberry32, seededId } from "./random.js";
+
+function draw(random: () => number, n: number): number[] {
+  return Array.from({ length: n }, () => random());
+}
+
+describe("mulberry32", () => {
+  it("repeats the same sequence for the same seed", () => {
+    expect(draw(mulberry32(42), 5)).toEqual(draw(mulberry32(42), 5));
+    expect(draw(mulberry32(42), 5)).not.toEqual(draw(mulberry32(43), 5));
+  });
+
+  it("stays within [0, 1)", () => {
+    for (const v of draw(mulberry32(7), 1000)) {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+});
+
+describe("keyedRandom", () => {
+  it("depends only on seed and key", () => {
+    expect(draw(keyedRandom(1, "a"), 3)).toEqual(draw(keyedRandom(1, "a"), 3));
+    expect(draw(keyedRandom(1, "a"), 3)).not.toEqual(draw(keyedRandom(1, "b"), 3));
+    expect(draw(keyedRandom(1, "a"), 3)).not.toEqual(draw(keyedRandom(2, "a"), 3));
+  });
+
+  it("falls back to Math.random without a seed", () => {
+    expect(keyedRandom(undefined, "a")).toBe(Math.random);
+  });
+});
+
+describe("seededId", () => {
+  it("is stable for the same seed and key", () => {
+    expect(seededId(5, "sample:x")).toBe(seededId(5, "sample:x"));
+    expect(seededId(5, "sample:x")).not.toBe(seededId(5, "sample:y"));
+    expect(seededId(5, "sample:x")).toMatch(/^[A-Za-z0-9_-]{21}$/);
+  });
+
+  it("is fresh each call without a seed", () => {
+    expect(seededId(undefined, "k")).not.toBe(seededId(undefined, "k"));
+  });
+});
@@ -0,0 +1,69 @@
+import { createHash } from "crypto";
+import { nanoid, urlAlphabet } from "nanoid";
+
+/** A source of uniform random numbers in [0, 1), like Math.random. */
+export type Random = () => number;
+
+// ── Seeded Generators ───────────────────────────────
+
+/** FNV-1a hash of a string to an unsigned 32-bit integer. */
+function hashString(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32: a small, fast PRNG with a 32-bit state. */
+export function mulberry32(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A generator for one named decision in a seeded run. Each key gets its
+ * own stream derived from the seed, so a decision's outcome depends only
+ * on the seed and the key -- not on how many other decisions concurrent
+ * work happened to make first. Without a seed, falls back to Math.random.
+ */
+export function keyedRandom(seed: number | undefined, key: string): Random {
+  if (seed == null) return Math.random;
+  return mulberry32(hashString(`${seed}:${key}`));
+}
+
+/** A nanoid-shaped id from the SHA-256 of `input`: 126 bits, like nanoid. */
+function hashId(input: string): string {
+  const digest = createHash("sha256").update(input).digest();
+  let id = "";
+  for (let i = 0; i < 21; i++) id += urlAlphabet[digest[i] & 63];
+  return id;
+}
+
+/**
+ * A nanoid-shaped id for a named artifact in a seeded run: the same seed
+ * and key always give the same id. Without a seed, a fresh nanoid.
+ */
+export function seededId(seed: number | undefined, key: string): string {
+  if (seed == null) return nanoid();
+  return hashId(`${seed}:${key}`);
+}
+
+/**
+ * Id for a freshly generated artifact in a seeded run, derived from the
+ * seed, key and the artifact's content with SHA-256. Fresh artifacts
+ * double as cache ids, so an id may only recur for the same content:
+ * a rerun that generates the same text gets the same id, different text
+ * never does. Without a seed, a fresh nanoid.
+ */
+export function contentId(seed: number | undefined, key: string, content: string): string {
+  if (seed == null) return nanoid();
+  return hashId(`${seed}:${key}\u0000${content}`);
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "bun:test";
+import { RateLimiter, usageTokens } from "./rate-limiter.js";
+import type { RateLimitConfig } from "../types.js";
+
+// ── Helpers ─────────────────────────────────────────
+
+function deferred<T = void>() {
+  let resolve!: (v: T) => void;
+  const promise = new Promise<T>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 5));
+
+function limits(partial: Partial<RateLimitConfig>): RateLimitConfig {
+  return { providers: {}, models: {}, ...partial };
+}
+
+// ── Concurrency ─────────────────────────────────────
+
+describe("RateLimiter concurrency", () => {
+  it("calls straight through when nothing is configured", async () => {
+    const limiter = new RateLimiter(limits({}));
+    expect(await limiter.run("openai:gpt-4o", async () => 42)).toBe(42);
+    expect(limiter.status()).toEqual([]);
+  });
+
+  it("caps concurrent calls per provider", async () => {
+    const limiter = new RateLimiter(limits({ providers: { ollama: { concurrency: 2 } } }));
+    let active = 0;
+    let maxActive = 0;
+    await Promise.all(Array.from({ length: 5 }, () =>
+      limiter.run("ollama:llama3.1:8b", async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await tick();
+        active--;
+      }),
+    ));
+    expect(maxActive).toBe(2);
+  });
+
+  it("does not limit other providers", async () => {
+    const limiter = new RateLimiter(limits({ providers: { ollama: { concurrency: 1 } } }));
+    const gate = deferred();
+    const blocked = limiter.run("ollama:m", () => gate.promise);
+    expect(await limiter.run("openai:gpt-4o", async () => "ok")).toBe("ok");
+    gate.resolve();
+    await blocked;
+  });
+
+  it("applies model and provider buckets together", async () => {
+    const limiter = new RateLimiter(limits({
+      providers: { openai: { concurrency: 3 } },
+      models: { "openai:gpt-4o": { concurrency: 1 } },
+    }));
+    const gate = deferred();
+    let secondStarted = false;
+    const first = limiter.run("openai:gpt-4o", () => gate.promise);
+    const second = limiter.run("openai:gpt-4o", async () => { secondStarted = true; });
+    // A different model on the same provider still has provider headroom
+    await limiter.run("openai:gpt-4o-mini", async () => {});
+    await tick();
+    expect(secondStarted).toBe(false);
+
+    const status = limiter.status();
+    expect(status.find((s) => s.key === "openai:gpt-4o")).toMatchObject({ active: 1, waiting: 1 });
+    expect(status.find((s) => s.key === "openai")).toMatchObject({ active: 1 });
+
+    gate.resolve();
+    await Promise.all([first, second]);
+    expect(secondStarted).toBe(true);
+  });
+
+  it("releases the slot when the call throws", async () => {
+    const limiter = new RateLimiter(limits({ providers: { ollama: { concurrency: 1 } } }));
+    await expect(limiter.run("ollama:m", async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    expect(await limiter.run("ollama:m", async () => "ok")).toBe("ok");
+  });
+});
+
+// ── Rolling windows ─────────────────────────────────
+
+describe("RateLimiter windows", () => {
+  it("holds requests beyond rpm until the window rolls over", async () => {
+    let now = 0;
+    const limiter = new RateLimiter(limits({ providers: { openai: { rpm: 2 } } }), () => now);
+    const gate = deferred();
+    const first = limiter.run("openai:m", () => gate.promise);
+    await limiter.run("openai:m", async () => {});
+
+    let thirdStarted = false;
+    const third = limiter.run("openai:m", async () => { thirdStarted = true; });
+    await tick();
+    expect(thirdStarted).toBe(false);
+    expect(limiter.status()[0]).toMatchObject({ requestsLastMinute: 2, waiting: 1 });
+
+    // Roll the clock past the window; the next release wakes the waiter
+    now = 60_001;
+    gate.resolve();
+    await Promise.all([first, third]);
+    expect(thirdStarted).toBe(true);
+  });
+
+  it("holds requests once tokens in the window reach tpm", async () => {
+    let now = 0;
+    const limiter = new RateLimiter(limits({ models: { "openai:m": { tpm: 100 } } }), () => now);
+    const gate = deferred();
+    const pending = limiter.run("openai:m", () => gate.promise);
+    await limiter.run("openai:m", async () => 150, (t) => t);
+    expect(limiter.status()[0].tokensLastMinute).toBe(150);
+
+    let started = false;
+    const blocked = limiter.run("openai:m", async () => { started = true; });
+    await tick();
+    expect(started).toBe(false);
+
+    now = 60_001;
+    gate.resolve();
+    await Promise.all([pending, blocked]);
+    expect(started).toBe(true);
+    expect(limiter.status()[0].tokensLastMinute).toBe(0);
+  });
+});
+
+describe("usageTokens", () => {
+  it("sums input and output tokens, treating missing as zero", () => {
+    expect(usageTokens({ inputTokens: 10, outputTokens: 5 })).toBe(15);
+    expect(usageTokens({ outputTokens: 5 })).toBe(5);
+    expect(usageTokens(undefined)).toBe(0);
+  });
+});
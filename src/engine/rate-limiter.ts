@@ -0,0 +1,197 @@
+import type { RateLimit, RateLimitConfig, RateLimitStatus } from "../types.js";
+
+/** Sliding window for RPM/TPM accounting. */
+const WINDOW_MS = 60_000;
+
+interface Bucket {
+  key: string;
+  limit: RateLimit;
+  active: number;
+  waiting: number;
+  /** Start times of requests inside the window. */
+  requests: number[];
+  /** [completion time, total tokens] of requests inside the window. */
+  tokens: [number, number][];
+}
+
+/** An empty config: no limits anywhere. */
+export function emptyRateLimits(): RateLimitConfig {
+  return { providers: {}, models: {} };
+}
+
+/** Total tokens from an AI SDK usage object, for TPM accounting. */
+export function usageTokens(
+  usage: { inputTokens?: number; outputTokens?: number } | undefined,
+): number {
+  return (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0);
+}
+
+/** Provider part of a "provider:model" spec. */
+function providerOf(spec: string): string {
+  const colon = spec.indexOf(":");
+  return colon >= 0 ? spec.slice(0, colon) : spec;
+}
+
+/**
+ * Per-provider and per-model request limiter. Every API call is wrapped
+ * in run(), which waits until each applicable bucket has a free
+ * concurrency slot and room in its requests-per-minute and
+ * tokens-per-minute windows.
+ *
+ * Token usage is only known after a call completes, so TPM is enforced
+ * reactively: new calls wait while the tokens recorded in the last
+ * minute are at or above the limit. A burst of concurrent calls can
+ * overshoot by up to one batch; the concurrency limit bounds that.
+ *
+ * This sits below the runner's global --concurrency cap, which still
+ * bounds how many needs cascade at once.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private waiters = new Set<() => void>();
+
+  constructor(
+    private config: RateLimitConfig,
+    private now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Buckets governing a call to `apiSpec` ("provider:model"): the
+   * provider bucket and the model bucket, whichever are configured.
+   */
+  private bucketsFor(apiSpec: string): Bucket[] {
+    const result: Bucket[] = [];
+    const provider = providerOf(apiSpec);
+    const providerLimit = this.config.providers[provider];
+    if (providerLimit) result.push(this.bucket(provider, providerLimit));
+    const modelLimit = this.config.models[apiSpec];
+    if (modelLimit) result.push(this.bucket(apiSpec, modelLimit));
+    return result;
+  }
+
+  private bucket(key: string, limit: RateLimit): Bucket {
+    let b = this.buckets.get(key);
+    if (!b) {
+      b = { key, limit, active: 0, waiting: 0, requests: [], tokens: [] };
+      this.buckets.set(key, b);
+    }
+    return b;
+  }
+
+  private prune(b: Bucket, now: number): void {
+    const cutoff = now - WINDOW_MS;
+    while (b.requests.length > 0 && b.requests[0] <= cutoff) b.requests.shift();
+    while (b.tokens.length > 0 && b.tokens[0][0] <= cutoff) b.tokens.shift();
+  }
+
+  /**
+   * Milliseconds until `b` admits another request: 0 if it does now,
+   * Infinity if it is waiting on a concurrency slot (woken on release).
+   */
+  private waitTime(b: Bucket, now: number): number {
+    const { concurrency, rpm, tpm } = b.limit;
+    if (concurrency != null && b.active >= concurrency) return Infinity;
+    let wait = 0;
+    if (rpm != null && b.requests.length >= rpm) {
+      wait = Math.max(wait, b.requests[b.requests.length - rpm] + WINDOW_MS - now);
+    }
+    if (tpm != null && b.tokens.length > 0) {
+      let used = b.tokens.reduce((sum, [, t]) => sum + t, 0);
+      // Wait until enough of the oldest usage expires to drop below the limit
+      for (const [at, t] of b.tokens) {
+        if (used < tpm) break;
+        wait = Math.max(wait, at + WINDOW_MS - now);
+        used -= t;
+      }
+    }
+    return Math.max(0, wait);
+  }
+
+  private async acquire(buckets: Bucket[]): Promise<void> {
+    for (const b of buckets) b.waiting++;
+    try {
+      for (;;) {
+        const now = this.now();
+        let wait = 0;
+        for (const b of buckets) {
+          this.prune(b, now);
+          wait = Math.max(wait, this.waitTime(b, now));
+        }
+        if (wait === 0) {
+          for (const b of buckets) {
+            b.active++;
+            b.requests.push(now);
+          }
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          let timer: ReturnType<typeof setTimeout> | undefined;
+          const wake = () => {
+            clearTimeout(timer);
+            this.waiters.delete(wake);
+            resolve();
+          };
+          if (wait !== Infinity) timer = setTimeout(wake, wait);
+          this.waiters.add(wake);
+        });
+      }
+    } finally {
+      for (const b of buckets) b.waiting--;
+    }
+  }
+
+  private release(buckets: Bucket[], tokens: number): void {
+    const now = this.now();
+    for (const b of buckets) {
+      b.active = Math.max(0, b.active - 1);
+      if (tokens > 0) b.tokens.push([now, tokens]);
+    }
+    // Every waiter re-checks its own buckets; most go straight back to sleep.
+    for (const wake of [...this.waiters]) wake();
+  }
+
+  /**
+   * Run `fn` under the limits that apply to `apiSpec`. `tokensOf`
+   * extracts total tokens from the result for TPM accounting; failed
+   * calls count toward RPM but not TPM.
+   */
+  async run<T>(
+    apiSpec: string,
+    fn: () => Promise<T>,
+    tokensOf?: (result: T) => number,
+  ): Promise<T> {
+    const buckets = this.bucketsFor(apiSpec);
+    if (buckets.length === 0) return fn();
+
+    await this.acquire(buckets);
+    let tokens = 0;
+    try {
+      const result = await fn();
+      tokens = tokensOf?.(result) ?? 0;
+      return result;
+    } finally {
+      this.release(buckets, tokens);
+    }
+  }
+
+  /** Snapshot of every bucket that has seen traffic, sorted by key. */
+  status(): RateLimitStatus[] {
+    const now = this.now();
+    return [...this.buckets.values()]
+      .map((b) => {
+        this.prune(b, now);
+        return {
+          key: b.key,
+          limit: b.limit,
+          active: b.active,
+          waiting: b.waiting,
+          requestsLastMinute: b.requests.length,
+          tokensLastMinute: b.tokens.reduce((sum, [, t]) => sum + t, 0),
+        };
+      })
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+}
+
+/** Shared limiter with no buckets: run() calls straight through. */
+export const UNLIMITED = new RateLimiter(emptyRateLimits());
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync } from "fs";
+import { rm } from "fs/promises";
+import { join } from "path";
+import {
+  MIN_RETESTS,
+  applyStabilityWeights,
+  compareVerdicts,
+  computeRetestStats,
+  retestCache,
+  sampleCachedPairs,
+  stabilityWeight,
+} from "./retest.js";
+import { MIN_JUDGE_WEIGHT } from "./judge-quality.js";
+import { mulberry32 } from "./random.js";
+import { SampleCache, type CachedJudgment, type CachedWrite } from "../storage/sample-cache.js";
+import type { ModelConfig, PromptConfig } from "../types.js";
+
+const TEST_CACHE_DIR = join(process.cwd(), "data", "test-retest-cache");
+
+function model(name: string): ModelConfig {
+  return { provider: "openai", model: name, label: name, registryId: `openai:${name}` };
+}
+
+function write(cacheId: string): CachedWrite {
+  return {
+    cacheId, text: `Story ${cacheId}.`,
+    usage: { inputTokens: 0, outputTokens: 0 },
+    cost: { input: 0, output: 0, total: 0, totalUncached: 0 },
+    latencyMs: 0, createdAt: "2026-01-01T00:00:00Z",
+  };
+}
+
+function judged(winner: "A" | "B" | "tie"): CachedJudgment {
+  return {
+    cacheId: `j-${winner}`, winner, reasoning: "", stage: "initial",
+    usage: { inputTokens: 0, outputTokens: 0 },
+    cost: { input: 0, output: 0, total: 0, totalUncached: 0 },
+    latencyMs: 0, createdAt: "2026-01-01T00:00:00Z",
+  };
+}
+
+const prompt: PromptConfig = {
+  id: "p1", name: "Prompt", tags: [], description: "", prompt: "Write a story.", judgingCriteria: [],
+};
+
+describe("compareVerdicts", () => {
+  it("counts decisive reversals and moves to or from a tie", () => {
+    const stats = compareVerdicts("j1", [["A", "A"], ["A", "B"], ["B", "tie"], ["tie", "A"], ["tie", "tie"]]);
+    expect(stats).toMatchObject({ judge: "j1", retested: 5, flips: 1, tieFlips: 2 });
+    expect(stats.flipRate).toBeCloseTo(0.2, 10);
+    expect(stats.tieFlipRate).toBeCloseTo(0.4, 10);
+    expect(stats.weight).toBeCloseTo(0.6, 10);
+  });
+
+  it("reports zero rates without retests", () => {
+    expect(compareVerdicts("j1", [])).toMatchObject({ retested: 0, flipRate: 0, tieFlipRate: 0, weight: 1 });
+  });
+});
+
+describe("stabilityWeight", () => {
+  it("is 1.0 below MIN_RETESTS", () => {
+    expect(stabilityWeight(MIN_RETESTS - 1, 0.5, 0)).toBe(1);
+  });
+
+  it("floors at MIN_JUDGE_WEIGHT", () => {
+    expect(stabilityWeight(20, 0.8, 0.4)).toBe(MIN_JUDGE_WEIGHT);
+  });
+});
+
+describe("applyStabilityWeights", () => {
+  const bootstrap = {
+    ratings: [], weights: new Map([["j1", 1], ["j2", 1]]), active: false, instanceCount: 0,
+  };
+
+  it("scales active quality weights", () => {
+    const active = { ...bootstrap, weights: new Map([["j1", 1], ["j2", 0.5]]), active: true };
+    const result = applyStabilityWeights(active, { j2: 0.5 });
+    expect([...result.weights]).toEqual([["j1", 1], ["j2", 0.25]]);
+    expect(result.active).toBe(true);
+  });
+
+  it("activates weights during bootstrap when a judge is down-weighted", () => {
+    const result = applyStabilityWeights(bootstrap, { j1: 0.8 });
+    expect(result.active).toBe(true);
+    expect(result.weights.get("j1")).toBe(0.8);
+    expect(applyStabilityWeights(bootstrap, { j1: 1 }).active).toBe(false);
+  });
+});
+
+describe("retest cache", () => {
+  let cache: SampleCache;
+  let retest: SampleCache;
+  const judge = model("judge");
+  const writers = [model("w1"), model("w2")];
+
+  beforeEach(async () => {
+    if (existsSync(TEST_CACHE_DIR)) await rm(TEST_CACHE_DIR, { recursive: true });
+    cache = new SampleCache(TEST_CACHE_DIR);
+    retest = retestCache(TEST_CACHE_DIR);
+    await cache.addCachedWrite("openai", "w1", prompt.prompt, write("a1"), 0);
+    await cache.addCachedWrite("openai", "w1", prompt.prompt, write("a2"), 1);
+    await cache.addCachedWrite("openai", "w2", prompt.prompt, write("b1"), 0);
+  });
+
+  afterEach(async () => {
+    if (existsSync(TEST_CACHE_DIR)) await rm(TEST_CACHE_DIR, { recursive: true });
+  });
+
+  it("samples only cross-writer pairs the judge has judged", async () => {
+    await cache.addCachedJudgment("openai", "judge", "initial", "a2", "b1", judged("A"));
+    const pairs = await sampleCachedPairs(cache, judge, writers, [prompt], 5, mulberry32(1));
+    expect(pairs.map((p) => [p.writeA.cacheId, p.writeB.cacheId])).toEqual([["a2", "b1"]]);
+  });
+
+  it("draws at most count distinct judged pairs", async () => {
+    await cache.addCachedJudgment("openai", "judge", "initial", "a1", "b1", judged("A"));
+    await cache.addCachedJudgment("openai", "judge", "initial", "a2", "b1", judged("B"));
+    const pairs = await sampleCachedPairs(cache, judge, writers, [prompt], 1, mulberry32(3));
+    expect(pairs).toHaveLength(1);
+    expect(["a1", "a2"]).toContain(pairs[0].writeA.cacheId);
+    expect(await sampleCachedPairs(cache, judge, writers, [prompt], 5, mulberry32(3))).toHaveLength(2);
+  });
+
+  it("compares retests with the primary judgment of the same pair", async () => {
+    await cache.addCachedJudgment("openai", "judge", "initial", "a1", "b1", judged("A"));
+    await cache.addCachedJudgment("openai", "judge", "initial", "a2", "b1", judged("tie"));
+    // Stored in the other order: still the same verdict
+    await retest.addCachedJudgment("openai", "judge", "initial", "b1", "a1", judged("B"));
+    await retest.addCachedJudgment("openai", "judge", "initial", "a2", "b1", judged("A"));
+    // No primary entry: skipped
+    await retest.addCachedJudgment("openai", "judge", "initial", "a1", "a2", judged("A"));
+
+    const stats = await computeRetestStats(cache, retest, judge);
+    expect(stats).toMatchObject({ retested: 2, flips: 0, tieFlips: 1 });
+    expect(existsSync(join(TEST_CACHE_DIR, "retest", "judgments"))).toBe(true);
+  });
+});
@@ -0,0 +1,238 @@
+import { join } from "path";
+import type { ModelConfig, ModelInfo, PromptConfig, WritingSample } from "../types.js";
+import {
+  SampleCache,
+  judgeTemplateHash,
+  judgmentPairHash,
+  type CachedJudgment,
+  type CachedWrite,
+} from "../storage/sample-cache.js";
+import { safeReaddir, safeReadJson } from "../storage/fs-utils.js";
+import { judgePair, randomizePairOrder, correctForSwap } from "./judge.js";
+import { MIN_JUDGE_WEIGHT, type JudgeQualityData } from "./judge-quality.js";
+import { UNLIMITED, type RateLimiter } from "./rate-limiter.js";
+import type { Random } from "./random.js";
+
+type Verdict = "A" | "B" | "tie";
+
+/** Minimum retested pairs before a judge's stability affects its weight. */
+export const MIN_RETESTS = 5;
+
+// ── Types ───────────────────────────────────────────
+
+/** Two cached writes of one prompt that a judge has already compared. */
+export interface RetestPair {
+  prompt: PromptConfig;
+  writerA: ModelConfig;
+  writeA: CachedWrite;
+  writerB: ModelConfig;
+  writeB: CachedWrite;
+}
+
+/** A judge's verdict stability between its cached and retest judgments. */
+export interface RetestStats {
+  judge: string;
+  /** Pairs with both a cached and a retest judgment. */
+  retested: number;
+  /** Decisive verdicts that reversed (A <-> B). */
+  flips: number;
+  /** Verdicts that moved between a tie and a decisive winner. */
+  tieFlips: number;
+  flipRate: number;
+  tieFlipRate: number;
+  /** Weight multiplier for --retest-weights (1.0 below MIN_RETESTS). */
+  weight: number;
+}
+
+// ── Retest Cache ────────────────────────────────────
+
+/**
+ * The retest namespace: a separate SampleCache under `<cacheDir>/retest`.
+ * Retest judgments use the same file names as the primary cache, so
+ * each one sits beside (never over) the judgment it repeats.
+ */
+export function retestCache(cacheDir = join(process.cwd(), "data", "cache")): SampleCache {
+  return new SampleCache(join(cacheDir, "retest"));
+}
+
+// ── Pair Selection ──────────────────────────────────
+
+/**
+ * Draw up to `count` initial-stage pairs `judge` has a cached judgment
+ * for, uniformly at random. Candidates are pairs of cached writes by
+ * different writers on the same prompt; they are generated one at a
+ * time, checked against the judge's judgment file names (one directory
+ * read) and reservoir-sampled, so memory stays at `count` pairs.
+ */
+export async function sampleCachedPairs(
+  cache: SampleCache,
+  judge: ModelConfig,
+  writers: ModelConfig[],
+  prompts: PromptConfig[],
+  count: number,
+  random: Random = Math.random,
+): Promise<RetestPair[]> {
+  const judged = new Set(
+    (await safeReaddir(cache.judgmentsDir(judge.provider, judge.model)))
+      .filter((f) => f.endsWith(".json"))
+      .map((f) => f.slice(0, -".json".length)),
+  );
+
+  const picked: RetestPair[] = [];
+  let seen = 0;
+  for (const prompt of prompts) {
+    const templateHash = judgeTemplateHash(prompt);
+    const writes = await Promise.all(
+      writers.map((w) => cache.getCachedWrites(w.provider, w.model, prompt.prompt)),
+    );
+    for (let i = 0; i < writers.length; i++) {
+      for (let k = i + 1; k < writers.length; k++) {
+        for (const writeA of writes[i]) {
+          for (const writeB of writes[k]) {
+            if (!judged.has(judgmentPairHash("initial", writeA.cacheId, writeB.cacheId, false, templateHash))) continue;
+            // Reservoir sampling: the nth hit replaces a pick with probability count/n
+            seen++;
+            const slot = picked.length < count ? picked.length : Math.floor(random() * seen);
+            if (slot < count) picked[slot] = { prompt, writerA: writers[i], writeA, writerB: writers[k], writeB };
+          }
+        }
+      }
+    }
+  }
+  return picked;
+}
+
+// ── Re-judging ──────────────────────────────────────
+
+function toSample(write: CachedWrite, writer: ModelConfig, prompt: PromptConfig): WritingSample {
+  return {
+    id: write.cacheId,
+    model: writer.label,
+    promptId: prompt.id,
+    outputIndex: 0,
+    text: write.text,
+    stage: "initial",
+    usage: write.usage,
+    cost: write.cost,
+    latencyMs: write.latencyMs,
+  };
+}
+
+/**
+ * Judge `pair` again with a fresh random presentation order and store
+ * the verdict in `retest`. A pair already retested is left alone.
+ * Returns the cost of the new judgment (0 when it was already stored).
+ */
+export async function retestPair(
+  retest: SampleCache,
+  judge: ModelConfig,
+  pair: RetestPair,
+  modelInfo: ModelInfo | null,
+  limiter: RateLimiter = UNLIMITED,
+  random: Random = Math.random,
+): Promise<number> {
+  const idA = pair.writeA.cacheId;
+  const idB = pair.writeB.cacheId;
+  const templateHash = judgeTemplateHash(pair.prompt);
+  if (await retest.getCachedJudgment(judge.provider, judge.model, "initial", idA, idB, false, templateHash)) {
+    return 0;
+  }
+
+  const sampleA = toSample(pair.writeA, pair.writerA, pair.prompt);
+  const sampleB = toSample(pair.writeB, pair.writerB, pair.prompt);
+  const { pair: ordered, swapped } = randomizePairOrder([sampleA, sampleB], random);
+  const judgment = await judgePair(
+    judge, pair.prompt, ordered[0], ordered[1], modelInfo, true, limiter, false, false, random,
+  );
+
+  const entry: CachedJudgment = {
+    cacheId: judgment.id,
+    winner: correctForSwap(judgment.winner, swapped),
+    reasoning: judgment.reasoning,
+    stage: "initial",
+    positionSwapped: swapped,
+    usage: judgment.usage,
+    cost: judgment.cost,
+    latencyMs: judgment.latencyMs,
+    createdAt: new Date().toISOString(),
+  };
+  await retest.addCachedJudgment(judge.provider, judge.model, "initial", idA, idB, entry, false, templateHash);
+  return judgment.cost.total;
+}
+
+// ── Stability ───────────────────────────────────────
+
+/**
+ * Stability weight: 1 minus the flip rate and half the tie-flip rate
+ * (a tie is half a reversal), floored at MIN_JUDGE_WEIGHT. 1.0 until
+ * the judge has MIN_RETESTS retested pairs.
+ */
+export function stabilityWeight(retested: number, flipRate: number, tieFlipRate: number): number {
+  if (retested < MIN_RETESTS) return 1.0;
+  return Math.max(MIN_JUDGE_WEIGHT, 1 - flipRate - tieFlipRate / 2);
+}
+
+/** Flip and tie-flip counts over (cached, retest) verdict pairs. */
+export function compareVerdicts(judge: string, pairs: [Verdict, Verdict][]): RetestStats {
+  let flips = 0;
+  let tieFlips = 0;
+  for (const [before, after] of pairs) {
+    if (before === after) continue;
+    if (before === "tie" || after === "tie") tieFlips++;
+    else flips++;
+  }
+  const n = pairs.length;
+  const flipRate = n > 0 ? flips / n : 0;
+  const tieFlipRate = n > 0 ? tieFlips / n : 0;
+  return {
+    judge,
+    retested: n,
+    flips,
+    tieFlips,
+    flipRate,
+    tieFlipRate,
+    weight: stabilityWeight(n, flipRate, tieFlipRate),
+  };
+}
+
+/**
+ * Stability of `judge` over every pair in the retest namespace.
+ * Both caches store winners in sorted cache ID order, so entries with
+ * the same file name compare directly. Retests whose primary entry has
+ * since been cleared are skipped.
+ */
+export async function computeRetestStats(
+  cache: SampleCache,
+  retest: SampleCache,
+  judge: ModelConfig,
+): Promise<RetestStats> {
+  const retestDir = retest.judgmentsDir(judge.provider, judge.model);
+  const primaryDir = cache.judgmentsDir(judge.provider, judge.model);
+  const pairs: [Verdict, Verdict][] = [];
+  for (const f of await safeReaddir(retestDir)) {
+    if (!f.endsWith(".json")) continue;
+    const after = await safeReadJson<CachedJudgment>(join(retestDir, f));
+    const before = await safeReadJson<CachedJudgment>(join(primaryDir, f));
+    if (after && before) pairs.push([before.winner, after.winner]);
+  }
+  return compareVerdicts(judge.label, pairs);
+}
+
+/**
+ * Scale judge quality weights by stability weights (--retest-weights).
+ * Judge quality becomes active as soon as any judge is down-weighted,
+ * even while its own signal is still bootstrapping.
+ */
+export function applyStabilityWeights(
+  data: JudgeQualityData,
+  stability: Record<string, number>,
+): JudgeQualityData {
+  const weights = new Map<string, number>();
+  let scaled = false;
+  for (const [label, w] of data.weights) {
+    const factor = stability[label] ?? 1.0;
+    if (factor < 1.0) scaled = true;
+    weights.set(label, Math.max(MIN_JUDGE_WEIGHT, (data.active ? w : 1.0) * factor));
+  }
+  return { ...data, weights, active: data.active || scaled };
+}
@@ -106,6 +106,11 @@ describe("jitter", () => {
     // 0 * anything = 0
     expect(jitter(0)).toBe(0);
   });
+
+  it("draws from the given random source", () => {
+    expect(jitter(1000, () => 0)).toBe(750);
+    expect(jitter(1000, () => 0.5)).toBe(1000);
+  });
 });
 
 // ── withRetry ───────────────────────────────────────
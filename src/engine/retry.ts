@@ -1,3 +1,5 @@
+import type { Random } from "./random.js";
+
 /**
  * Thrown when a streaming response completes with finishReason "length",
  * meaning the output was truncated at the token limit.
@@ -97,8 +99,8 @@ export async function safeStreamText<R extends StreamResult>(
 }
 
 /** Add +/-25% jitter to a delay to prevent thundering herd. */
-export function jitter(ms: number): number {
-  return ms * (0.75 + Math.random() * 0.5);
+export function jitter(ms: number, random: Random = Math.random): number {
+  return ms * (0.75 + random() * 0.5);
 }
 
 /**
@@ -119,6 +121,8 @@ export async function withRetry<T>(
   maxAttempts = 3,
   /** Base delay multiplier in ms. Default 1000. Tests can pass 0. */
   baseDelayMs = 1000,
+  /** Source of backoff jitter. Seeded runs pass a seeded generator. */
+  random: Random = Math.random,
 ): Promise<T> {
   const originalWarn = console.warn;
   let buffered: unknown[][] = [];
@@ -160,7 +164,7 @@ export async function withRetry<T>(
       } else {
         delay = Math.min(baseDelayMs * 2 ** (attempt - 1), 10_000);
       }
-      await new Promise((r) => setTimeout(r, jitter(delay)));
+      await new Promise((r) => setTimeout(r, jitter(delay, random)));
     }
   }
 }
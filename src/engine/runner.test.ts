@@ -1,7 +1,13 @@
-import { describe, it, expect } from "bun:test";
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync } from "fs";
+import { rm } from "fs/promises";
+import { join } from "path";
 import type { Need } from "./need-identifier.js";
-import type { ModelConfig } from "../types.js";
-import { settledPool, tagModel, needModels } from "./runner.js";
+import type { ModelConfig, PromptConfig, RunCheckpoint, WritingSample, PairwiseJudgment } from "../types.js";
+import { createRunConfig, parseModelConfigs } from "../config.js";
+import { configureMockProvider } from "../providers/mock.js";
+import { SampleCache, modelKey } from "../storage/sample-cache.js";
+import { settledPool, tagModel, needModels, BenchmarkRunner } from "./runner.js";
 
 // ── Helper factories ────────────────────────────────
 
@@ -250,3 +256,239 @@ describe("dedup cleanup pattern", () => {
     expect(callCount).toBe(1); // Only one actual call
   });
 });
+
+// ── Checkpoint round-trip ───────────────────────────
+
+describe("BenchmarkRunner checkpoint", () => {
+  const ZERO = { input: 0, output: 0, total: 0, totalUncached: 0 };
+
+  function makeSample(id: string, model: string, extra: Partial<WritingSample> = {}): WritingSample {
+    return {
+      id, model, promptId: "p1", outputIndex: 0, text: "text", stage: "initial",
+      usage: { inputTokens: 10, outputTokens: 20 }, cost: ZERO, latencyMs: 5,
+      ...extra,
+    };
+  }
+
+  function makeCheckpoint(runId: string): RunCheckpoint {
+    const config = createRunConfig({
+      models: [makeModelConfig("a"), makeModelConfig("b")],
+      prompts: [{
+        id: "p1", name: "P1", tags: [], description: "", prompt: "Write.", judgingCriteria: ["quality"],
+      }],
+    });
+    config.id = runId;
+    const judgment: PairwiseJudgment = {
+      id: "j1", judgeModel: "a", promptId: "p1", sampleA: "s1", sampleB: "s2",
+      winner: "A", reasoning: "", stage: "initial",
+      usage: { inputTokens: 1, outputTokens: 1 }, cost: ZERO, latencyMs: 1,
+    };
+    return {
+      config,
+      savedAt: "2025-01-01T00:00:00.000Z",
+      elapsedMs: 60_000,
+      judgingRound: 3,
+      opsDone: 7,
+      samples: [
+        makeSample("s1", "a"),
+        makeSample("s2", "b"),
+        makeSample("r1", "a", { stage: "revised", originalSampleId: "s1", feedbackUsed: "f1", feedbackModel: "b" }),
+      ],
+      feedback: [{
+        id: "f1", sourceModel: "b", targetSampleId: "s1", text: "fb",
+        usage: { inputTokens: 1, outputTokens: 1 }, cost: ZERO, latencyMs: 1,
+      }],
+      judgments: [judgment],
+      pointwiseScores: [{
+        id: "ps1", judgeModel: "a", promptId: "p1", sampleId: "s2", stage: "initial",
+        scores: { quality: 6 }, reasoning: "",
+        usage: { inputTokens: 1, outputTokens: 1 }, cost: ZERO, latencyMs: 1,
+      }],
+      errors: [{ message: "boom", model: "b" }],
+      completedWork: { judgments: ["k1", "k2"], existingFeedback: ["fb1"] },
+      sampleToCacheId: { s1: "c1", s2: "c2", r1: "c3" },
+      feedbackToCacheId: { f1: "cf1" },
+      tallies: {
+        totalTokens: 42,
+        totalCost: 1.5,
+        totalCostUncached: 2,
+        costByModel: { a: 1, b: 0.5 },
+        costByStage: { initial: 1.5 },
+        costByModelByStage: { a: { initial: 1 }, b: { initial: 0.5 } },
+        speedAccum: { a: [100, 20, 1] },
+        speedAccumByStage: { a: { initial: [100, 20, 1] } },
+        cacheSavings: {
+          writes: { cached: 2, fresh: 0, savedCost: 0.1 },
+          feedback: { cached: 0, fresh: 1, savedCost: 0 },
+          revisions: { cached: 0, fresh: 1, savedCost: 0 },
+          judgments: { cached: 1, fresh: 0, savedCost: 0.01 },
+        },
+      },
+    };
+  }
+
+  it("restores state that round-trips through checkpoint()", () => {
+    const cp = makeCheckpoint("run-1");
+    const runner = new BenchmarkRunner(cp.config);
+    runner.restore(cp);
+    const out = runner.checkpoint();
+
+    expect(out.config.id).toBe("run-1");
+    expect(out.judgingRound).toBe(3);
+    expect(out.opsDone).toBe(7);
+    expect(out.samples.map((s) => s.id)).toEqual(["s1", "s2", "r1"]);
+    expect(out.feedback.map((f) => f.id)).toEqual(["f1"]);
+    expect(out.judgments.map((j) => j.id)).toEqual(["j1"]);
+    expect(out.pointwiseScores.map((s) => s.id)).toEqual(["ps1"]);
+    expect(out.errors).toEqual(cp.errors);
+    expect(out.completedWork.judgments).toEqual(["k1", "k2"]);
+    expect(out.completedWork.existingFeedback).toEqual(["fb1"]);
+    expect(out.completedWork.missingSamples).toEqual([]);
+    expect(out.sampleToCacheId).toEqual(cp.sampleToCacheId);
+    expect(out.feedbackToCacheId).toEqual(cp.feedbackToCacheId);
+    expect(out.tallies).toEqual(cp.tallies);
+  });
+
+  it("accumulates elapsed time across sessions", () => {
+    const cp = makeCheckpoint("run-1");
+    const runner = new BenchmarkRunner(cp.config);
+    runner.restore(cp);
+    expect(runner.checkpoint().elapsedMs).toBeGreaterThanOrEqual(60_000);
+  });
+
+  it("does not double-add restored judgments", () => {
+    const cp = makeCheckpoint("run-1");
+    cp.judgments.push({ ...cp.judgments[0] });
+    const runner = new BenchmarkRunner(cp.config);
+    runner.restore(cp);
+    expect(runner.checkpoint().judgments).toHaveLength(1);
+  });
+
+  it("keeps later revision rounds apart from round 1", () => {
+    const cp = makeCheckpoint("run-1");
+    cp.samples.push(makeSample("r2", "a", {
+      stage: "revised-2", originalSampleId: "r1", feedbackUsed: "f2", feedbackModel: "b",
+    }));
+    cp.judgments.push({ ...cp.judgments[0], id: "j2", sampleA: "r2", sampleB: "r1", stage: "revised-2" });
+    const runner = new BenchmarkRunner(cp.config);
+    runner.restore(cp);
+    const out = runner.checkpoint();
+    expect(out.samples.map((s) => [s.id, s.stage])).toEqual([
+      ["s1", "initial"], ["s2", "initial"], ["r1", "revised"], ["r2", "revised-2"],
+    ]);
+    expect(out.judgments.map((j) => j.stage)).toEqual(["initial", "revised-2"]);
+  });
+
+  it("rejects a checkpoint from a different run", () => {
+    const cp = makeCheckpoint("run-1");
+    const runner = new BenchmarkRunner({ ...cp.config, id: "run-2" });
+    expect(() => runner.restore(cp)).toThrow("run-1");
+  });
+});
+
+// ── End to end (mock provider) ──────────────────────
+
+describe("BenchmarkRunner end to end", () => {
+  const TEST_CACHE_DIR = join(process.cwd(), "data", "test-runner-e2e-cache");
+  const strengths = { strong: 2, mid: 0, weak: -2 };
+  const prompt: PromptConfig = {
+    id: "p1", name: "Prompt", tags: ["test"], description: "", prompt: "Write a story.",
+    judgingCriteria: ["Voice"],
+  };
+
+  function mock(name: string): ModelConfig {
+    return { provider: "mock", model: name, label: name, registryId: `mock:${name}` };
+  }
+
+  function runner(models: ModelConfig[], judges = models, seed = 1): BenchmarkRunner {
+    const config = createRunConfig({
+      models, judges, prompts: [prompt], outputsPerModel: 2, seed,
+      convergence: { maxRounds: 8 },
+    });
+    return new BenchmarkRunner(config, new SampleCache(TEST_CACHE_DIR));
+  }
+
+  const order = (ratings: { model: string }[]) => ratings.map((r) => r.model);
+
+  beforeEach(async () => {
+    if (existsSync(TEST_CACHE_DIR)) await rm(TEST_CACHE_DIR, { recursive: true });
+    configureMockProvider({ strengths, seed: 1 });
+  });
+
+  afterEach(async () => {
+    if (existsSync(TEST_CACHE_DIR)) await rm(TEST_CACHE_DIR, { recursive: true });
+    configureMockProvider();
+  });
+
+  it("recovers the latent strength ranking", async () => {
+    const result = await runner([mock("weak"), mock("strong"), mock("mid")], [mock("judge")]).run();
+    expect(order(result.elo.initial.ratings)).toEqual(["strong", "mid", "weak"]);
+    expect(order(result.elo.revised.feedbackRatings!)).toEqual(["strong", "mid", "weak"]);
+    expect(result.meta.errors ?? []).toEqual([]);
+  });
+
+  it("suspends a failing model and rates the rest", async () => {
+    configureMockProvider({ strengths, seed: 1, faults: { flaky: { serverError: 1 } } });
+    const r = runner([mock("strong"), mock("weak"), mock("flaky")], [mock("judge")]);
+    const messages: string[] = [];
+    r.on((e) => {
+      if (e.type === "progress") messages.push(e.data.currentOp);
+    });
+    const result = await r.run();
+
+    expect(messages.some((m) => m.startsWith("flaky:") && m.includes("503"))).toBe(true);
+    expect(result.samples.filter((s) => s.model === "flaky")).toEqual([]);
+    expect(result.meta.errors ?? []).toEqual([]);
+    const rated = order(result.elo.initial.ratings).filter((m) => m !== "flaky");
+    expect(rated).toEqual(["strong", "weak"]);
+  });
+
+  it("reproduces judgments and ratings from the same seed", async () => {
+    const seeded = async (seed: number) => {
+      if (existsSync(TEST_CACHE_DIR)) await rm(TEST_CACHE_DIR, { recursive: true });
+      configureMockProvider({ strengths, seed: 1 });
+      const result = await runner([mock("weak"), mock("strong"), mock("mid")], [mock("judge")], seed).run();
+      // Latency is wall-clock time, the one thing a seed cannot fix
+      return {
+        judgments: result.judgments.map(({ latencyMs: _latencyMs, ...j }) => j),
+        elo: result.elo,
+      };
+    };
+
+    const first = await seeded(7);
+    expect(first.judgments.length).toBeGreaterThan(0);
+    expect(await seeded(7)).toEqual(first);
+    expect((await seeded(8)).judgments).not.toEqual(first.judgments);
+  });
+
+  it("judges gold pairs in both orders without --both-orders", async () => {
+    const models = [mock("weak"), mock("strong")];
+    const first = await runner(models, [mock("judge")]).run();
+    const text = (model: string) =>
+      first.samples.find((s) => s.model === model && s.stage === "initial" && s.outputIndex === 0)!.text;
+
+    const config = createRunConfig({
+      models, judges: [mock("judge")], prompts: [prompt], outputsPerModel: 2, seed: 1,
+      gold: [{ textA: text("strong"), textB: text("weak"), winner: "A" }],
+      convergence: { maxRounds: 8 },
+    });
+    const result = await new BenchmarkRunner(config, new SampleCache(TEST_CACHE_DIR)).run();
+
+    expect(result.gold!.matched).toBe(1);
+    expect(result.gold!.judges).toHaveLength(1);
+    expect(result.gold!.judges[0].bothOrders).toBe(1);
+    expect(result.gold!.judges[0].positionConsistency).not.toBeNull();
+    expect(result.judgments.filter((j) => j.orderWinners)).toHaveLength(1);
+  });
+
+  it("caches and rates spec parameter variants as separate players", async () => {
+    const models = parseModelConfigs(["mock:strong@t=1.0", "mock:strong@t=0.3", "mock:weak"]);
+    const result = await runner(models, [mock("judge")]).run();
+
+    expect(order(result.elo.initial.ratings).sort()).toEqual(["strong@t=0.3", "strong@t=1", "weak"]);
+    for (const model of ["strong@t=1", "strong@t=0.3"]) {
+      expect(existsSync(join(TEST_CACHE_DIR, "writes", modelKey("mock", model)))).toBe(true);
+    }
+    expect(order(result.elo.initial.ratings).at(-1)).toBe("weak");
+  });
+});
@@ -1,37 +1,63 @@
 import { readdir } from "fs/promises";
 import { streamText } from "ai";
-import { nanoid } from "nanoid";
 import { resolveModel } from "../providers/registry.js";
 import { apiModelId } from "../config.js";
 import { withRetry, OutputTruncatedError, isProviderError, safeStreamText } from "./retry.js";
-import { resolveMaxOutputTokens, resolveTemperature } from "./model-utils.js";
+import { callSettings } from "./model-utils.js";
+import { RateLimiter, emptyRateLimits, usageTokens } from "./rate-limiter.js";
+import { CostEstimator } from "./cost-model.js";
+import { contentId, keyedRandom, seededId, type Random } from "./random.js";
 import {
   getModelInfoMap,
   calculateCost,
 } from "../providers/models.js";
 import {
   judgePair,
+  scoreSample,
+  pointwiseCriteria,
   randomizePairOrder,
   correctForSwap,
+  correctCriteriaForSwap,
+  correctGradeForSwap,
+  combineBothOrders,
 } from "./judge.js";
+import { pointwiseToGames, summarizePointwise } from "./pointwise.js";
+import {
+  checkConstraints,
+  constraintPenaltyGames,
+  constraintWinner,
+  describeViolations,
+  summarizeConstraints,
+} from "./constraints.js";
+import { calibrateAgainstGold, resolveGoldPairs, type ResolvedGoldPair } from "./gold.js";
+import { applyStabilityWeights } from "./retest.js";
+import { computeSelfEditing } from "./self-editing.js";
 import {
   computeWhr,
   whrRatings,
   maxCiHalfWidth,
   hasOverlap,
   judgmentsToGames,
+  runGradeResults,
+  judgmentsByCriterion,
   improvementJudgmentsToGames,
+  computeLengthControlledWhr,
+  judgmentsToLengthGames,
+  sampleWordCounts,
 } from "./whr.js";
-import type { WhrRating, WhrResult } from "./whr.js";
-import { computeJudgeQuality, computeEloBasedJudgeQuality } from "./judge-quality.js";
+import type { WhrGame, WhrRating, WhrResult } from "./whr.js";
+import { computeJudgeQuality, computeEloBasedJudgeQuality, computeGoldJudgeQuality } from "./judge-quality.js";
 import type { JudgeQualityData } from "./judge-quality.js";
-import { computeJudgeBias, computeBiasCorrections, composeWeights } from "./judge-bias.js";
-import type { JudgeBiasData } from "./judge-bias.js";
+import { computeJudgeBias, computeBiasCorrections, composeWeights, kinRelation, sampleStyle } from "./judge-bias.js";
+import type { JudgeBiasData, KinRelation, StyleBias } from "./judge-bias.js";
 import {
   SampleCache,
   judgmentPairHash,
+  judgeTemplateHash,
   modelKey,
+  selfFeedbackCacheId,
   type CachedWrite,
+  type CachedJudgment,
 } from "../storage/sample-cache.js";
 import {
   identifyNeeds,
@@ -47,32 +73,47 @@ import {
   formatBatchSummary,
   formatConvergenceTarget,
   primaryModel,
+  expectedNeedCost,
 } from "./need-identifier.js";
 import type { Need, CompletedWork } from "./need-identifier.js";
 import {
   extractUsage,
   extractTaskError,
+  revisionRound,
+  revisionStage,
+  SELF_FEEDBACK,
   type RunConfig,
   type RunResult,
   type TaskError,
   type WritingSample,
   type Feedback,
   type PairwiseJudgment,
+  type PointwiseScore,
   type ModelConfig,
   type PromptConfig,
   type BenchmarkEvent,
   type CostBreakdown,
   type TokenUsage,
+  type ConstraintResult,
+  type JudgmentStage,
   type ModelInfo,
   type ModelSpeed,
   type BenchmarkStage,
   type BenchmarkProgress,
   type EloRating,
+  type EloSnapshot,
+  type RunCheckpoint,
+  type SpeedAccum,
+  type StopReason,
 } from "../types.js";
 
 type EventHandler = (event: BenchmarkEvent) => void;
 
 const ZERO_COST: CostBreakdown = Object.freeze({ input: 0, output: 0, total: 0, totalUncached: 0 });
+const ZERO_USAGE: TokenUsage = Object.freeze({ inputTokens: 0, outputTokens: 0 });
+
+/** Stand-in feedback text of the SELF_FEEDBACK control arm. */
+const SELF_REVISION_INSTRUCTION = "Revise and improve this piece.";
 
 // ── Concurrency Utilities ───────────────────────────
 
@@ -145,17 +186,22 @@ export class BenchmarkRunner {
   private costByModelByStage: Record<string, Record<string, number>> = {};
   private totalTokens = 0;
   // Per-model speed accumulators: [totalLatencyMs, totalOutputTokens, calls]
-  private speedAccum: Record<string, [number, number, number]> = {};
+  private speedAccum: Record<string, SpeedAccum> = {};
   // Per-model-per-stage speed accumulators
-  private speedAccumByStage: Record<string, Record<string, [number, number, number]>> = {};
+  private speedAccumByStage: Record<string, Record<string, SpeedAccum>> = {};
 
   // ── Collected results ─────────────────────────────
   private initialSamples: WritingSample[] = [];
   private revisedSamples: WritingSample[] = [];
+  /** Revisions from rounds 2+ (--revision-rounds); revisedSamples holds round 1. */
+  private laterRoundSamples: WritingSample[] = [];
   private allFeedback: Feedback[] = [];
   private initialJudgments: PairwiseJudgment[] = [];
   private revisedJudgments: PairwiseJudgment[] = [];
   private improvementJudgments: PairwiseJudgment[] = [];
+  /** Judgments between revisions of rounds 2+. */
+  private laterRoundJudgments: PairwiseJudgment[] = [];
+  private pointwiseScores: PointwiseScore[] = [];
   private taskErrors: TaskError[] = [];
 
   // ── Pull-based tracking ───────────────────────────
@@ -177,6 +223,15 @@ export class BenchmarkRunner {
   private inflightFeedback = new Map<string, Promise<Feedback | null>>();
   private inflightRevisions = new Map<string, Promise<WritingSample | null>>();
   private inflightJudgments = new Map<string, Promise<PairwiseJudgment | null>>();
+  private inflightScores = new Map<string, Promise<PointwiseScore | null>>();
+  /** "judge:sampleId" pairs already scored or attempted this run. */
+  private scoreAttempts = new Set<string>();
+  /** "judge:sampleA:sampleB" gold pairs already judged or attempted this run. */
+  private goldAttempts = new Set<string>();
+  // Gold pairs resolved against the samples so far, keyed both ways round
+  private goldPairs: ResolvedGoldPair[] = [];
+  private goldPairKeys = new Set<string>();
+  private goldSampleCount = -1;
 
   // Cache for getCachedWrites to avoid repeated filesystem reads
   private cachedWritesCache = new Map<string, CachedWrite[]>();
@@ -196,7 +251,12 @@ export class BenchmarkRunner {
   };
 
   // Judge bias state
-  private judgeBiasData: JudgeBiasData = { selfPreference: new Map(), positionBias: new Map() };
+  private judgeBiasData: JudgeBiasData = {
+    selfPreference: new Map(), positionBias: new Map(), kinPreference: new Map(),
+    lengthBias: new Map(), formattingBias: new Map(),
+  };
+  /** Kin relation for kin-preference bias (built once model metadata is loaded). */
+  private isKin?: KinRelation;
   private biasCorrections = new Map<string, number>();
 
   // Models suspended by the circuit breaker this batch (cleared each round)
@@ -210,6 +270,9 @@ export class BenchmarkRunner {
   // Progress tracking
   private opsDone = 0;
   private judgingRound = 0;
+  /** Wall-clock time from earlier sessions of a resumed run. */
+  private priorElapsedMs = 0;
+  private startTime = Date.now();
   private lastRatingRecompute = 0;
   /** Per-model-prompt consecutive output count, updated in ensureSample. Key: "model:promptId". */
   private sampleCounts = new Map<string, number>();
@@ -228,7 +291,6 @@ export class BenchmarkRunner {
   private currentRatingMap = new Map<string, WhrRating>();
 
   // ── Cache provenance tracking ─────────────────────
-  private cache = new SampleCache();
   private sampleToCacheId = new Map<string, string>();
   private feedbackToCacheId = new Map<string, string>();
   private cacheStats = {
@@ -241,14 +303,124 @@ export class BenchmarkRunner {
   /** Models used for judging -- separate from writers if --judges is set. */
   private judgeModels: ModelConfig[];
 
-  constructor(private config: RunConfig) {
+  /** Per-provider/per-model limits, applied around every API call. */
+  private limiter: RateLimiter;
+
+  /** Expected per-call cost from observed token usage (cost-aware scoring, budget). */
+  private costEstimator = new CostEstimator();
+  private stopReason: StopReason = "maxRounds";
+
+  /** `cache` defaults to the shared store under data/cache. */
+  constructor(private config: RunConfig, private cache = new SampleCache()) {
     this.judgeModels = config.judges?.length ? config.judges : config.models;
+    this.limiter = new RateLimiter(config.rateLimits ?? emptyRateLimits());
   }
 
   on(handler: EventHandler): void {
     this.handlers.push(handler);
   }
 
+  // ── Checkpointing ─────────────────────────────────
+
+  /**
+   * Snapshot the runner's accumulated state for `run --resume`.
+   * Cheap enough to call at every round boundary: the arrays are
+   * referenced, not copied, and serialized by the caller.
+   */
+  checkpoint(): RunCheckpoint {
+    const completedWork = Object.fromEntries(
+      Object.entries(this.completedWork).map(([field, set]) => [field, [...set]]),
+    );
+    return {
+      config: this.config,
+      savedAt: new Date().toISOString(),
+      elapsedMs: this.priorElapsedMs + (Date.now() - this.startTime),
+      judgingRound: this.judgingRound,
+      opsDone: this.opsDone,
+      samples: [...this.initialSamples, ...this.revisedSamples, ...this.laterRoundSamples],
+      feedback: [...this.allFeedback],
+      judgments: this.allJudgments,
+      pointwiseScores: [...this.pointwiseScores],
+      errors: [...this.taskErrors],
+      completedWork,
+      sampleToCacheId: Object.fromEntries(this.sampleToCacheId),
+      feedbackToCacheId: Object.fromEntries(this.feedbackToCacheId),
+      tallies: {
+        totalTokens: this.totalTokens,
+        totalCost: this.totalCost,
+        totalCostUncached: this.totalCostUncached,
+        costByModel: { ...this.costByModel },
+        costByStage: { ...this.costByStage },
+        costByModelByStage: structuredClone(this.costByModelByStage),
+        speedAccum: structuredClone(this.speedAccum),
+        speedAccumByStage: structuredClone(this.speedAccumByStage),
+        cacheSavings: structuredClone(this.cacheStats),
+      },
+    };
+  }
+
+  /**
+   * Restore state from a checkpoint before calling run(). Rebuilds the
+   * keyed stores from the sample/feedback arrays so ensure* methods hit
+   * memory instead of regenerating, and keeps the original sample IDs so
+   * restored judgments still resolve to their samples.
+   */
+  restore(cp: RunCheckpoint): void {
+    if (cp.config.id !== this.config.id) {
+      throw new Error(`Checkpoint belongs to run ${cp.config.id}, not ${this.config.id}`);
+    }
+
+    for (const s of cp.samples) {
+      if (s.stage === "initial") {
+        this.initialSamples.push(s);
+        this.sampleStore.set(`${s.model}:${s.promptId}:${s.outputIndex}`, s);
+        this.trackOutputCount(s.model, s.promptId, s.outputIndex);
+        this.costEstimator.observe(s.model, "write", s.usage);
+      } else {
+        (s.stage === "revised" ? this.revisedSamples : this.laterRoundSamples).push(s);
+        this.revisionStore.set(`${s.model}:${s.originalSampleId}:${s.feedbackUsed}`, s);
+        this.costEstimator.observe(s.model, "revise", s.usage);
+      }
+    }
+    for (const fb of cp.feedback) {
+      this.allFeedback.push(fb);
+      this.feedbackStore.set(`${fb.sourceModel}:${fb.targetSampleId}`, fb);
+      this.costEstimator.observe(fb.sourceModel, "feedback", fb.usage);
+    }
+    for (const j of cp.judgments) {
+      this.addJudgment(j);
+      this.costEstimator.observe(j.judgeModel, "judge", j.usage);
+    }
+    for (const ps of cp.pointwiseScores) {
+      this.pointwiseScores.push(ps);
+      this.scoreAttempts.add(`${ps.judgeModel}:${ps.sampleId}`);
+      this.costEstimator.observe(ps.judgeModel, "judge", ps.usage);
+    }
+    this.taskErrors.push(...cp.errors);
+
+    for (const [field, keys] of Object.entries(cp.completedWork)) {
+      const set = this.completedWork[field as keyof CompletedWork];
+      if (set) for (const k of keys) set.add(k);
+    }
+    for (const [id, cid] of Object.entries(cp.sampleToCacheId)) this.sampleToCacheId.set(id, cid);
+    for (const [id, cid] of Object.entries(cp.feedbackToCacheId)) this.feedbackToCacheId.set(id, cid);
+
+    const t = cp.tallies;
+    this.totalTokens = t.totalTokens;
+    this.totalCost = t.totalCost;
+    this.totalCostUncached = t.totalCostUncached;
+    this.costByModel = { ...t.costByModel };
+    this.costByStage = { ...t.costByStage };
+    this.costByModelByStage = structuredClone(t.costByModelByStage);
+    this.speedAccum = structuredClone(t.speedAccum);
+    this.speedAccumByStage = structuredClone(t.speedAccumByStage);
+    this.cacheStats = structuredClone(t.cacheSavings);
+
+    this.judgingRound = cp.judgingRound;
+    this.opsDone = cp.opsDone;
+    this.priorElapsedMs = cp.elapsedMs;
+  }
+
   /** Track per-model-prompt output counts (updated incrementally in ensureSample). */
   private trackOutputCount(model: string, promptId: string, outputIndex: number): void {
     const key = `${model}:${promptId}`;
@@ -318,6 +490,30 @@ export class BenchmarkRunner {
     return promise;
   }
 
+  /**
+   * Random source for one named decision. With --seed, the outcome
+   * depends only on the seed and `key`, not on completion order.
+   */
+  private random(key: string): Random {
+    return keyedRandom(this.config.seed, key);
+  }
+
+  /**
+   * Id for an artifact built from the cache. With --seed, the same
+   * artifact gets the same id every run.
+   */
+  private newId(key: string): string {
+    return seededId(this.config.seed, key);
+  }
+
+  /**
+   * Id for a freshly generated artifact. Its id doubles as its cache id,
+   * so with --seed it is bound to `content` as well as `key` (see contentId).
+   */
+  private freshId(key: string, content: string): string {
+    return contentId(this.config.seed, key, content);
+  }
+
   private beginStage(stage: string): void {
     this.inflight[stage] = (this.inflight[stage] ?? 0) + 1;
   }
@@ -369,7 +565,7 @@ export class BenchmarkRunner {
     return result;
   }
 
-  private static accumToSpeed([totalLatencyMs, totalOutputTokens, calls]: [number, number, number]): ModelSpeed {
+  private static accumToSpeed([totalLatencyMs, totalOutputTokens, calls]: SpeedAccum): ModelSpeed {
     return {
       totalLatencyMs,
       totalOutputTokens,
@@ -419,6 +615,7 @@ export class BenchmarkRunner {
         judgeQualityMode: this.config.convergence.judgeQualityMode,
         totalCost: this.totalCost,
         totalCostUncached: this.totalCostUncached,
+        budget: this.config.budget,
         costByModel: { ...this.costByModel },
         costByStage: { ...this.costByStage },
         costByModelByStage: structuredClone(this.costByModelByStage),
@@ -437,6 +634,7 @@ export class BenchmarkRunner {
         batchSummary: this.currentBatchSummary,
         suspendedModels: this.suspendedModels.size > 0
           ? [...this.suspendedModels] : undefined,
+        rateLimits: this.config.rateLimits ? this.limiter.status() : undefined,
         judgeBias: this.serializeJudgeBias(),
       },
     });
@@ -456,7 +654,22 @@ export class BenchmarkRunner {
         [judge, rest] as const),
     );
 
-    return { selfPreference, positionBias };
+    const styleBias = (biases: Map<string, StyleBias>) => Object.fromEntries(
+      [...biases].map(([judge, { featureWins: _, featureTies: __, ...rest }]) => [judge, rest] as const),
+    );
+
+    const kinPreference = Object.fromEntries(
+      [...this.judgeBiasData.kinPreference].map(([judge, { selfWins: _, selfTies: __, ...rest }]) =>
+        [judge, rest] as const),
+    );
+
+    return {
+      selfPreference,
+      positionBias,
+      kinPreference,
+      lengthBias: styleBias(this.judgeBiasData.lengthBias),
+      formattingBias: styleBias(this.judgeBiasData.formattingBias),
+    };
   }
 
   /**
@@ -514,12 +727,33 @@ export class BenchmarkRunner {
 
   // ── WHR Recomputation ─────────────────────────────
 
+  /**
+   * Put judgments and pointwise scores in a canonical order. They arrive
+   * in completion order, which varies with concurrency; sorting before
+   * each recompute keeps ratings (floating-point sums included) and the
+   * result identical across runs of the same seed.
+   */
+  private sortArtifacts(): void {
+    const byPair = (a: PairwiseJudgment, b: PairwiseJudgment) =>
+      a.promptId.localeCompare(b.promptId) ||
+      a.judgeModel.localeCompare(b.judgeModel) ||
+      a.sampleA.localeCompare(b.sampleA) ||
+      a.sampleB.localeCompare(b.sampleB);
+    this.initialJudgments.sort(byPair);
+    this.revisedJudgments.sort(byPair);
+    this.improvementJudgments.sort(byPair);
+    this.laterRoundJudgments.sort(byPair);
+    this.pointwiseScores.sort((a, b) =>
+      a.sampleId.localeCompare(b.sampleId) || a.judgeModel.localeCompare(b.judgeModel));
+  }
+
   /** Concatenation of all judgment arrays (cheap -- just spreads references). */
   private get allJudgments(): PairwiseJudgment[] {
     return [
       ...this.initialJudgments,
       ...this.revisedJudgments,
       ...this.improvementJudgments,
+      ...this.laterRoundJudgments,
     ];
   }
 
@@ -550,6 +784,11 @@ export class BenchmarkRunner {
 
     if (mode === "consensus") {
       this.judgeQuality = computeJudgeQuality(allJ, judgeLabels, k);
+    } else if (mode === "gold") {
+      const gold = calibrateAgainstGold(
+        this.config.gold ?? [], [...this.initialSamples, ...this.revisedSamples], allJ, judgeLabels,
+      );
+      this.judgeQuality = computeGoldJudgeQuality(gold.judges, judgeLabels, k, gold.matched);
     } else {
       // ELO-based: use model's rating in the chosen dimension as proxy for judge quality.
       // Uses previous round's ratings (natural fixed-point iteration).
@@ -559,14 +798,21 @@ export class BenchmarkRunner {
         this.revisedWhr.ratings;
       this.judgeQuality = computeEloBasedJudgeQuality(dimensionRatings, judgeLabels, k);
     }
+    if (this.config.retestWeights) {
+      this.judgeQuality = applyStabilityWeights(this.judgeQuality, this.config.retestWeights);
+    }
 
     // Compute judge bias statistics and adaptive corrections
     const sampleToModel = new Map<string, string>();
     for (const s of this.initialSamples) sampleToModel.set(s.id, s.model);
     for (const s of this.revisedSamples) sampleToModel.set(s.id, s.model);
+    for (const s of this.laterRoundSamples) sampleToModel.set(s.id, s.model);
 
-    this.judgeBiasData = computeJudgeBias(allJ, sampleToModel, judgeLabels);
-    this.biasCorrections = computeBiasCorrections(allJ, sampleToModel, this.judgeBiasData);
+    const style = sampleStyle([...this.initialSamples, ...this.revisedSamples, ...this.laterRoundSamples]);
+    this.judgeBiasData = computeJudgeBias(allJ, sampleToModel, judgeLabels, style, this.isKin);
+    this.biasCorrections = computeBiasCorrections(
+      allJ, sampleToModel, this.judgeBiasData, this.config.styleBiasCorrection ? style : undefined, this.isKin,
+    );
   }
 
   // TODO: Maintain these maps incrementally (append in ensureSample/
@@ -586,9 +832,18 @@ export class BenchmarkRunner {
 
     const jw = this.activeJudgeWeights;
     const jmw = this.buildJudgmentWeights();
-
-    this.writingWhr = computeWhr(judgmentsToGames(this.initialJudgments, sampleToModel, jw, jmw));
-    this.revisedWhr = computeWhr(judgmentsToGames(this.revisedJudgments, revisedSampleToModel, jw, jmw));
+    const gr = runGradeResults(this.config);
+
+    this.writingWhr = computeWhr([
+      ...judgmentsToGames(this.initialJudgments, sampleToModel, jw, jmw, gr),
+      ...this.pointwiseGames("initial", sampleToModel),
+      ...this.constraintGames(this.initialJudgments, sampleToModel),
+    ]);
+    this.revisedWhr = computeWhr([
+      ...judgmentsToGames(this.revisedJudgments, revisedSampleToModel, jw, jmw, gr),
+      ...this.pointwiseGames("revised", revisedSampleToModel),
+      ...this.constraintGames(this.revisedJudgments, revisedSampleToModel),
+    ]);
     this.feedbackWhr = computeWhr(improvementJudgmentsToGames(this.improvementJudgments, sampleToFeedbackModel, jw, jmw));
     this.lastRatingRecompute = Date.now();
 
@@ -605,6 +860,44 @@ export class BenchmarkRunner {
     this.cachedOverlapProgress = ciThreshold === 0 ? this.computeOverlapProgress() : 0;
   }
 
+  /**
+   * Pseudo-pairwise games from pointwise scores at `stage`, optionally
+   * restricted to prompts matching `promptFilter`. Empty unless
+   * --pointwise-games is set.
+   */
+  private pointwiseGames(
+    stage: "initial" | "revised",
+    sampleToModel: Map<string, string>,
+    promptFilter?: (promptId: string) => boolean,
+  ): WhrGame[] {
+    if (!this.config.pointwiseGames) return [];
+    const scores = this.pointwiseScores.filter(
+      (s) => s.stage === stage && (!promptFilter || promptFilter(s.promptId)),
+    );
+    return pointwiseToGames(scores, sampleToModel, this.activeJudgeWeights);
+  }
+
+  /**
+   * Penalty games for `judgments` on prompts with on_violation =
+   * "penalty". Empty when no prompt uses penalties.
+   */
+  private constraintGames(
+    judgments: PairwiseJudgment[],
+    sampleToModel: Map<string, string>,
+  ): WhrGame[] {
+    const penaltyWeights = new Map<string, number>();
+    for (const p of this.config.prompts) {
+      if (p.constraints?.onViolation === "penalty") penaltyWeights.set(p.id, p.constraints.penaltyWeight);
+    }
+    if (penaltyWeights.size === 0) return [];
+
+    const sampleResults = new Map<string, ConstraintResult>();
+    for (const s of [...this.initialSamples, ...this.revisedSamples, ...this.laterRoundSamples]) {
+      if (s.constraints) sampleResults.set(s.id, s.constraints);
+    }
+    return constraintPenaltyGames(judgments, sampleToModel, sampleResults, penaltyWeights);
+  }
+
   /** Throttled recompute: at most once per 100ms, only during the adaptive loop. */
   private maybeRecomputeRatings(): void {
     if (this.judgingRound <= 0) return;
@@ -643,7 +936,7 @@ export class BenchmarkRunner {
         if (cached.length > outputIndex) {
           const cs = cached[outputIndex];
           const sample: WritingSample = {
-            id: nanoid(),
+            id: this.newId(`sample:${storeKey}`),
             model: modelCfg.label,
             promptId: prompt.id,
             outputIndex,
@@ -654,12 +947,15 @@ export class BenchmarkRunner {
             cost: ZERO_COST,
             latencyMs: 0,
           };
+          this.checkSample(sample, prompt);
           this.sampleToCacheId.set(sample.id, cs.cacheId);
           this.cacheStats.writes.cached++;
           this.cacheStats.writes.savedCost += cs.cost.total;
           this.initialSamples.push(sample);
           this.sampleStore.set(storeKey, sample);
           this.trackOutputCount(modelCfg.label, prompt.id, outputIndex);
+          this.completedWork.existingSamples.add(sampleKey(modelCfg.label, prompt.id, outputIndex));
+          this.costEstimator.observe(modelCfg.label, "write", sample.usage);
           this.opsDone++;
           this.emit({ type: "sampleComplete", data: sample });
           return sample;
@@ -676,6 +972,7 @@ export class BenchmarkRunner {
         const sample = await tagModel(modelCfg.label,
           this.generateSample(modelCfg, prompt, outputIndex, "initial"),
         );
+        this.checkSample(sample, prompt);
         const cacheId = sample.id;
         this.sampleToCacheId.set(sample.id, cacheId);
 
@@ -701,6 +998,8 @@ export class BenchmarkRunner {
         this.initialSamples.push(sample);
         this.sampleStore.set(storeKey, sample);
         this.trackOutputCount(modelCfg.label, prompt.id, outputIndex);
+        this.completedWork.existingSamples.add(sampleKey(modelCfg.label, prompt.id, outputIndex));
+        this.costEstimator.observe(modelCfg.label, "write", sample.usage);
         this.opsDone++;
         this.emit({ type: "sampleComplete", data: sample });
         return sample;
@@ -733,7 +1032,7 @@ export class BenchmarkRunner {
         );
         if (cached) {
           const feedback: Feedback = {
-            id: nanoid(),
+            id: this.newId(`feedback:${storeKey}`),
             sourceModel: sourceModel.label,
             targetSampleId: targetSample.id,
             text: cached.text,
@@ -747,9 +1046,12 @@ export class BenchmarkRunner {
           this.cacheStats.feedback.savedCost += cached.cost.total;
           this.allFeedback.push(feedback);
           this.feedbackStore.set(storeKey, feedback);
-          this.completedWork.existingFeedback.add(
-            feedbackKey(sourceModel.label, targetSample.model, prompt.id, targetSample.outputIndex),
-          );
+          if (targetSample.stage === "initial") {
+            this.completedWork.existingFeedback.add(
+              feedbackKey(sourceModel.label, targetSample.model, prompt.id, targetSample.outputIndex),
+            );
+          }
+          this.costEstimator.observe(sourceModel.label, "feedback", feedback.usage);
           this.opsDone++;
           this.emit({ type: "feedbackComplete", data: feedback });
           return feedback;
@@ -788,9 +1090,12 @@ export class BenchmarkRunner {
         this.cacheStats.feedback.fresh++;
         this.allFeedback.push(feedback);
         this.feedbackStore.set(storeKey, feedback);
-        this.completedWork.existingFeedback.add(
-          feedbackKey(sourceModel.label, targetSample.model, prompt.id, targetSample.outputIndex),
-        );
+        if (targetSample.stage === "initial") {
+          this.completedWork.existingFeedback.add(
+            feedbackKey(sourceModel.label, targetSample.model, prompt.id, targetSample.outputIndex),
+          );
+        }
+        this.costEstimator.observe(sourceModel.label, "feedback", feedback.usage);
         this.opsDone++;
         this.emit({ type: "feedbackComplete", data: feedback });
         return feedback;
@@ -800,9 +1105,39 @@ export class BenchmarkRunner {
     });
   }
 
+  /**
+   * The SELF_FEEDBACK control arm's "feedback" on an initial sample: a
+   * fixed instruction, made without an API call and never cached. Its
+   * cache ID keys the self-revision (see selfFeedbackCacheId).
+   */
+  private selfFeedback(targetSample: WritingSample, prompt: PromptConfig): Feedback {
+    const storeKey = `${SELF_FEEDBACK}:${targetSample.id}`;
+    const existing = this.feedbackStore.get(storeKey);
+    if (existing) return existing;
+
+    const feedback: Feedback = {
+      id: this.newId(`feedback:${storeKey}`),
+      sourceModel: SELF_FEEDBACK,
+      targetSampleId: targetSample.id,
+      text: SELF_REVISION_INSTRUCTION,
+      usage: ZERO_USAGE,
+      cost: ZERO_COST,
+      latencyMs: 0,
+    };
+    const writeCacheId = this.sampleToCacheId.get(targetSample.id);
+    if (writeCacheId) this.feedbackToCacheId.set(feedback.id, selfFeedbackCacheId(writeCacheId));
+    this.allFeedback.push(feedback);
+    this.feedbackStore.set(storeKey, feedback);
+    this.completedWork.existingFeedback.add(
+      feedbackKey(SELF_FEEDBACK, targetSample.model, prompt.id, targetSample.outputIndex),
+    );
+    return feedback;
+  }
+
   /**
    * Ensure a revision exists for (writer, original, feedback).
-   * Checks in-memory → cache → generates fresh.
+   * Checks in-memory → cache → generates fresh. For `round` >= 2,
+   * `original` is the previous round's revision.
    */
   private ensureRevision(
     writerCfg: ModelConfig,
@@ -810,6 +1145,7 @@ export class BenchmarkRunner {
     feedback: Feedback,
     prompt: PromptConfig,
     cacheOnly = false,
+    round = 1,
   ): Promise<WritingSample | null> {
     const storeKey = `${writerCfg.label}:${original.id}:${feedback.id}`;
     const existing = this.revisionStore.get(storeKey);
@@ -824,12 +1160,12 @@ export class BenchmarkRunner {
         );
         if (cached) {
           const revised: WritingSample = {
-            id: nanoid(),
+            id: this.newId(`revision:${storeKey}`),
             model: writerCfg.label,
             promptId: prompt.id,
             outputIndex: original.outputIndex,
             text: cached.text,
-            stage: "revised",
+            stage: revisionStage(round),
             originalSampleId: original.id,
             feedbackUsed: feedback.id,
             feedbackModel: feedback.sourceModel,
@@ -838,14 +1174,12 @@ export class BenchmarkRunner {
             cost: ZERO_COST,
             latencyMs: 0,
           };
+          this.checkSample(revised, prompt);
           this.sampleToCacheId.set(revised.id, cached.cacheId);
           this.cacheStats.revisions.cached++;
           this.cacheStats.revisions.savedCost += cached.cost.total;
-          this.revisedSamples.push(revised);
-          this.revisionStore.set(storeKey, revised);
-          this.completedWork.existingRevisions.add(
-            revisionKey(writerCfg.label, feedback.sourceModel, prompt.id, original.outputIndex),
-          );
+          this.addRevision(revised, storeKey);
+          this.costEstimator.observe(writerCfg.label, "revise", revised.usage);
           this.opsDone++;
           this.emit({ type: "sampleComplete", data: revised });
           return revised;
@@ -857,13 +1191,15 @@ export class BenchmarkRunner {
       // Generate fresh
       this.beginStage("revisedWriting");
       this.emitProgress(
-        `${writerCfg.label} revising "${prompt.name}" with ${feedback.sourceModel}'s feedback`,
+        `${writerCfg.label} revising "${prompt.name}" with ${feedback.sourceModel}'s feedback`
+        + (round > 1 ? ` (round ${round})` : ""),
       );
 
       try {
         const revised = await tagModel(writerCfg.label,
-          this.generateRevision(writerCfg, prompt, original, feedback),
+          this.generateRevision(writerCfg, prompt, original, feedback, round),
         );
+        this.checkSample(revised, prompt);
         const revCacheId = revised.id;
         this.sampleToCacheId.set(revised.id, revCacheId);
 
@@ -873,6 +1209,8 @@ export class BenchmarkRunner {
             {
               cacheId: revCacheId,
               feedbackCacheId: fbCacheId,
+              round: round > 1 ? round : undefined,
+              feedbackChain: round > 1 ? this.feedbackChain(original) : undefined,
               text: revised.text,
               usage: revised.usage,
               cost: revised.cost,
@@ -883,11 +1221,8 @@ export class BenchmarkRunner {
         }
 
         this.cacheStats.revisions.fresh++;
-        this.revisedSamples.push(revised);
-        this.revisionStore.set(storeKey, revised);
-        this.completedWork.existingRevisions.add(
-          revisionKey(writerCfg.label, feedback.sourceModel, prompt.id, original.outputIndex),
-        );
+        this.addRevision(revised, storeKey);
+        this.costEstimator.observe(writerCfg.label, "revise", revised.usage);
         this.opsDone++;
         this.emit({ type: "sampleComplete", data: revised });
         return revised;
@@ -897,6 +1232,36 @@ export class BenchmarkRunner {
     });
   }
 
+  /**
+   * Store a new revision. Only round-1 revisions count toward the
+   * need identifier's completed work; later rounds hang off them.
+   */
+  private addRevision(revised: WritingSample, storeKey: string): void {
+    this.revisionStore.set(storeKey, revised);
+    if (revised.stage !== "revised") {
+      this.laterRoundSamples.push(revised);
+      return;
+    }
+    this.revisedSamples.push(revised);
+    this.completedWork.existingRevisions.add(
+      revisionKey(revised.model, revised.feedbackModel ?? "", revised.promptId, revised.outputIndex),
+    );
+  }
+
+  /**
+   * Feedback cache IDs that led to `revision`, round 1 first: the chain
+   * a later round's cache entry records.
+   */
+  private feedbackChain(revision: WritingSample): string[] {
+    const byId = new Map([...this.revisedSamples, ...this.laterRoundSamples].map((s) => [s.id, s]));
+    const chain: string[] = [];
+    for (let s: WritingSample | undefined = revision; s?.feedbackUsed; s = byId.get(s.originalSampleId ?? "")) {
+      const fbCacheId = this.feedbackToCacheId.get(s.feedbackUsed);
+      if (fbCacheId) chain.unshift(fbCacheId);
+    }
+    return chain;
+  }
+
   /**
    * Ensure a judgment exists and is recorded.
    * Checks cache → calls doJudge if needed.
@@ -906,41 +1271,30 @@ export class BenchmarkRunner {
     prompt: PromptConfig,
     sampleA: WritingSample,
     sampleB: WritingSample,
-    stage: "initial" | "revised" | "improvement",
+    stage: JudgmentStage,
     cacheOnly = false,
   ): Promise<PairwiseJudgment | null> {
     const dedupKey = `${judgeCfg.label}:${stage}:${sampleA.id}:${sampleB.id}`;
 
     return this.dedup(this.inflightJudgments, dedupKey, async () => {
+      const decided = this.constraintLossJudgment(judgeCfg, prompt, sampleA, sampleB, stage);
+      if (decided) return decided;
+
+      if (this.judgesBothOrders(sampleA, sampleB)) {
+        return this.ensureBothOrdersJudgment(judgeCfg, prompt, sampleA, sampleB, stage, cacheOnly);
+      }
+
       // Check cache
       const cacheIdA = this.sampleToCacheId.get(sampleA.id);
       const cacheIdB = this.sampleToCacheId.get(sampleB.id);
       if (cacheIdA && cacheIdB && !this.config.noCache) {
         const cached = await this.cache.getCachedJudgment(
           judgeCfg.provider, judgeCfg.model, stage, cacheIdA, cacheIdB,
+          false, judgeTemplateHash(prompt),
         );
-        if (cached) {
-          const judgment: PairwiseJudgment = {
-            id: nanoid(),
-            judgeModel: judgeCfg.label,
-            promptId: prompt.id,
-            sampleA: sampleA.id,
-            sampleB: sampleB.id,
-            winner: cached.winner,
-            reasoning: cached.reasoning,
-            stage,
-            positionSwapped: cached.positionSwapped,
-            usage: cached.usage,
-            cost: ZERO_COST,
-            latencyMs: 0,
-          };
-          this.cacheStats.judgments.cached++;
-          this.cacheStats.judgments.savedCost += cached.cost.total;
-          this.addJudgment(judgment);
-          this.opsDone++;
-          this.emit({ type: "judgmentComplete", data: judgment });
-          this.maybeRecomputeRatings();
-          this.emitProgress(`[cached] ${judgeCfg.label} judged "${prompt.name}" (${stage})`);
+        if (cached && this.isUsableCachedJudgment(cached, prompt, stage)) {
+          const judgment = this.judgmentFromCache(cached, judgeCfg, prompt, sampleA, sampleB, stage);
+          this.recordJudgment(judgment, judgeCfg, prompt, cached.cost.total);
           return judgment;
         }
       }
@@ -961,26 +1315,11 @@ export class BenchmarkRunner {
         if (cacheIdA && cacheIdB) {
           await this.cache.addCachedJudgment(
             judgeCfg.provider, judgeCfg.model, stage, cacheIdA, cacheIdB,
-            {
-              cacheId: judgment.id,
-              winner: judgment.winner,
-              reasoning: judgment.reasoning,
-              stage,
-              positionSwapped: judgment.positionSwapped,
-              usage: judgment.usage,
-              cost: judgment.cost,
-              latencyMs: judgment.latencyMs,
-              createdAt: new Date().toISOString(),
-            },
+            this.judgmentToCache(judgment), false, judgeTemplateHash(prompt),
           );
         }
 
-        this.cacheStats.judgments.fresh++;
-        this.addJudgment(judgment);
-        this.opsDone++;
-        this.emit({ type: "judgmentComplete", data: judgment });
-        this.maybeRecomputeRatings();
-        this.emitProgress(`${judgeCfg.label} judged "${prompt.name}" (${stage})`);
+        this.recordJudgment(judgment, judgeCfg, prompt);
         return judgment;
       } finally {
         this.endStage(stageLabel);
@@ -988,6 +1327,211 @@ export class BenchmarkRunner {
     });
   }
 
+  /**
+   * With on_violation = "loss", a writing pairing where exactly one sample
+   * violates the prompt's constraints goes to the compliant sample without
+   * calling the judge. Returns the recorded judgment, or null when the
+   * judge is still needed. Improvement judgments rate feedback, so they
+   * are always judged.
+   */
+  private constraintLossJudgment(
+    judgeCfg: ModelConfig,
+    prompt: PromptConfig,
+    sampleA: WritingSample,
+    sampleB: WritingSample,
+    stage: PairwiseJudgment["stage"],
+  ): PairwiseJudgment | null {
+    if (stage === "improvement" || prompt.constraints?.onViolation !== "loss") return null;
+    const winner = constraintWinner(sampleA.constraints, sampleB.constraints);
+    if (!winner) return null;
+
+    const loser = winner === "A" ? sampleB : sampleA;
+    const judgment: PairwiseJudgment = {
+      id: this.newId(`judgment:${judgeCfg.label}:${stage}:${sampleA.id}:${sampleB.id}`),
+      judgeModel: judgeCfg.label,
+      promptId: prompt.id,
+      sampleA: sampleA.id,
+      sampleB: sampleB.id,
+      winner,
+      reasoning: `Decided by prompt constraints: sample ${winner === "A" ? "B" : "A"} (${loser.model}) failed ${describeViolations(loser.constraints!)}`,
+      stage,
+      constraintLoss: true,
+      usage: ZERO_USAGE,
+      cost: ZERO_COST,
+      latencyMs: 0,
+    };
+    this.addJudgment(judgment);
+    this.opsDone++;
+    this.emit({ type: "judgmentComplete", data: judgment });
+    this.maybeRecomputeRatings();
+    this.emitProgress(`[constraints] ${loser.model} lost "${prompt.name}" (${stage})`);
+    return judgment;
+  }
+
+  /**
+   * --both-orders: judge the pair shown as (A, B) and as (B, A) with the
+   * same judge and record one judgment combining both verdicts. Each
+   * presentation order is cached separately, so a half-cached pair only
+   * needs the missing order judged.
+   */
+  private async ensureBothOrdersJudgment(
+    judgeCfg: ModelConfig,
+    prompt: PromptConfig,
+    sampleA: WritingSample,
+    sampleB: WritingSample,
+    stage: JudgmentStage,
+    cacheOnly: boolean,
+  ): Promise<PairwiseJudgment | null> {
+    const orders: [WritingSample, WritingSample][] = [[sampleA, sampleB], [sampleB, sampleA]];
+
+    const cached = await Promise.all(orders.map(async ([first, second]) => {
+      const cidFirst = this.sampleToCacheId.get(first.id);
+      const cidSecond = this.sampleToCacheId.get(second.id);
+      if (!cidFirst || !cidSecond || this.config.noCache) return null;
+      const entry = await this.cache.getCachedJudgment(
+        judgeCfg.provider, judgeCfg.model, stage, cidFirst, cidSecond, true,
+        judgeTemplateHash(prompt),
+      );
+      return entry && this.isUsableCachedJudgment(entry, prompt, stage) ? entry : null;
+    }));
+
+    if (cached.every((c) => c != null)) {
+      const judgment = combineBothOrders(
+        this.judgmentFromCache(cached[0]!, judgeCfg, prompt, sampleA, sampleB, stage),
+        this.judgmentFromCache(cached[1]!, judgeCfg, prompt, sampleB, sampleA, stage),
+      );
+      judgment.id = this.newId(`judgment:${judgeCfg.label}:${stage}:${sampleA.id}:${sampleB.id}:both`);
+      this.recordJudgment(judgment, judgeCfg, prompt, cached[0]!.cost.total + cached[1]!.cost.total);
+      return judgment;
+    }
+
+    if (cacheOnly) return null;
+
+    const stageLabel = stage === "initial" ? "initialJudging" : "revisedJudging";
+    this.beginStage(stageLabel);
+    this.emitProgress(`${judgeCfg.label} judging "${prompt.name}" in both orders (${stage})`);
+
+    try {
+      const [forward, reversed] = await Promise.all(orders.map(async ([first, second], i) => {
+        const hit = cached[i];
+        if (hit) return this.judgmentFromCache(hit, judgeCfg, prompt, first, second, stage);
+
+        const judgment = await tagModel(judgeCfg.label,
+          this.doJudge(judgeCfg, prompt, first, second, stage, false),
+        );
+        const cidFirst = this.sampleToCacheId.get(first.id);
+        const cidSecond = this.sampleToCacheId.get(second.id);
+        if (cidFirst && cidSecond) {
+          await this.cache.addCachedJudgment(
+            judgeCfg.provider, judgeCfg.model, stage, cidFirst, cidSecond,
+            this.judgmentToCache(judgment), true, judgeTemplateHash(prompt),
+          );
+        }
+        return judgment;
+      }));
+
+      const judgment = combineBothOrders(forward, reversed);
+      judgment.id = this.newId(`judgment:${judgeCfg.label}:${stage}:${sampleA.id}:${sampleB.id}:both`);
+      this.recordJudgment(judgment, judgeCfg, prompt);
+      return judgment;
+    } finally {
+      this.endStage(stageLabel);
+    }
+  }
+
+  /**
+   * Whether a cached judgment has everything this run asks judges for.
+   * Entries judged without per-criterion verdicts (or without a grade)
+   * are stale in --criteria-verdicts (--graded-preference) mode;
+   * re-judging overwrites them.
+   */
+  private isUsableCachedJudgment(
+    cached: CachedJudgment,
+    prompt: PromptConfig,
+    stage: PairwiseJudgment["stage"],
+  ): boolean {
+    if (this.wantsCriterionVerdicts(prompt, stage)
+      && !prompt.judgingCriteria.every((c) => cached.criterionWinners?.[c] != null)) return false;
+    return !this.config.gradedPreference || cached.grade != null;
+  }
+
+  /** Build a zero-cost judgment for this run from a cache entry. */
+  private judgmentFromCache(
+    cached: CachedJudgment,
+    judgeCfg: ModelConfig,
+    prompt: PromptConfig,
+    sampleA: WritingSample,
+    sampleB: WritingSample,
+    stage: PairwiseJudgment["stage"],
+  ): PairwiseJudgment {
+    return {
+      id: this.newId(`judgment:${judgeCfg.label}:${stage}:${sampleA.id}:${sampleB.id}`),
+      judgeModel: judgeCfg.label,
+      promptId: prompt.id,
+      sampleA: sampleA.id,
+      sampleB: sampleB.id,
+      winner: cached.winner,
+      reasoning: cached.reasoning,
+      reasoningSummary: cached.reasoningSummary,
+      stage,
+      positionSwapped: cached.positionSwapped,
+      criterionWinners: cached.criterionWinners,
+      grade: cached.grade,
+      usage: cached.usage,
+      cost: ZERO_COST,
+      latencyMs: 0,
+    };
+  }
+
+  private judgmentToCache(judgment: PairwiseJudgment): CachedJudgment {
+    return {
+      cacheId: judgment.id,
+      winner: judgment.winner,
+      reasoning: judgment.reasoning,
+      reasoningSummary: judgment.reasoningSummary,
+      stage: judgment.stage,
+      positionSwapped: judgment.positionSwapped,
+      criterionWinners: judgment.criterionWinners,
+      grade: judgment.grade,
+      usage: judgment.usage,
+      cost: judgment.cost,
+      latencyMs: judgment.latencyMs,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Record a judgment and report it. `savedCost` is set for judgments
+   * served entirely from cache.
+   */
+  private recordJudgment(
+    judgment: PairwiseJudgment,
+    judgeCfg: ModelConfig,
+    prompt: PromptConfig,
+    savedCost?: number,
+  ): void {
+    if (savedCost != null) {
+      this.cacheStats.judgments.cached++;
+      this.cacheStats.judgments.savedCost += savedCost;
+    } else {
+      this.cacheStats.judgments.fresh++;
+    }
+    this.addJudgment(judgment);
+    this.costEstimator.observe(judgeCfg.label, "judge", judgment.usage);
+    this.opsDone++;
+    this.emit({ type: "judgmentComplete", data: judgment });
+    this.maybeRecomputeRatings();
+    this.emitProgress(`${savedCost != null ? "[cached] " : ""}${judgeCfg.label} judged "${prompt.name}" (${judgment.stage})`);
+  }
+
+  /**
+   * Whether judgments at `stage` ask for per-criterion verdicts. Only
+   * writing stages get them; improvement judgments rate feedback.
+   */
+  private wantsCriterionVerdicts(prompt: PromptConfig, stage: PairwiseJudgment["stage"]): boolean {
+    return !!this.config.criterionVerdicts && stage !== "improvement" && prompt.judgingCriteria.length > 0;
+  }
+
   private addJudgment(judgment: PairwiseJudgment): void {
     const dk = `${judgment.judgeModel}:${judgment.stage}:${judgment.sampleA}:${judgment.sampleB}`;
     if (this.addedJudgmentKeys.has(dk)) return;
@@ -995,6 +1539,192 @@ export class BenchmarkRunner {
     if (judgment.stage === "initial") this.initialJudgments.push(judgment);
     else if (judgment.stage === "revised") this.revisedJudgments.push(judgment);
     else if (judgment.stage === "improvement") this.improvementJudgments.push(judgment);
+    else this.laterRoundJudgments.push(judgment);
+  }
+
+  /** Whether `judge` already has a recorded judgment of the pair, in either order. */
+  private hasJudgment(judge: string, stage: JudgmentStage, a: WritingSample, b: WritingSample): boolean {
+    return this.addedJudgmentKeys.has(`${judge}:${stage}:${a.id}:${b.id}`)
+      || this.addedJudgmentKeys.has(`${judge}:${stage}:${b.id}:${a.id}`);
+  }
+
+  /** Check a new sample against its prompt's constraints, if any. */
+  private checkSample(sample: WritingSample, prompt: PromptConfig): void {
+    if (prompt.constraints) sample.constraints = checkConstraints(sample.text, prompt.constraints);
+  }
+
+  // ── Pointwise Scoring ─────────────────────────────
+
+  /**
+   * Ensure `judgeCfg` has scored `sample` on each judging criterion.
+   * Checks cache → calls doScore if needed. Each (judge, sample) is
+   * attempted at most once per run, so failures are not retried.
+   */
+  private ensurePointwiseScore(
+    judgeCfg: ModelConfig,
+    prompt: PromptConfig,
+    sample: WritingSample,
+    cacheOnly = false,
+  ): Promise<PointwiseScore | null> {
+    const key = `${judgeCfg.label}:${sample.id}`;
+
+    return this.dedup(this.inflightScores, key, async () => {
+      this.scoreAttempts.add(key);
+      const criteria = pointwiseCriteria(prompt);
+      const cacheId = this.sampleToCacheId.get(sample.id);
+
+      if (cacheId && !this.config.noCache) {
+        const cached = await this.cache.getCachedPointwiseScore(
+          judgeCfg.provider, judgeCfg.model, sample.stage, cacheId, criteria,
+        );
+        if (cached) {
+          const score: PointwiseScore = {
+            id: this.newId(`score:${key}`),
+            judgeModel: judgeCfg.label,
+            promptId: prompt.id,
+            sampleId: sample.id,
+            stage: sample.stage,
+            scores: cached.scores,
+            reasoning: cached.reasoning,
+            usage: cached.usage,
+            cost: ZERO_COST,
+            latencyMs: 0,
+          };
+          this.pointwiseScores.push(score);
+          this.costEstimator.observe(judgeCfg.label, "judge", score.usage);
+          this.opsDone++;
+          this.emit({ type: "scoreComplete", data: score });
+          this.emitProgress(`[cached] ${judgeCfg.label} scored ${sample.model} on "${prompt.name}" (${sample.stage})`);
+          return score;
+        }
+      }
+
+      if (cacheOnly) return null;
+
+      this.beginStage("scoring");
+      this.emitProgress(`${judgeCfg.label} scoring ${sample.model} on "${prompt.name}" (${sample.stage})`);
+
+      try {
+        const score = await tagModel(judgeCfg.label, this.doScore(judgeCfg, prompt, sample));
+
+        if (cacheId) {
+          await this.cache.addCachedPointwiseScore(
+            judgeCfg.provider, judgeCfg.model, sample.stage, cacheId, criteria,
+            {
+              cacheId: score.id,
+              scores: score.scores,
+              reasoning: score.reasoning,
+              stage: score.stage,
+              usage: score.usage,
+              cost: score.cost,
+              latencyMs: score.latencyMs,
+              createdAt: new Date().toISOString(),
+            },
+          );
+        }
+
+        this.pointwiseScores.push(score);
+        this.costEstimator.observe(judgeCfg.label, "judge", score.usage);
+        this.opsDone++;
+        this.emit({ type: "scoreComplete", data: score });
+        this.emitProgress(`${judgeCfg.label} scored ${sample.model} on "${prompt.name}" (${sample.stage})`);
+        return score;
+      } finally {
+        this.endStage("scoring");
+      }
+    });
+  }
+
+  /**
+   * With --pointwise, have every judge score every sample that it has
+   * not yet scored. Runs after each batch so new samples are scored in
+   * the round that produced them. Errors are recorded, not propagated.
+   */
+  private async scoreSamplesPointwise(): Promise<void> {
+    if (!this.config.pointwise) return;
+
+    const work: Array<{ judge: ModelConfig; sample: WritingSample }> = [];
+    const revised = this.revisedSamples.filter((s) => s.feedbackModel !== SELF_FEEDBACK);
+    for (const sample of [...this.initialSamples, ...revised]) {
+      for (const judge of this.judgeModels) {
+        if (!this.scoreAttempts.has(`${judge.label}:${sample.id}`)) work.push({ judge, sample });
+      }
+    }
+
+    await settledPool(this.config.concurrency, work, ({ judge, sample }) => {
+      if (this.budgetExhausted()) return Promise.resolve();
+      const prompt = this.promptMap.get(sample.promptId)!;
+      return this.ensurePointwiseScore(judge, prompt, sample, this.config.cacheOnly)
+        .then(() => undefined, (err) => {
+          const taskError = extractTaskError(err, judge.label);
+          this.taskErrors.push(taskError);
+          this.emit({ type: "error", data: taskError });
+        });
+    });
+  }
+
+  /** Gold pairs (--gold) resolved against the run's samples so far. */
+  private resolvedGoldPairs(): ResolvedGoldPair[] {
+    if (!this.config.gold) return [];
+    const count = this.initialSamples.length + this.revisedSamples.length;
+    if (count !== this.goldSampleCount) {
+      this.goldPairs = resolveGoldPairs(this.config.gold, [...this.initialSamples, ...this.revisedSamples]);
+      this.goldPairKeys = new Set(this.goldPairs.flatMap((g) => [
+        `${g.sampleA}:${g.sampleB}`, `${g.sampleB}:${g.sampleA}`,
+      ]));
+      this.goldSampleCount = count;
+    }
+    return this.goldPairs;
+  }
+
+  /** Whether a pair is judged in both orders: every pair with --both-orders, else gold pairs. */
+  private judgesBothOrders(sampleA: WritingSample, sampleB: WritingSample): boolean {
+    if (this.config.bothOrders) return true;
+    if (!this.config.gold) return false;
+    this.resolvedGoldPairs();
+    return this.goldPairKeys.has(`${sampleA.id}:${sampleB.id}`);
+  }
+
+  /**
+   * Judge every gold pair with every judge, in both orders, so gold
+   * calibration covers all judges and reports position consistency.
+   * Only pairs the run would itself compare are judged (different
+   * writers, same feedback source), so the verdicts also count toward
+   * the ratings.
+   */
+  private async judgeGoldPairs(): Promise<void> {
+    const gold = this.resolvedGoldPairs();
+    if (gold.length === 0) return;
+
+    const samplesById = new Map([...this.initialSamples, ...this.revisedSamples].map((s) => [s.id, s]));
+    const work: Array<{ judge: ModelConfig; a: WritingSample; b: WritingSample }> = [];
+    for (const g of gold) {
+      const a = samplesById.get(g.sampleA)!;
+      const b = samplesById.get(g.sampleB)!;
+      if (a.model === b.model || a.feedbackModel !== b.feedbackModel || a.feedbackModel === SELF_FEEDBACK) continue;
+      for (const judge of this.judgeModels) {
+        const key = `${judge.label}:${a.id}:${b.id}`;
+        if (this.goldAttempts.has(key) || this.hasJudgment(judge.label, a.stage, a, b)) continue;
+        this.goldAttempts.add(key);
+        work.push({ judge, a, b });
+      }
+    }
+
+    await settledPool(this.config.concurrency, work, ({ judge, a, b }) => {
+      if (this.budgetExhausted()) return Promise.resolve();
+      const prompt = this.promptMap.get(a.promptId)!;
+      const jkey = judgmentKey(a.stage, a.model, b.model,
+        a.stage === "initial" ? prompt.id : `${prompt.id}:${a.feedbackModel}`, judge.label,
+        a.outputIndex, b.outputIndex);
+      return this.ensureJudgment(judge, prompt, a, b, a.stage, this.config.cacheOnly)
+        .then((result) => {
+          if (result) this.completedWork.judgments.add(jkey);
+        }, (err) => {
+          const taskError = extractTaskError(err, judge.label);
+          this.taskErrors.push(taskError);
+          this.emit({ type: "error", data: taskError });
+        });
+    });
   }
 
   // ── Judgment Cache Discovery ─────────────────────────
@@ -1022,7 +1752,7 @@ export class BenchmarkRunner {
       }),
     );
 
-    // Fast check: is this judgment file on disk?
+    // Fast check: is this judgment file on disk? (Both order files with --both-orders.)
     const hasCachedJudgment = (
       judge: ModelConfig,
       stage: string,
@@ -1032,9 +1762,15 @@ export class BenchmarkRunner {
       const cidA = this.sampleToCacheId.get(sampleA.id);
       const cidB = this.sampleToCacheId.get(sampleB.id);
       if (!cidA || !cidB) return false;
-      const hash = judgmentPairHash(stage, cidA, cidB);
-      const mk = modelKey(judge.provider, judge.model);
-      return judgmentFileSets.get(mk)?.has(`${hash}.json`) ?? false;
+      const files = judgmentFileSets.get(modelKey(judge.provider, judge.model));
+      const templateHash = judgeTemplateHash(this.promptMap.get(sampleA.promptId)!);
+      const hashes = this.judgesBothOrders(sampleA, sampleB)
+        ? [
+            judgmentPairHash(stage, cidA, cidB, true, templateHash),
+            judgmentPairHash(stage, cidB, cidA, true, templateHash),
+          ]
+        : [judgmentPairHash(stage, cidA, cidB, false, templateHash)];
+      return hashes.every((hash) => files?.has(`${hash}.json`) ?? false);
     };
 
     const tasks: Promise<unknown>[] = [];
@@ -1090,9 +1826,12 @@ export class BenchmarkRunner {
       }
     }
 
-    // Revised judgments (within feedback-source groups)
+    // Revised judgments (within feedback-source groups; self-revisions
+    // are only judged against their originals)
     for (const prompt of this.config.prompts) {
-      const promptRevisions = this.revisedSamples.filter((s) => s.promptId === prompt.id);
+      const promptRevisions = this.revisedSamples.filter(
+        (s) => s.promptId === prompt.id && s.feedbackModel !== SELF_FEEDBACK,
+      );
       const byFeedback = new Map<string, WritingSample[]>();
       for (const rev of promptRevisions) {
         const key = rev.feedbackModel ?? "";
@@ -1126,6 +1865,28 @@ export class BenchmarkRunner {
       }
     }
 
+    // Later-round judgments (within round and feedback-source groups).
+    // These are never needs, so ensureJudgment's dedup is the only check.
+    const laterGroups = new Map<string, WritingSample[]>();
+    for (const rev of this.laterRoundSamples) {
+      const key = `${rev.promptId}:${rev.stage}:${rev.feedbackModel ?? ""}`;
+      const group = laterGroups.get(key) ?? [];
+      group.push(rev);
+      laterGroups.set(key, group);
+    }
+    for (const group of laterGroups.values()) {
+      const prompt = this.promptMap.get(group[0].promptId)!;
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          if (group[i].model === group[j].model) continue;
+          for (const judge of this.judgeModels) {
+            if (!hasCachedJudgment(judge, group[i].stage, group[i], group[j])) continue;
+            tasks.push(this.ensureJudgment(judge, prompt, group[i], group[j], group[i].stage, true));
+          }
+        }
+      }
+    }
+
     if (tasks.length > 0) await Promise.allSettled(tasks);
   }
 
@@ -1177,6 +1938,9 @@ export class BenchmarkRunner {
           ),
         ),
       );
+      if (this.config.selfRevision) {
+        for (const sample of layer2Samples) this.selfFeedback(sample, this.promptMap.get(sample.promptId)!);
+      }
 
       // Layer 3: Load all cached revisions
       const feedbackBySample = new Map<string, Feedback[]>();
@@ -1196,6 +1960,21 @@ export class BenchmarkRunner {
       }
       await Promise.allSettled(layer3Tasks);
 
+      // Later revision rounds: each round's feedback and revision are keyed
+      // by the previous round's, so load them round by round
+      let previous = [...this.revisedSamples];
+      for (let round = 2; round <= (this.config.revisionRounds ?? 1) && previous.length > 0; round++) {
+        const next = await Promise.all(previous.map(async (rev) => {
+          const writerCfg = this.modelMap.get(rev.model);
+          const fbModelCfg = this.modelMap.get(rev.feedbackModel ?? "");
+          if (!writerCfg || !fbModelCfg) return null;
+          const prompt = this.promptMap.get(rev.promptId)!;
+          const fb = await this.ensureFeedback(fbModelCfg, rev, prompt, true);
+          return fb ? this.ensureRevision(writerCfg, rev, fb, prompt, true, round) : null;
+        }));
+        previous = next.filter((s): s is WritingSample => s != null);
+      }
+
       // Layer 4: Load all cached judgments
       await this.seedJudgmentsFromArrays();
     } catch {
@@ -1203,6 +1982,29 @@ export class BenchmarkRunner {
     }
   }
 
+  // ── Budget ────────────────────────────────────────
+
+  /** True once actual spend has reached the --budget ceiling. */
+  private budgetExhausted(): boolean {
+    return this.config.budget != null && this.totalCost >= this.config.budget;
+  }
+
+  /**
+   * Longest prefix of `needs` whose summed expected cost fits in the
+   * remaining budget. Needs in a batch often share cascade steps, so the
+   * sum overestimates and the ceiling is approached conservatively.
+   */
+  private fitBatchToBudget(needs: Need[]): Need[] {
+    if (this.config.budget == null) return needs;
+    let remaining = this.config.budget - this.totalCost;
+    const stepCost = this.costEstimator.stepCost;
+    for (let i = 0; i < needs.length; i++) {
+      remaining -= expectedNeedCost(needs[i], this.completedWork, stepCost, this.config.revisionRounds);
+      if (remaining < 0) return needs.slice(0, i);
+    }
+    return needs;
+  }
+
   // ── Phase 2: Fulfill Needs ────────────────────────
 
   /**
@@ -1282,7 +2084,6 @@ export class BenchmarkRunner {
     tripleResults: Map<string, boolean>,
   ): Promise<void> {
     const writerCfg = this.modelMap.get(need.writer)!;
-    const fbModelCfg = this.modelMap.get(need.feedbackModel)!;
     const key = judgmentKey(
       "improvement", need.writer, need.feedbackModel,
       need.promptId, need.judgeModel.label, need.outputIdx,
@@ -1296,7 +2097,9 @@ export class BenchmarkRunner {
         return;
       }
 
-      const feedback = await this.ensureFeedback(fbModelCfg, sample, prompt, cacheOnly);
+      const feedback = need.feedbackModel === SELF_FEEDBACK
+        ? this.selfFeedback(sample, prompt)
+        : await this.ensureFeedback(this.modelMap.get(need.feedbackModel)!, sample, prompt, cacheOnly);
       if (!feedback) {
         this.completedWork.missingFeedback.add(feedbackKey(need.feedbackModel, need.writer, need.promptId, need.outputIdx));
         return;
@@ -1358,18 +2161,57 @@ export class BenchmarkRunner {
         need.judgeModel, prompt, revA, revB, "revised", cacheOnly,
       );
       this.recordTripleResult(tripleResults, tk, result);
+
+      await this.fulfillLaterRounds(need, prompt, revA, revB, cacheOnly);
     } finally {
       this.completedWork.judgments.add(key);
     }
   }
 
+  /**
+   * Carry a revised pair through rounds 2..revisionRounds: each round the
+   * need's feedback model reviews the previous round's revisions, both
+   * writers revise again, and the need's judge compares the new pair.
+   * Stops at the first round whose artifacts can't be produced.
+   */
+  private async fulfillLaterRounds(
+    need: Extract<Need, { type: "revised_judgment" }>,
+    prompt: PromptConfig,
+    revA: WritingSample,
+    revB: WritingSample,
+    cacheOnly: boolean,
+  ): Promise<void> {
+    const modelACfg = this.modelMap.get(need.modelA)!;
+    const modelBCfg = this.modelMap.get(need.modelB)!;
+    const fbModelCfg = this.modelMap.get(need.feedbackModel)!;
+
+    let prevA = revA;
+    let prevB = revB;
+    for (let round = 2; round <= (this.config.revisionRounds ?? 1); round++) {
+      const fbA = await this.ensureFeedback(fbModelCfg, prevA, prompt, cacheOnly);
+      const fbB = await this.ensureFeedback(fbModelCfg, prevB, prompt, cacheOnly);
+      if (!fbA || !fbB) return;
+
+      const nextA = await this.ensureRevision(modelACfg, prevA, fbA, prompt, cacheOnly, round);
+      const nextB = await this.ensureRevision(modelBCfg, prevB, fbB, prompt, cacheOnly, round);
+      if (!nextA || !nextB) return;
+
+      const stage = revisionStage(round);
+      if (!this.hasJudgment(need.judgeModel.label, stage, nextA, nextB)) {
+        await this.ensureJudgment(need.judgeModel, prompt, nextA, nextB, stage, cacheOnly);
+      }
+      prevA = nextA;
+      prevB = nextB;
+    }
+  }
+
   // ── Main Entry Point ──────────────────────────────
 
   /**
    * Run the adaptive pull-based benchmark pipeline.
    */
   async run(): Promise<RunResult> {
-    const startTime = Date.now();
+    this.startTime = Date.now();
     const convergence = this.config.convergence;
 
     // Fetch model metadata for all models (writers + judges, deduplicated)
@@ -1381,6 +2223,11 @@ export class BenchmarkRunner {
       allModelConfigs.set(m.label, { provider: m.provider, model: m.model, label: m.label });
     }
     this.modelInfoMap = await getModelInfoMap([...allModelConfigs.values()]);
+    this.costEstimator.setModelInfo(this.modelInfoMap);
+    this.isKin = kinRelation(
+      [...this.config.models, ...this.judgeModels], this.modelInfoMap,
+      this.config.kinMode ?? "none", this.config.kinGroups,
+    );
 
     // Build lookup maps for fast model/prompt resolution
     for (const m of this.config.models) this.modelMap.set(m.label, m);
@@ -1391,6 +2238,11 @@ export class BenchmarkRunner {
     // Skipped with --skip-seeding; the adaptive loop discovers cache lazily.
     if (!this.config.skipSeeding) {
       await this.seedFromCache();
+    }
+    await this.judgeGoldPairs();
+    // A restored checkpoint carries judgments even when seeding is skipped.
+    if (!this.config.skipSeeding || this.allJudgments.length > 0) {
+      this.sortArtifacts();
       this.recomputeJudgeQuality();
       this.recomputeRatings();
     }
@@ -1406,7 +2258,8 @@ export class BenchmarkRunner {
       const P = this.config.prompts.length;
       const batchSize = Math.max(W * J * P, W * W);
 
-      this.judgingRound = 0;
+      // judgingRound is non-zero when resuming from a checkpoint, so
+      // maxRounds bounds the run as a whole rather than each session.
       while (this.judgingRound < convergence.maxRounds) {
         if (isConverged(
           this.writingWhr.ratings,
@@ -1415,6 +2268,12 @@ export class BenchmarkRunner {
           convergence,
           this.config.models.length,
         )) {
+          this.stopReason = "converged";
+          break;
+        }
+
+        if (this.budgetExhausted()) {
+          this.stopReason = "budget";
           break;
         }
 
@@ -1437,9 +2296,23 @@ export class BenchmarkRunner {
           this.config.outputsPerModel,
           this.judgeQuality,
           modelOutputCaps,
+          this.costEstimator.stepCost,
+          this.config.selfRevision,
+          this.config.selfCritique,
         );
 
-        if (needs.length === 0) break; // exhausted all possible work
+        if (needs.length === 0) { // exhausted all possible work
+          this.stopReason = "exhausted";
+          break;
+        }
+
+        // Under a budget, dispatch only the prefix of the batch whose
+        // expected cost fits in what remains.
+        const batch = this.fitBatchToBudget(needs);
+        if (batch.length === 0) {
+          this.stopReason = "budget";
+          break;
+        }
 
         this.currentRatingMap = ratingMap;
         this.currentBatchSummary = formatBatchSummary(needs);
@@ -1457,16 +2330,17 @@ export class BenchmarkRunner {
         const opsBefore = this.opsDone;
         const tripleResults = new Map<string, boolean>();
 
-        // TODO: Per-provider concurrency limits would allow users with
-        // mixed providers to set different limits per provider. Currently,
-        // --concurrency is a global cap on concurrent needs.
+        // --concurrency caps concurrent needs globally; per-provider and
+        // per-model limits are enforced by the rate limiter at each call.
         this.suspendedModels.clear();
 
-        await settledPool(this.config.concurrency, needs, (n) => {
+        await settledPool(this.config.concurrency, batch, (n) => {
           // Skip needs involving a suspended model (first provider error = suspension)
           if (needModels(n).some((m) => this.suspendedModels.has(m))) {
             return Promise.resolve();
           }
+          // Estimates can be low; re-check actual spend before each dispatch
+          if (this.budgetExhausted()) return Promise.resolve();
           return this.fulfillNeed(n, tripleResults).catch((err) => {
             const primary = primaryModel(n);
 
@@ -1499,6 +2373,8 @@ export class BenchmarkRunner {
         // populated, this finds the bulk of cached judgments. On
         // subsequent runs, completedWork.judgments.has() skips known
         // judgments, so only new pairs from deeper depths are probed.
+        await this.scoreSamplesPointwise();
+        await this.judgeGoldPairs();
         const opsBeforeProbe = this.opsDone;
         await this.seedJudgmentsFromArrays();
 
@@ -1508,6 +2384,7 @@ export class BenchmarkRunner {
         if (this.opsDone > opsBefore) {
           this.judgingRound++;
           try {
+            this.sortArtifacts();
             this.recomputeJudgeQuality();
             this.recomputeRatings();
           } catch (err) {
@@ -1518,6 +2395,7 @@ export class BenchmarkRunner {
           const probed = this.opsDone - opsBeforeProbe;
           const suffix = probed > 0 ? ` (${probed} discovered from cache)` : "";
           this.emitProgress(`Round ${this.judgingRound} complete${suffix}`);
+          this.emit({ type: "roundComplete", data: { round: this.judgingRound } });
         }
 
         // Stall: no new ops means no new artifacts were discovered or
@@ -1525,7 +2403,10 @@ export class BenchmarkRunner {
         // unproductive round proves nothing remains. With --skip-seeding,
         // lazy discovery in fulfillNeed finds what it can on the first
         // pass; a second unproductive round confirms exhaustion.
-        if (this.opsDone === opsBefore) break;
+        if (this.opsDone === opsBefore) {
+          this.stopReason = this.budgetExhausted() ? "budget" : "exhausted";
+          break;
+        }
       }
     }
 
@@ -1534,8 +2415,12 @@ export class BenchmarkRunner {
     this.currentBatchSummary = undefined;
     this.suspendedModels.clear();
 
+    // Seeded samples are unscored if the loop ended before its first batch
+    await this.scoreSamplesPointwise();
+
     // Compute final ratings using WHR (produces confidence intervals)
     this.beginStage("computingElo");
+    this.sortArtifacts();
     this.emitProgress("Computing final ratings...");
 
     const sampleToModel = new Map(
@@ -1553,17 +2438,42 @@ export class BenchmarkRunner {
     // Apply bias corrections to final ratings, consistent with the adaptive loop.
     const jw = this.activeJudgeWeights;
     const jmw = this.buildJudgmentWeights();
-
-    const initialElo: EloRating[] = whrRatings(
-      judgmentsToGames(this.initialJudgments, sampleToModel, jw, jmw),
-    );
-    const revisedElo: EloRating[] = whrRatings(
-      judgmentsToGames(this.revisedJudgments, revisedSampleToModel, jw, jmw),
-    );
+    const gr = runGradeResults(this.config);
+
+    const initialElo: EloRating[] = whrRatings([
+      ...judgmentsToGames(this.initialJudgments, sampleToModel, jw, jmw, gr),
+      ...this.pointwiseGames("initial", sampleToModel),
+      ...this.constraintGames(this.initialJudgments, sampleToModel),
+    ]);
+    const revisedElo: EloRating[] = whrRatings([
+      ...judgmentsToGames(this.revisedJudgments, revisedSampleToModel, jw, jmw, gr),
+      ...this.pointwiseGames("revised", revisedSampleToModel),
+      ...this.constraintGames(this.revisedJudgments, revisedSampleToModel),
+    ]);
     const feedbackElo: EloRating[] = whrRatings(
       improvementJudgmentsToGames(this.improvementJudgments, sampleToFeedbackModel, jw, jmw),
     );
 
+    // Revised ratings per round, each from judgments between that round's revisions
+    const revisionRounds = this.config.revisionRounds ?? 1;
+    const roundElo: EloSnapshot[] | undefined = revisionRounds > 1
+      ? Array.from({ length: revisionRounds }, (_, i) => {
+          if (i === 0) return { stage: "revised" as const, ratings: revisedElo };
+          const stage = revisionStage(i + 1);
+          const s2m = new Map(
+            this.laterRoundSamples.filter((s) => s.stage === stage).map((s) => [s.id, s.model]),
+          );
+          const judgments = this.laterRoundJudgments.filter((j) => j.stage === stage);
+          return {
+            stage,
+            ratings: whrRatings([
+              ...judgmentsToGames(judgments, s2m, jw, jmw, gr),
+              ...this.constraintGames(judgments, s2m),
+            ]),
+          };
+        })
+      : undefined;
+
     // Per-tag ELO (also via WHR for consistent CIs)
     const promptToTags = new Map(
       this.config.prompts.map((p) => [p.id, p.tags]),
@@ -1573,28 +2483,55 @@ export class BenchmarkRunner {
     const revisedByTag: Record<string, EloRating[]> = {};
 
     for (const tag of allTags) {
-      initialByTag[tag] = whrRatings(judgmentsToGames(
-        this.initialJudgments.filter((j) => promptToTags.get(j.promptId)?.includes(tag)),
-        sampleToModel, jw, jmw,
-      ));
-
-      revisedByTag[tag] = whrRatings(judgmentsToGames(
-        this.revisedJudgments.filter((j) => promptToTags.get(j.promptId)?.includes(tag)),
-        revisedSampleToModel, jw, jmw,
-      ));
+      const hasTag = (promptId: string) => promptToTags.get(promptId)?.includes(tag) ?? false;
+      const initialTagged = this.initialJudgments.filter((j) => hasTag(j.promptId));
+      initialByTag[tag] = whrRatings([
+        ...judgmentsToGames(initialTagged, sampleToModel, jw, jmw, gr),
+        ...this.pointwiseGames("initial", sampleToModel, hasTag),
+        ...this.constraintGames(initialTagged, sampleToModel),
+      ]);
+
+      const revisedTagged = this.revisedJudgments.filter((j) => hasTag(j.promptId));
+      revisedByTag[tag] = whrRatings([
+        ...judgmentsToGames(revisedTagged, revisedSampleToModel, jw, jmw, gr),
+        ...this.pointwiseGames("revised", revisedSampleToModel, hasTag),
+        ...this.constraintGames(revisedTagged, revisedSampleToModel),
+      ]);
     }
 
+    // Per-criterion ratings (only judgments with criterion verdicts contribute).
+    // Grades describe the overall preference, so criterion games ignore them.
+    const criterionRatings = (
+      judgments: PairwiseJudgment[],
+      s2m: Map<string, string>,
+    ): Record<string, EloRating[]> | undefined => {
+      const byCriterion = judgmentsByCriterion(judgments);
+      if (byCriterion.size === 0) return undefined;
+      return Object.fromEntries([...byCriterion].map(([criterion, js]) =>
+        [criterion, whrRatings(judgmentsToGames(js, s2m, jw, jmw))]));
+    };
+    const initialByCriterion = criterionRatings(this.initialJudgments, sampleToModel);
+    const revisedByCriterion = criterionRatings(this.revisedJudgments, revisedSampleToModel);
+
+    // Writing ratings with each judge's preference for longer outputs fitted out
+    const { ratings: lcRatings, lengthCoefficients } = computeLengthControlledWhr(judgmentsToLengthGames(
+      this.initialJudgments, sampleToModel, sampleWordCounts(this.initialSamples), jw, jmw, gr,
+    ));
+    const initialLengthControlled = this.initialJudgments.length > 0
+      ? { ratings: lcRatings, lengthCoefficients }
+      : undefined;
+
     this.endStage("computingElo");
-    const durationMs = Date.now() - startTime;
+    const durationMs = this.priorElapsedMs + (Date.now() - this.startTime);
 
     const result: RunResult = {
       config: this.config,
-      samples: [...this.initialSamples, ...this.revisedSamples].sort(
+      samples: [...this.initialSamples, ...this.revisedSamples, ...this.laterRoundSamples].sort(
         (a, b) =>
           a.promptId.localeCompare(b.promptId) ||
           a.model.localeCompare(b.model) ||
           a.outputIndex - b.outputIndex ||
-          (a.stage === "initial" ? 0 : 1) - (b.stage === "initial" ? 0 : 1),
+          revisionRound(a.stage) - revisionRound(b.stage),
       ),
       feedback: [...this.allFeedback].sort(
         (a, b) =>
@@ -1602,9 +2539,39 @@ export class BenchmarkRunner {
           a.sourceModel.localeCompare(b.sourceModel),
       ),
       judgments: this.allJudgments,
+      pointwise: this.config.pointwise
+        ? {
+            scores: this.pointwiseScores,
+            summary: summarizePointwise(
+              this.pointwiseScores,
+              new Map([...sampleToModel, ...revisedSampleToModel]),
+            ),
+          }
+        : undefined,
+      constraints: this.config.prompts.some((p) => p.constraints)
+        ? summarizeConstraints([...this.initialSamples, ...this.revisedSamples, ...this.laterRoundSamples])
+        : undefined,
+      gold: this.config.gold
+        ? calibrateAgainstGold(
+            this.config.gold,
+            [...this.initialSamples, ...this.revisedSamples],
+            this.allJudgments,
+            this.judgeModels.map((m) => m.label),
+          )
+        : undefined,
+      selfEditing: this.config.selfCritique
+        ? computeSelfEditing([...this.initialSamples, ...this.revisedSamples], this.allJudgments, feedbackElo)
+        : undefined,
       elo: {
-        initial: { stage: "initial", ratings: initialElo, byTag: initialByTag },
-        revised: { stage: "revised", ratings: revisedElo, feedbackRatings: feedbackElo, byTag: revisedByTag },
+        initial: {
+          stage: "initial", ratings: initialElo, byTag: initialByTag, byCriterion: initialByCriterion,
+          lengthControlled: initialLengthControlled,
+        },
+        revised: {
+          stage: "revised", ratings: revisedElo, feedbackRatings: feedbackElo,
+          byTag: revisedByTag, byCriterion: revisedByCriterion,
+        },
+        rounds: roundElo,
       },
       meta: {
         totalTokens: this.totalTokens,
@@ -1616,6 +2583,10 @@ export class BenchmarkRunner {
         speedByModel: this.computeSpeedByModel(),
         durationMs,
         errors: this.taskErrors.length > 0 ? [...this.taskErrors] : undefined,
+        stopReason: this.stopReason,
+        budget: this.config.budget,
+        budgetRemaining: this.config.budget != null
+          ? Math.max(0, this.config.budget - this.totalCost) : undefined,
       },
       modelInfo: this.modelInfoMap,
     };
@@ -1631,26 +2602,36 @@ export class BenchmarkRunner {
     prompt: PromptConfig,
     sampleA: WritingSample,
     sampleB: WritingSample,
-    stage: "initial" | "revised" | "improvement",
+    stage: JudgmentStage,
+    randomizeOrder = true,
   ): Promise<PairwiseJudgment> {
-    const { pair: orderedPair, swapped } = randomizePairOrder([sampleA, sampleB]);
+    const key = `${judgeCfg.label}:${stage}:${sampleA.id}:${sampleB.id}`;
+    const { pair: orderedPair, swapped } = randomizeOrder
+      ? randomizePairOrder([sampleA, sampleB], this.random(`swap:${key}`))
+      : { pair: [sampleA, sampleB] as [WritingSample, WritingSample], swapped: false };
 
     const modelInfo = this.modelInfoMap[judgeCfg.label] ?? null;
     const judgment = await judgePair(
       judgeCfg, prompt,
       orderedPair[0], orderedPair[1],
-      modelInfo, this.config.reasoning,
+      modelInfo, this.config.reasoning, this.limiter,
+      this.wantsCriterionVerdicts(prompt, stage),
+      !!this.config.gradedPreference,
+      this.random(`retry:judge:${key}`),
     );
 
     judgment.stage = stage;
 
     if (swapped) {
       judgment.winner = correctForSwap(judgment.winner, true);
+      judgment.criterionWinners = correctCriteriaForSwap(judgment.criterionWinners, true);
+      judgment.grade = correctGradeForSwap(judgment.grade, true);
       const tmpA = judgment.sampleA;
       judgment.sampleA = judgment.sampleB;
       judgment.sampleB = tmpA;
     }
     judgment.positionSwapped = swapped;
+    judgment.id = this.freshId(`judgment:${key}`, `${judgment.winner}\u0000${judgment.reasoning}`);
 
     this.totalTokens += judgment.usage.inputTokens + judgment.usage.outputTokens;
     this.trackCost(
@@ -1668,6 +2649,26 @@ export class BenchmarkRunner {
     return judgment;
   }
 
+  private async doScore(
+    judgeCfg: ModelConfig,
+    prompt: PromptConfig,
+    sample: WritingSample,
+  ): Promise<PointwiseScore> {
+    const modelInfo = this.modelInfoMap[judgeCfg.label] ?? null;
+    const score = await scoreSample(
+      judgeCfg, prompt, sample,
+      modelInfo, this.config.reasoning, this.limiter,
+      this.random(`retry:score:${judgeCfg.label}:${sample.id}`),
+    );
+    score.id = this.freshId(`score:${judgeCfg.label}:${sample.id}`, `${JSON.stringify(score.scores)}\u0000${score.reasoning}`);
+
+    this.totalTokens += score.usage.inputTokens + score.usage.outputTokens;
+    this.trackCost(judgeCfg.label, "scoring", score.cost);
+    this.trackSpeed(judgeCfg.label, "scoring", score.latencyMs, score.usage.outputTokens);
+
+    return score;
+  }
+
   private async generateSample(
     modelCfg: ModelConfig,
     prompt: PromptConfig,
@@ -1675,28 +2676,29 @@ export class BenchmarkRunner {
     stage: "initial" | "revised",
   ): Promise<WritingSample> {
     const startTime = Date.now();
-    const model = await resolveModel(apiModelId(modelCfg));
+    const apiSpec = apiModelId(modelCfg);
+    const model = await resolveModel(apiSpec, modelCfg.apiBase);
 
     const systemPrompt = `You are a skilled writer. Write the requested piece to the best of your ability. Focus on quality, depth, and craft.${
       prompt.maxWords ? ` Target length: approximately ${prompt.maxWords} words.` : ""
     }`;
 
     const modelInfo = this.modelInfoMap[modelCfg.label] ?? null;
-    const maxOutputTokens = resolveMaxOutputTokens(modelCfg.maxTokens, modelInfo);
+    const settings = callSettings(modelCfg, 0.7, modelInfo);
 
-    const { text, usage: rawUsage } = await withRetry(async () => {
+    const { text, usage: rawUsage } = await withRetry(() => this.limiter.run(apiSpec, async () => {
       const { text, result } = await safeStreamText((handler) => streamText({
         model,
         system: systemPrompt,
         prompt: prompt.prompt,
-        temperature: resolveTemperature(modelCfg.temperature, 0.7, modelInfo),
-        maxOutputTokens,
+        ...settings,
         maxRetries: 0,
         ...handler,
       }));
       if ((await result.finishReason) === "length") throw new OutputTruncatedError();
       return { text, usage: await result.usage };
-    });
+    }, (r) => usageTokens(r.usage)), undefined, undefined,
+    this.random(`retry:write:${modelCfg.label}:${prompt.id}:${outputIndex}:${stage}`));
 
     const latencyMs = Date.now() - startTime;
     const usage = extractUsage(rawUsage);
@@ -1707,7 +2709,7 @@ export class BenchmarkRunner {
     this.trackSpeed(modelCfg.label, stage, latencyMs, usage.outputTokens);
 
     return {
-      id: nanoid(),
+      id: this.freshId(`sample:${modelCfg.label}:${prompt.id}:${outputIndex}:${stage}`, text),
       model: modelCfg.label,
       promptId: prompt.id,
       outputIndex,
@@ -1725,7 +2727,8 @@ export class BenchmarkRunner {
     sample: WritingSample,
   ): Promise<Feedback> {
     const startTime = Date.now();
-    const model = await resolveModel(apiModelId(feedbackModelCfg));
+    const apiSpec = apiModelId(feedbackModelCfg);
+    const model = await resolveModel(apiSpec, feedbackModelCfg.apiBase);
 
     const criteria = prompt.judgingCriteria.map((c, i) => `${i + 1}. ${c}`).join("\n");
     const systemPrompt =
@@ -1745,21 +2748,21 @@ ${sample.text}
 Please provide your detailed feedback.`;
 
     const modelInfo = this.modelInfoMap[feedbackModelCfg.label] ?? null;
-    const maxOutputTokens = resolveMaxOutputTokens(feedbackModelCfg.maxTokens, modelInfo);
+    const settings = callSettings(feedbackModelCfg, 0.3, modelInfo);
 
-    const { text, usage: rawUsage } = await withRetry(async () => {
+    const { text, usage: rawUsage } = await withRetry(() => this.limiter.run(apiSpec, async () => {
       const { text, result } = await safeStreamText((handler) => streamText({
         model,
         system: systemPrompt,
         prompt: userPrompt,
-        temperature: resolveTemperature(feedbackModelCfg.temperature, 0.3, modelInfo),
-        maxOutputTokens,
+        ...settings,
         maxRetries: 0,
         ...handler,
       }));
       if ((await result.finishReason) === "length") throw new OutputTruncatedError();
       return { text, usage: await result.usage };
-    });
+    }, (r) => usageTokens(r.usage)), undefined, undefined,
+    this.random(`retry:feedback:${feedbackModelCfg.label}:${sample.id}`));
 
     const latencyMs = Date.now() - startTime;
     const usage = extractUsage(rawUsage);
@@ -1770,7 +2773,7 @@ Please provide your detailed feedback.`;
     this.trackSpeed(feedbackModelCfg.label, "feedback", latencyMs, usage.outputTokens);
 
     return {
-      id: nanoid(),
+      id: this.freshId(`feedback:${feedbackModelCfg.label}:${sample.id}`, text),
       sourceModel: feedbackModelCfg.label,
       targetSampleId: sample.id,
       text,
@@ -1785,22 +2788,34 @@ Please provide your detailed feedback.`;
     prompt: PromptConfig,
     original: WritingSample,
     feedback: Feedback,
+    round = 1,
   ): Promise<WritingSample> {
     const startTime = Date.now();
-    const model = await resolveModel(apiModelId(writerCfg));
+    const apiSpec = apiModelId(writerCfg);
+    const model = await resolveModel(apiSpec, writerCfg.apiBase);
 
-    const systemPrompt =
-      prompt.revisionPrompt ??
-      `You are a skilled writer revising your work. You will receive your original piece, along with expert feedback. Rewrite the piece incorporating the feedback to produce an improved version.${
-        prompt.maxWords ? ` Target length: approximately ${prompt.maxWords} words.` : ""
-      }
+    const targetLength = prompt.maxWords ? ` Target length: approximately ${prompt.maxWords} words.` : "";
+    const draft = `Original prompt: "${prompt.prompt.trim()}"
+
+--- ${round > 1 ? "Your previous draft" : "Your original writing"} ---
+${original.text}`;
+
+    // The self-revision control arm gets a generic instruction, no feedback
+    const self = feedback.sourceModel === SELF_FEEDBACK;
+    const systemPrompt = self
+      ? `You are a skilled writer revising your work. You will receive your original piece. Reread it critically and rewrite it to produce an improved version.${targetLength}
+
+Maintain your original voice and intent. Do not simply append changes -- produce a cohesive, polished revision.`
+      : prompt.revisionPrompt ??
+      `You are a skilled writer revising your work. You will receive your original piece, along with expert feedback. Rewrite the piece incorporating the feedback to produce an improved version.${targetLength}
 
 Maintain your original voice and intent while addressing the feedback. Do not simply append changes -- produce a cohesive, polished revision.`;
 
-    const userPrompt = `Original prompt: "${prompt.prompt.trim()}"
+    const userPrompt = self
+      ? `${draft}
 
---- Your original writing ---
-${original.text}
+${SELF_REVISION_INSTRUCTION}`
+      : `${draft}
 
 --- Expert feedback ---
 ${feedback.text}
@@ -1808,21 +2823,21 @@ ${feedback.text}
 Please write an improved version incorporating this feedback.`;
 
     const modelInfo = this.modelInfoMap[writerCfg.label] ?? null;
-    const maxOutputTokens = resolveMaxOutputTokens(writerCfg.maxTokens, modelInfo);
+    const settings = callSettings(writerCfg, 0.7, modelInfo);
 
-    const { text, usage: rawUsage } = await withRetry(async () => {
+    const { text, usage: rawUsage } = await withRetry(() => this.limiter.run(apiSpec, async () => {
       const { text, result } = await safeStreamText((handler) => streamText({
         model,
         system: systemPrompt,
         prompt: userPrompt,
-        temperature: resolveTemperature(writerCfg.temperature, 0.7, modelInfo),
-        maxOutputTokens,
+        ...settings,
         maxRetries: 0,
         ...handler,
       }));
       if ((await result.finishReason) === "length") throw new OutputTruncatedError();
       return { text, usage: await result.usage };
-    });
+    }, (r) => usageTokens(r.usage)), undefined, undefined,
+    this.random(`retry:revise:${writerCfg.label}:${original.id}:${feedback.id}`));
 
     const latencyMs = Date.now() - startTime;
     const usage = extractUsage(rawUsage);
@@ -1833,12 +2848,12 @@ Please write an improved version incorporating this feedback.`;
     this.trackSpeed(writerCfg.label, "revised", latencyMs, usage.outputTokens);
 
     return {
-      id: nanoid(),
+      id: this.freshId(`revision:${writerCfg.label}:${original.id}:${feedback.id}`, text),
       model: writerCfg.label,
       promptId: prompt.id,
       outputIndex: original.outputIndex,
       text,
-      stage: "revised",
+      stage: revisionStage(round),
       originalSampleId: original.id,
       feedbackUsed: feedback.id,
       feedbackModel: feedback.sourceModel,
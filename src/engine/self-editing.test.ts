@@ -0,0 +1,57 @@
+import { describe, it, expect } from "bun:test";
+import { computeSelfEditing } from "./self-editing.js";
+import type { EloRating, PairwiseJudgment, WritingSample } from "../types.js";
+
+const ZERO = { input: 0, output: 0, total: 0, totalUncached: 0 };
+
+function sample(id: string, model: string, feedbackModel?: string): WritingSample {
+  return {
+    id, model, promptId: "p1", outputIndex: 0, text: "", stage: feedbackModel ? "revised" : "initial",
+    feedbackModel, usage: { inputTokens: 0, outputTokens: 0 }, cost: ZERO, latencyMs: 0,
+  };
+}
+
+function improvement(original: string, revision: string, winner: "A" | "B" | "tie"): PairwiseJudgment {
+  return {
+    id: `${original}-${revision}`, judgeModel: "j1", promptId: "p1",
+    sampleA: original, sampleB: revision, winner, reasoning: "", stage: "improvement",
+    usage: { inputTokens: 0, outputTokens: 0 }, cost: ZERO, latencyMs: 0,
+  };
+}
+
+function rating(model: string, value: number): EloRating {
+  return { model, rating: value, wins: 0, losses: 0, ties: 0, matchCount: 0 };
+}
+
+describe("computeSelfEditing", () => {
+  const samples = [
+    sample("a0", "a"), sample("b0", "b"),
+    sample("aa1", "a", "a"), sample("aa2", "a", "a"), sample("ba", "b", "a"),
+    sample("bb", "b", "b"), sample("ab", "a", "b"),
+  ];
+
+  it("separates self-critiqued revisions from critiques of other writers", () => {
+    const result = computeSelfEditing(samples, [
+      improvement("a0", "aa1", "B"),
+      improvement("a0", "aa2", "tie"),
+      improvement("b0", "ba", "A"),
+      improvement("b0", "bb", "A"),
+      improvement("a0", "ab", "B"),
+    ], [rating("a", 1520)]);
+
+    expect(result.map((r) => r.model)).toEqual(["a", "b"]);
+    expect(result[0]).toMatchObject({
+      judged: 2, improved: 1, ties: 1, rate: 0.75, crossJudged: 1, crossRate: 0, feedbackRating: 1520,
+    });
+    expect(result[1]).toMatchObject({ judged: 1, rate: 0, crossJudged: 1, crossRate: 1 });
+    expect(result[1].feedbackRating).toBeUndefined();
+  });
+
+  it("ignores other stages and writers that never critiqued themselves", () => {
+    const result = computeSelfEditing(samples, [
+      { ...improvement("a0", "aa1", "B"), stage: "revised" },
+      improvement("b0", "ba", "B"),
+    ]);
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+import type { EloRating, PairwiseJudgment, SelfEditingRating, WritingSample } from "../types.js";
+
+type Tally = { judged: number; improved: number; ties: number };
+
+function rate(t: Tally): number {
+  return (t.improved + t.ties / 2) / t.judged;
+}
+
+/**
+ * Each writer's self-editing: how often a revision guided by its own
+ * feedback on its own sample beats the original (ties count half),
+ * beside the same rate for revisions of other writers' samples guided
+ * by its feedback and its feedback rating. Only improvement judgments
+ * count; their sampleA is the original and sampleB the revision.
+ * Writers that never critiqued themselves are left out, and the result
+ * is sorted by descending self-editing rate.
+ */
+export function computeSelfEditing(
+  samples: WritingSample[],
+  judgments: PairwiseJudgment[],
+  feedbackRatings: EloRating[] = [],
+): SelfEditingRating[] {
+  const byId = new Map(samples.map((s) => [s.id, s]));
+  const own = new Map<string, Tally>();
+  const cross = new Map<string, Tally>();
+
+  for (const j of judgments) {
+    if (j.stage !== "improvement") continue;
+    const revision = byId.get(j.sampleB);
+    if (!revision?.feedbackModel) continue;
+    const tallies = revision.feedbackModel === revision.model ? own : cross;
+    const t = tallies.get(revision.feedbackModel) ?? { judged: 0, improved: 0, ties: 0 };
+    t.judged++;
+    if (j.winner === "B") t.improved++;
+    else if (j.winner === "tie") t.ties++;
+    tallies.set(revision.feedbackModel, t);
+  }
+
+  const feedbackRating = new Map(feedbackRatings.map((r) => [r.model, r.rating]));
+  const result: SelfEditingRating[] = [];
+  for (const [model, t] of own) {
+    const c = cross.get(model);
+    result.push({
+      model,
+      judged: t.judged,
+      improved: t.improved,
+      ties: t.ties,
+      rate: rate(t),
+      crossJudged: c?.judged ?? 0,
+      crossRate: c ? rate(c) : null,
+      feedbackRating: feedbackRating.get(model),
+    });
+  }
+  return result.sort((a, b) => b.rate - a.rate || a.model.localeCompare(b.model));
+}
@@ -7,12 +7,19 @@ import {
   estimateRemainingJudgments,
   overlapFreeThreshold,
   judgmentsToGames,
+  judgmentsByCriterion,
   improvementJudgmentsToGames,
   gamesToRecords,
   mergeRecords,
+  mergeLengthGames,
+  runGradeResults,
+  computeLengthControlledWhr,
+  judgmentsToLengthGames,
+  countWords,
 } from "./whr.js";
 import type { WhrGame, WhrRating } from "./whr.js";
-import type { PairwiseJudgment, PairwiseRecord } from "../types.js";
+import type { LengthGame, PairwiseJudgment, PairwiseRecord } from "../types.js";
+import { DEFAULT_GRADE_RESULTS } from "../types.js";
 
 describe("computeWhr", () => {
   it("returns default ratings for empty game list", () => {
@@ -601,6 +608,39 @@ describe("tie handling", () => {
   });
 });
 
+describe("fractional results", () => {
+  it("rates a 0.75 result like half a win plus half a tie", () => {
+    const fractional: WhrGame[] = [];
+    const split: WhrGame[] = [];
+    for (let i = 0; i < 10; i++) {
+      fractional.push({ playerWhite: "modelA", playerBlack: "modelB", result: 0.75 });
+      split.push({ playerWhite: "modelA", playerBlack: "modelB", result: 1.0, weight: 0.5 });
+      split.push({ playerWhite: "modelA", playerBlack: "modelB", result: 0.5, weight: 0.5 });
+    }
+
+    const a = computeWhr(fractional).ratings.find((r) => r.model === "modelA")!;
+    const b = computeWhr(split).ratings.find((r) => r.model === "modelA")!;
+    expect(a.rating).toBe(b.rating);
+    expect(a.wins).toBe(5);
+    expect(a.ties).toBe(5);
+    expect(a.matchCount).toBeCloseTo(10, 10);
+  });
+
+  it("weak preferences move ratings less than outright wins", () => {
+    const weak: WhrGame[] = [];
+    const strong: WhrGame[] = [];
+    for (let i = 0; i < 10; i++) {
+      weak.push({ playerWhite: "modelA", playerBlack: "modelB", result: 0.25 });
+      strong.push({ playerWhite: "modelA", playerBlack: "modelB", result: 0.0 });
+    }
+
+    const weakB = computeWhr(weak).ratings.find((r) => r.model === "modelB")!;
+    const strongB = computeWhr(strong).ratings.find((r) => r.model === "modelB")!;
+    expect(weakB.rating).toBeGreaterThan(1500);
+    expect(strongB.rating).toBeGreaterThan(weakB.rating);
+  });
+});
+
 describe("judgmentsToGames", () => {
   it("converts judgments to games correctly", () => {
     const sampleToModel = new Map([
@@ -644,6 +684,38 @@ describe("judgmentsToGames", () => {
     const games = judgmentsToGames(judgments, sampleToModel);
     expect(games).toHaveLength(0);
   });
+
+  it("scores graded judgments by grade when grade results are given", () => {
+    const sampleToModel = new Map([
+      ["s1", "modelA"],
+      ["s2", "modelB"],
+    ]);
+    const judgments = [
+      { sampleA: "s1", sampleB: "s2", winner: "A" as const, grade: "A>B" as const },
+      { sampleA: "s1", sampleB: "s2", winner: "B" as const, grade: "B>>A" as const },
+      { sampleA: "s1", sampleB: "s2", winner: "A" as const },
+    ];
+
+    const graded = judgmentsToGames(judgments, sampleToModel, undefined, undefined, DEFAULT_GRADE_RESULTS);
+    expect(graded.map((g) => g.result)).toEqual([0.75, 0.0, 1.0]);
+
+    // Without grade results, grades are ignored
+    const plain = judgmentsToGames(judgments, sampleToModel);
+    expect(plain.map((g) => g.result)).toEqual([1.0, 0.0, 1.0]);
+  });
+});
+
+describe("runGradeResults", () => {
+  it("is undefined unless graded preference is on", () => {
+    expect(runGradeResults({})).toBeUndefined();
+    expect(runGradeResults({ gradeResults: DEFAULT_GRADE_RESULTS })).toBeUndefined();
+  });
+
+  it("falls back to the default grade results", () => {
+    expect(runGradeResults({ gradedPreference: true })).toBe(DEFAULT_GRADE_RESULTS);
+    const custom = { ...DEFAULT_GRADE_RESULTS, "A>B": 0.6, "B>A": 0.4 };
+    expect(runGradeResults({ gradedPreference: true, gradeResults: custom })).toBe(custom);
+  });
 });
 
 describe("improvementJudgmentsToGames", () => {
@@ -808,6 +880,14 @@ describe("gamesToRecords and mergeRecords", () => {
     expect(records[0].ties).toBe(1);
   });
 
+  it("gamesToRecords splits fractional results into partial wins and ties", () => {
+    const records = gamesToRecords([
+      { playerWhite: "b", playerBlack: "a", result: 0.75 },
+      { playerWhite: "a", playerBlack: "b", result: 0.75 },
+    ]);
+    expect(records).toEqual([{ modelA: "a", modelB: "b", winsA: 0.5, winsB: 0.5, ties: 1 }]);
+  });
+
   it("mergeRecords accumulates counts", () => {
     const existing = [
       { modelA: "modelA", modelB: "modelB", winsA: 2, winsB: 1, ties: 0 },
@@ -1072,3 +1152,139 @@ function makeWhrRating(
     matchCount,
   };
 }
+
+describe("judgmentsByCriterion", () => {
+  type Verdict = "A" | "B" | "tie";
+  type J = { id?: string; sampleA: string; sampleB: string; winner: Verdict; criterionWinners?: Record<string, Verdict> };
+
+  it("splits criterion winners into per-criterion judgment lists", () => {
+    const byCriterion = judgmentsByCriterion<J>([
+      { id: "j1", sampleA: "s1", sampleB: "s2", winner: "A", criterionWinners: { voice: "B", pacing: "A" } },
+      { id: "j2", sampleA: "s1", sampleB: "s2", winner: "tie", criterionWinners: { voice: "tie" } },
+    ]);
+    expect([...byCriterion.keys()]).toEqual(["voice", "pacing"]);
+    expect(byCriterion.get("voice")!.map((j) => [j.id, j.winner])).toEqual([["j1", "B"], ["j2", "tie"]]);
+    expect(byCriterion.get("pacing")!.map((j) => j.winner)).toEqual(["A"]);
+  });
+
+  it("skips judgments without criterion winners", () => {
+    const byCriterion = judgmentsByCriterion<J>([
+      { sampleA: "s1", sampleB: "s2", winner: "A" },
+    ]);
+    expect(byCriterion.size).toBe(0);
+  });
+
+  it("feeds judgmentsToGames with the criterion winner", () => {
+    const byCriterion = judgmentsByCriterion<J>([
+      { sampleA: "s1", sampleB: "s2", winner: "A", criterionWinners: { voice: "B" } },
+    ]);
+    const games = judgmentsToGames(byCriterion.get("voice")!, new Map([["s1", "a"], ["s2", "b"]]));
+    expect(games[0].result).toBe(0.0);
+  });
+});
+
+describe("computeLengthControlledWhr", () => {
+  function lengthGames(count: number, make: (i: number) => Omit<LengthGame, "judge">, judge = "j"): LengthGame[] {
+    return Array.from({ length: count }, (_, i) => ({ ...make(i), judge }));
+  }
+
+  it("matches computeWhr when there are no length gaps", () => {
+    const games = [
+      ...lengthGames(6, () => ({ playerWhite: "a", playerBlack: "b", result: 1, lengthDiff: 0 })),
+      ...lengthGames(2, () => ({ playerWhite: "b", playerBlack: "c", result: 0.5, lengthDiff: 0 })),
+      ...lengthGames(3, () => ({ playerWhite: "c", playerBlack: "a", result: 0.75, lengthDiff: 0 })),
+    ];
+    const lc = computeLengthControlledWhr(games);
+    const plain = computeWhr(games);
+    expect(lc.ratings).toEqual(plain.ratings);
+    expect(lc.lengthCoefficients).toEqual([{ judge: "j", eloPer100Words: 0, ci95: expect.any(Number), games: 11 }]);
+  });
+
+  it("attributes wins explained by length to the judge, not the model", () => {
+    // Within each pair, the longer sample always wins and lengths alternate
+    const games = lengthGames(40, (i) => ({
+      playerWhite: "a", playerBlack: "b", result: i % 4 === 3 ? 0 : 1,
+      lengthDiff: i % 4 === 3 ? -2 : 2,
+    }));
+    const plain = computeWhr(games).ratings;
+    const lc = computeLengthControlledWhr(games);
+    const gap = (ratings: WhrRating[]) =>
+      ratings.find((r) => r.model === "a")!.rating - ratings.find((r) => r.model === "b")!.rating;
+
+    expect(gap(lc.ratings)).toBeLessThan(gap(plain));
+    expect(lc.lengthCoefficients[0].eloPer100Words).toBeGreaterThan(0);
+  });
+
+  it("fits a coefficient per judge", () => {
+    const games = [
+      // j1 always prefers the longer sample; j2 ignores length
+      ...lengthGames(20, (i) => ({
+        playerWhite: "a", playerBlack: "b", result: i % 2 ? 1 : 0, lengthDiff: i % 2 ? 1.5 : -1.5,
+      }), "j1"),
+      ...lengthGames(20, (i) => ({
+        playerWhite: "a", playerBlack: "b", result: i % 2 ? 1 : 0, lengthDiff: i % 4 < 2 ? 1.5 : -1.5,
+      }), "j2"),
+    ];
+    const [j1, j2] = computeLengthControlledWhr(games).lengthCoefficients;
+    expect(j1.judge).toBe("j1");
+    expect(j1.eloPer100Words).toBeGreaterThan(100);
+    expect(Math.abs(j2.eloPer100Words)).toBeLessThan(j1.eloPer100Words / 4);
+    expect(j1.ci95).toBeGreaterThan(0);
+  });
+
+  it("returns no coefficients with fewer than two models", () => {
+    const lc = computeLengthControlledWhr([]);
+    expect(lc.ratings).toEqual([]);
+    expect(lc.lengthCoefficients).toEqual([]);
+  });
+});
+
+describe("mergeLengthGames", () => {
+  it("counts games per sorted pair, judge, result and 10-word gap", () => {
+    const merged = mergeLengthGames(
+      [{ playerWhite: "a", playerBlack: "b", result: 1, judge: "j", lengthDiff: 1.52, count: 3 }],
+      [
+        { playerWhite: "b", playerBlack: "a", result: 0, weight: 0.5, judge: "j", lengthDiff: -1.48 },
+        { playerWhite: "a", playerBlack: "b", result: 1, judge: "k", lengthDiff: 1.5 },
+        { playerWhite: "a", playerBlack: "b", result: 0.5, judge: "j", lengthDiff: 0.02 },
+      ],
+    );
+    expect(merged).toEqual([
+      { playerWhite: "a", playerBlack: "b", result: 1, judge: "j", lengthDiff: 1.5, count: 4 },
+      { playerWhite: "a", playerBlack: "b", result: 1, judge: "k", lengthDiff: 1.5, count: 1 },
+      { playerWhite: "a", playerBlack: "b", result: 0.5, judge: "j", lengthDiff: 0, count: 1 },
+    ]);
+  });
+
+  it("rates merged games like the games they count", () => {
+    const games: LengthGame[] = Array.from({ length: 12 }, (_, i) => ({
+      playerWhite: "a", playerBlack: "b", result: i % 3 ? 1 : 0, judge: "j", lengthDiff: i % 3 ? 1 : -1,
+    }));
+    const merged = mergeLengthGames([], games);
+    expect(merged).toHaveLength(2);
+    expect(computeLengthControlledWhr(merged)).toEqual(computeLengthControlledWhr(games));
+  });
+});
+
+describe("judgmentsToLengthGames", () => {
+  it("adds the judge and the word gap in hundreds", () => {
+    const games = judgmentsToLengthGames(
+      [
+        { sampleA: "s1", sampleB: "s2", winner: "A", judgeModel: "j" },
+        { sampleA: "s1", sampleB: "s3", winner: "B", judgeModel: "j" },
+      ],
+      new Map([["s1", "a"], ["s2", "b"], ["s3", "c"]]),
+      new Map([["s1", 450], ["s2", 300]]),
+    );
+    expect(games).toEqual([
+      { playerWhite: "a", playerBlack: "b", result: 1, weight: 1, judge: "j", lengthDiff: 1.5 },
+    ]);
+  });
+});
+
+describe("countWords", () => {
+  it("counts whitespace-separated words", () => {
+    expect(countWords("  one two\n\nthree\tfour ")).toBe(4);
+    expect(countWords("   ")).toBe(0);
+  });
+});
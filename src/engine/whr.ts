@@ -1,4 +1,13 @@
-import type { EloRating, PairwiseRecord } from "../types.js";
+import type {
+  EloRating,
+  GradeResults,
+  LengthCoefficient,
+  LengthGame,
+  PairwiseRecord,
+  PreferenceGrade,
+  RunConfig,
+} from "../types.js";
+import { DEFAULT_GRADE_RESULTS } from "../types.js";
 
 // ── Constants ───────────────────────────────────────
 
@@ -27,7 +36,8 @@ const PRIOR_PRECISION = 1 / PRIOR_VARIANCE;
 export interface WhrGame {
   playerWhite: string;
   playerBlack: string;
-  /** 1.0 = white wins, 0.0 = black wins, 0.5 = tie */
+  /** 1.0 = white wins, 0.0 = black wins, 0.5 = tie. Values in between
+   *  are partial wins (e.g. 0.75 for a weak white preference). */
   result: number;
   /** Weight of this game (default 1.0). Higher = more influential. */
   weight?: number;
@@ -122,20 +132,31 @@ function buildGameData(games: WhrGame[]): {
     if (wi === bi) continue; // skip self-comparisons
 
     const w = g.weight ?? 1.0;
-    if (g.result === 1.0) {
-      winsWhite[wi][bi] += w;
-    } else if (g.result === 0.0) {
-      winsWhite[bi][wi] += w;
-    } else {
+    const { win, tie } = splitResult(g.result);
+    if (win > 0) winsWhite[wi][bi] += w * win;
+    else if (win < 0) winsWhite[bi][wi] -= w * win;
+    if (tie > 0) {
       // Tie -- store symmetrically so both directions can be read
-      tieCount[wi][bi] += w;
-      tieCount[bi][wi] += w;
+      tieCount[wi][bi] += w * tie;
+      tieCount[bi][wi] += w * tie;
     }
   }
 
   return { models, winsWhite, tieCount };
 }
 
+/**
+ * Split a game result into a decisive part and a tie part that together
+ * make one game with the same expected score: 0.75 = half a white win
+ * plus half a tie. `win` is signed: positive for white, negative for black.
+ * 1.0, 0.5 and 0.0 map to a pure win, tie and loss.
+ */
+function splitResult(result: number): { win: number; tie: number } {
+  const r = Math.min(1, Math.max(0, result));
+  const win = 2 * r - 1;
+  return { win, tie: 1 - Math.abs(win) };
+}
+
 /**
  * Run Newton's method to find MAP Bradley-Terry strength parameters.
  *
@@ -201,26 +222,8 @@ function newtonBradleyTerry(
       negH[i][i] += PRIOR_PRECISION;
     }
 
-    // Solve (-H) * delta = gradient via Gaussian elimination
-    // This gives delta = (-H)^{-1} * gradient = -H^{-1} * gradient
     // Newton update for maximization: r_new = r - H^{-1} * gradient = r + delta ✓
-    const A = Array.from({ length: n }, (_, i) =>
-      Array.from({ length: n + 1 }, (_, j) =>
-        j < n ? negH[i][j] : gradient[i]
-      )
-    );
-
-    gaussianElimination(A, n);
-
-    // Back substitution
-    const delta = new Float64Array(n);
-    for (let i = n - 1; i >= 0; i--) {
-      let sum = A[i][n];
-      for (let j = i + 1; j < n; j++) {
-        sum -= A[i][j] * delta[j];
-      }
-      delta[i] = Math.abs(A[i][i]) > 1e-15 ? sum / A[i][i] : 0;
-    }
+    const delta = solveNewtonStep(negH, gradient, n);
 
     // Update ratings
     let maxDelta = 0;
@@ -264,6 +267,30 @@ function newtonBradleyTerry(
   return { ratings: Array.from(r), variances, converged, iterations: iter };
 }
 
+/**
+ * Solve (-H) * delta = gradient via Gaussian elimination and back
+ * substitution. This gives delta = (-H)^{-1} * gradient, the Newton step.
+ */
+function solveNewtonStep(negH: Float64Array[], gradient: Float64Array, n: number): Float64Array {
+  const A = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n + 1 }, (_, j) =>
+      j < n ? negH[i][j] : gradient[i]
+    )
+  );
+
+  gaussianElimination(A, n);
+
+  const delta = new Float64Array(n);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = A[i][n];
+    for (let j = i + 1; j < n; j++) {
+      sum -= A[i][j] * delta[j];
+    }
+    delta[i] = Math.abs(A[i][i]) > 1e-15 ? sum / A[i][i] : 0;
+  }
+  return delta;
+}
+
 /**
  * Gaussian elimination with partial pivoting (in-place).
  * A is an n × (n+1) augmented matrix.
@@ -311,23 +338,27 @@ function gaussianElimination(A: number[][], n: number): void {
  *
  * Formula: Var(r̃_i) = Σ_ii - (2/n)·rowSum_i + (1/n²)·totalSum
  * where Σ = P⁻¹ is the full posterior covariance.
+ *
+ * When M has `size` > n rows, the parameters past the first n (e.g.
+ * length coefficients) are not ratings: they have no gauge symmetry and
+ * get their raw variance Σ_ii.
  */
-function centeredVariances(M: Float64Array[], n: number): number[] {
-  if (n === 0) return [];
-  if (n === 1) return [Math.abs(M[0][0]) > 1e-15 ? 1 / M[0][0] : Infinity];
+function centeredVariances(M: Float64Array[], n: number, size = n): number[] {
+  if (size === 0) return [];
+  if (size === 1) return [Math.abs(M[0][0]) > 1e-15 ? 1 / M[0][0] : Infinity];
 
   // Build [M | I] augmented matrix for full inversion
-  const A = Array.from({ length: n }, (_, i) =>
-    Array.from({ length: 2 * n }, (_, j) =>
-      j < n ? M[i][j] : (i === j - n ? 1 : 0)
+  const A = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: 2 * size }, (_, j) =>
+      j < size ? M[i][j] : (i === j - size ? 1 : 0)
     )
   );
 
   // Gauss-Jordan elimination with partial pivoting
-  for (let col = 0; col < n; col++) {
+  for (let col = 0; col < size; col++) {
     let maxVal = Math.abs(A[col][col]);
     let maxRow = col;
-    for (let row = col + 1; row < n; row++) {
+    for (let row = col + 1; row < size; row++) {
       if (Math.abs(A[row][col]) > maxVal) {
         maxVal = Math.abs(A[row][col]);
         maxRow = row;
@@ -341,27 +372,27 @@ function centeredVariances(M: Float64Array[], n: number): number[] {
     if (Math.abs(pivot) < 1e-15) continue;
 
     // Scale row
-    for (let k = 0; k < 2 * n; k++) {
+    for (let k = 0; k < 2 * size; k++) {
       A[col][k] /= pivot;
     }
 
     // Eliminate column in ALL other rows (Gauss-Jordan)
-    for (let row = 0; row < n; row++) {
+    for (let row = 0; row < size; row++) {
       if (row === col) continue;
       const factor = A[row][col];
-      for (let k = 0; k < 2 * n; k++) {
+      for (let k = 0; k < 2 * size; k++) {
         A[row][k] -= factor * A[col][k];
       }
     }
   }
 
-  // Compute row sums and total sum of covariance matrix Σ for centering
+  // Compute row sums and total sum of the ratings block of Σ for centering
   const rowSums = new Array<number>(n);
   let totalSum = 0;
   for (let i = 0; i < n; i++) {
     let rs = 0;
     for (let j = 0; j < n; j++) {
-      rs += A[i][n + j];
+      rs += A[i][size + j];
     }
     rowSums[i] = rs;
     totalSum += rs;
@@ -369,11 +400,14 @@ function centeredVariances(M: Float64Array[], n: number): number[] {
   const meanOfSigma = totalSum / (n * n);
 
   // Centered variance: Σ_ii - (2/n)·rowSum_i + meanOfSigma
-  const result = new Array<number>(n);
+  const result = new Array<number>(size);
   for (let i = 0; i < n; i++) {
-    const centered = A[i][n + i] - 2 * rowSums[i] / n + meanOfSigma;
+    const centered = A[i][size + i] - 2 * rowSums[i] / n + meanOfSigma;
     result[i] = Math.max(centered, 0); // floor at 0 for numerical safety
   }
+  for (let i = n; i < size; i++) {
+    result[i] = Math.max(A[i][size + i], 0);
+  }
   return result;
 }
 
@@ -397,7 +431,25 @@ function computeWhrFromGameData(
     models, winsWhite, tieCount,
   );
 
-  // Build WhrRating[] from results
+  return {
+    ratings: buildWhrRatings(models, winsWhite, tieCount, r, variances),
+    converged,
+    iterations,
+  };
+}
+
+/**
+ * Turn fitted strengths and centered variances into WhrRating[] with
+ * W/L/T counts, sorted by descending rating.
+ */
+function buildWhrRatings(
+  models: string[],
+  winsWhite: number[][],
+  tieCount: number[][],
+  r: ArrayLike<number>,
+  variances: number[],
+): WhrRating[] {
+  const n = models.length;
   const result: WhrRating[] = [];
   for (let idx = 0; idx < n; idx++) {
     const model = models[idx];
@@ -441,11 +493,7 @@ function computeWhrFromGameData(
     });
   }
 
-  return {
-    ratings: result.sort((a, b) => b.rating - a.rating),
-    converged,
-    iterations,
-  };
+  return result.sort((a, b) => b.rating - a.rating);
 }
 
 /**
@@ -649,33 +697,92 @@ export function estimateRemainingJudgments(
  * When `judgmentWeights` is provided, per-judgment weights take precedence
  * over per-judge weights from `judgeWeights`. This allows bias corrections
  * to be composed with judge quality weights at the per-judgment level.
+ *
+ * When `gradeResults` is provided, graded judgments score by their
+ * preference grade instead of their winner; ungraded ones are unchanged.
  */
 export function judgmentsToGames(
-  judgments: Array<{ id?: string; sampleA: string; sampleB: string; winner: "A" | "B" | "tie"; judgeModel?: string }>,
+  judgments: GameJudgment[],
   sampleToModel: Map<string, string>,
   judgeWeights?: Map<string, number>,
   judgmentWeights?: Map<string, number>,
+  gradeResults?: GradeResults,
 ): WhrGame[] {
   const games: WhrGame[] = [];
   for (const j of judgments) {
-    const modelA = sampleToModel.get(j.sampleA);
-    const modelB = sampleToModel.get(j.sampleB);
-    if (!modelA || !modelB || modelA === modelB) continue;
-
-    const weight = (j.id && judgmentWeights?.has(j.id))
-      ? judgmentWeights.get(j.id)!
-      : (j.judgeModel ? judgeWeights?.get(j.judgeModel) ?? 1.0 : 1.0);
-
-    games.push({
-      playerWhite: modelA,
-      playerBlack: modelB,
-      result: j.winner === "A" ? 1.0 : j.winner === "B" ? 0.0 : 0.5,
-      weight,
-    });
+    const game = judgmentToGame(j, sampleToModel, judgeWeights, judgmentWeights, gradeResults);
+    if (game) games.push(game);
   }
   return games;
 }
 
+/** The judgment fields game conversion reads. */
+type GameJudgment = {
+  id?: string;
+  sampleA: string;
+  sampleB: string;
+  winner: "A" | "B" | "tie";
+  judgeModel?: string;
+  grade?: PreferenceGrade;
+};
+
+/** One judgment as a game, or null for unknown or same-model samples. */
+function judgmentToGame(
+  j: GameJudgment,
+  sampleToModel: Map<string, string>,
+  judgeWeights?: Map<string, number>,
+  judgmentWeights?: Map<string, number>,
+  gradeResults?: GradeResults,
+): WhrGame | null {
+  const modelA = sampleToModel.get(j.sampleA);
+  const modelB = sampleToModel.get(j.sampleB);
+  if (!modelA || !modelB || modelA === modelB) return null;
+
+  const weight = (j.id && judgmentWeights?.has(j.id))
+    ? judgmentWeights.get(j.id)!
+    : (j.judgeModel ? judgeWeights?.get(j.judgeModel) ?? 1.0 : 1.0);
+
+  return {
+    playerWhite: modelA,
+    playerBlack: modelB,
+    result: gradeResults && j.grade
+      ? gradeResults[j.grade]
+      : j.winner === "A" ? 1.0 : j.winner === "B" ? 0.0 : 0.5,
+    weight,
+  };
+}
+
+/**
+ * Grade results a run's judgments should be scored with: the configured
+ * (or default) mapping for --graded-preference runs, otherwise undefined.
+ */
+export function runGradeResults(
+  config: Pick<RunConfig, "gradedPreference" | "gradeResults">,
+): GradeResults | undefined {
+  return config.gradedPreference ? config.gradeResults ?? DEFAULT_GRADE_RESULTS : undefined;
+}
+
+/**
+ * Split judgments with per-criterion winners into one judgment list per
+ * criterion, each carrying that criterion's winner in place of the
+ * overall one. IDs are kept so per-judgment weights still apply.
+ * Judgments without criterion winners are skipped.
+ */
+export function judgmentsByCriterion<
+  J extends { winner: "A" | "B" | "tie"; criterionWinners?: Record<string, "A" | "B" | "tie"> },
+>(judgments: J[]): Map<string, J[]> {
+  const byCriterion = new Map<string, J[]>();
+  for (const j of judgments) {
+    if (!j.criterionWinners) continue;
+    for (const [criterion, winner] of Object.entries(j.criterionWinners)) {
+      const list = byCriterion.get(criterion) ?? [];
+      list.push({ ...j, winner });
+      byCriterion.set(criterion, list);
+    }
+  }
+  return byCriterion;
+}
+
 /**
  * Convert improvement judgments into WhrGame format using the
  * grouped-pairing logic. Groups by (promptId, judgeModel, sampleA)
@@ -752,6 +859,171 @@ export function improvementJudgmentsToGames(
   return games;
 }
 
+// ── Length-controlled Ratings ───────────────────────
+
+/**
+ * Prior precision on each judge's length coefficient (natural-log scale,
+ * per 100 words). σ = 1 is weak: a judge needs consistent evidence before
+ * its coefficient moves far from 0.
+ */
+const LENGTH_PRIOR_PRECISION = 1;
+
+/** Result of a length-controlled WHR computation. */
+export interface LengthControlledResult {
+  ratings: WhrRating[];
+  lengthCoefficients: LengthCoefficient[];
+  converged: boolean;
+  iterations: number;
+}
+
+/** Number of whitespace-separated words in `text`. */
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+/** Word count per sample ID. */
+export function sampleWordCounts(samples: Array<{ id: string; text: string }>): Map<string, number> {
+  return new Map(samples.map((s) => [s.id, countWords(s.text)]));
+}
+
+/**
+ * Like judgmentsToGames, but each game also carries its judge and the
+ * word-count gap between the samples. Judgments whose samples have no
+ * word count (or no judge) are skipped.
+ */
+export function judgmentsToLengthGames(
+  judgments: Array<GameJudgment & { judgeModel: string }>,
+  sampleToModel: Map<string, string>,
+  sampleWords: Map<string, number>,
+  judgeWeights?: Map<string, number>,
+  judgmentWeights?: Map<string, number>,
+  gradeResults?: GradeResults,
+): LengthGame[] {
+  const games: LengthGame[] = [];
+  for (const j of judgments) {
+    const wordsA = sampleWords.get(j.sampleA);
+    const wordsB = sampleWords.get(j.sampleB);
+    if (wordsA == null || wordsB == null) continue;
+    const game = judgmentToGame(j, sampleToModel, judgeWeights, judgmentWeights, gradeResults);
+    if (game) games.push({ ...game, judge: j.judgeModel, lengthDiff: (wordsA - wordsB) / 100 });
+  }
+  return games;
+}
+
+/**
+ * Gradient and negative Hessian of the length-controlled log-posterior.
+ * Parameters are the n model strengths followed by one length
+ * coefficient per judge; P(white wins) = σ(r_w - r_b + β_judge · Δwords).
+ */
+function lengthPosterior(
+  theta: Float64Array,
+  n: number,
+  games: Array<{ white: number; black: number; judge: number; x: number; weight: number; result: number }>,
+): { gradient: Float64Array; negH: Float64Array[] } {
+  const size = theta.length;
+  const gradient = new Float64Array(size);
+  const negH = Array.from({ length: size }, () => new Float64Array(size));
+
+  for (const g of games) {
+    const p = sigmoid(theta[g.white] - theta[g.black] + theta[g.judge] * g.x);
+    const residual = g.weight * (g.result - p);
+    const info = g.weight * p * (1 - p);
+    // Feature vector: +1 for white, -1 for black, Δwords for the judge
+    const features: Array<[number, number]> = [[g.white, 1], [g.black, -1], [g.judge, g.x]];
+    for (const [a, fa] of features) {
+      gradient[a] += residual * fa;
+      for (const [b, fb] of features) negH[a][b] += info * fa * fb;
+    }
+  }
+
+  for (let i = 0; i < size; i++) {
+    const precision = i < n ? PRIOR_PRECISION : LENGTH_PRIOR_PRECISION;
+    gradient[i] -= precision * theta[i];
+    negH[i][i] += precision;
+  }
+  return { gradient, negH };
+}
+
+/**
+ * Compute WHR ratings with a word-count covariate: a Bradley-Terry model
+ * where each judge has its own coefficient for how much an extra 100
+ * words sways it. Model ratings are the strengths with that length effect
+ * removed; the coefficients are reported in Elo points per 100 words.
+ *
+ * Uses the same Newton solver, prior and centered CIs as computeWhr. With
+ * no length gaps the result matches computeWhr.
+ */
+export function computeLengthControlledWhr(lengthGames: LengthGame[]): LengthControlledResult {
+  const games = lengthGames.map((g) => g.count == null ? g : { ...g, weight: (g.weight ?? 1.0) * g.count });
+  const { models, winsWhite, tieCount } = buildGameData(games);
+  const n = models.length;
+  if (n < 2) {
+    return { ...computeWhrFromGameData(models, winsWhite, tieCount), lengthCoefficients: [] };
+  }
+
+  const judges = [...new Set(games.map((g) => g.judge))].sort();
+  const modelIndex = new Map(models.map((m, i) => [m, i]));
+  const judgeIndex = new Map(judges.map((j, i) => [j, n + i]));
+  const judgeGames = new Map<string, number>();
+
+  const indexed = [];
+  for (const g of games) {
+    const white = modelIndex.get(g.playerWhite)!;
+    const black = modelIndex.get(g.playerBlack)!;
+    if (white === black) continue;
+    indexed.push({
+      white,
+      black,
+      judge: judgeIndex.get(g.judge)!,
+      x: g.lengthDiff,
+      weight: g.weight ?? 1.0,
+      result: Math.min(1, Math.max(0, g.result)),
+    });
+    judgeGames.set(g.judge, (judgeGames.get(g.judge) ?? 0) + (g.count ?? 1));
+  }
+
+  const size = n + judges.length;
+  const theta = new Float64Array(size);
+  let converged = false;
+  let iter = 0;
+
+  for (iter = 0; iter < WHR_MAX_ITER; iter++) {
+    const { gradient, negH } = lengthPosterior(theta, n, indexed);
+    const delta = solveNewtonStep(negH, gradient, size);
+
+    let maxDelta = 0;
+    for (let i = 0; i < size; i++) {
+      theta[i] += delta[i];
+      maxDelta = Math.max(maxDelta, Math.abs(delta[i]));
+    }
+    if (maxDelta < WHR_TOLERANCE) {
+      converged = true;
+      iter++;
+      break;
+    }
+  }
+
+  // Center strengths; coefficients multiply word gaps, so they are unaffected
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += theta[i];
+  for (let i = 0; i < n; i++) theta[i] -= sum / n;
+
+  const variances = centeredVariances(lengthPosterior(theta, n, indexed).negH, n, size);
+
+  return {
+    ratings: buildWhrRatings(models, winsWhite, tieCount, theta.subarray(0, n), variances),
+    lengthCoefficients: judges.map((judge, k) => ({
+      judge,
+      eloPer100Words: Math.round(theta[n + k] * LOG10E_TIMES_400),
+      ci95: Math.round(1.96 * Math.sqrt(variances[n + k]) * LOG10E_TIMES_400),
+      games: judgeGames.get(judge) ?? 0,
+    })),
+    converged,
+    iterations: iter,
+  };
+}
+
 // ── Pairwise Record Helpers ─────────────────────────
 
 /** Canonical key for a model pair (sorted so order doesn't matter). */
@@ -762,6 +1034,7 @@ function pairKey(a: string, b: string): [string, string, string] {
 /**
  * Convert WhrGames into aggregated PairwiseRecords.
  * Each unique model pair gets one record with accumulated win/tie counts.
+ * Fractional results add partial wins and ties (see splitResult).
  */
 export function gamesToRecords(games: WhrGame[]): PairwiseRecord[] {
   const map = new Map<string, PairwiseRecord>();
@@ -775,13 +1048,11 @@ export function gamesToRecords(games: WhrGame[]): PairwiseRecord[] {
       map.set(key, rec);
     }
 
-    if (g.result === 0.5) {
-      rec.ties++;
-    } else if ((g.result === 1.0 && !flipped) || (g.result === 0.0 && flipped)) {
-      rec.winsA++;
-    } else {
-      rec.winsB++;
-    }
+    const { win, tie } = splitResult(g.result);
+    const winA = flipped ? -win : win;
+    if (winA > 0) rec.winsA += winA;
+    else if (winA < 0) rec.winsB -= winA;
+    rec.ties += tie;
   }
   return Array.from(map.values());
 }
@@ -816,3 +1087,27 @@ export function mergeRecords(
   return Array.from(map.values());
 }
 
+/**
+ * Merge new LengthGames into existing ones, keyed by sorted player
+ * pair, judge, result and word gap rounded to the nearest 10 words.
+ * Each entry's `count` is the number of games it stands for, so the
+ * list stays bounded as runs accumulate. Game weights are dropped.
+ */
+export function mergeLengthGames(
+  existing: LengthGame[],
+  incoming: LengthGame[],
+): LengthGame[] {
+  const map = new Map<string, LengthGame>();
+  for (const g of [...existing, ...incoming]) {
+    const [white, black, pair] = pairKey(g.playerWhite, g.playerBlack);
+    const flipped = white !== g.playerWhite;
+    const result = flipped ? 1 - g.result : g.result;
+    const lengthDiff = Math.round((flipped ? -g.lengthDiff : g.lengthDiff) * 10) / 10 || 0;
+    const key = `${pair}:${g.judge}:${result}:${lengthDiff}`;
+    const prev = map.get(key);
+    if (prev) prev.count! += g.count ?? 1;
+    else map.set(key, { playerWhite: white, playerBlack: black, result, judge: g.judge, lengthDiff, count: g.count ?? 1 });
+  }
+  return Array.from(map.values());
+}
+
@@ -1,13 +1,27 @@
 import { writeFile, mkdir } from "fs/promises";
 import { join } from "path";
-import type { RunResult, TokenUsage, ModelInfo, EloRating, JudgeQualityExport, PairwiseJudgment } from "../types.js";
+import type { RunResult, TokenUsage, ModelInfo, EloRating, JudgeQualityExport, PairwiseJudgment, PreferenceGrade, GradeResults, LengthCoefficient, ConstraintResult, StageAgreement, SampleStage, JudgmentStage } from "../types.js";
 import { DEFAULT_CONVERGENCE } from "../types.js";
 import { listRuns, loadRun } from "../storage/run-store.js";
 import { loadCumulativeElo } from "../storage/elo-store.js";
 import { computeJudgeQuality } from "../engine/judge-quality.js";
 import type { JudgeQualityData } from "../engine/judge-quality.js";
-import { computeJudgeBias } from "../engine/judge-bias.js";
-import { judgmentsToGames, improvementJudgmentsToGames, whrRatings } from "../engine/whr.js";
+import {
+  computeJudgeBias,
+  kinRelation,
+  sampleStyle,
+  type KinRelation,
+  type SampleStyle,
+} from "../engine/judge-bias.js";
+import { computeJudgeAgreement } from "../engine/judge-agreement.js";
+import {
+  judgmentsToGames,
+  improvementJudgmentsToGames,
+  whrRatings,
+  runGradeResults,
+  computeLengthControlledWhr,
+  judgmentsToLengthGames,
+} from "../engine/whr.js";
 
 // ── Per-model per-stage aggregation ───────────────────
 
@@ -82,6 +96,8 @@ function sumValues(
 interface AlternativeRatingsExport {
   equalWeight: { initial: EloRating[]; revised: EloRating[]; feedback: EloRating[] };
   noBiasCorrection: { initial: EloRating[]; revised: EloRating[]; feedback: EloRating[] };
+  /** Writing ratings with judges' length preferences fitted out (quality weights, no bias correction). */
+  lengthControlled?: { initial: EloRating[]; lengthCoefficients: LengthCoefficient[] };
 }
 
 // ── Judge Quality + Alternative Ratings ──────────────
@@ -116,12 +132,15 @@ function buildSampleMaps(samples: RunResult["samples"]): {
  * Compute judge quality data for a set of judgments.
  * Returns serialized JudgeQualityExport entries ready for JSON.
  * Accepts optional pre-computed quality to avoid redundant computation.
+ * `style` adds length and formatting bias, `isKin` kin-preference bias.
  */
 function computeJudgeQualityForExport(
   judgments: PairwiseJudgment[],
   sampleToModel: Map<string, string>,
   pruneThreshold: number,
   precomputedQuality?: JudgeQualityData,
+  style?: SampleStyle,
+  isKin?: KinRelation,
 ): JudgeQualityExport[] {
   const judgeLabels = [...new Set(judgments.map((j) => j.judgeModel))];
   if (judgeLabels.length < 2) return [];
@@ -132,12 +151,15 @@ function computeJudgeQualityForExport(
   if (!quality.active || quality.ratings.length === 0) return [];
 
   // Compute bias stats (caller passes combined initial + revised sampleToModel)
-  const biasData = computeJudgeBias(judgments, sampleToModel, judgeLabels);
+  const biasData = computeJudgeBias(judgments, sampleToModel, judgeLabels, style, isKin);
 
   return quality.ratings.map((r) => {
     const weight = quality.weights.get(r.model) ?? 1.0;
     const selfPref = biasData.selfPreference.get(r.model);
+    const kinPref = biasData.kinPreference.get(r.model);
     const posBias = biasData.positionBias.get(r.model);
+    const lenBias = biasData.lengthBias.get(r.model);
+    const fmtBias = biasData.formattingBias.get(r.model);
 
     return {
       model: r.model,
@@ -150,7 +172,13 @@ function computeJudgeQualityForExport(
       selfBias: selfPref?.sufficient ? selfPref.biasDelta : null,
       positionBias: posBias?.sufficient ? posBias.positionBiasDelta : null,
       selfBiasSufficient: selfPref?.sufficient ?? false,
+      kinBias: kinPref?.sufficient ? kinPref.biasDelta : null,
+      kinBiasSufficient: kinPref?.sufficient ?? false,
       positionBiasSufficient: posBias?.sufficient ?? false,
+      lengthBias: lenBias?.sufficient ? lenBias.biasDelta : null,
+      formattingBias: fmtBias?.sufficient ? fmtBias.biasDelta : null,
+      lengthBiasSufficient: lenBias?.sufficient ?? false,
+      formattingBiasSufficient: fmtBias?.sufficient ?? false,
       status: weight < pruneThreshold ? "pruned" as const : "active" as const,
     };
   });
@@ -159,7 +187,9 @@ function computeJudgeQualityForExport(
 /**
  * Compute alternative rating sets (equal weight, no bias correction)
  * for a run's judgments. Returns undefined if there are too few judgments
- * or too few judges to produce meaningful alternatives.
+ * or too few judges to produce meaningful alternatives. `gradeResults`
+ * scores graded judgments the way the run did. `sampleWords` (sample ID
+ * to word count) enables the length-controlled set.
  */
 function computeAlternativeRatings(
   judgments: PairwiseJudgment[],
@@ -167,6 +197,8 @@ function computeAlternativeRatings(
   revisedSampleToModel: Map<string, string>,
   sampleToFeedbackModel: Map<string, string>,
   precomputedJw?: Map<string, number>,
+  gradeResults?: GradeResults,
+  sampleWords?: Map<string, number>,
 ): AlternativeRatingsExport | undefined {
   const judgeLabels = [...new Set(judgments.map((j) => j.judgeModel))];
   if (judgeLabels.length < 2) return undefined;
@@ -186,19 +218,28 @@ function computeAlternativeRatings(
 
   // Equal weight: no judge weights, no bias corrections (all games weight 1.0)
   const equalWeight = {
-    initial: whrRatings(judgmentsToGames(initialJudgments, sampleToModel)),
-    revised: whrRatings(judgmentsToGames(revisedJudgments, revisedSampleToModel)),
+    initial: whrRatings(judgmentsToGames(initialJudgments, sampleToModel, undefined, undefined, gradeResults)),
+    revised: whrRatings(judgmentsToGames(revisedJudgments, revisedSampleToModel, undefined, undefined, gradeResults)),
     feedback: whrRatings(improvementJudgmentsToGames(improvementJudgments, sampleToFeedbackModel)),
   };
 
   // No bias correction: use judge quality weights but skip per-judgment bias corrections
   const noBiasCorrection = {
-    initial: whrRatings(judgmentsToGames(initialJudgments, sampleToModel, jw)),
-    revised: whrRatings(judgmentsToGames(revisedJudgments, revisedSampleToModel, jw)),
+    initial: whrRatings(judgmentsToGames(initialJudgments, sampleToModel, jw, undefined, gradeResults)),
+    revised: whrRatings(judgmentsToGames(revisedJudgments, revisedSampleToModel, jw, undefined, gradeResults)),
     feedback: whrRatings(improvementJudgmentsToGames(improvementJudgments, sampleToFeedbackModel, jw)),
   };
 
-  return { equalWeight, noBiasCorrection };
+  // Length-controlled: quality weights, plus a per-judge word-count covariate
+  let lengthControlled: AlternativeRatingsExport["lengthControlled"];
+  if (sampleWords && initialJudgments.length > 0) {
+    const lc = computeLengthControlledWhr(
+      judgmentsToLengthGames(initialJudgments, sampleToModel, sampleWords, jw, undefined, gradeResults),
+    );
+    lengthControlled = { initial: lc.ratings, lengthCoefficients: lc.lengthCoefficients };
+  }
+
+  return { equalWeight, noBiasCorrection, lengthControlled };
 }
 
 // ── Gzip helper ──────────────────────────────────────
@@ -256,6 +297,7 @@ interface RunsIndex {
     ratings: Record<string, number>;
   }>;
   cumulativeJudgeQuality?: JudgeQualityExport[];
+  cumulativeJudgeAgreement?: StageAgreement[];
   cumulativeAlternativeRatings?: AlternativeRatingsExport;
 }
 
@@ -266,11 +308,12 @@ interface SampleMeta {
   model: string;
   promptId: string;
   outputIndex: number;
-  stage: "initial" | "revised";
+  stage: SampleStage;
   originalSampleId?: string;
   feedbackUsed?: string;
   feedbackModel?: string;
   fromCache?: boolean;
+  constraints?: ConstraintResult;
 }
 
 interface FeedbackMeta {
@@ -286,8 +329,12 @@ interface JudgmentMeta {
   sampleA: string;
   sampleB: string;
   winner: "A" | "B" | "tie";
-  stage: "initial" | "revised" | "improvement";
+  stage: JudgmentStage;
   positionSwapped?: boolean;
+  criterionWinners?: Record<string, "A" | "B" | "tie">;
+  grade?: PreferenceGrade;
+  orderWinners?: ["A" | "B" | "tie", "A" | "B" | "tie"];
+  constraintLoss?: boolean;
 }
 
 // ── Export ─────────────────────────────────────────────
@@ -317,6 +364,9 @@ export async function exportForWeb(outDir: string): Promise<number> {
   const allSampleToModel = new Map<string, string>();
   const allRevisedSampleToModel = new Map<string, string>();
   const allSampleToFeedbackModel = new Map<string, string>();
+  const allSampleWords = new Map<string, number>();
+  const allSampleMarkdown = new Map<string, number>();
+  const kinRelations: KinRelation[] = [];
   const promptToTags = new Map<string, string[]>();
 
   for (const id of runIds) {
@@ -380,13 +430,22 @@ export async function exportForWeb(outDir: string): Promise<number> {
       : null;
     const perRunJw = perRunQuality?.active ? perRunQuality.weights : undefined;
 
+    const style = sampleStyle(run.samples);
+    const isKin = kinRelation(
+      [...run.config.models, ...(run.config.judges ?? [])], run.modelInfo ?? {},
+      run.config.kinMode ?? "none", run.config.kinGroups,
+    );
     const judgeQuality = computeJudgeQualityForExport(
       run.judgments, combinedSampleToModel, DEFAULT_CONVERGENCE.judgePruneThreshold,
-      perRunQuality ?? undefined,
+      perRunQuality ?? undefined, style, isKin,
     );
 
+    const judgeAgreement = computeJudgeAgreement(run.judgments);
+
+    const sampleWords = style.words;
     const alternativeRatings = computeAlternativeRatings(
       run.judgments, sampleToModel, revisedSampleToModel, sampleToFeedbackModel, perRunJw,
+      runGradeResults(run.config), sampleWords,
     );
 
     // Accumulate for cumulative computations
@@ -394,6 +453,9 @@ export async function exportForWeb(outDir: string): Promise<number> {
     for (const [k, v] of sampleToModel) allSampleToModel.set(k, v);
     for (const [k, v] of revisedSampleToModel) allRevisedSampleToModel.set(k, v);
     for (const [k, v] of sampleToFeedbackModel) allSampleToFeedbackModel.set(k, v);
+    for (const [k, v] of sampleWords) allSampleWords.set(k, v);
+    for (const [k, v] of style.markdown) allSampleMarkdown.set(k, v);
+    if (isKin) kinRelations.push(isKin);
     for (const p of run.config.prompts) promptToTags.set(p.id, p.tags);
 
     // ── Write manifest (Tier 1) ──
@@ -404,7 +466,10 @@ export async function exportForWeb(outDir: string): Promise<number> {
       meta: enrichedMeta,
       modelInfo: run.modelInfo,
       judgeQuality: judgeQuality.length > 0 ? judgeQuality : undefined,
+      judgeAgreement: judgeAgreement.length > 0 ? judgeAgreement : undefined,
       alternativeRatings,
+      constraints: run.constraints,
+      selfEditing: run.selfEditing,
       samples: run.samples.map((s): SampleMeta => ({
         id: s.id,
         model: s.model,
@@ -415,6 +480,7 @@ export async function exportForWeb(outDir: string): Promise<number> {
         feedbackUsed: s.feedbackUsed,
         feedbackModel: s.feedbackModel,
         fromCache: s.fromCache,
+        constraints: s.constraints,
       })),
       feedback: run.feedback.map((f): FeedbackMeta => ({
         id: f.id,
@@ -430,6 +496,10 @@ export async function exportForWeb(outDir: string): Promise<number> {
         winner: j.winner,
         stage: j.stage,
         positionSwapped: j.positionSwapped,
+        criterionWinners: j.criterionWinners,
+        grade: j.grade,
+        orderWinners: j.orderWinners,
+        constraintLoss: j.constraintLoss,
       })),
       promptJudgmentSlices,
     };
@@ -535,6 +605,7 @@ export async function exportForWeb(outDir: string): Promise<number> {
   // ── Cumulative computations (data already collected in per-run loop) ──
 
   let cumulativeJudgeQuality: JudgeQualityExport[] | undefined;
+  let cumulativeJudgeAgreement: StageAgreement[] | undefined;
   let cumulativeAlternativeRatings: AlternativeRatingsExport | undefined;
 
   if (allJudgments.length > 0) {
@@ -550,12 +621,18 @@ export async function exportForWeb(outDir: string): Promise<number> {
 
     cumulativeJudgeQuality = computeJudgeQualityForExport(
       allJudgments, combinedSampleToModel, DEFAULT_CONVERGENCE.judgePruneThreshold,
-      quality ?? undefined,
+      quality ?? undefined, { words: allSampleWords, markdown: allSampleMarkdown },
+      // Models are kin across runs if any run relates them
+      kinRelations.length > 0 ? (a, b) => kinRelations.some((r) => r(a, b)) : undefined,
     );
     if (cumulativeJudgeQuality.length === 0) cumulativeJudgeQuality = undefined;
 
+    cumulativeJudgeAgreement = computeJudgeAgreement(allJudgments);
+    if (cumulativeJudgeAgreement.length === 0) cumulativeJudgeAgreement = undefined;
+
     cumulativeAlternativeRatings = computeAlternativeRatings(
       allJudgments, allSampleToModel, allRevisedSampleToModel, allSampleToFeedbackModel, jw,
+      undefined, allSampleWords,
     );
 
     // ── Compute per-tag alternative ratings for dashboard ──
@@ -632,6 +709,7 @@ export async function exportForWeb(outDir: string): Promise<number> {
       ratings: h.snapshot,
     })),
     cumulativeJudgeQuality,
+    cumulativeJudgeAgreement,
     cumulativeAlternativeRatings,
   };
 
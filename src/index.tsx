@@ -5,21 +5,35 @@ import { join } from "path";
 import { rm } from "fs/promises";
 import { existsSync } from "fs";
 import { parseArgs, type Command } from "./cli.js";
-import { loadPrompts, parseModelConfigs, mergeModelEndpoints, createRunConfig, filterPrompts, resolveModelLabels } from "./config.js";
+import { loadPrompts, parseModelConfigs, mergeModelEndpoints, createRunConfig, filterPrompts, resolveModelLabels, loadRateLimitFile, parseRateLimitSpecs, mergeRateLimits, hasRateLimits, parseGradeResults, parseKinGroups, loadGoldFile, loadProjectConfig, projectProfile, applyModelOverrides, mergeDefined } from "./config.js";
 import { BenchmarkRunner } from "./engine/runner.js";
-import { saveRun, loadRun, loadLatestRun, listRuns } from "./storage/run-store.js";
+import { RateLimiter, emptyRateLimits } from "./engine/rate-limiter.js";
+import { saveRun, loadRun, loadLatestRun, listRuns, saveCheckpoint, loadResumeCheckpoint, removeCheckpoint } from "./storage/run-store.js";
 import { updateCumulativeElo, loadCumulativeElo } from "./storage/elo-store.js";
+import { humanJudgeLabel, nextHumanPair, buildHumanJudgment, recordHumanJudgment, parseVoteRequest } from "./engine/human-judge.js";
+import { calibrateAgainstGold } from "./engine/gold.js";
+import { computeJudgeAgreement, poolRunJudgments } from "./engine/judge-agreement.js";
+import { MIN_RETESTS, computeRetestStats, retestCache, retestPair, sampleCachedPairs, type RetestStats } from "./engine/retest.js";
+import { keyedRandom } from "./engine/random.js";
 import { exportForWeb } from "./export/web-export.js";
 import { analyzeCacheStatus, formatCacheStatusTable, formatCacheStatusJson, reverseModelKey } from "./storage/cache-status.js";
-import { modelKey, trimModelOutputs, combineModelCaches } from "./storage/sample-cache.js";
+import { SampleCache, modelKey, trimModelOutputs, combineModelCaches } from "./storage/sample-cache.js";
 import { safeReaddir } from "./storage/fs-utils.js";
 import { parseModelSpec } from "./providers/registry.js";
-import { checkProviderEnv } from "./providers/models.js";
+import { useCassettes } from "./providers/cassette.js";
+import { checkProviderEnv, getModelInfoMap } from "./providers/models.js";
 import { App } from "./ui/App.js";
-import type { BenchmarkEvent, EloRating, PromptConfig, TaskError } from "./types.js";
-import { DEFAULT_CONVERGENCE, JUDGE_PRESETS } from "./types.js";
+import type { BenchmarkEvent, ConstraintSummary, ConvergenceConfig, EloRating, EloSnapshot, GoldCalibration, JudgePairAgreement, LengthControlledRatings, ModelConfig, PairwiseJudgment, PointwiseSummary, PromptConfig, RunCheckpoint, RunConfig, RunResult, ScoreDistribution, SelfEditingRating, StageAgreement, StopReason, TaskError } from "./types.js";
+import { DEFAULT_CONCURRENCY, DEFAULT_CONVERGENCE, DEFAULT_GRADE_RESULTS, JUDGE_PRESETS, SELF_FEEDBACK } from "./types.js";
 import { formatConvergenceTarget, formatConvergenceDescription } from "./engine/need-identifier.js";
 
+const STOP_REASONS: Record<StopReason, string> = {
+  converged: "ratings converged",
+  exhausted: "no further useful work available",
+  maxRounds: "reached --max-rounds",
+  budget: "budget exhausted",
+};
+
 /** Convert a CLI model spec ("provider:model") to a cache-safe key. */
 function specToKey(spec: string): string {
   const { provider, model } = parseModelSpec(spec);
@@ -54,8 +68,81 @@ async function discoverModelsFromCache(): Promise<string[]> {
   return dirs.map(reverseModelKey).filter((s): s is string => s !== null);
 }
 
+/**
+ * Stability weights for --retest-weights. Judges with fewer than
+ * MIN_RETESTS retested judgments are left out (weight 1.0).
+ */
+async function loadRetestWeights(judges: ModelConfig[]): Promise<Record<string, number>> {
+  const cache = new SampleCache();
+  const retest = retestCache();
+  const weights: Record<string, number> = {};
+  for (const judge of judges) {
+    const stats = await computeRetestStats(cache, retest, judge);
+    if (stats.retested >= MIN_RETESTS) {
+      weights[judge.label] = stats.weight;
+    } else {
+      console.warn(
+        `Warning: ${judge.label} has ${stats.retested} retested judgment(s), needs ${MIN_RETESTS} for a stability weight (see \`judges retest\`)`
+      );
+    }
+  }
+  return weights;
+}
+
+/** Warn about providers whose API key env vars are unset. */
+async function warnMissingProviderEnv(models: ModelConfig[]): Promise<void> {
+  // When aliases are used, check the API provider (not the canonical one)
+  const apiProviders = new Set<string>();
+  for (const m of models) {
+    if (m.apiModelIds?.length) {
+      for (const apiId of m.apiModelIds) {
+        apiProviders.add(parseModelSpec(apiId).provider);
+      }
+    } else {
+      apiProviders.add(m.provider);
+    }
+  }
+  const envWarnings = await checkProviderEnv([...apiProviders]);
+  for (const warn of envWarnings) {
+    console.warn(`Warning: ${warn}`);
+  }
+}
+
+/** A model's label with any per-model generation settings, for dry runs. */
+function describeModel(m: ModelConfig): string {
+  const settings = [
+    m.temperature != null ? `temperature ${m.temperature}` : null,
+    m.maxTokens != null ? `max ${m.maxTokens} tokens` : null,
+    m.apiBase ? `via ${m.apiBase}` : null,
+  ].filter((s) => s != null);
+  return settings.length > 0 ? `${m.label} (${settings.join(", ")})` : m.label;
+}
+
 async function handleRun(args: Extract<Command, { command: "run" }>["args"]) {
-  let modelSpecs = args.models;
+  if (args.record) useCassettes({ mode: "record", dir: args.record });
+  if (args.replay) useCassettes({ mode: "replay", dir: args.replay });
+
+  if (args.resume) {
+    const checkpoint = await loadResumeCheckpoint(args.resume);
+    const config = checkpoint.config;
+    console.log(`Resuming run ${config.id} from round ${checkpoint.judgingRound} (saved ${checkpoint.savedAt})`);
+    if (!config.cacheOnly && !args.replay) {
+      await warnMissingProviderEnv([...config.models, ...(config.judges ?? [])]);
+    }
+    return executeRun(config, checkpoint, args.speed);
+  }
+
+  // Project file: model overrides always apply; a profile fills in unset flags
+  const project = await loadProjectConfig(args.config);
+  const profile = args.profile ? projectProfile(project, args.profile) : undefined;
+  const roster = profile?.roster ? project!.rosters[profile.roster] : undefined;
+
+  let modelSpecs = args.models ?? roster?.writers;
+  if (!args.cacheOnly && (!modelSpecs || modelSpecs.length === 0)) {
+    throw new Error(args.profile
+      ? `--models is required: profile "${args.profile}" has no roster`
+      : "--models or --profile is required");
+  }
 
   // In cache-only mode, auto-discover models from cache if not specified
   if (args.cacheOnly && (!modelSpecs || modelSpecs.length === 0)) {
@@ -70,56 +157,153 @@ async function handleRun(args: Extract<Command, { command: "run" }>["args"]) {
   }
 
   let models = parseModelConfigs(modelSpecs!);
-  let judges = args.judges?.length
-    ? parseModelConfigs(args.judges)
+  const judgeSpecs = args.judges ?? roster?.judges;
+  let judges = judgeSpecs?.length
+    ? parseModelConfigs(judgeSpecs)
     : undefined;
 
+  // Project file parameters can change a model's identity, so apply them first
+  if (project) {
+    models = applyModelOverrides(models, project.models);
+    if (judges) judges = applyModelOverrides(judges, project.models);
+  }
+
   // Merge endpoints that alias to the same canonical model (via ~)
   models = mergeModelEndpoints(models);
   if (judges) judges = mergeModelEndpoints(judges);
 
-  // Resolve display names from models.dev (best-effort in cache-only mode)
+  // Resolve display names from models.dev (best-effort in cache-only and replay modes)
   try {
     await resolveModelLabels(models);
     if (judges) await resolveModelLabels(judges);
   } catch (err) {
-    if (!args.cacheOnly) throw err; // In normal mode, propagate the error
-    // In cache-only mode, silently fall back to raw model IDs as labels
+    if (!args.cacheOnly && !args.replay) throw err; // In normal mode, propagate the error
+    // Offline, silently fall back to raw model IDs as labels
   }
 
-  const prompts = await loadAndFilterPrompts(args.prompts, args.filter);
+  const prompts = await loadAndFilterPrompts(
+    args.prompts ?? profile?.prompts ?? "prompts/*.toml",
+    args.filter ?? profile?.filter,
+  );
 
-  // Check provider env vars -- skip in cache-only mode (no API calls needed)
-  // When aliases are used, check the API provider (not the canonical one)
-  if (!args.cacheOnly) {
-    const apiProviders = new Set<string>();
-    for (const m of [...models, ...(judges ?? [])]) {
-      if (m.apiModelIds?.length) {
-        for (const apiId of m.apiModelIds) {
-          apiProviders.add(parseModelSpec(apiId).provider);
-        }
-      } else {
-        apiProviders.add(m.provider);
-      }
-    }
-    const envWarnings = await checkProviderEnv([...apiProviders]);
-    for (const warn of envWarnings) {
-      console.warn(`Warning: ${warn}`);
-    }
+  // Check provider env vars -- skip in cache-only and replay modes (no API calls needed)
+  if (!args.cacheOnly && !args.replay) {
+    await warnMissingProviderEnv([...models, ...(judges ?? [])]);
   }
 
+  // Per-provider limits: file first, CLI specs override field by field
+  const rateLimits = mergeRateLimits(
+    args.rateLimitFile ? await loadRateLimitFile(args.rateLimitFile) : emptyRateLimits(),
+    parseRateLimitSpecs(args.rateLimit ?? []),
+  );
+
+  const gradeResults = args.gradeResults != null ? parseGradeResults(args.gradeResults) : undefined;
+  const kinGroups = parseKinGroups(args.kinGroup ?? []);
+  const gold = args.gold ? await loadGoldFile(args.gold) : undefined;
+  const retestWeights = args.retestWeights ? await loadRetestWeights(judges ?? models) : undefined;
+
+  // Defaults, then the judge sensitivity preset, then the profile, then explicit flags
+  const convergence = mergeDefined<ConvergenceConfig>(
+    DEFAULT_CONVERGENCE,
+    JUDGE_PRESETS.high,
+    profile?.convergence,
+    args.judgeSensitivity && JUDGE_PRESETS[args.judgeSensitivity],
+    {
+      ciThreshold: args.confidence,
+      maxRounds: args.maxRounds,
+      writingWeight: args.writingWeight,
+      feedbackWeight: args.feedbackWeight,
+      revisedWeight: args.revisedWeight,
+      judgeQuality: args.judgeQuality,
+      judgeQualityMode: args.judgeQualityMode,
+      judgeDecay: args.judgeDecay,
+      judgePruneThreshold: args.judgePruneThreshold,
+      needScoring: args.needScoring,
+    },
+  ) as ConvergenceConfig;
+  const concurrency = args.concurrency ?? profile?.concurrency ?? DEFAULT_CONCURRENCY;
+
   if (args.dryRun) {
     const outputsCap = args.outputs != null ? args.outputs : Infinity;
     const outputsDesc = outputsCap === Infinity ? "unlimited (adaptive)" : String(outputsCap);
-    const ciThreshold = args.confidence;
+    const ciThreshold = convergence.ciThreshold;
 
     console.log("Dry run -- would execute:");
-    console.log(`  Writers: ${models.map((m) => m.label).join(", ")}`);
+    if (args.profile) {
+      console.log(`  Profile: ${args.profile}${profile?.roster ? ` (roster ${profile.roster})` : ""}`);
+    }
+    console.log(`  Writers: ${models.map(describeModel).join(", ")}`);
     if (judges) {
-      console.log(`  Judges:  ${judges.map((m) => m.label).join(", ")}`);
+      console.log(`  Judges:  ${judges.map(describeModel).join(", ")}`);
     }
     console.log(`  Prompts: ${prompts.map((p) => p.name).join(", ")}`);
     console.log(`  Outputs per model: ${outputsDesc}`);
+    console.log(`  Concurrency: ${concurrency}`);
+    console.log(
+      `  Convergence: max ${convergence.maxRounds} rounds, min ${convergence.minPairsPerModel} pairs per model, `
+      + `weights writing ${convergence.writingWeight} / feedback ${convergence.feedbackWeight} / revised ${convergence.revisedWeight}`,
+    );
+    console.log(`  Judge quality: ${convergence.judgeQuality
+      ? `${convergence.judgeQualityMode} (decay ${convergence.judgeDecay}, prune below ${convergence.judgePruneThreshold})`
+      : "off"}`);
+    if (args.budget != null) {
+      console.log(`  Budget: $${args.budget.toFixed(2)}`);
+    }
+    if (convergence.needScoring === "cost") {
+      console.log(`  Need scoring: information gain per expected dollar`);
+    }
+    if (args.pointwise) {
+      console.log(`  Pointwise scoring: on${args.pointwiseGames ? " (feeds ratings)" : ""}`);
+    }
+    if (args.criteriaVerdicts) {
+      console.log(`  Per-criterion verdicts: on`);
+    }
+    if (args.gradedPreference) {
+      const results = gradeResults ?? DEFAULT_GRADE_RESULTS;
+      console.log(`  Graded preference: on (${Object.entries(results).map(([g, r]) => `${g}=${r}`).join(", ")})`);
+    }
+    if (args.bothOrders) {
+      console.log(`  Both orders: every pair judged as (A, B) and (B, A)`);
+    }
+    if (args.selfRevision) {
+      console.log(`  Self-revision control: ${SELF_FEEDBACK} on the feedback leaderboard`);
+    }
+    if (args.selfCritique) {
+      console.log(`  Self-critique: every writer critiques and revises its own samples`);
+    }
+    if (args.revisionRounds > 1) {
+      console.log(`  Revision rounds: ${args.revisionRounds} (each rated separately)`);
+    }
+    if (args.seed != null) {
+      console.log(`  Seed: ${args.seed}`);
+    }
+    if (gold) {
+      console.log(`  Gold set: ${gold.length} human-labelled pair(s)${convergence.judgeQualityMode === "gold" ? " (sets judge weights)" : ""}`);
+    }
+    if (args.styleBiasCorrection) {
+      console.log(`  Style bias correction: on (length and Markdown formatting)`);
+    }
+    if (args.kin !== "family" || kinGroups.length > 0) {
+      console.log(`  Kin relation: ${args.kin}${kinGroups.length > 0
+        ? ` + ${kinGroups.map((g) => `[${g.join(", ")}]`).join(" ")}`
+        : ""}`);
+    }
+    if (retestWeights) {
+      const entries = Object.entries(retestWeights);
+      console.log(`  Retest weights: ${entries.length > 0
+        ? entries.map(([label, w]) => `${label} \u00d7${w.toFixed(2)}`).join(", ")
+        : "none (no judge has enough retests)"}`);
+    }
+    if (hasRateLimits(rateLimits)) {
+      const entries = [...Object.entries(rateLimits.providers), ...Object.entries(rateLimits.models)];
+      console.log(`  Rate limits: ${entries.map(([target, l]) =>
+        `${target} (${Object.entries(l).map(([k, v]) => `${k}=${v}`).join(", ")})`).join("; ")}`);
+    }
+    if (args.record) {
+      console.log(`  Cassettes: recording to ${args.record}`);
+    } else if (args.replay) {
+      console.log(`  Cassettes: replaying from ${args.replay} (no network)`);
+    }
     if (args.cacheOnly) {
       console.log(`  Mode: cache-only (no API calls)`);
     } else {
@@ -132,33 +316,51 @@ async function handleRun(args: Extract<Command, { command: "run" }>["args"]) {
     return;
   }
 
-  // Resolve judge sensitivity preset, then allow explicit overrides.
-  const judgePreset = JUDGE_PRESETS[args.judgeSensitivity];
-
   const config = createRunConfig({
     models,
     judges,
     prompts,
     outputsPerModel: args.outputs,
+    revisionRounds: args.revisionRounds,
+    selfRevision: args.selfRevision,
+    selfCritique: args.selfCritique,
     reasoning: args.reasoning,
     noCache: args.noCache,
     cacheOnly: args.cacheOnly,
     skipSeeding: args.skipSeeding,
-    concurrency: args.concurrency,
-    convergence: {
-      ciThreshold: args.confidence,
-      maxRounds: args.maxRounds,
-      writingWeight: args.writingWeight,
-      feedbackWeight: args.feedbackWeight,
-      revisedWeight: args.revisedWeight,
-      judgeQuality: args.judgeQuality,
-      judgeQualityMode: args.judgeQualityMode,
-      judgeDecay: args.judgeDecay ?? judgePreset.judgeDecay,
-      judgePruneThreshold: args.judgePruneThreshold ?? judgePreset.judgePruneThreshold,
-    },
+    concurrency,
+    rateLimits,
+    budget: args.budget,
+    pointwise: args.pointwise,
+    pointwiseGames: args.pointwiseGames,
+    criterionVerdicts: args.criteriaVerdicts,
+    gradedPreference: args.gradedPreference,
+    gradeResults,
+    bothOrders: args.bothOrders,
+    seed: args.seed,
+    gold,
+    styleBiasCorrection: args.styleBiasCorrection,
+    kinMode: args.kin,
+    kinGroups,
+    retestWeights,
+    convergence,
   });
 
+  return executeRun(config, null, args.speed);
+}
+
+/**
+ * Run the benchmark with the Ink UI, save the result and update the
+ * cumulative leaderboard. A checkpoint is written after every round
+ * and on SIGINT so the run can be continued with `run --resume <id>`.
+ */
+async function executeRun(
+  config: RunConfig,
+  checkpoint: RunCheckpoint | null,
+  showSpeed: boolean,
+) {
   const runner = new BenchmarkRunner(config);
+  if (checkpoint) runner.restore(checkpoint);
 
   // Set up Ink UI
   let eventHandler: ((event: BenchmarkEvent) => void) | null = null;
@@ -167,20 +369,43 @@ async function handleRun(args: Extract<Command, { command: "run" }>["args"]) {
   };
 
   const { unmount, waitUntilExit } = render(
-    <App subscribe={subscribe} showSpeed={args.speed} />
+    <App subscribe={subscribe} showSpeed={showSpeed} />
   );
 
+  // Round-boundary saves are serialized so a slow write never lands
+  // after a newer one.
+  let pendingCheckpoint: Promise<unknown> = Promise.resolve();
+  const writeCheckpoint = () => {
+    pendingCheckpoint = pendingCheckpoint
+      .then(() => saveCheckpoint(runner.checkpoint()))
+      .catch(() => { /* best-effort; the cache still holds every artifact */ });
+    return pendingCheckpoint;
+  };
+
   runner.on((event) => {
     if (eventHandler) eventHandler(event);
+    if (event.type === "roundComplete") void writeCheckpoint();
   });
 
+  const onSigint = async () => {
+    unmount();
+    await writeCheckpoint();
+    console.log(`\nInterrupted. Checkpoint saved; continue with: run --resume ${config.id}`);
+    process.exit(130);
+  };
+  process.once("SIGINT", onSigint);
+
   try {
     const result = await runner.run();
+    process.off("SIGINT", onSigint);
 
-    // Save run
+    // Save run (overwrites the original directory when resuming)
     const path = await saveRun(result);
+    await pendingCheckpoint;
+    await removeCheckpoint(config.id);
 
-    // Update cumulative ELO
+    // Update cumulative ELO. A crash before this leaves a saved run that
+    // is not counted yet; `--resume` accepts it until it is.
     await updateCumulativeElo(result);
 
     // Wait for UI to render final state
@@ -194,6 +419,23 @@ async function handleRun(args: Extract<Command, { command: "run" }>["args"]) {
     console.log(
       `Duration: ${(result.meta.durationMs / 1000).toFixed(1)}s`
     );
+    if (result.meta.budget != null) {
+      console.log(
+        `Budget: $${(result.meta.budgetRemaining ?? 0).toFixed(4)} of $${result.meta.budget.toFixed(2)} remaining`
+      );
+    }
+    if (result.meta.stopReason) {
+      console.log(`Stopped: ${STOP_REASONS[result.meta.stopReason]}`);
+    }
+    if (result.constraints) {
+      printConstraintTable("Constraint Compliance", result.constraints);
+    }
+    if (result.gold) {
+      printGoldTable("Judge Agreement with Gold Set", result.gold);
+    }
+    if (result.selfEditing) {
+      printSelfEditingTable("Self-Editing", result.selfEditing);
+    }
 
     if (result.meta.errors && result.meta.errors.length > 0) {
       const unique = new Map<string, { count: number; example: TaskError }>();
@@ -235,8 +477,11 @@ async function handleRun(args: Extract<Command, { command: "run" }>["args"]) {
       }
     }
   } catch (error) {
+    process.off("SIGINT", onSigint);
     unmount();
+    await writeCheckpoint();
     console.error("Benchmark failed:", error);
+    console.error(`Continue with: run --resume ${config.id}`);
     process.exit(1);
   }
 }
@@ -255,6 +500,11 @@ async function handleResults(
     }
   }
 
+  if (args.gold) {
+    const judges = (result.config.judges ?? result.config.models).map((m) => m.label);
+    result.gold = calibrateAgainstGold(await loadGoldFile(args.gold), result.samples, result.judgments, judges);
+  }
+
   if (args.format === "json") {
     console.log(JSON.stringify(result, null, 2));
     return;
@@ -275,12 +525,125 @@ async function handleResults(
 
   printEloTable("Initial Writer ELO", result.elo.initial.ratings);
   printEloTable("Revised Writer ELO", result.elo.revised.ratings);
+  if (result.elo.rounds) {
+    printRoundsTable("Revised Writer ELO by Round", result.elo.rounds);
+  }
   if (result.elo.revised.feedbackRatings) {
     printEloTable(
       "Feedback Provider ELO",
       result.elo.revised.feedbackRatings
     );
   }
+  for (const [criterion, ratings] of Object.entries(result.elo.initial.byCriterion ?? {})) {
+    printEloTable(`Initial Writer ELO -- ${criterion}`, ratings);
+  }
+  if (result.elo.initial.lengthControlled) {
+    printLengthControlled("Initial Writer ELO (length-controlled)", result.elo.initial.lengthControlled);
+  }
+  if (result.pointwise) {
+    printPointwiseTable("Initial Pointwise Scores", result.pointwise.summary.filter((s) => s.stage === "initial"));
+    printPointwiseTable("Revised Pointwise Scores", result.pointwise.summary.filter((s) => s.stage === "revised"));
+  }
+  if (result.constraints) {
+    printConstraintTable("Constraint Compliance", result.constraints);
+  }
+  if (result.gold) {
+    printGoldTable("Judge Agreement with Gold Set", result.gold);
+  }
+  if (result.selfEditing) {
+    printSelfEditingTable("Self-Editing", result.selfEditing);
+  }
+}
+
+async function handleAgreement(
+  args: Extract<Command, { command: "agreement" }>["args"]
+) {
+  let judgments: PairwiseJudgment[] = [];
+  let scope: string;
+  if (args.cumulative) {
+    const runIds = await listRuns();
+    const runs: RunResult[] = [];
+    for (const id of runIds) runs.push(await loadRun(id));
+    judgments = poolRunJudgments(runs);
+    scope = `${runIds.length} run(s)`;
+  } else {
+    const run = args.runId ? await loadRun(args.runId) : await loadLatestRun();
+    if (!run) {
+      console.log("No runs found.");
+      return;
+    }
+    judgments = run.judgments;
+    scope = `run ${run.config.id}`;
+  }
+
+  const report = computeJudgeAgreement(judgments);
+  if (args.format === "json") {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  if (report.length === 0) {
+    console.log(`No pair in ${scope} was judged by more than one judge.`);
+    return;
+  }
+  console.log(`\nJudge agreement across ${scope}`);
+  for (const stage of report) printAgreementMatrix(stage, args.metric);
+}
+
+async function handleJudgesRetest(
+  args: Extract<Command, { command: "judges-retest" }>["args"]
+) {
+  let writerSpecs = args.models;
+  if (!writerSpecs || writerSpecs.length === 0) {
+    writerSpecs = await discoverModelsFromCache();
+    if (writerSpecs.length === 0) {
+      console.error("No cached model data found. Nothing to retest.");
+      process.exit(1);
+    }
+  }
+
+  const writers = mergeModelEndpoints(parseModelConfigs(writerSpecs));
+  const judges = args.judges?.length ? mergeModelEndpoints(parseModelConfigs(args.judges)) : writers;
+  await resolveModelLabels(writers);
+  if (judges !== writers) await resolveModelLabels(judges);
+  const prompts = await loadAndFilterPrompts(args.prompts, args.filter);
+  await warnMissingProviderEnv(judges);
+
+  const cache = new SampleCache();
+  const retest = retestCache();
+  const modelInfo = await getModelInfoMap(judges);
+  const limiter = new RateLimiter(mergeRateLimits(
+    args.rateLimitFile ? await loadRateLimitFile(args.rateLimitFile) : emptyRateLimits(),
+    parseRateLimitSpecs(args.rateLimit ?? []),
+  ));
+  let cost = 0;
+
+  // Judges run side by side; each judge's pairs go one at a time
+  await Promise.all(judges.map(async (judge) => {
+    const pairs = await sampleCachedPairs(
+      cache, judge, writers, prompts, args.count, keyedRandom(args.seed, `retest:pick:${judge.label}`),
+    );
+    if (pairs.length < args.count) {
+      console.warn(`Warning: ${judge.label} has only ${pairs.length} cached judgment(s) to retest`);
+    }
+    for (const pair of pairs) {
+      const key = `retest:${judge.label}:${pair.writeA.cacheId}:${pair.writeB.cacheId}`;
+      try {
+        cost += await retestPair(
+          retest, judge, pair, modelInfo[judge.label] ?? null, limiter, keyedRandom(args.seed, key),
+        );
+      } catch (err) {
+        console.warn(`Warning: ${judge.label} retest failed: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }));
+
+  const stats = await Promise.all(judges.map((j) => computeRetestStats(cache, retest, j)));
+  if (args.format === "json") {
+    console.log(JSON.stringify(stats, null, 2));
+    return;
+  }
+  printRetestTable(stats);
+  console.log(`\nRetest cost: $${cost.toFixed(4)}`);
 }
 
 async function handleElo(
@@ -310,6 +673,9 @@ async function handleElo(
   }
 
   printEloTable("Cumulative Writer ELO", writingRatings);
+  if (elo.writingLengthControlled) {
+    printLengthControlled("Cumulative Writer ELO (length-controlled)", elo.writingLengthControlled);
+  }
   if (feedbackRatings.length > 0) {
     printEloTable("Cumulative Feedback Provider ELO", feedbackRatings);
   }
@@ -392,6 +758,7 @@ async function handleServe(
     port: args.port,
     async fetch(req) {
       const url = new URL(req.url);
+      if (url.pathname.startsWith("/api/vote")) return handleVoteApi(req, url);
       let path = url.pathname === "/" ? "/index.html" : url.pathname;
 
       // Serve pre-compressed .gz variant if client accepts gzip
@@ -423,6 +790,57 @@ async function handleServe(
   }
 }
 
+// Votes are serialized so two voters never load and save a run at once.
+let voteQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Human judge API for `serve`:
+ *   GET  /api/vote/next?run=<id>&voter=<name> -- next blind pair, or { done: true }
+ *   POST /api/vote -- { run, voter, sampleA, sampleB, winner, reasoning?, latencyMs? }
+ */
+async function handleVoteApi(req: Request, url: URL): Promise<Response> {
+  const work = voteQueue.then(async () => {
+    try {
+      if (req.method === "GET" && url.pathname === "/api/vote/next") {
+        const run = await loadVoteRun(url.searchParams.get("run"));
+        const judge = humanJudgeLabel(url.searchParams.get("voter") ?? "");
+        const pair = nextHumanPair(run, judge);
+        if (!pair) return Response.json({ done: true });
+        const prompt = run.config.prompts.find((p) => p.id === pair.promptId)!;
+        return Response.json({
+          runId: run.config.id,
+          prompt: { id: prompt.id, name: prompt.name, prompt: prompt.prompt },
+          sampleA: { id: pair.sampleA.id, text: pair.sampleA.text },
+          sampleB: { id: pair.sampleB.id, text: pair.sampleB.text },
+        });
+      }
+      if (req.method === "POST" && url.pathname === "/api/vote") {
+        const body = parseVoteRequest(await req.json());
+        const run = await loadVoteRun(body.run ?? null);
+        const judgment = buildHumanJudgment(run, humanJudgeLabel(body.voter ?? ""), body);
+        await recordHumanJudgment(run, judgment);
+        return Response.json({ ok: true });
+      }
+      return Response.json({ error: "Not found" }, { status: 404 });
+    } catch (e) {
+      return Response.json({ error: e instanceof Error ? e.message : String(e) }, { status: 400 });
+    }
+  });
+  voteQueue = work;
+  return work;
+}
+
+/** Load a stored run by ID (the latest run when absent), rejecting IDs that aren't stored runs. */
+async function loadVoteRun(runId: string | null): Promise<RunResult> {
+  if (!runId) {
+    const latest = await loadLatestRun();
+    if (!latest) throw new Error("No runs found");
+    return latest;
+  }
+  if (!(await listRuns()).includes(runId)) throw new Error(`Run not found: ${runId}`);
+  return loadRun(runId);
+}
+
 function printEloTable(title: string, ratings: EloRating[]) {
   console.log(`\n${title}`);
   console.log("─".repeat(50));
@@ -439,6 +857,200 @@ function printEloTable(title: string, ratings: EloRating[]) {
   }
 }
 
+/**
+ * Print each model's revised rating per revision round, plus the change
+ * from round 1 to the last round it was rated in.
+ */
+function printRoundsTable(title: string, rounds: EloSnapshot[]) {
+  const models = [...new Set(rounds.flatMap((r) => r.ratings.map((e) => e.model)))];
+  const byRound = rounds.map((r) => new Map(r.ratings.map((e) => [e.model, e.rating])));
+  const width = 29 + rounds.length * 8 + 8;
+  console.log(`\n${title}`);
+  console.log("─".repeat(width));
+  console.log(
+    `${"Model".padEnd(29)}${rounds.map((_, i) => `R${i + 1}`.padStart(8)).join("")}${"Δ".padStart(8)}`
+  );
+  console.log("─".repeat(width));
+  for (const model of models) {
+    const ratings = byRound.map((m) => m.get(model));
+    const first = ratings[0];
+    const last = ratings.filter((r) => r != null).at(-1);
+    const delta = first != null && last != null ? last - first : null;
+    console.log(
+      `${model.padEnd(29)}${ratings.map((r) => (r != null ? String(r) : "-").padStart(8)).join("")}`
+      + `${(delta != null ? `${delta >= 0 ? "+" : ""}${delta}` : "-").padStart(8)}`
+    );
+  }
+}
+
+/**
+ * Print length-controlled ratings followed by each judge's length
+ * coefficient (Elo gained per 100 extra words, with its 95% CI).
+ */
+function printLengthControlled(title: string, lc: LengthControlledRatings) {
+  printEloTable(title, lc.ratings);
+  console.log(`\n${"Judge".padEnd(29)}${"Elo/100 words".padStart(15)}  ${"Games".padStart(6)}`);
+  for (const c of lc.lengthCoefficients) {
+    const coef = `${c.eloPer100Words >= 0 ? "+" : ""}${c.eloPer100Words} ±${c.ci95}`;
+    console.log(`${c.judge.padEnd(29)}${coef.padStart(15)}  ${String(c.games).padStart(6)}`);
+  }
+}
+
+/**
+ * Print mean ± standard deviation of each model's 1-10 scores, overall
+ * and per judging criterion (criteria are numbered; a legend follows).
+ */
+function printPointwiseTable(title: string, summaries: PointwiseSummary[]) {
+  if (summaries.length === 0) return;
+  const criteria = [...new Set(summaries.flatMap((s) => Object.keys(s.criteria)))];
+  const fmt = (d?: ScoreDistribution) =>
+    d && d.count > 0 ? `${d.mean.toFixed(1)}±${d.stdDev.toFixed(1)}` : "-";
+  const width = 39 + 10 * criteria.length;
+
+  console.log(`\n${title}`);
+  console.log("─".repeat(width));
+  console.log(
+    `${"Model".padEnd(25)}${"N".padStart(4)}${"Overall".padStart(10)}${criteria.map((_, i) => `C${i + 1}`.padStart(10)).join("")}`
+  );
+  console.log("─".repeat(width));
+  for (const s of summaries) {
+    console.log(
+      `${s.model.padEnd(25)}${String(s.overall.count).padStart(4)}${fmt(s.overall).padStart(10)}${criteria.map((c) => fmt(s.criteria[c]).padStart(10)).join("")}`
+    );
+  }
+  for (let i = 0; i < criteria.length; i++) {
+    console.log(`  C${i + 1}: ${criteria[i]}`);
+  }
+}
+
+/**
+ * Print each model's constraint pass rate per stage and how many of its
+ * samples broke each rule.
+ */
+function printConstraintTable(title: string, summaries: ConstraintSummary[]) {
+  if (summaries.length === 0) return;
+  console.log(`\n${title}`);
+  console.log("─".repeat(60));
+  console.log(
+    `${"Model".padEnd(25)}${"Stage".padEnd(9)}${"Passed".padStart(10)}${"Rate".padStart(7)}  Violations`
+  );
+  console.log("─".repeat(60));
+  for (const s of summaries) {
+    const passed = `${s.passed}/${s.checked}`;
+    const rate = `${Math.round((100 * s.passed) / s.checked)}%`;
+    const violations = Object.entries(s.violations).map(([rule, n]) => `${rule} ${n}`).join(", ");
+    console.log(
+      `${s.model.padEnd(25)}${s.stage.padEnd(9)}${passed.padStart(10)}${rate.padStart(7)}  ${violations}`
+    );
+  }
+}
+
+/**
+ * Print how often each writer's self-revisions beat the original, next
+ * to the same rate when its feedback guides other writers and its
+ * feedback rating.
+ */
+function printSelfEditingTable(title: string, ratings: SelfEditingRating[]) {
+  if (ratings.length === 0) return;
+  const pct = (x: number) => `${Math.round(100 * x)}%`;
+  console.log(`\n${title}`);
+  console.log("─".repeat(66));
+  console.log(
+    `${"Model".padEnd(29)}${"Self".padStart(7)}${"n".padStart(6)}${"Others".padStart(8)}${"n".padStart(6)}${"Fb ELO".padStart(10)}`
+  );
+  console.log("─".repeat(66));
+  for (const r of ratings) {
+    console.log(
+      `${r.model.padEnd(29)}${pct(r.rate).padStart(7)}${String(r.judged).padStart(6)}`
+      + `${(r.crossRate != null ? pct(r.crossRate) : "-").padStart(8)}${String(r.crossJudged).padStart(6)}`
+      + `${(r.feedbackRating != null ? String(r.feedbackRating) : "-").padStart(10)}`
+    );
+  }
+}
+
+/**
+ * Print each judge's agreement with the gold set, Cohen's kappa and,
+ * for pairs judged in both orders, how often both orders agreed.
+ */
+function printGoldTable(title: string, gold: GoldCalibration) {
+  console.log(`\n${title} (${gold.matched} of ${gold.pairs} pairs matched)`);
+  if (gold.judges.length === 0) {
+    console.log("  No judge has judged a gold pair.");
+    return;
+  }
+  const pct = (x: number) => `${Math.round(100 * x)}%`;
+  console.log("─".repeat(60));
+  console.log(
+    `${"Judge".padEnd(25)}${"Pairs".padStart(6)}${"Agree".padStart(8)}${"Kappa".padStart(8)}${"Pos. consistent".padStart(17)}`
+  );
+  console.log("─".repeat(60));
+  for (const a of gold.judges) {
+    const kappa = a.kappa != null ? a.kappa.toFixed(2) : "-";
+    const consistent = a.positionConsistency != null ? `${pct(a.positionConsistency)} of ${a.bothOrders}` : "-";
+    console.log(
+      `${a.judge.padEnd(25)}${String(a.pairs).padStart(6)}${pct(a.agreement).padStart(8)}${kappa.padStart(8)}${consistent.padStart(17)}`
+    );
+  }
+}
+
+/**
+ * Print each judge's verdict stability over all of its retests: how
+ * often a decisive verdict reversed, how often it moved to or from a
+ * tie, and the resulting --retest-weights factor.
+ */
+function printRetestTable(stats: RetestStats[]) {
+  const pct = (x: number) => `${Math.round(100 * x)}%`;
+  console.log("\nJudge Test-Retest Stability");
+  console.log("─".repeat(72));
+  console.log(
+    `${"Judge".padEnd(25)}${"Retested".padStart(9)}${"Flips".padStart(7)}${"Rate".padStart(7)}${"Tie flips".padStart(11)}${"Rate".padStart(7)}${"Weight".padStart(8)}`
+  );
+  console.log("─".repeat(72));
+  for (const s of stats) {
+    const weight = s.retested >= MIN_RETESTS ? s.weight.toFixed(2) : "-";
+    console.log(
+      `${s.judge.padEnd(25)}${String(s.retested).padStart(9)}${String(s.flips).padStart(7)}${pct(s.flipRate).padStart(7)}${String(s.tieFlips).padStart(11)}${pct(s.tieFlipRate).padStart(7)}${weight.padStart(8)}`
+    );
+  }
+}
+
+/**
+ * Print one stage's judge-by-judge matrix of `metric` (judges are
+ * numbered; columns refer to rows by number) with each judge's mean
+ * over the judges it shares instances with.
+ */
+function printAgreementMatrix(stage: StageAgreement, metric: "agreement" | "kappa" | "alpha") {
+  const value = (p: JudgePairAgreement) => p[metric];
+  const fmt = (v: number | null) =>
+    v == null ? "-" : metric === "agreement" ? `${Math.round(100 * v)}%` : v.toFixed(2);
+  const lookup = new Map<string, JudgePairAgreement>();
+  for (const p of stage.pairs) {
+    lookup.set(`${p.judgeA}\u0000${p.judgeB}`, p);
+    lookup.set(`${p.judgeB}\u0000${p.judgeA}`, p);
+  }
+  const width = 29 + 7 * (stage.judges.length + 1);
+  const alpha = stage.alpha != null ? stage.alpha.toFixed(2) : "-";
+
+  console.log(`\n${stage.stage} (${stage.instances} shared instances, Krippendorff's alpha ${alpha}) -- ${metric}`);
+  console.log("─".repeat(width));
+  console.log(
+    `${"#".padEnd(4)}${"Judge".padEnd(25)}${stage.judges.map((_, i) => `#${i + 1}`.padStart(7)).join("")}${"Mean".padStart(7)}`
+  );
+  console.log("─".repeat(width));
+  stage.judges.forEach((judge, i) => {
+    const values: number[] = [];
+    const cells = stage.judges.map((other) => {
+      if (other === judge) return "".padStart(7);
+      const p = lookup.get(`${judge}\u0000${other}`);
+      const v = p ? value(p) : null;
+      if (v != null) values.push(v);
+      return fmt(v).padStart(7);
+    });
+    const mean = values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+    console.log(`${String(i + 1).padEnd(4)}${judge.slice(0, 24).padEnd(25)}${cells.join("")}${fmt(mean).padStart(7)}`);
+  });
+}
+
 async function handleCacheStatus(
   args: Extract<Command, { command: "cache-status" }>["args"]
 ) {
@@ -511,14 +1123,16 @@ async function handleClearCache(
     }
   }
 
-  // Always clear judgments involving this model.
-  // Judgments are stored under the judge model's directory, but stale
+  // Always clear judgments and pointwise scores involving this model.
+  // Both are stored under the judge model's directory, but stale
   // entries (referencing deleted sample IDs) waste disk. Clear them all.
-  const judgmentsDir = join(cacheBase, "judgments");
-  if (existsSync(judgmentsDir)) {
-    await rm(judgmentsDir, { recursive: true });
-    console.log("  Removed judgments/ (all judges)");
-    totalRemoved++;
+  for (const category of ["judgments", "scores"] as const) {
+    const dir = join(cacheBase, category);
+    if (existsSync(dir)) {
+      await rm(dir, { recursive: true });
+      console.log(`  Removed ${category}/ (all judges)`);
+      totalRemoved++;
+    }
   }
 
   if (totalRemoved === 0) {
@@ -543,7 +1157,8 @@ async function handleCacheCombine(
   const result = await combineModelCaches(cacheBase, sourceKey, targetKey);
 
   const total = result.writesMoved + result.feedbackMoved + result.feedbackDeduped
-    + result.revisionsMoved + result.revisionsRekeyed + result.judgmentsMoved;
+    + result.revisionsMoved + result.revisionsRekeyed + result.judgmentsMoved
+    + result.scoresMoved;
   if (total === 0) {
     console.log(`No cache data found for ${args.source}.`);
     return;
@@ -554,6 +1169,9 @@ async function handleCacheCombine(
   console.log(`  ${result.feedbackMoved} feedback files moved${result.feedbackDeduped > 0 ? `, ${result.feedbackDeduped} deduplicated` : ""}`);
   console.log(`  ${result.revisionsMoved} revisions moved${result.revisionsRekeyed > 0 ? `, ${result.revisionsRekeyed} re-keyed` : ""}`);
   console.log(`  ${result.judgmentsMoved} judgments moved`);
+  if (result.scoresMoved > 0) {
+    console.log(`  ${result.scoresMoved} pointwise scores moved`);
+  }
 }
 
 // Main
@@ -571,6 +1189,12 @@ async function main() {
       case "export":
         await handleExport(cmd.args);
         break;
+      case "agreement":
+        await handleAgreement(cmd.args);
+        break;
+      case "judges-retest":
+        await handleJudgesRetest(cmd.args);
+        break;
       case "elo":
         await handleElo(cmd.args);
         break;
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync } from "fs";
+import { readdir, rm } from "fs/promises";
+import { join } from "path";
+import { generateObject, streamText } from "ai";
+import { z } from "zod";
+import { useCassettes } from "./cassette.js";
+import { configureMockProvider } from "./mock.js";
+import { resolveModel } from "./registry.js";
+import { isProviderError } from "../engine/retry.js";
+
+const TEST_DIR = join(process.cwd(), "data", "test-cassettes");
+
+const schema = z.object({ winner: z.enum(["A", "B", "tie"]), reasoning: z.string() });
+
+async function write(spec: string) {
+  const result = streamText({ model: await resolveModel(spec), prompt: "Write a story.", maxRetries: 0 });
+  return { text: await result.text, usage: await result.usage, finishReason: await result.finishReason };
+}
+
+async function judge(spec: string) {
+  const result = await generateObject({ model: await resolveModel(spec), schema, prompt: "Judge.", maxRetries: 0 });
+  return { object: result.object, usage: result.usage };
+}
+
+describe("cassettes", () => {
+  beforeEach(async () => {
+    if (existsSync(TEST_DIR)) await rm(TEST_DIR, { recursive: true });
+    configureMockProvider({ strengths: { writer: 2 }, seed: 3 });
+  });
+
+  afterEach(async () => {
+    useCassettes(null);
+    configureMockProvider();
+    if (existsSync(TEST_DIR)) await rm(TEST_DIR, { recursive: true });
+  });
+
+  it("replays recorded streams and objects without reaching the provider", async () => {
+    useCassettes({ mode: "record", dir: TEST_DIR });
+    const recorded = { writes: [await write("mock:writer"), await write("mock:writer")], verdict: await judge("mock:judge") };
+    const files = (await readdir(TEST_DIR)).sort();
+    expect(files).toHaveLength(3);
+    // Two identical write requests become the first and second occurrence of one hash
+    expect(files.filter((f) => f.endsWith("-2.json"))).toHaveLength(1);
+
+    // A differently configured mock would answer differently; replay must not ask it
+    configureMockProvider({ strengths: { writer: -2 }, faults: { "*": { serverError: 1 } }, seed: 99 });
+    useCassettes({ mode: "replay", dir: TEST_DIR });
+    const replayed = { writes: [await write("mock:writer"), await write("mock:writer")], verdict: await judge("mock:judge") };
+    expect(replayed).toEqual(recorded);
+    expect(replayed.writes[0].text).not.toBe(replayed.writes[1].text);
+  });
+
+  it("fails a request that was never recorded", async () => {
+    useCassettes({ mode: "record", dir: TEST_DIR });
+    await judge("mock:judge");
+    useCassettes({ mode: "replay", dir: TEST_DIR });
+    await judge("mock:judge");
+    await expect(judge("mock:judge")).rejects.toThrow(/No cassette for mock:judge/);
+  });
+
+  it("replays recorded provider errors", async () => {
+    configureMockProvider({ faults: { judge: { rateLimit: 1 } } });
+    useCassettes({ mode: "record", dir: TEST_DIR });
+    const recorded = await judge("mock:judge").catch((e) => e);
+    expect(isProviderError(recorded)).toBe(true);
+
+    configureMockProvider();
+    useCassettes({ mode: "replay", dir: TEST_DIR });
+    const replayed = await judge("mock:judge").catch((e) => e);
+    expect(isProviderError(replayed)).toBe(true);
+    expect(replayed.statusCode).toBe(429);
+    expect(replayed.message).toBe(recorded.message);
+  });
+});
@@ -0,0 +1,275 @@
+import { createHash } from "crypto";
+import { existsSync } from "fs";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { APICallError, simulateReadableStream } from "ai";
+import type { ProviderModel } from "./registry.js";
+
+// ── Types ───────────────────────────────────────────
+
+type CallOptions = Parameters<ProviderModel["doGenerate"]>[0];
+type GenerateResult = Awaited<ReturnType<ProviderModel["doGenerate"]>>;
+type StreamResult = Awaited<ReturnType<ProviderModel["doStream"]>>;
+type StreamPart = StreamResult["stream"] extends ReadableStream<infer P> ? P : never;
+
+/** Record provider traffic to cassettes, or replay it from them. */
+export interface CassetteConfig {
+  mode: "record" | "replay";
+  /** Directory of cassette files. */
+  dir: string;
+}
+
+/**
+ * One recorded model call: the request that was hashed to find it and
+ * either the response or the error it produced.
+ */
+export interface CassetteEntry {
+  /** provider:model spec the call was made to. */
+  model: string;
+  call: "generate" | "stream";
+  request: CassetteRequest;
+  response?: {
+    text: string;
+    reasoning?: string;
+    usage: GenerateResult["usage"];
+    finishReason: GenerateResult["finishReason"];
+  };
+  error?: {
+    name: string;
+    message: string;
+    statusCode?: number;
+    responseBody?: string;
+  };
+  recordedAt: string;
+}
+
+/** The call parameters that identify a request (everything but transport). */
+type CassetteRequest = Pick<
+  CallOptions,
+  "prompt" | "responseFormat" | "temperature" | "maxOutputTokens" | "topP" | "topK"
+  | "stopSequences" | "seed" | "providerOptions"
+>;
+
+// ── Mode ────────────────────────────────────────────
+
+let active: CassetteConfig | null = null;
+
+/** Occurrences of each request hash so far, so repeated requests map to separate cassettes. */
+const occurrences = new Map<string, number>();
+
+/**
+ * Turn cassettes on (or off with null) for every model resolveModel
+ * returns from now on, and restart occurrence counting.
+ */
+export function useCassettes(config: CassetteConfig | null): void {
+  active = config;
+  occurrences.clear();
+}
+
+/** The current cassette mode, or null when calls go straight to providers. */
+export function activeCassettes(): CassetteConfig | null {
+  return active;
+}
+
+// ── Keys ────────────────────────────────────────────
+
+function cassetteRequest(options: CallOptions): CassetteRequest {
+  const {
+    prompt, responseFormat, temperature, maxOutputTokens, topP, topK,
+    stopSequences, seed, providerOptions,
+  } = options;
+  return { prompt, responseFormat, temperature, maxOutputTokens, topP, topK, stopSequences, seed, providerOptions };
+}
+
+/**
+ * Hash of a request: the model spec, call kind and request parameters.
+ * First 16 hex chars of SHA-256, like the sample cache's keys.
+ */
+export function cassetteHash(model: string, call: CassetteEntry["call"], request: CassetteRequest): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ model, call, request }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Cassette file of the next occurrence of a request. The nth identical
+ * request of a session (e.g. several outputs for one prompt) gets the
+ * nth cassette, so a replay serves each recorded response once.
+ */
+function cassettePath(dir: string, hash: string): string {
+  const n = (occurrences.get(hash) ?? 0) + 1;
+  occurrences.set(hash, n);
+  return join(dir, `${hash}-${n}.json`);
+}
+
+// ── Recording ───────────────────────────────────────
+
+async function save(path: string, entry: CassetteEntry): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmpPath = path + ".tmp";
+  await writeFile(tmpPath, JSON.stringify(entry, null, 2));
+  await rename(tmpPath, path);
+}
+
+function recordedError(err: unknown): CassetteEntry["error"] {
+  const e = err instanceof Error ? err : new Error(String(err));
+  return {
+    name: e.name,
+    message: e.message,
+    statusCode: APICallError.isInstance(e) ? e.statusCode : undefined,
+    responseBody: APICallError.isInstance(e) ? e.responseBody : undefined,
+  };
+}
+
+/**
+ * Wrap `model` so every call made through it is written to a cassette
+ * in `dir`: text, reasoning, usage and finish reason, or the error.
+ * Streams are passed through unchanged and saved when they finish.
+ */
+export function recordingModel(model: ProviderModel, spec: string, dir: string): ProviderModel {
+  const entry = (call: CassetteEntry["call"], request: CassetteRequest): CassetteEntry => ({
+    model: spec, call, request, recordedAt: new Date().toISOString(),
+  });
+
+  return {
+    specificationVersion: "v3",
+    provider: model.provider,
+    modelId: model.modelId,
+    supportedUrls: model.supportedUrls,
+
+    async doGenerate(options) {
+      const request = cassetteRequest(options);
+      const path = cassettePath(dir, cassetteHash(spec, "generate", request));
+      let result: GenerateResult;
+      try {
+        result = await model.doGenerate(options);
+      } catch (err) {
+        await save(path, { ...entry("generate", request), error: recordedError(err) });
+        throw err;
+      }
+      const text = result.content.flatMap((c) => (c.type === "text" ? [c.text] : [])).join("");
+      const reasoning = result.content.flatMap((c) => (c.type === "reasoning" ? [c.text] : [])).join("");
+      await save(path, {
+        ...entry("generate", request),
+        response: { text, reasoning: reasoning || undefined, usage: result.usage, finishReason: result.finishReason },
+      });
+      return result;
+    },
+
+    async doStream(options) {
+      const request = cassetteRequest(options);
+      const path = cassettePath(dir, cassetteHash(spec, "stream", request));
+      let result: StreamResult;
+      try {
+        result = await model.doStream(options);
+      } catch (err) {
+        await save(path, { ...entry("stream", request), error: recordedError(err) });
+        throw err;
+      }
+
+      let text = "";
+      let reasoning = "";
+      let finish: Extract<StreamPart, { type: "finish" }> | undefined;
+      let error: unknown;
+      const stream = result.stream.pipeThrough(new TransformStream<StreamPart, StreamPart>({
+        transform(part, controller) {
+          if (part.type === "text-delta") text += part.delta;
+          else if (part.type === "reasoning-delta") reasoning += part.delta;
+          else if (part.type === "finish") finish = part;
+          else if (part.type === "error") error = part.error;
+          controller.enqueue(part);
+        },
+        async flush() {
+          await save(path, error !== undefined || !finish
+            ? { ...entry("stream", request), error: recordedError(error ?? new Error("Stream ended without finishing")) }
+            : {
+                ...entry("stream", request),
+                response: { text, reasoning: reasoning || undefined, usage: finish.usage, finishReason: finish.finishReason },
+              });
+        },
+      }));
+      return { ...result, stream };
+    },
+  };
+}
+
+// ── Replay ──────────────────────────────────────────
+
+function replayError(error: NonNullable<CassetteEntry["error"]>, spec: string): Error {
+  if (error.statusCode != null) {
+    return new APICallError({
+      message: error.message,
+      url: `cassette://${spec}`,
+      requestBodyValues: {},
+      statusCode: error.statusCode,
+      responseBody: error.responseBody,
+    });
+  }
+  const err = new Error(error.message);
+  err.name = error.name;
+  return err;
+}
+
+async function load(
+  dir: string,
+  spec: string,
+  call: CassetteEntry["call"],
+  options: CallOptions,
+): Promise<NonNullable<CassetteEntry["response"]>> {
+  const hash = cassetteHash(spec, call, cassetteRequest(options));
+  const path = cassettePath(dir, hash);
+  if (!existsSync(path)) {
+    throw new Error(`No cassette for ${spec} request ${hash} (${path})`);
+  }
+  const entry: CassetteEntry = JSON.parse(await readFile(path, "utf-8"));
+  if (entry.error) throw replayError(entry.error, spec);
+  return entry.response!;
+}
+
+/**
+ * A model for `spec` that serves recorded responses from `dir` and
+ * never reaches the network. A request without a cassette fails;
+ * recorded errors are thrown again (provider errors with their status).
+ */
+export function replayModel(spec: string, dir: string): ProviderModel {
+  const [provider, ...rest] = spec.split(":");
+  return {
+    specificationVersion: "v3",
+    provider,
+    modelId: rest.join(":"),
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const r = await load(dir, spec, "generate", options);
+      return {
+        content: [
+          ...(r.reasoning ? [{ type: "reasoning" as const, text: r.reasoning }] : []),
+          { type: "text", text: r.text },
+        ],
+        finishReason: r.finishReason,
+        usage: r.usage,
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const r = await load(dir, spec, "stream", options);
+      const parts: StreamPart[] = [{ type: "stream-start", warnings: [] }];
+      if (r.reasoning) {
+        parts.push(
+          { type: "reasoning-start", id: "r" },
+          { type: "reasoning-delta", id: "r", delta: r.reasoning },
+          { type: "reasoning-end", id: "r" },
+        );
+      }
+      parts.push(
+        { type: "text-start", id: "t" },
+        { type: "text-delta", id: "t", delta: r.text },
+        { type: "text-end", id: "t" },
+        { type: "finish", usage: r.usage, finishReason: r.finishReason },
+      );
+      return { stream: simulateReadableStream({ chunks: parts, initialDelayInMs: null, chunkDelayInMs: null }) };
+    },
+  };
+}
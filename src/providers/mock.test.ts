@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import { generateObject, streamText } from "ai";
+import { z } from "zod";
+import { configureMockProvider } from "./mock.js";
+import { resolveModel } from "./registry.js";
+import { judgePair } from "../engine/judge.js";
+import { withRetry, isProviderError, isRetryable } from "../engine/retry.js";
+import type { ModelConfig, PromptConfig, WritingSample } from "../types.js";
+
+function mock(name: string): ModelConfig {
+  return { provider: "mock", model: name, label: name, registryId: `mock:${name}` };
+}
+
+const prompt: PromptConfig = {
+  id: "p1", name: "Prompt", tags: ["test"], description: "", prompt: "Write a story.",
+  judgingCriteria: ["Voice", "Pacing"],
+};
+
+async function write(model: string): Promise<{ text: string; finishReason: string }> {
+  const result = streamText({ model: await resolveModel(`mock:${model}`), prompt: prompt.prompt, maxRetries: 0 });
+  return { text: await result.text, finishReason: await result.finishReason };
+}
+
+function sample(id: string, text: string): WritingSample {
+  return {
+    id, model: id, promptId: "p1", outputIndex: 0, text, stage: "initial",
+    usage: { inputTokens: 0, outputTokens: 0 },
+    cost: { input: 0, output: 0, total: 0, totalUncached: 0 }, latencyMs: 0,
+  };
+}
+
+describe("mock provider", () => {
+  beforeEach(() => configureMockProvider({ strengths: { strong: 3, weak: -3 }, seed: 7 }));
+  afterAll(() => configureMockProvider());
+
+  it("writes deterministically for a given seed", async () => {
+    const first = [await write("strong"), await write("strong")];
+    configureMockProvider({ strengths: { strong: 3, weak: -3 }, seed: 7 });
+    const again = [await write("strong"), await write("strong")];
+    expect(again).toEqual(first);
+    expect(first[0].text).not.toBe(first[1].text);
+    expect(first[0].finishReason).toBe("stop");
+  });
+
+  it("judges by latent strength through the real judge path", async () => {
+    const a = sample("a", (await write("strong")).text);
+    const b = sample("b", (await write("weak")).text);
+    const judge = mock("judge");
+    const verdicts = [];
+    for (let i = 0; i < 5; i++) {
+      verdicts.push((await judgePair(judge, prompt, a, b, null, true, undefined, true)).winner);
+    }
+    expect(verdicts).toEqual(["A", "A", "A", "A", "A"]);
+
+    const reversed = await judgePair(judge, prompt, b, a, null, true, undefined, true);
+    expect(reversed.winner).toBe("B");
+    expect(Object.values(reversed.criterionWinners!)).toEqual(["B", "B"]);
+  });
+
+  it("reports reasoning tokens and keeps the judge's hidden reasoning", async () => {
+    const a = sample("a", (await write("strong")).text);
+    const b = sample("b", (await write("weak")).text);
+    const plain = await judgePair(mock("judge"), prompt, a, b, null);
+    expect(plain.reasoningSummary).toBeUndefined();
+    expect(plain.usage.reasoningTokens).toBeUndefined();
+
+    const thinking = await judgePair({ ...mock("judge"), params: { reasoningEffort: "high" } }, prompt, a, b, null);
+    expect(thinking.reasoningSummary).toBe("Mock reasoning at high effort over 2 sample(s).");
+    expect(thinking.usage.reasoningTokens).toBeGreaterThan(0);
+    expect(thinking.usage.outputTokens).toBe(plain.usage.outputTokens + thinking.usage.reasoningTokens!);
+  });
+
+  it("injects provider errors that withRetry does not retry", async () => {
+    configureMockProvider({ faults: { judge: { rateLimit: 1 } } });
+    let calls = 0;
+    const err = await withRetry(() => {
+      calls++;
+      return judgePair(mock("judge"), prompt, sample("a", "x"), sample("b", "y"), null);
+    }, 3, 0).catch((e) => e);
+    expect(isProviderError(err)).toBe(true);
+    expect(err.statusCode).toBe(429);
+    expect(calls).toBe(1);
+  });
+
+  it("truncates output with finishReason length", async () => {
+    configureMockProvider({ faults: { "*": { truncation: 1 } } });
+    expect((await write("strong")).finishReason).toBe("length");
+  });
+
+  it("returns malformed JSON that withRetry retries until it parses", async () => {
+    const judge = await resolveModel("mock:judge");
+    const schema = z.object({ winner: z.enum(["A", "B", "tie"]) });
+    configureMockProvider({ faults: { judge: { malformedJson: 1 } } });
+    const err = await generateObject({ model: judge, schema, prompt: "Judge.", maxRetries: 0 }).catch((e) => e);
+    expect(isRetryable(err)).toBe(true);
+
+    configureMockProvider({ faults: { judge: { malformedJson: 0.5 } }, seed: 4 });
+    let calls = 0;
+    const result = await withRetry(() => {
+      calls++;
+      return generateObject({ model: judge, schema, prompt: "Judge.", maxRetries: 0 });
+    }, 5, 0);
+    expect(["A", "B", "tie"]).toContain(result.object.winner);
+    // Seed 4 draws two malformed replies before a valid one
+    expect(calls).toBe(3);
+  });
+});
@@ -0,0 +1,296 @@
+import { APICallError, simulateReadableStream } from "ai";
+import { keyedRandom, type Random } from "../engine/random.js";
+import type { ProviderModel } from "./registry.js";
+
+/**
+ * Provider name of the built-in offline mock. `mock:<id>` models never
+ * reach the network or models.dev; they produce deterministic synthetic
+ * writing, feedback and judgments for end-to-end tests and dry runs.
+ */
+export const MOCK_PROVIDER = "mock";
+
+/** Environment variable holding a JSON MockProviderConfig for CLI runs. */
+export const MOCK_CONFIG_ENV = "WRITING_BENCH_MOCK";
+
+// ── Types ───────────────────────────────────────────
+
+type CallOptions = Parameters<ProviderModel["doGenerate"]>[0];
+type GenerateResult = Awaited<ReturnType<ProviderModel["doGenerate"]>>;
+type StreamPart = Awaited<ReturnType<ProviderModel["doStream"]>>["stream"] extends ReadableStream<infer P>
+  ? P
+  : never;
+
+/** Share of a mock model's calls (0-1) that fail in each way. */
+export interface MockFaults {
+  /** HTTP 429 Too Many Requests. */
+  rateLimit?: number;
+  /** HTTP 503 Service Unavailable. */
+  serverError?: number;
+  /** Output cut short with finishReason "length". */
+  truncation?: number;
+  /** JSON replies (judgments, scores) that do not parse. */
+  malformedJson?: number;
+}
+
+export interface MockProviderConfig {
+  /**
+   * Latent strength per mock model ID (default 0). Writing quality,
+   * feedback usefulness and, through them, every verdict follow it: a
+   * sample beats another with logistic odds of their quality gap.
+   */
+  strengths: Record<string, number>;
+  /** Injected faults per mock model ID; "*" applies to every model. */
+  faults: Record<string, MockFaults>;
+  /** Seed of every mock draw. */
+  seed: number;
+}
+
+// ── Configuration ───────────────────────────────────
+
+const DEFAULT_CONFIG: MockProviderConfig = { strengths: {}, faults: {}, seed: 0 };
+
+let config: MockProviderConfig | null = null;
+
+/** Times each distinct request was made, so repeats draw afresh. */
+const callCounts = new Map<string, number>();
+
+/**
+ * Replace the mock provider's configuration (unset fields take their
+ * defaults) and restart its call counters, so a configured run is
+ * reproducible from its first call.
+ */
+export function configureMockProvider(overrides: Partial<MockProviderConfig> = {}): void {
+  config = { ...DEFAULT_CONFIG, ...overrides };
+  callCounts.clear();
+}
+
+function currentConfig(): MockProviderConfig {
+  if (!config) {
+    const raw = process.env[MOCK_CONFIG_ENV];
+    let parsed: Partial<MockProviderConfig> = {};
+    if (raw) {
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        throw new Error(`Invalid ${MOCK_CONFIG_ENV}: expected a JSON object`);
+      }
+    }
+    configureMockProvider(parsed);
+  }
+  return config!;
+}
+
+// ── Synthetic Content ───────────────────────────────
+
+// Every mock output ends in a marker carrying its latent quality, so
+// later calls that quote it (feedback, revision, judging) can read it back.
+const SAMPLE_MARKER = /\[\[mock-sample q=(-?\d+(?:\.\d+)?)\]\]/g;
+const FEEDBACK_MARKER = /\[\[mock-feedback s=(-?\d+(?:\.\d+)?)\]\]/;
+const DRAFT_HEADING = /--- Your (?:original writing|previous draft) ---/;
+
+/** Quality gain of a revision per unit of the reviser's guide strength. */
+const REVISION_GAIN = 0.5;
+
+/** Half-width of the band around even odds that judges call a tie. */
+const TIE_BAND = 0.05;
+
+const FILLER =
+  "The mock writer sets down a measured paragraph of plain synthetic prose, steady in rhythm and even in tone.";
+
+function noise(random: Random, spread: number): number {
+  return (random() - 0.5) * 2 * spread;
+}
+
+function sampleText(modelId: string, quality: number, revised: boolean): string {
+  const lead = revised ? `Revised piece by ${modelId}.` : `Piece by ${modelId}.`;
+  return `${lead}\n\n${FILLER}\n\n${FILLER}\n\n[[mock-sample q=${quality.toFixed(4)}]]`;
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/** Fixed array length a JSON schema property requires, if any. */
+function arrayLength(schema: unknown, property: string): number {
+  const prop = (schema as { properties?: Record<string, { minItems?: number }> } | undefined)
+    ?.properties?.[property];
+  return prop?.minItems ?? 1;
+}
+
+function hasProperty(schema: unknown, property: string): boolean {
+  return !!(schema as { properties?: Record<string, unknown> } | undefined)?.properties?.[property];
+}
+
+/**
+ * A pairwise verdict (or pointwise scores, for one sample) fitting the
+ * requested JSON schema. Samples are read from the quality markers in
+ * the order they appear: the first is A, the second B.
+ */
+function judgmentReply(qualities: number[], schema: unknown, random: Random): object {
+  if (hasProperty(schema, "scores")) {
+    const q = qualities[0] ?? 0;
+    const n = arrayLength(schema, "scores");
+    const scores = Array.from({ length: n }, () =>
+      Math.min(10, Math.max(1, Math.round(5.5 + 1.5 * q + noise(random, 1)))),
+    );
+    return { scores, reasoning: "Mock scores from latent quality." };
+  }
+
+  const [qa = 0, qb = 0] = qualities;
+  const pA = sigmoid(qa - qb);
+  const u = random();
+  const winner = u < pA - TIE_BAND ? "A" : u > pA + TIE_BAND ? "B" : "tie";
+  const strong = Math.abs(pA - 0.5) > 0.3;
+  const preference = winner === "tie" ? "tie" : winner === "A" ? (strong ? "A>>B" : "A>B") : (strong ? "B>>A" : "B>A");
+  return {
+    winner,
+    preference,
+    criteria: Array.from({ length: arrayLength(schema, "criteria") }, () => winner),
+    reasoning: `Mock verdict at ${(pA * 100).toFixed(0)}% odds for A.`,
+  };
+}
+
+// ── Model ───────────────────────────────────────────
+
+interface Reply {
+  text: string;
+  /** Hidden reasoning, produced when the call asks for a reasoning effort. */
+  reasoning?: string;
+  finishReason: "stop" | "length";
+  inputTokens: number;
+}
+
+function promptText(options: CallOptions): { system: string; user: string } {
+  let system = "";
+  let user = "";
+  for (const message of options.prompt) {
+    if (message.role === "system") system += message.content;
+    else if (message.role === "user") {
+      for (const part of message.content) if (part.type === "text") user += part.text;
+    }
+  }
+  return { system, user };
+}
+
+function tokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Reasoning effort requested of a mock model (e.g. `mock:judge@effort=high`), if any. */
+function reasoningEffort(options: CallOptions): string | undefined {
+  const effort = options.providerOptions?.[MOCK_PROVIDER]?.reasoningEffort;
+  return typeof effort === "string" ? effort : undefined;
+}
+
+/**
+ * Answer one call: inject any configured fault, then classify it by
+ * what it quotes. A JSON response format means judging or scoring;
+ * otherwise a quoted draft of the writer's own means revision (guided
+ * by the quoted feedback, if any), another quoted sample means
+ * feedback, and no sample means a fresh write. With a reasoning
+ * effort, the reply also carries a short hidden reasoning.
+ */
+function reply(modelId: string, options: CallOptions): Reply {
+  const cfg = currentConfig();
+  const { system, user } = promptText(options);
+  const key = `${modelId}\u0000${system}\u0000${user}`;
+  const call = (callCounts.get(key) ?? 0) + 1;
+  callCounts.set(key, call);
+  const random = keyedRandom(cfg.seed, `${key}\u0000${call}`);
+  const faults = { ...cfg.faults["*"], ...cfg.faults[modelId] };
+  const strength = cfg.strengths[modelId] ?? 0;
+  const format = options.responseFormat;
+
+  if (random() < (faults.rateLimit ?? 0)) throw providerError(modelId, 429, "Too Many Requests");
+  if (random() < (faults.serverError ?? 0)) throw providerError(modelId, 503, "Service Unavailable");
+
+  const qualities = [...user.matchAll(SAMPLE_MARKER)].map((m) => Number(m[1]));
+  const guide = user.match(FEEDBACK_MARKER);
+  let text: string;
+  if (format?.type === "json") {
+    text = JSON.stringify(judgmentReply(qualities, format.schema, random));
+    if (random() < (faults.malformedJson ?? 0)) text = text.slice(0, -1);
+  } else if (qualities.length > 0 && DRAFT_HEADING.test(user)) {
+    const guideStrength = guide ? Number(guide[1]) : strength;
+    const quality = qualities[0] + REVISION_GAIN * guideStrength + noise(random, 0.25);
+    text = sampleText(modelId, quality, true);
+  } else if (qualities.length > 0) {
+    text = `Feedback from ${modelId}: tighten the middle and sharpen the close.\n\n[[mock-feedback s=${strength.toFixed(4)}]]`;
+  } else {
+    text = sampleText(modelId, strength + noise(random, 0.5), false);
+  }
+
+  const effort = reasoningEffort(options);
+  const reasoning = effort
+    ? `Mock reasoning at ${effort} effort over ${qualities.length} sample(s).`
+    : undefined;
+  if (random() < (faults.truncation ?? 0)) {
+    return {
+      text: text.slice(0, Math.floor(text.length / 2)), reasoning, finishReason: "length",
+      inputTokens: tokens(system + user),
+    };
+  }
+  return { text, reasoning, finishReason: "stop", inputTokens: tokens(system + user) };
+}
+
+function providerError(modelId: string, statusCode: number, status: string): APICallError {
+  return new APICallError({
+    message: `${status} (status ${statusCode}) from ${MOCK_PROVIDER}:${modelId}`,
+    url: `${MOCK_PROVIDER}://${modelId}`,
+    requestBodyValues: {},
+    statusCode,
+  });
+}
+
+function usage(r: Reply): GenerateResult["usage"] {
+  return {
+    inputTokens: { total: r.inputTokens, noCache: r.inputTokens, cacheRead: undefined, cacheWrite: undefined },
+    outputTokens: {
+      total: tokens(r.text) + tokens(r.reasoning ?? ""),
+      text: tokens(r.text),
+      reasoning: r.reasoning ? tokens(r.reasoning) : undefined,
+    },
+  };
+}
+
+/** An offline mock LanguageModel for `mock:<modelId>`. */
+export function mockLanguageModel(modelId: string): ProviderModel {
+  return {
+    specificationVersion: "v3",
+    provider: MOCK_PROVIDER,
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const r = reply(modelId, options);
+      return {
+        content: [
+          ...(r.reasoning ? [{ type: "reasoning" as const, text: r.reasoning }] : []),
+          { type: "text", text: r.text },
+        ],
+        finishReason: { unified: r.finishReason, raw: r.finishReason },
+        usage: usage(r),
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const r = reply(modelId, options);
+      const chunks: StreamPart[] = [{ type: "stream-start", warnings: [] }];
+      if (r.reasoning) {
+        chunks.push(
+          { type: "reasoning-start", id: "r" },
+          { type: "reasoning-delta", id: "r", delta: r.reasoning },
+          { type: "reasoning-end", id: "r" },
+        );
+      }
+      chunks.push(
+        { type: "text-start", id: "0" },
+        { type: "text-delta", id: "0", delta: r.text },
+        { type: "text-end", id: "0" },
+        { type: "finish", usage: usage(r), finishReason: { unified: r.finishReason, raw: r.finishReason } },
+      );
+      return { stream: simulateReadableStream({ chunks, initialDelayInMs: null, chunkDelayInMs: null }) };
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "bun:test";
+import { calculateCost } from "./models.js";
+import { extractUsage, type ModelInfo } from "../types.js";
+
+const info: ModelInfo = {
+  name: "O Test", family: "o", openWeights: false, supportsTemperature: false,
+  supportsStructuredOutput: true, contextLimit: 200_000, outputLimit: 100_000,
+  costPer1MInput: 2, costPer1MOutput: 8,
+};
+
+describe("calculateCost", () => {
+  it("prices reasoning tokens as output when no reasoning rate is listed", () => {
+    const cost = calculateCost(info, { inputTokens: 1_000_000, outputTokens: 1_000_000, reasoningTokens: 400_000 });
+    expect(cost.output).toBeCloseTo(8);
+    expect(cost.reasoning).toBeCloseTo(3.2);
+    expect(cost.total).toBeCloseTo(10);
+  });
+
+  it("prices reasoning tokens at their own rate", () => {
+    const cost = calculateCost(
+      { ...info, costPer1MReasoning: 16 },
+      { inputTokens: 0, outputTokens: 1_000_000, reasoningTokens: 250_000 },
+    );
+    expect(cost.reasoning).toBeCloseTo(4);
+    expect(cost.output).toBeCloseTo(0.75 * 8 + 4);
+    expect(calculateCost(info, { inputTokens: 0, outputTokens: 1_000 }).reasoning).toBeUndefined();
+  });
+});
+
+describe("extractUsage", () => {
+  it("reads reasoning tokens from outputTokenDetails", () => {
+    const usage = extractUsage({ inputTokens: 10, outputTokens: 50, outputTokenDetails: { reasoningTokens: 30 } });
+    expect(usage).toMatchObject({ inputTokens: 10, outputTokens: 50, reasoningTokens: 30 });
+    expect(extractUsage({ outputTokens: 5, outputTokenDetails: { reasoningTokens: 0 } }).reasoningTokens).toBeUndefined();
+  });
+});
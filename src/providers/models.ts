@@ -2,6 +2,8 @@ import { existsSync } from "fs";
 import { readFile, writeFile, mkdir } from "fs/promises";
 import { join } from "path";
 import type { ModelInfo, CostBreakdown, TokenUsage } from "../types.js";
+import { MOCK_PROVIDER } from "./mock.js";
+import { splitModelParams } from "./params.js";
 
 const MODELS_API_URL = "https://models.dev/api.json";
 const CACHE_FILE = join(process.cwd(), "data", "models-cache.json");
@@ -23,6 +25,7 @@ interface ModelsDevModel {
     output: number;
     cache_read?: number;
     cache_write?: number;
+    reasoning?: number;
   };
   limit?: {
     context?: number;
@@ -124,13 +127,18 @@ export async function getProviderMeta(
 
 /**
  * Look up the human-friendly model display name from models.dev (e.g. "Claude Sonnet 4").
+ * A model with spec parameters keeps them: "GPT-4o @t=1".
  */
 export async function getModelDisplayName(
   provider: string,
   model: string
 ): Promise<string | null> {
+  if (provider === MOCK_PROVIDER) return null;
   const db = await fetchModelsDb();
-  return db[provider]?.models[model]?.name ?? null;
+  const { base, params } = splitModelParams(model);
+  const name = db[provider]?.models[base]?.name;
+  if (!name) return null;
+  return params != null ? `${name} @${params}` : name;
 }
 
 /**
@@ -139,6 +147,7 @@ export async function getModelDisplayName(
 export async function getProviderDisplayName(
   provider: string
 ): Promise<string | null> {
+  if (provider === MOCK_PROVIDER) return null;
   const db = await fetchModelsDb();
   return db[provider]?.name ?? null;
 }
@@ -146,16 +155,18 @@ export async function getProviderDisplayName(
 /**
  * Look up model metadata from the models.dev database.
  * Provider names are models.dev provider IDs (e.g., "google-vertex", "openai").
+ * Mock models have no metadata (and cost nothing).
  */
 export async function getModelInfo(
   provider: string,
   model: string
 ): Promise<ModelInfo | null> {
+  if (provider === MOCK_PROVIDER) return null;
   const db = await fetchModelsDb();
   const providerData = db[provider];
   if (!providerData) return null;
 
-  const modelData = providerData.models[model];
+  const modelData = providerData.models[splitModelParams(model).base];
   if (!modelData) return null;
 
   return {
@@ -171,6 +182,7 @@ export async function getModelInfo(
     costPer1MOutput: modelData.cost?.output ?? 0,
     costPer1MCacheRead: modelData.cost?.cache_read,
     costPer1MCacheWrite: modelData.cost?.cache_write,
+    costPer1MReasoning: modelData.cost?.reasoning,
   };
 }
 
@@ -187,6 +199,8 @@ export async function getModelInfo(
 export async function checkProviderEnv(
   providers: string[]
 ): Promise<string[]> {
+  providers = providers.filter((p) => p !== MOCK_PROVIDER);
+  if (providers.length === 0) return [];
   const db = await fetchModelsDb();
   const warnings: string[] = [];
   const checked = new Set<string>();
@@ -237,7 +251,12 @@ export function calculateCost(
     return { input: 0, output: 0, total: 0, totalUncached: 0 };
   }
 
-  const output = (usage.outputTokens / 1_000_000) * modelInfo.costPer1MOutput;
+  // Reasoning tokens are part of outputTokens, at their own rate if models.dev lists one
+  const reasoningTokens = usage.reasoningTokens ?? 0;
+  const reasoning =
+    (reasoningTokens / 1_000_000) * (modelInfo.costPer1MReasoning ?? modelInfo.costPer1MOutput);
+  const output =
+    ((usage.outputTokens - reasoningTokens) / 1_000_000) * modelInfo.costPer1MOutput + reasoning;
 
   // Uncached: all input tokens at full rate
   const uncachedInput =
@@ -262,6 +281,7 @@ export function calculateCost(
     output,
     total: actualInput + output,
     totalUncached: uncachedInput + output,
+    reasoning: reasoningTokens > 0 ? reasoning : undefined,
   };
 }
 
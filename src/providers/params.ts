@@ -0,0 +1,139 @@
+import type { GenerationParams } from "../types.js";
+
+// ── Spec parameters ─────────────────────────────────
+// Generation settings written into a model spec after "@":
+//   openai:gpt-4o@t=1.0,top_p=0.9
+//   anthropic:claude-sonnet-4-5@thinking=8000=sonnet-thinking
+// They are part of the model's identity: the canonical suffix stays on
+// the model ID, so each setting is cached and rated as its own player.
+
+/** Start of a parameter suffix: an "@" followed by key=. Vertex model IDs may contain a bare "@date". */
+const PARAMS_START = /@(?=[A-Za-z_][\w.]*=)/;
+
+/** Spec keys (and their aliases) in canonical order. */
+const PARAM_KEYS: { key: string; aliases: string[]; field: Exclude<keyof GenerationParams, "providerOptions"> }[] = [
+  { key: "t", aliases: ["temperature"], field: "temperature" },
+  { key: "top_p", aliases: ["topP"], field: "topP" },
+  { key: "max_tokens", aliases: ["maxTokens"], field: "maxTokens" },
+  { key: "effort", aliases: ["reasoning_effort", "reasoningEffort"], field: "reasoningEffort" },
+  { key: "thinking", aliases: ["thinking_budget", "thinkingBudget"], field: "thinkingBudget" },
+];
+
+function parseNumber(value: string, key: string, spec: string, check: (n: number) => boolean, expected: string): number {
+  const n = Number(value);
+  if (value.trim() === "" || isNaN(n) || !check(n)) {
+    throw new Error(`Invalid model spec "${spec}": ${key} must be ${expected}`);
+  }
+  return n;
+}
+
+function parseValue(
+  field: Exclude<keyof GenerationParams, "providerOptions">,
+  key: string,
+  value: string,
+  spec: string,
+): number | string {
+  switch (field) {
+    case "temperature":
+      return parseNumber(value, key, spec, (n) => n >= 0 && n <= 2, "between 0 and 2");
+    case "topP":
+      return parseNumber(value, key, spec, (n) => n > 0 && n <= 1, "in (0, 1]");
+    case "maxTokens":
+    case "thinkingBudget":
+      return parseNumber(value, key, spec, (n) => Number.isInteger(n) && n > 0, "a positive integer");
+    case "reasoningEffort":
+      if (!/^[a-z]+$/.test(value)) {
+        throw new Error(`Invalid model spec "${spec}": ${key} must be a level such as low, medium or high`);
+      }
+      return value;
+  }
+}
+
+/** A provider option value: booleans and numbers are typed, anything else stays a string. */
+function parseOptionValue(value: string): string | number | boolean {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (value.trim() !== "" && !isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+/**
+ * Split a model ID (or the part of a spec after "provider:") at its
+ * parameter suffix. `params` is everything after the "@", if any.
+ */
+export function splitModelParams(model: string): { base: string; params?: string } {
+  const at = model.search(PARAMS_START);
+  if (at < 0) return { base: model };
+  return { base: model.slice(0, at), params: model.slice(at + 1) };
+}
+
+/** The model ID to send to the provider: `model` without its parameter suffix. */
+export function baseModelId(model: string): string {
+  return splitModelParams(model).base;
+}
+
+/**
+ * Parse a parameter suffix: comma-separated key=value pairs, where a
+ * trailing "=label" on the last pair is the spec's label. Keys are
+ * t, top_p, max_tokens, effort and thinking (or their long names), or
+ * "<provider>.<option>" to pass an option through to the AI SDK.
+ */
+export function parseGenerationParams(suffix: string, spec: string): { params: GenerationParams; label?: string } {
+  const params: GenerationParams = {};
+  let label: string | undefined;
+  const parts = suffix.split(",");
+  parts.forEach((part, i) => {
+    const eq = part.indexOf("=");
+    if (eq <= 0) {
+      throw new Error(`Invalid model spec "${spec}": expected key=value parameters after "@", got "${part}"`);
+    }
+    const key = part.slice(0, eq);
+    let value = part.slice(eq + 1);
+    const labelEq = value.indexOf("=");
+    if (labelEq >= 0) {
+      if (i < parts.length - 1) {
+        throw new Error(`Invalid model spec "${spec}": the =label must come after the last parameter`);
+      }
+      label = value.slice(labelEq + 1);
+      value = value.slice(0, labelEq);
+    }
+
+    const dot = key.indexOf(".");
+    if (dot > 0) {
+      const provider = key.slice(0, dot);
+      params.providerOptions = {
+        ...params.providerOptions,
+        [provider]: { ...params.providerOptions?.[provider], [key.slice(dot + 1)]: parseOptionValue(value) },
+      };
+      return;
+    }
+    const known = PARAM_KEYS.find((p) => p.key === key || p.aliases.includes(key));
+    if (!known) {
+      throw new Error(
+        `Invalid model spec "${spec}": unknown parameter "${key}". ` +
+        `Expected ${PARAM_KEYS.map((p) => p.key).join(", ")} or provider.option`,
+      );
+    }
+    (params as Record<string, unknown>)[known.field] = parseValue(known.field, key, value, spec);
+  });
+  return { params, label };
+}
+
+/**
+ * Canonical parameter suffix (without the "@"): short keys in a fixed
+ * order, then provider options sorted, numbers in their shortest form.
+ * `t=1.0,top_p=0.9` and `top_p=0.90,temperature=1` give the same suffix.
+ */
+export function formatGenerationParams(params: GenerationParams): string {
+  const parts: string[] = [];
+  for (const { key, field } of PARAM_KEYS) {
+    if (params[field] != null) parts.push(`${key}=${params[field]}`);
+  }
+  for (const provider of Object.keys(params.providerOptions ?? {}).sort()) {
+    const options = params.providerOptions![provider];
+    for (const option of Object.keys(options).sort()) {
+      parts.push(`${provider}.${option}=${options[option]}`);
+    }
+  }
+  return parts.join(",");
+}
@@ -110,4 +110,52 @@ describe("parseModelSpec", () => {
       parseModelSpec("opencode:model-free=BadLabel~opencode:model")
     ).toThrow("Labels (=) are not allowed on the API endpoint side");
   });
+
+  // ── Generation parameters ─────────────────────────
+
+  it("keeps canonical parameters on the model ID", () => {
+    const result = parseModelSpec("openai:gpt-4o@top_p=0.90,temperature=1.0");
+    expect(result.model).toBe("gpt-4o@t=1,top_p=0.9");
+    expect(result.label).toBe("gpt-4o@t=1,top_p=0.9");
+    expect(result.registryId).toBe("openai:gpt-4o@t=1,top_p=0.9");
+    expect(result.params).toEqual({ temperature: 1, topP: 0.9 });
+    expect(parseModelSpec("openai:gpt-4o@t=0.3").registryId).not.toBe(result.registryId);
+  });
+
+  it("takes the label from the last parameter", () => {
+    const result = parseModelSpec("anthropic:claude-sonnet-4-5@thinking=8000,max_tokens=16000=deep");
+    expect(result.model).toBe("claude-sonnet-4-5@max_tokens=16000,thinking=8000");
+    expect(result.label).toBe("deep");
+    expect(result.params).toEqual({ thinkingBudget: 8000, maxTokens: 16000 });
+  });
+
+  it("passes provider options through", () => {
+    const result = parseModelSpec("openai:o3@effort=high,openai.serviceTier=flex,openai.store=false");
+    expect(result.params).toEqual({
+      reasoningEffort: "high",
+      providerOptions: { openai: { serviceTier: "flex", store: false } },
+    });
+    expect(result.model).toBe("o3@effort=high,openai.serviceTier=flex,openai.store=false");
+  });
+
+  it("does not treat a Vertex version suffix as parameters", () => {
+    const result = parseModelSpec("google-vertex-anthropic:claude-3-5-sonnet-v2@20241022@t=0.5");
+    expect(result.model).toBe("claude-3-5-sonnet-v2@20241022@t=0.5");
+    expect(result.params).toEqual({ temperature: 0.5 });
+    expect(parseModelSpec("google-vertex-anthropic:claude-3-5-sonnet-v2@20241022").params).toBeUndefined();
+  });
+
+  it("puts parameters of an alias on the canonical model", () => {
+    const result = parseModelSpec("opencode:model-free~opencode:model@t=1=Mine");
+    expect(result.registryId).toBe("opencode:model@t=1");
+    expect(result.label).toBe("Mine");
+    expect(result.apiModelIds).toEqual(["opencode:model-free"]);
+  });
+
+  it("rejects unknown or out-of-range parameters", () => {
+    expect(() => parseModelSpec("openai:gpt-4o@tmp=1")).toThrow('unknown parameter "tmp"');
+    expect(() => parseModelSpec("openai:gpt-4o@t=3")).toThrow("t must be between 0 and 2");
+    expect(() => parseModelSpec("openai:gpt-4o@max_tokens=1.5")).toThrow("max_tokens must be a positive integer");
+    expect(() => parseModelSpec("openai:gpt-4o@t=1=x,top_p=1")).toThrow("the =label must come after the last parameter");
+  });
 });
@@ -9,11 +9,18 @@ import { createVertex } from "@ai-sdk/google-vertex";
 import { createVertexAnthropic } from "@ai-sdk/google-vertex/anthropic";
 import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import { fetchModelsDb, getProviderMeta, type ProviderMeta } from "./models.js";
+import { MOCK_PROVIDER, mockLanguageModel } from "./mock.js";
+import { activeCassettes, recordingModel, replayModel } from "./cassette.js";
+import { baseModelId, formatGenerationParams, parseGenerationParams, splitModelParams } from "./params.js";
+import type { GenerationParams } from "../types.js";
 
 // ── Types ───────────────────────────────────────────
 
+/** The AI SDK language model interface (v3) every provider here implements. */
+export type ProviderModel = Extract<LanguageModel, { specificationVersion: "v3" }>;
+
 interface SDK {
-  languageModel(modelId: string): LanguageModel;
+  languageModel(modelId: string): ProviderModel;
 }
 
 // Each factory has different option types, but custom loaders
@@ -168,9 +175,23 @@ function getSDK(
  *   model.provider.npm > NPM_OVERRIDES[provider] > provider.npm
  * This allows proxy providers (opencode, openrouter) to use the upstream
  * SDK for models that need specific streaming format handling.
+ * The offline mock provider resolves without models.dev. With cassettes
+ * on (useCassettes), models record their traffic or, in replay mode,
+ * are served from recordings without resolving a provider at all.
+ * `apiBase` replaces the provider's base URL (e.g. a proxy or local server).
  */
-export async function resolveModel(modelId: string) {
-  const { provider, model } = parseModelSpec(modelId);
+export async function resolveModel(modelId: string, apiBase?: string): Promise<ProviderModel> {
+  const cassettes = activeCassettes();
+  if (cassettes?.mode === "replay") return replayModel(modelId, cassettes.dir);
+  const model = await resolveProviderModel(modelId, apiBase);
+  return cassettes ? recordingModel(model, modelId, cassettes.dir) : model;
+}
+
+async function resolveProviderModel(modelId: string, apiBase?: string): Promise<ProviderModel> {
+  const spec = parseModelSpec(modelId);
+  const provider = spec.provider;
+  const model = baseModelId(spec.model);
+  if (provider === MOCK_PROVIDER) return mockLanguageModel(model);
   const db = await fetchModelsDb();
   const providerData = db[provider];
   const modelNpm = providerData?.models[model]?.provider?.npm;
@@ -183,20 +204,25 @@ export async function resolveModel(modelId: string) {
   const meta = await getProviderMeta(provider);
   const loader = CUSTOM_LOADERS[provider];
   const loaderResult = loader?.(meta);
-  const sdk = getSDK(npm, loaderResult?.options);
+  const sdk = getSDK(npm, apiBase ? { ...loaderResult?.options, baseURL: apiBase } : loaderResult?.options);
   return sdk.languageModel(model);
 }
 
 /**
  * Parse a CLI model spec into its parts.
  *
- * Full format: provider:model[~canonical_provider:canonical_model][=label]
+ * Full format: provider:model[~canonical_provider:canonical_model][@params][=label]
  *
  * The first colon separates provider from model. Everything after
  * that colon is the model ID -- which may itself contain colons
  * (e.g. Ollama's "llama3.1:8b"). An optional "=label" suffix
  * provides an explicit display name.
  *
+ * An "@" followed by key=value pairs sets generation parameters (see
+ * parseGenerationParams). The model ID keeps their canonical form, so
+ * "gpt-4o@t=1.0" and "gpt-4o@t=0.3" are separate models for cache,
+ * labels and ratings.
+ *
  * The optional "~canonical" suffix declares that this API endpoint
  * serves the same model as the canonical spec. The canonical identity
  * is used for cache, labels, and ratings; the left-hand spec is used
@@ -213,6 +239,9 @@ export async function resolveModel(modelId: string) {
  *   "opencode:model-free~opencode:model=MyModel"
  *     → provider=opencode, model=model (canonical), label=MyModel,
  *       apiModelIds=["opencode:model-free"]
+ *   "openai:gpt-4o@temperature=1.0,top_p=0.9=hot"
+ *     → provider=openai, model=gpt-4o@t=1,top_p=0.9, label=hot,
+ *       params={ temperature: 1, topP: 0.9 }
  */
 export function parseModelSpec(spec: string): {
   provider: string;
@@ -220,6 +249,7 @@ export function parseModelSpec(spec: string): {
   label: string;
   registryId: string;
   apiModelIds?: string[];
+  params?: GenerationParams;
 } {
   // Check for ~ alias: split into API spec (left) and canonical spec (right).
   // Only treat ~ as an alias separator if the part after ~ contains a colon
@@ -254,6 +284,7 @@ export function parseModelSpec(spec: string): {
         label: canonical.label,
         registryId: canonical.registryId,
         apiModelIds: [apiPart],
+        params: canonical.params,
       };
     }
   }
@@ -263,13 +294,14 @@ export function parseModelSpec(spec: string): {
 }
 
 /**
- * Parse a simple "provider:model[=label]" spec (no alias handling).
+ * Parse a simple "provider:model[@params][=label]" spec (no alias handling).
  */
 function parseModelSpecSimple(spec: string): {
   provider: string;
   model: string;
   label: string;
   registryId: string;
+  params?: GenerationParams;
 } {
   const firstColon = spec.indexOf(":");
   if (firstColon < 0) {
@@ -281,6 +313,14 @@ function parseModelSpecSimple(spec: string): {
   const provider = spec.slice(0, firstColon);
   const rest = spec.slice(firstColon + 1);
 
+  // Parameters carry the label on their last pair, so parse them first
+  const split = splitModelParams(rest);
+  if (split.params != null) {
+    const { params, label } = parseGenerationParams(split.params, spec);
+    const model = `${split.base}@${formatGenerationParams(params)}`;
+    return { provider, model, label: label ?? model, registryId: `${provider}:${model}`, params };
+  }
+
   // Split on "=" for optional label; model may contain colons (e.g. ollama variants)
   const eqIdx = rest.indexOf("=");
   const model = eqIdx >= 0 ? rest.slice(0, eqIdx) : rest;
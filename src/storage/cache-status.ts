@@ -1,7 +1,7 @@
 import { stat, readdir } from "fs/promises";
 import { join } from "path";
 import type { PromptConfig, ProviderName } from "../types.js";
-import { hashPromptContent, modelKey, judgmentPairHash } from "./sample-cache.js";
+import { hashPromptContent, modelKey, judgmentPairHash, judgeTemplateHash } from "./sample-cache.js";
 import { safeReaddir, safeReadJson } from "./fs-utils.js";
 
 // ── Types ───────────────────────────────────────────
@@ -93,6 +93,7 @@ const ALL_PROVIDERS: Record<ProviderName, true> = {
   openrouter: true,
   opencode: true,
   ollama: true,
+  mock: true,
 };
 
 // Sorted by length descending so longer prefixes match first
@@ -388,7 +389,7 @@ export async function analyzeCacheStatus(
           const revCid = revisionCacheIdMap.get(revKey);
           if (!revCid) continue;
           for (const jk of judgeKeys) {
-            const hash = judgmentPairHash("improvement", wCid, revCid);
+            const hash = judgmentPairHash("improvement", wCid, revCid, false, judgeTemplateHash(p));
             const jFiles = judgmentFileSets.get(jk) ?? new Set();
             if (jFiles.has(`${hash}.json`)) {
               impHave++;
@@ -437,7 +438,7 @@ export async function analyzeCacheStatus(
     for (const [cidA, cidB] of initialPairs) {
       for (const jk of judgeKeys) {
         ijNeed++;
-        const hash = judgmentPairHash("initial", cidA, cidB);
+        const hash = judgmentPairHash("initial", cidA, cidB, false, judgeTemplateHash(p));
         const jFiles = judgmentFileSets.get(jk) ?? new Set();
         if (jFiles.has(`${hash}.json`)) {
           ijHave++;
@@ -478,7 +479,7 @@ export async function analyzeCacheStatus(
       for (const [rCidA, rCidB] of revPairs) {
         for (const jk of judgeKeys) {
           rjNeed++;
-          const hash = judgmentPairHash("revised", rCidA, rCidB);
+          const hash = judgmentPairHash("revised", rCidA, rCidB, false, judgeTemplateHash(p));
           const jFiles = judgmentFileSets.get(jk) ?? new Set();
           if (jFiles.has(`${hash}.json`)) {
             rjHave++;
@@ -545,6 +546,11 @@ export async function analyzeCacheStatus(
   }
 
   // ── 12. Find maximal coverings ────────────────────
+  const templateHashes = new Map<string, string>();
+  for (const p of prompts) {
+    const hash = judgeTemplateHash(p);
+    if (hash) templateHashes.set(p.id, hash);
+  }
   const coverings = findMaximalCoverings(writerKeys, prompts, N, {
     writeCacheIds,
     feedbackCacheIdMap,
@@ -552,6 +558,7 @@ export async function analyzeCacheStatus(
     judgmentFileSets,
     candidateJudges: judgeKeys,
     judgesFixed,
+    templateHashes,
   });
 
   // ── 13. Compute disk usage ───────────────────────
@@ -580,6 +587,8 @@ export interface CoveringContext {
   judgmentFileSets: Map<string, Set<string>>;
   candidateJudges: string[];
   judgesFixed: boolean;
+  /** promptId → judge template hash, for prompts with custom judge templates. */
+  templateHashes?: Map<string, string>;
 }
 
 // ── Maximal coverings ───────────────────────────────
@@ -872,11 +881,13 @@ export function checkPrerequisites(
   N: number,
   writeCacheIds: Map<string, Map<string, string[]>>,
   feedbackCacheIdMap: Map<string, string>,
-  revisionCacheIdMap: Map<string, string>
+  revisionCacheIdMap: Map<string, string>,
+  templateHashes: Map<string, string> = new Map()
 ): { judgmentHashes: string[] } | null {
   const hashes: string[] = [];
 
   for (const pid of promptIds) {
+    const templateHash = templateHashes.get(pid);
     const promptWriteCids: { writerKey: string; cacheId: string }[] = [];
     for (const wk of writers) {
       const ids = writeCacheIds.get(wk)?.get(pid) ?? [];
@@ -905,14 +916,14 @@ export function checkPrerequisites(
     // Collect all judgment hashes needed (initial + improvement + revised)
     const writeCidList = promptWriteCids.map((e) => e.cacheId);
     for (const [cidA, cidB] of allPairs(writeCidList)) {
-      hashes.push(judgmentPairHash("initial", cidA, cidB));
+      hashes.push(judgmentPairHash("initial", cidA, cidB, false, templateHash));
     }
 
     for (const { writerKey: wk, cacheId: wCid } of promptWriteCids) {
       for (const fbWk of writers) {
         const fbCid = feedbackCacheIdMap.get(`${fbWk}:${wCid}`)!;
         const revCid = revisionCacheIdMap.get(`${wk}:${fbCid}`)!;
-        hashes.push(judgmentPairHash("improvement", wCid, revCid));
+        hashes.push(judgmentPairHash("improvement", wCid, revCid, false, templateHash));
       }
     }
 
@@ -924,7 +935,7 @@ export function checkPrerequisites(
         revCids.push(revCid);
       }
       for (const [rCidA, rCidB] of allPairs(revCids)) {
-        hashes.push(judgmentPairHash("revised", rCidA, rCidB));
+        hashes.push(judgmentPairHash("revised", rCidA, rCidB, false, templateHash));
       }
     }
   }
@@ -955,11 +966,11 @@ export function findValidJudges(
   writers: string[],
   promptIds: string[],
   N: number,
-  ctx: Pick<CoveringContext, "writeCacheIds" | "feedbackCacheIdMap" | "revisionCacheIdMap" | "judgmentFileSets" | "candidateJudges">
+  ctx: Pick<CoveringContext, "writeCacheIds" | "feedbackCacheIdMap" | "revisionCacheIdMap" | "judgmentFileSets" | "candidateJudges" | "templateHashes">
 ): string[] {
   const prereqs = checkPrerequisites(
     writers, promptIds, N,
-    ctx.writeCacheIds, ctx.feedbackCacheIdMap, ctx.revisionCacheIdMap
+    ctx.writeCacheIds, ctx.feedbackCacheIdMap, ctx.revisionCacheIdMap, ctx.templateHashes
   );
   if (!prereqs) return [];
 
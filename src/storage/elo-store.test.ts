@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from "bun:test";
 import { existsSync } from "fs";
 import { rm, mkdir, writeFile, readFile } from "fs/promises";
 import { join, dirname } from "path";
-import { updateCumulativeElo, loadCumulativeElo } from "./elo-store.js";
+import { updateCumulativeElo, loadCumulativeElo, addCumulativeJudgments } from "./elo-store.js";
 import type {
   RunResult,
   WritingSample,
@@ -364,3 +364,75 @@ describe("updateCumulativeElo - per-category", () => {
     expect(elo.writingByTag["sermon"]).toBeDefined();
   });
 });
+
+describe("updateCumulativeElo - length control", () => {
+  let originalEloContent: string | null = null;
+
+  beforeEach(async () => {
+    originalEloContent = existsSync(ELO_FILE) ? await readFile(ELO_FILE, "utf-8") : null;
+    if (!existsSync(dirname(ELO_FILE))) await mkdir(dirname(ELO_FILE), { recursive: true });
+    if (existsSync(ELO_FILE)) await rm(ELO_FILE);
+  });
+
+  afterEach(async () => {
+    if (originalEloContent !== null) {
+      await writeFile(ELO_FILE, originalEloContent);
+    } else if (existsSync(ELO_FILE)) {
+      await rm(ELO_FILE);
+    }
+  });
+
+  it("accumulates writing games with word gaps across runs", async () => {
+    const long = (id: string, model: string) => ({ ...makeSample(id, model, "sermon"), text: "word ".repeat(250) });
+    const run = (suffix: string) => makeRunResult({
+      samples: [long(`a${suffix}`, "modelA"), makeSample(`b${suffix}`, "modelB", "sermon")],
+      judgments: [makeJudgment(`j${suffix}`, "sermon", `a${suffix}`, `b${suffix}`, "A")],
+      prompts: [{ id: "sermon", tags: [] }],
+    });
+
+    await updateCumulativeElo(run("1"));
+    const elo = await updateCumulativeElo(run("2"));
+
+    expect(elo.pairwise!.writingLength).toEqual([{
+      playerWhite: "modelA", playerBlack: "modelB", result: 1, judge: "judge", lengthDiff: 2.5, count: 2,
+    }]);
+    expect(elo.writingLengthControlled!.lengthCoefficients.map((c) => [c.judge, c.games])).toEqual([["judge", 2]]);
+    expect(elo.writingLengthControlled!.ratings.map((r) => r.model).sort()).toEqual(["modelA", "modelB"]);
+  });
+});
+
+describe("addCumulativeJudgments", () => {
+  let originalEloContent: string | null = null;
+
+  beforeEach(async () => {
+    originalEloContent = existsSync(ELO_FILE) ? await readFile(ELO_FILE, "utf-8") : null;
+    if (!existsSync(dirname(ELO_FILE))) await mkdir(dirname(ELO_FILE), { recursive: true });
+    if (existsSync(ELO_FILE)) await rm(ELO_FILE);
+  });
+
+  afterEach(async () => {
+    if (originalEloContent !== null) {
+      await writeFile(ELO_FILE, originalEloContent);
+    } else if (existsSync(ELO_FILE)) {
+      await rm(ELO_FILE);
+    }
+  });
+
+  it("adds only the new judgments and no history entry", async () => {
+    const run = makeRunResult({
+      samples: [makeSample("a", "modelA", "sermon"), makeSample("b", "modelB", "sermon")],
+      judgments: [makeJudgment("j1", "sermon", "a", "b", "A")],
+      prompts: [{ id: "sermon", tags: ["speech"] }],
+    });
+    await updateCumulativeElo(run);
+
+    const vote = { ...makeJudgment("v1", "sermon", "a", "b", "B"), judgeModel: "human:alice" };
+    run.judgments.push(vote);
+    const elo = await addCumulativeJudgments(run, [vote]);
+
+    expect(elo.history).toHaveLength(1);
+    expect(elo.writing.modelA.wins).toBe(1);
+    expect(elo.writing.modelA.losses).toBe(1);
+    expect(elo.writingByTag.speech.modelB.wins).toBe(1);
+  });
+});
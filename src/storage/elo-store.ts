@@ -4,6 +4,7 @@ import { join, dirname } from "path";
 import type {
   CumulativeElo,
   EloRating,
+  PairwiseJudgment,
   PairwiseRecord,
   RunResult,
 } from "../types.js";
@@ -14,16 +15,24 @@ import {
   improvementJudgmentsToGames,
   gamesToRecords,
   mergeRecords,
+  mergeLengthGames,
+  runGradeResults,
+  computeLengthControlledWhr,
+  judgmentsToLengthGames,
+  sampleWordCounts,
 } from "../engine/whr.js";
 import { getModelDisplayName, getProviderDisplayName } from "../providers/models.js";
 
-const ELO_FILE = join(process.cwd(), "data", "elo.json");
+/** Resolved per call so tests can run against a temporary working directory. */
+function eloFile(): string {
+  return join(process.cwd(), "data", "elo.json");
+}
 
 /**
  * Load cumulative ELO state from disk.
  */
 export async function loadCumulativeElo(): Promise<CumulativeElo> {
-  if (!existsSync(ELO_FILE)) {
+  if (!existsSync(eloFile())) {
     return {
       lastUpdated: new Date().toISOString(),
       writing: {},
@@ -33,7 +42,7 @@ export async function loadCumulativeElo(): Promise<CumulativeElo> {
     };
   }
 
-  const raw = await readFile(ELO_FILE, "utf-8");
+  const raw = await readFile(eloFile(), "utf-8");
   const elo = JSON.parse(raw) as CumulativeElo;
 
   // Migrate old provider:model keys to display names
@@ -51,12 +60,18 @@ export async function loadCumulativeElo(): Promise<CumulativeElo> {
 export async function saveCumulativeElo(
   elo: CumulativeElo
 ): Promise<void> {
-  const dir = dirname(ELO_FILE);
+  const dir = dirname(eloFile());
   if (!existsSync(dir)) {
     await mkdir(dir, { recursive: true });
   }
 
-  await writeFile(ELO_FILE, JSON.stringify(elo, null, 2));
+  await writeFile(eloFile(), JSON.stringify(elo, null, 2));
+}
+
+/** Whether `runId` has been added to the cumulative ratings. */
+export async function isRunCounted(runId: string): Promise<boolean> {
+  const elo = await loadCumulativeElo();
+  return elo.history.some((h) => h.runId === runId);
 }
 
 /**
@@ -70,7 +85,51 @@ export async function updateCumulativeElo(
   run: RunResult
 ): Promise<CumulativeElo> {
   const elo = await loadCumulativeElo();
+  mergeJudgments(elo, run, run.judgments);
+
+  // Build snapshot for history
+  const snapshot: Record<string, number> = {};
+  for (const [model, rating] of Object.entries(elo.writing)) {
+    snapshot[model] = rating.rating;
+  }
+
+  // Update state
+  elo.lastUpdated = new Date().toISOString();
+  elo.history.push({
+    runId: run.config.id,
+    timestamp: run.config.timestamp,
+    snapshot,
+  });
+
+  await saveCumulativeElo(elo);
+  return elo;
+}
 
+/**
+ * Add judgments made after `run` was recorded (e.g. human votes) to the
+ * cumulative ratings. The judgments must also be saved with the run so
+ * `elo --recompute` keeps them. No history entry is added.
+ */
+export async function addCumulativeJudgments(
+  run: RunResult,
+  judgments: PairwiseJudgment[],
+): Promise<CumulativeElo> {
+  const elo = await loadCumulativeElo();
+  mergeJudgments(elo, run, judgments);
+  elo.lastUpdated = new Date().toISOString();
+  await saveCumulativeElo(elo);
+  return elo;
+}
+
+/**
+ * Merge pairwise records from `judgments` (on `run`'s samples) into `elo`
+ * and recompute every cumulative rating from the merged records.
+ */
+function mergeJudgments(
+  elo: CumulativeElo,
+  run: RunResult,
+  judgments: PairwiseJudgment[],
+): void {
   // Build sample-to-model maps
   const sampleToModel = new Map<string, string>();
   const sampleToFeedbackModel = new Map<string, string>();
@@ -88,7 +147,10 @@ export async function updateCumulativeElo(
   }
 
   // ── Writing ELO ────────────────────────────────────
-  const newWritingRecords = gamesToRecords(judgmentsToGames(run.judgments, sampleToModel));
+  const gradeResults = runGradeResults(run.config);
+  const newWritingRecords = gamesToRecords(
+    judgmentsToGames(judgments, sampleToModel, undefined, undefined, gradeResults),
+  );
   elo.pairwise.writing = mergeRecords(elo.pairwise.writing, newWritingRecords);
   const writingRatings = whrRatingsFromRecords(elo.pairwise.writing);
   elo.writing = Object.fromEntries(writingRatings.map((r) => [r.model, r]));
@@ -103,8 +165,19 @@ export async function updateCumulativeElo(
     }
   }
 
+  // ── Length-controlled Writing ELO ──────────────────
+  // The word-count covariate is per game, so games are merged per judge
+  // and word-gap bucket rather than into pairwise records.
+  const newLengthGames = judgmentsToLengthGames(
+    judgments, sampleToModel, sampleWordCounts(run.samples),
+    undefined, undefined, gradeResults,
+  );
+  elo.pairwise.writingLength = mergeLengthGames(elo.pairwise.writingLength ?? [], newLengthGames);
+  const { ratings: lcRatings, lengthCoefficients } = computeLengthControlledWhr(elo.pairwise.writingLength);
+  elo.writingLengthControlled = { ratings: lcRatings, lengthCoefficients };
+
   // ── Feedback ELO ───────────────────────────────────
-  const improvementJudgments = run.judgments.filter(
+  const improvementJudgments = judgments.filter(
     (j) => j.stage === "improvement"
   );
   const newFeedbackRecords = gamesToRecords(
@@ -143,12 +216,14 @@ export async function updateCumulativeElo(
 
   for (const tag of allTags) {
     // Use initial + revised judgments for this tag (exclude improvement)
-    const tagJudgments = run.judgments.filter(
+    const tagJudgments = judgments.filter(
       (j) =>
         j.stage !== "improvement" &&
         (promptToTags.get(j.promptId)?.includes(tag) ?? false)
     );
-    const newTagRecords = gamesToRecords(judgmentsToGames(tagJudgments, sampleToModel));
+    const newTagRecords = gamesToRecords(
+      judgmentsToGames(tagJudgments, sampleToModel, undefined, undefined, gradeResults),
+    );
     const existingTagRecords = elo.pairwise.writingByTag[tag] ?? [];
     elo.pairwise.writingByTag[tag] = mergeRecords(
       existingTagRecords,
@@ -169,23 +244,6 @@ export async function updateCumulativeElo(
       }
     }
   }
-
-  // Build snapshot for history
-  const snapshot: Record<string, number> = {};
-  for (const [model, rating] of Object.entries(elo.writing)) {
-    snapshot[model] = rating.rating;
-  }
-
-  // Update state
-  elo.lastUpdated = new Date().toISOString();
-  elo.history.push({
-    runId: run.config.id,
-    timestamp: run.config.timestamp,
-    snapshot,
-  });
-
-  await saveCumulativeElo(elo);
-  return elo;
 }
 
 // ── Key Migration ───────────────────────────────────
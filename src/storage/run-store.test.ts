@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync } from "fs";
+import { mkdtemp, rm, readdir } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  saveCheckpoint, loadCheckpoint, removeCheckpoint, saveRun, loadResumeCheckpoint,
+} from "./run-store.js";
+import { loadCumulativeElo, updateCumulativeElo } from "./elo-store.js";
+import { createRunConfig } from "../config.js";
+import type { RunCheckpoint, RunResult } from "../types.js";
+
+const RUN_ID = "test-checkpoint-run";
+// Relative to the temporary working directory each test runs in
+const RUN_DIR = join("data", "runs", RUN_ID);
+
+function makeCheckpoint(): RunCheckpoint {
+  const config = createRunConfig({
+    models: [{ provider: "openai", model: "m", label: "m", registryId: "openai:m" }],
+    prompts: [],
+  });
+  config.id = RUN_ID;
+  return {
+    config,
+    savedAt: new Date().toISOString(),
+    elapsedMs: 1234,
+    judgingRound: 2,
+    opsDone: 5,
+    samples: [],
+    feedback: [],
+    judgments: [],
+    pointwiseScores: [],
+    errors: [],
+    completedWork: { judgments: ["a", "b"] },
+    sampleToCacheId: {},
+    feedbackToCacheId: {},
+    tallies: {
+      totalTokens: 0,
+      totalCost: 0,
+      totalCostUncached: 0,
+      costByModel: {},
+      costByStage: {},
+      costByModelByStage: {},
+      speedAccum: {},
+      speedAccumByStage: {},
+      cacheSavings: {
+        writes: { cached: 0, fresh: 0, savedCost: 0 },
+        feedback: { cached: 0, fresh: 0, savedCost: 0 },
+        revisions: { cached: 0, fresh: 0, savedCost: 0 },
+        judgments: { cached: 0, fresh: 0, savedCost: 0 },
+      },
+    },
+  };
+}
+
+describe("run checkpoints", () => {
+  // The stores resolve data/ against the working directory; never touch the real one
+  const originalCwd = process.cwd();
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "run-store-test-"));
+    process.chdir(tempDir);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("returns null when no checkpoint exists", async () => {
+    expect(await loadCheckpoint(RUN_ID)).toBeNull();
+  });
+
+  it("round-trips a checkpoint, preserving Infinity", async () => {
+    const cp = makeCheckpoint();
+    expect(cp.config.outputsPerModel).toBe(Infinity);
+    await saveCheckpoint(cp);
+
+    const loaded = await loadCheckpoint(RUN_ID);
+    expect(loaded).not.toBeNull();
+    expect(loaded!.config.outputsPerModel).toBe(Infinity);
+    expect(loaded!.judgingRound).toBe(2);
+    expect(loaded!.completedWork.judgments).toEqual(["a", "b"]);
+  });
+
+  it("overwrites atomically without leaving temp files", async () => {
+    const cp = makeCheckpoint();
+    await saveCheckpoint(cp);
+    await saveCheckpoint({ ...cp, judgingRound: 3 });
+
+    expect((await loadCheckpoint(RUN_ID))!.judgingRound).toBe(3);
+    expect(await readdir(RUN_DIR)).toEqual(["checkpoint.json"]);
+  });
+
+  it("removes the checkpoint and tolerates a missing one", async () => {
+    await saveCheckpoint(makeCheckpoint());
+    await removeCheckpoint(RUN_ID);
+    expect(existsSync(join(RUN_DIR, "checkpoint.json"))).toBe(false);
+    await removeCheckpoint(RUN_ID);
+  });
+
+  it("resumes from the checkpoint of an interrupted run", async () => {
+    await saveCheckpoint(makeCheckpoint());
+    expect((await loadResumeCheckpoint(RUN_ID)).judgingRound).toBe(2);
+    await rm(RUN_DIR, { recursive: true });
+    await expect(loadResumeCheckpoint(RUN_ID)).rejects.toThrow(/no checkpoint/);
+  });
+
+  it("refuses to resume a counted run, leaving cumulative ELO unchanged", async () => {
+    const { config, samples, feedback, judgments } = makeCheckpoint();
+    samples.push(
+      { id: "s1", model: "m", promptId: "p", outputIndex: 0, text: "x", stage: "initial",
+        usage: { inputTokens: 0, outputTokens: 0 }, cost: { input: 0, output: 0, total: 0, totalUncached: 0 }, latencyMs: 0 },
+    );
+    const run: RunResult = {
+      config, samples, feedback, judgments,
+      elo: { initial: { stage: "initial", ratings: [] }, revised: { stage: "revised", ratings: [] } },
+      meta: {
+        totalTokens: 0, totalCost: 0, totalCostUncached: 0, costByModel: {}, costByStage: {},
+        costByModelByStage: {}, speedByModel: {}, durationMs: 0,
+      },
+      modelInfo: {},
+    };
+    await saveRun(run);
+    // A checkpoint left behind by a crash between saving and cleanup
+    await saveCheckpoint(makeCheckpoint());
+
+    // Saved but not yet counted: resumable
+    expect((await loadResumeCheckpoint(RUN_ID)).judgingRound).toBe(2);
+
+    await updateCumulativeElo(run);
+    const before = await loadCumulativeElo();
+    await expect(loadResumeCheckpoint(RUN_ID)).rejects.toThrow(/already finished/);
+    expect(await loadCumulativeElo()).toEqual(before);
+  });
+});
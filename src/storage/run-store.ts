@@ -1,16 +1,41 @@
 import { existsSync } from "fs";
-import { readFile, writeFile, mkdir, readdir } from "fs/promises";
+import { randomBytes } from "crypto";
+import { readFile, writeFile, mkdir, readdir, rename, unlink } from "fs/promises";
 import { join } from "path";
-import type { RunResult } from "../types.js";
+import type { RunConfig, RunResult, RunCheckpoint } from "../types.js";
 import { DEFAULT_CONVERGENCE } from "../types.js";
+import { isRunCounted } from "./elo-store.js";
 
-const DATA_DIR = join(process.cwd(), "data", "runs");
+/** Resolved per call so tests can run against a temporary working directory. */
+function dataDir(): string {
+  return join(process.cwd(), "data", "runs");
+}
+
+/** JSON has no Infinity; encode it as a sentinel string (e.g. outputsPerModel). */
+function encodeInfinity(_key: string, value: unknown): unknown {
+  return value === Infinity ? "__Infinity__" : value;
+}
+
+function decodeInfinity(_key: string, value: unknown): unknown {
+  return value === "__Infinity__" ? Infinity : value;
+}
+
+/** Migrate old RunConfig shape: flat ciThreshold/maxRounds → convergence object. */
+function migrateRunConfig(config: RunConfig): void {
+  if (config.convergence) return;
+  const legacy = config as unknown as Record<string, unknown>;
+  config.convergence = {
+    ...DEFAULT_CONVERGENCE,
+    ...(legacy.ciThreshold != null && { ciThreshold: legacy.ciThreshold as number }),
+    ...(legacy.maxRounds != null && { maxRounds: legacy.maxRounds as number }),
+  };
+}
 
 /**
  * Get the directory path for a run.
  */
 function runDir(runId: string): string {
-  return join(DATA_DIR, runId);
+  return join(dataDir(), runId);
 }
 
 /**
@@ -23,8 +48,7 @@ export async function saveRun(result: RunResult): Promise<string> {
   }
 
   const path = join(dir, "run.json");
-  await writeFile(path, JSON.stringify(result, (_key, value) =>
-    value === Infinity ? "__Infinity__" : value, 2));
+  await writeFile(path, JSON.stringify(result, encodeInfinity, 2));
   return path;
 }
 
@@ -38,19 +62,8 @@ export async function loadRun(runId: string): Promise<RunResult> {
   }
 
   const raw = await readFile(path, "utf-8");
-  const result = JSON.parse(raw, (_key, value) =>
-    value === "__Infinity__" ? Infinity : value) as RunResult;
-
-  // Migrate old RunConfig shape: flat ciThreshold/maxRounds → convergence object
-  if (!result.config.convergence) {
-    const legacy = result.config as unknown as Record<string, unknown>;
-    result.config.convergence = {
-      ...DEFAULT_CONVERGENCE,
-      ...(legacy.ciThreshold != null && { ciThreshold: legacy.ciThreshold as number }),
-      ...(legacy.maxRounds != null && { maxRounds: legacy.maxRounds as number }),
-    };
-  }
-
+  const result = JSON.parse(raw, decodeInfinity) as RunResult;
+  migrateRunConfig(result.config);
   return result;
 }
 
@@ -58,11 +71,12 @@ export async function loadRun(runId: string): Promise<RunResult> {
  * List all available run IDs, sorted newest first.
  */
 export async function listRuns(): Promise<string[]> {
-  if (!existsSync(DATA_DIR)) {
+  const dir = dataDir();
+  if (!existsSync(dir)) {
     return [];
   }
 
-  const entries = await readdir(DATA_DIR, { withFileTypes: true });
+  const entries = await readdir(dir, { withFileTypes: true });
   const dirs = entries
     .filter((e) => e.isDirectory())
     .map((e) => e.name)
@@ -80,3 +94,62 @@ export async function loadLatestRun(): Promise<RunResult | null> {
   if (runs.length === 0) return null;
   return loadRun(runs[0]);
 }
+
+// ── Checkpoints ─────────────────────────────────────
+
+/**
+ * Persist a mid-run checkpoint to data/runs/{id}/checkpoint.json.
+ * Written atomically (tmp + rename) since SIGINT may arrive while a
+ * round-boundary save is still in flight.
+ */
+export async function saveCheckpoint(checkpoint: RunCheckpoint): Promise<string> {
+  const dir = runDir(checkpoint.config.id);
+  await mkdir(dir, { recursive: true });
+
+  const path = join(dir, "checkpoint.json");
+  const tmpPath = path + `.tmp.${randomBytes(4).toString("hex")}`;
+  await writeFile(tmpPath, JSON.stringify(checkpoint, encodeInfinity));
+  await rename(tmpPath, path);
+  return path;
+}
+
+/**
+ * Load a run's checkpoint, or null if the run never wrote one
+ * (e.g. it predates checkpointing or finished cleanly).
+ */
+export async function loadCheckpoint(runId: string): Promise<RunCheckpoint | null> {
+  const path = join(runDir(runId), "checkpoint.json");
+  if (!existsSync(path)) return null;
+
+  const raw = await readFile(path, "utf-8");
+  const checkpoint = JSON.parse(raw, decodeInfinity) as RunCheckpoint;
+  migrateRunConfig(checkpoint.config);
+  return checkpoint;
+}
+
+/**
+ * The checkpoint to continue a run from with `run --resume`. A run
+ * already counted in the cumulative ratings has finished, so resuming
+ * it (which would run it again, count its judgments twice and overwrite
+ * later human votes) is refused. A run saved but not yet counted (a
+ * crash between the two) resumes, and is counted when it finishes.
+ */
+export async function loadResumeCheckpoint(runId: string): Promise<RunCheckpoint> {
+  if (await isRunCounted(runId)) {
+    throw new Error(`Cannot resume: run ${runId} already finished`);
+  }
+  const checkpoint = await loadCheckpoint(runId);
+  if (!checkpoint) {
+    throw new Error(`Cannot resume: no checkpoint for run ${runId}`);
+  }
+  return checkpoint;
+}
+
+/** Remove a run's checkpoint once its final result has been saved. */
+export async function removeCheckpoint(runId: string): Promise<void> {
+  try {
+    await unlink(join(runDir(runId), "checkpoint.json"));
+  } catch {
+    // Already gone
+  }
+}
@@ -2,18 +2,22 @@ import { describe, it, expect, beforeEach, afterEach } from "bun:test";
 import { existsSync } from "fs";
 import { rm, readdir, readFile } from "fs/promises";
 import { join } from "path";
+import { mulberry32 } from "../engine/random.js";
 import {
   SampleCache,
   hashPromptContent,
   randomSample,
   trimModelOutputs,
+  selfFeedbackCacheId,
   combineModelCaches,
   judgmentPairHash,
+  judgeTemplateHash,
   modelKey,
   type CachedWrite,
   type CachedFeedback,
   type CachedRevision,
   type CachedJudgment,
+  type CachedPointwiseScore,
 } from "./sample-cache.js";
 
 const TEST_CACHE_DIR = join(process.cwd(), "data", "test-cache");
@@ -130,6 +134,11 @@ describe("randomSample", () => {
   it("returns empty array for empty input", () => {
     expect(randomSample([], 3)).toEqual([]);
   });
+
+  it("repeats its selection with the same seeded source", () => {
+    const items = Array.from({ length: 20 }, (_, i) => i);
+    expect(randomSample(items, 5, mulberry32(9))).toEqual(randomSample(items, 5, mulberry32(9)));
+  });
 });
 
 describe("SampleCache - writes", () => {
@@ -431,6 +440,45 @@ describe("SampleCache - judgments", () => {
     expect(result!.winner).toBe("B");
   });
 
+  it("flips criterion winners along with the overall winner", async () => {
+    const entry = makeCachedJudgment({
+      winner: "A",
+      criterionWinners: { voice: "A", pacing: "B", imagery: "tie" },
+    });
+    // Store with (beta, alpha) -- normalized to sorted order on write
+    await cache.addCachedJudgment(
+      "openai", "gpt-4o", "initial", "beta", "alpha", entry
+    );
+
+    const sorted = await cache.getCachedJudgment(
+      "openai", "gpt-4o", "initial", "alpha", "beta"
+    );
+    expect(sorted!.criterionWinners).toEqual({ voice: "B", pacing: "A", imagery: "tie" });
+
+    const asStored = await cache.getCachedJudgment(
+      "openai", "gpt-4o", "initial", "beta", "alpha"
+    );
+    expect(asStored!.criterionWinners).toEqual(entry.criterionWinners);
+  });
+
+  it("mirrors the preference grade along with the winner", async () => {
+    const entry = makeCachedJudgment({ winner: "A", grade: "A>>B" });
+    await cache.addCachedJudgment(
+      "openai", "gpt-4o", "initial", "beta", "alpha", entry
+    );
+
+    const sorted = await cache.getCachedJudgment(
+      "openai", "gpt-4o", "initial", "alpha", "beta"
+    );
+    expect(sorted!.winner).toBe("B");
+    expect(sorted!.grade).toBe("B>>A");
+
+    const asStored = await cache.getCachedJudgment(
+      "openai", "gpt-4o", "initial", "beta", "alpha"
+    );
+    expect(asStored!.grade).toBe("A>>B");
+  });
+
   it("flips winner B to A when swapped", async () => {
     const entry = makeCachedJudgment({ winner: "B" });
     await cache.addCachedJudgment(
@@ -529,6 +577,110 @@ describe("SampleCache - judgments", () => {
     expect(result).not.toBeNull();
     expect(result!.cacheId).toBe("persist-j");
   });
+
+  it("keeps both presentation orders of a pair as separate ordered entries", async () => {
+    await cache.addCachedJudgment(
+      "openai", "gpt-4o", "initial", "beta", "alpha",
+      makeCachedJudgment({ cacheId: "beta-first", winner: "A" }), true,
+    );
+    await cache.addCachedJudgment(
+      "openai", "gpt-4o", "initial", "alpha", "beta",
+      makeCachedJudgment({ cacheId: "alpha-first", winner: "A" }), true,
+    );
+
+    // Each order is stored as judged, without sort normalization
+    const betaFirst = await cache.getCachedJudgment("openai", "gpt-4o", "initial", "beta", "alpha", true);
+    expect(betaFirst!.cacheId).toBe("beta-first");
+    expect(betaFirst!.winner).toBe("A");
+    const alphaFirst = await cache.getCachedJudgment("openai", "gpt-4o", "initial", "alpha", "beta", true);
+    expect(alphaFirst!.cacheId).toBe("alpha-first");
+
+    // Ordered entries don't collide with the single-order entry
+    expect(await cache.getCachedJudgment("openai", "gpt-4o", "initial", "alpha", "beta")).toBeNull();
+  });
+
+  it("hashes ordered pairs by presentation order", () => {
+    expect(judgmentPairHash("initial", "a", "b")).toBe(judgmentPairHash("initial", "b", "a"));
+    expect(judgmentPairHash("initial", "a", "b", true)).not.toBe(judgmentPairHash("initial", "b", "a", true));
+    expect(judgmentPairHash("initial", "a", "b", true)).not.toBe(judgmentPairHash("initial", "a", "b"));
+  });
+
+  it("keys judgments by the prompt's judge templates", async () => {
+    const hash = judgeTemplateHash({ judgeUserTemplate: "{sample_a} vs {sample_b}" });
+    expect(judgeTemplateHash({})).toBeUndefined();
+    expect(hash).not.toBe(judgeTemplateHash({ judgeUserTemplate: "{sample_b} vs {sample_a}" }));
+    expect(judgmentPairHash("initial", "a", "b", false, undefined)).toBe(judgmentPairHash("initial", "a", "b"));
+
+    await cache.addCachedJudgment(
+      "openai", "gpt-4o", "initial", "s-a", "s-b", makeCachedJudgment(), false, hash,
+    );
+    expect(await cache.getCachedJudgment("openai", "gpt-4o", "initial", "s-a", "s-b")).toBeNull();
+    expect(await cache.getCachedJudgment("openai", "gpt-4o", "initial", "s-b", "s-a", false, hash))
+      .not.toBeNull();
+  });
+});
+
+describe("SampleCache - pointwise scores", () => {
+  let cache: SampleCache;
+
+  function makeCachedScore(overrides: Partial<CachedPointwiseScore> = {}): CachedPointwiseScore {
+    return {
+      cacheId: "score-1",
+      scores: { Voice: 7, Pacing: 5 },
+      reasoning: "Strong voice, uneven pacing.",
+      stage: "initial",
+      usage: { inputTokens: 900, outputTokens: 40 },
+      cost: { input: 0.0009, output: 0.0004, total: 0.0013, totalUncached: 0.0013 },
+      latencyMs: 800,
+      createdAt: "2026-02-15T10:03:00Z",
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    if (existsSync(TEST_CACHE_DIR)) {
+      await rm(TEST_CACHE_DIR, { recursive: true });
+    }
+    cache = new SampleCache(TEST_CACHE_DIR);
+  });
+
+  afterEach(async () => {
+    if (existsSync(TEST_CACHE_DIR)) {
+      await rm(TEST_CACHE_DIR, { recursive: true });
+    }
+  });
+
+  it("returns null for an unscored sample", async () => {
+    const result = await cache.getCachedPointwiseScore(
+      "openai", "gpt-4o", "initial", "write-1", ["Voice", "Pacing"]
+    );
+    expect(result).toBeNull();
+  });
+
+  it("stores and retrieves a score", async () => {
+    await cache.addCachedPointwiseScore(
+      "openai", "gpt-4o", "initial", "write-1", ["Voice", "Pacing"], makeCachedScore()
+    );
+    const result = await cache.getCachedPointwiseScore(
+      "openai", "gpt-4o", "initial", "write-1", ["Voice", "Pacing"]
+    );
+    expect(result?.scores).toEqual({ Voice: 7, Pacing: 5 });
+  });
+
+  it("misses when the criteria, stage or judge differ", async () => {
+    await cache.addCachedPointwiseScore(
+      "openai", "gpt-4o", "initial", "write-1", ["Voice", "Pacing"], makeCachedScore()
+    );
+    expect(await cache.getCachedPointwiseScore(
+      "openai", "gpt-4o", "initial", "write-1", ["Voice"]
+    )).toBeNull();
+    expect(await cache.getCachedPointwiseScore(
+      "openai", "gpt-4o", "revised", "write-1", ["Voice", "Pacing"]
+    )).toBeNull();
+    expect(await cache.getCachedPointwiseScore(
+      "openai", "gpt-4o-mini", "initial", "write-1", ["Voice", "Pacing"]
+    )).toBeNull();
+  });
 });
 
 describe("SampleCache - full provenance chain", () => {
@@ -737,6 +889,76 @@ describe("trimModelOutputs", () => {
     expect(revDeleted).toBeNull();
   });
 
+  it("cascades through later revision rounds and their judgments", async () => {
+    for (let i = 0; i < 2; i++) {
+      await cache.addCachedWrite(
+        WRITER.provider, WRITER.model, PROMPT,
+        makeCachedWrite({ cacheId: `w${i}` }), i,
+      );
+    }
+    await cache.addCachedWrite(
+      WRITER2.provider, WRITER2.model, PROMPT,
+      makeCachedWrite({ cacheId: "o0" }), 0,
+    );
+
+    // w1 -> fb-w1 -> rev-w1 -> fb-rev-w1 -> rev2-w1 (round 2)
+    await cache.addCachedFeedback(
+      FB_MODEL.provider, FB_MODEL.model, "w1",
+      makeCachedFeedback({ cacheId: "fb-w1", writeCacheId: "w1" }),
+    );
+    await cache.addCachedRevision(
+      WRITER.provider, WRITER.model, "fb-w1",
+      makeCachedRevision({ cacheId: "rev-w1", feedbackCacheId: "fb-w1" }),
+    );
+    await cache.addCachedFeedback(
+      FB_MODEL.provider, FB_MODEL.model, "rev-w1",
+      makeCachedFeedback({ cacheId: "fb-rev-w1", writeCacheId: "rev-w1" }),
+    );
+    await cache.addCachedRevision(
+      WRITER.provider, WRITER.model, "fb-rev-w1",
+      makeCachedRevision({
+        cacheId: "rev2-w1", feedbackCacheId: "fb-rev-w1",
+        round: 2, feedbackChain: ["fb-w1", "fb-rev-w1"],
+      }),
+    );
+    // A surviving round-2 revision from the other writer
+    await cache.addCachedRevision(
+      WRITER2.provider, WRITER2.model, "fb-o0",
+      makeCachedRevision({ cacheId: "rev2-o0", feedbackCacheId: "fb-o0", round: 2 }),
+    );
+    await cache.addCachedJudgment(
+      JUDGE.provider, JUDGE.model, "revised-2", "rev2-w1", "rev2-o0",
+      makeCachedJudgment({ cacheId: "j-round2", stage: "revised-2" }),
+    );
+
+    const result = await trimModelOutputs(TEST_CACHE_DIR, MK, 1);
+
+    expect(result.feedbackDeleted).toBe(2);
+    expect(result.revisionsDeleted).toBe(2);
+    expect(result.judgmentsDeleted).toBe(1);
+    expect(await cache.getCachedRevision(WRITER.provider, WRITER.model, "fb-rev-w1")).toBeNull();
+    expect(await cache.getCachedRevision(WRITER2.provider, WRITER2.model, "fb-o0")).not.toBeNull();
+  });
+
+  it("deletes self-revisions of trimmed writes", async () => {
+    for (let i = 0; i < 2; i++) {
+      await cache.addCachedWrite(
+        WRITER.provider, WRITER.model, PROMPT,
+        makeCachedWrite({ cacheId: `w${i}` }), i,
+      );
+      await cache.addCachedRevision(
+        WRITER.provider, WRITER.model, selfFeedbackCacheId(`w${i}`),
+        makeCachedRevision({ cacheId: `self-w${i}`, feedbackCacheId: selfFeedbackCacheId(`w${i}`) }),
+      );
+    }
+
+    const result = await trimModelOutputs(TEST_CACHE_DIR, MK, 1);
+
+    expect(result.revisionsDeleted).toBe(1);
+    expect(await cache.getCachedRevision(WRITER.provider, WRITER.model, selfFeedbackCacheId("w0"))).not.toBeNull();
+    expect(await cache.getCachedRevision(WRITER.provider, WRITER.model, selfFeedbackCacheId("w1"))).toBeNull();
+  });
+
   it("deletes only stale judgments, keeps unrelated ones", async () => {
     // Writer 1: 4 writes
     for (let i = 0; i < 4; i++) {
@@ -799,6 +1021,44 @@ describe("trimModelOutputs", () => {
     expect(jUnrelated!.cacheId).toBe("j-unrelated");
   });
 
+  it("deletes stale judgments made under a custom judge template", async () => {
+    for (let i = 0; i < 2; i++) {
+      await cache.addCachedWrite(
+        WRITER.provider, WRITER.model, PROMPT,
+        makeCachedWrite({ cacheId: `w1-${i}` }), i,
+      );
+    }
+    await cache.addCachedWrite(
+      WRITER2.provider, WRITER2.model, PROMPT,
+      makeCachedWrite({ cacheId: "w2-0" }), 0,
+    );
+
+    const templateHash = judgeTemplateHash({ judgeSystemPrompt: "Judge strictly." });
+    await cache.addCachedJudgment(
+      JUDGE.provider, JUDGE.model, "initial", "w1-0", "w2-0",
+      makeCachedJudgment({ cacheId: "j-survive" }), false, templateHash,
+    );
+    await cache.addCachedJudgment(
+      JUDGE.provider, JUDGE.model, "initial", "w2-0", "w1-1",
+      makeCachedJudgment({ cacheId: "j-stale" }), false, templateHash,
+    );
+    await cache.addCachedJudgment(
+      JUDGE.provider, JUDGE.model, "initial", "w1-1", "w2-0",
+      makeCachedJudgment({ cacheId: "j-stale-ordered" }), true, templateHash,
+    );
+
+    const result = await trimModelOutputs(TEST_CACHE_DIR, MK, 1);
+
+    expect(result.judgmentsDeleted).toBe(2);
+    const survivor = await cache.getCachedJudgment(
+      JUDGE.provider, JUDGE.model, "initial", "w1-0", "w2-0", false, templateHash,
+    );
+    expect(survivor!.cacheId).toBe("j-survive");
+    expect(await cache.getCachedJudgment(
+      JUDGE.provider, JUDGE.model, "initial", "w2-0", "w1-1", false, templateHash,
+    )).toBeNull();
+  });
+
   it("handles multiple feedback models per write", async () => {
     // Create 2 writes
     for (let i = 0; i < 2; i++) {
@@ -976,6 +1236,23 @@ describe("combineModelCaches", () => {
     expect(result.feedbackMoved).toBe(0);
     expect(result.revisionsMoved).toBe(0);
     expect(result.judgmentsMoved).toBe(0);
+    expect(result.scoresMoved).toBe(0);
+  });
+
+  it("copies pointwise scores, skipping existing", async () => {
+    const srcDir = join(COMBINE_CACHE_DIR, "scores", SOURCE_KEY);
+    const tgtDir = join(COMBINE_CACHE_DIR, "scores", TARGET_KEY);
+    await writeJsonFile(srcDir, "hash1.json", { scores: { Voice: 6 } });
+    await writeJsonFile(srcDir, "hash2.json", { scores: { Voice: 8 } });
+    await writeJsonFile(tgtDir, "hash1.json", { scores: { Voice: 3 } });
+
+    const result = await combineModelCaches(COMBINE_CACHE_DIR, SOURCE_KEY, TARGET_KEY);
+
+    expect(result.scoresMoved).toBe(1);
+    const kept = JSON.parse(await readFile(join(tgtDir, "hash1.json"), "utf-8"));
+    expect(kept.scores.Voice).toBe(3);
+    expect(existsSync(join(tgtDir, "hash2.json"))).toBe(true);
+    expect(existsSync(srcDir)).toBe(false);
   });
 
   it("creates target directory when only source exists", async () => {
@@ -2,8 +2,10 @@ import { existsSync } from "fs";
 import { readFile, writeFile, mkdir, readdir, rename, unlink, rm } from "fs/promises";
 import { join, basename } from "path";
 import { createHash, randomBytes } from "crypto";
-import type { TokenUsage, CostBreakdown } from "../types.js";
+import type { TokenUsage, CostBreakdown, PreferenceGrade, JudgmentStage, PromptConfig, SampleStage } from "../types.js";
+import { SELF_FEEDBACK, revisionStage } from "../types.js";
 import { safeReaddir, safeReadJson, removeIfEmpty } from "./fs-utils.js";
+import type { Random } from "../engine/random.js";
 
 // ── Cached entry types ──────────────────────────────
 
@@ -30,6 +32,10 @@ export interface CachedFeedback {
 export interface CachedRevision {
   cacheId: string;
   feedbackCacheId: string; // Which cached feedback this revision used
+  /** Revision round (absent = 1). Round N+1 revises round N's revision. */
+  round?: number;
+  /** Feedback cache IDs of the earlier rounds, round 1 first. Absent in round 1. */
+  feedbackChain?: string[];
   text: string;
   usage: TokenUsage;
   cost: CostBreakdown;
@@ -42,9 +48,34 @@ export interface CachedJudgment {
   /** Winner relative to sorted (first, second) cache ID order */
   winner: "A" | "B" | "tie";
   reasoning: string;
-  stage: "initial" | "revised" | "improvement";
+  /** The judge's hidden reasoning, when its provider exposed it. */
+  reasoningSummary?: string;
+  stage: JudgmentStage;
   /** Position swap state from the original API call. undefined for legacy cache entries. */
   positionSwapped?: boolean;
+  /** Per-criterion winners, relative to sorted order like `winner`. */
+  criterionWinners?: Record<string, "A" | "B" | "tie">;
+  /** Preference grade, relative to sorted order like `winner`. Absent for ungraded entries. */
+  grade?: PreferenceGrade;
+  /**
+   * Cache IDs of the judged samples (sorted, or in presentation order for
+   * ordered entries). Lets trimming find entries named by a judge
+   * template hash it cannot recompute; entries written before judge
+   * templates existed lack it, but their names are recomputable.
+   */
+  sampleCacheIds?: [string, string];
+  usage: TokenUsage;
+  cost: CostBreakdown;
+  latencyMs: number;
+  createdAt: string;
+}
+
+export interface CachedPointwiseScore {
+  cacheId: string;
+  /** Criterion text → 1-10 score */
+  scores: Record<string, number>;
+  reasoning: string;
+  stage: SampleStage;
   usage: TokenUsage;
   cost: CostBreakdown;
   latencyMs: number;
@@ -72,15 +103,59 @@ export function modelKey(provider: string, model: string): string {
 
 /**
  * Hash a judgment pair key (stage + two sorted cache IDs) into a
- * filesystem-safe name.
+ * filesystem-safe name. With `ordered`, the IDs keep their presentation
+ * order, so (A, B) and (B, A) hash to separate entries (--both-orders).
+ * A `templateHash` (see judgeTemplateHash) keys judgments made under a
+ * prompt's custom judge templates apart from built-in ones.
  */
 export function judgmentPairHash(
   stage: string,
   cacheIdA: string,
-  cacheIdB: string
+  cacheIdB: string,
+  ordered = false,
+  templateHash?: string
+): string {
+  let input = ordered
+    ? `${stage}:${cacheIdA}:${cacheIdB}:ordered`
+    : `${stage}:${[cacheIdA, cacheIdB].sort().join(":")}`;
+  if (templateHash) input += `:template:${templateHash}`;
+  return createHash("sha256").update(input).digest("hex").slice(0, 16);
+}
+
+/**
+ * Hash of a prompt's custom judge templates, or undefined when it uses
+ * the built-in ones (so existing judgment keys are unchanged). Editing
+ * either template changes the hash and with it every judgment key.
+ */
+export function judgeTemplateHash(
+  prompt: Pick<PromptConfig, "judgeSystemPrompt" | "judgeUserTemplate">
+): string | undefined {
+  if (!prompt.judgeSystemPrompt && !prompt.judgeUserTemplate) return undefined;
+  return hashPromptContent(
+    `${prompt.judgeSystemPrompt ?? ""}\n---\n${prompt.judgeUserTemplate ?? ""}`
+  );
+}
+
+/**
+ * Feedback cache ID of the SELF_FEEDBACK control arm on a write. No
+ * feedback file is stored; self-revisions are cached under this ID in
+ * the writer's revisions directory, beside feedback-driven revisions.
+ */
+export function selfFeedbackCacheId(writeCacheId: string): string {
+  return `${SELF_FEEDBACK}-${writeCacheId}`;
+}
+
+/**
+ * Hash a pointwise score key (stage + sample cache ID + criteria) into a
+ * filesystem-safe name. Criteria are part of the key so editing a
+ * prompt's judging criteria invalidates its scores.
+ */
+export function pointwiseScoreHash(
+  stage: string,
+  sampleCacheId: string,
+  criteria: string[]
 ): string {
-  const sorted = [cacheIdA, cacheIdB].sort();
-  const input = `${stage}:${sorted[0]}:${sorted[1]}`;
+  const input = `${stage}:${sampleCacheId}:${criteria.join("\n")}`;
   return createHash("sha256").update(input).digest("hex").slice(0, 16);
 }
 
@@ -93,6 +168,27 @@ function flipWinner(winner: "A" | "B" | "tie"): "A" | "B" | "tie" {
   return "tie";
 }
 
+/** Flip every per-criterion winner, preserving undefined. */
+function flipCriterionWinners(
+  criterionWinners?: Record<string, "A" | "B" | "tie">
+): Record<string, "A" | "B" | "tie"> | undefined {
+  if (!criterionWinners) return undefined;
+  return Object.fromEntries(
+    Object.entries(criterionWinners).map(([c, w]) => [c, flipWinner(w)])
+  );
+}
+
+/** Mirror a preference grade (A>>B ↔ B>>A, A>B ↔ B>A), preserving undefined. */
+function flipGrade(grade?: PreferenceGrade): PreferenceGrade | undefined {
+  switch (grade) {
+    case "A>>B": return "B>>A";
+    case "A>B": return "B>A";
+    case "B>A": return "A>B";
+    case "B>>A": return "A>>B";
+    default: return grade;
+  }
+}
+
 /** Flip a positionSwapped flag, preserving undefined for legacy entries. */
 function flipPositionSwapped(swapped?: boolean): boolean | undefined {
   return swapped != null ? !swapped : undefined;
@@ -265,30 +361,38 @@ export class SampleCache {
     model: string,
     stage: string,
     cacheIdA: string,
-    cacheIdB: string
+    cacheIdB: string,
+    ordered = false,
+    templateHash?: string
   ): string {
-    const hash = judgmentPairHash(stage, cacheIdA, cacheIdB);
+    const hash = judgmentPairHash(stage, cacheIdA, cacheIdB, ordered, templateHash);
     return join(this.judgmentsDir(provider, model), `${hash}.json`);
   }
 
   /**
    * Look up a cached judgment. Returns the entry with the winner
    * adjusted to match the caller's A/B ordering (not the stored
-   * sorted order).
+   * sorted order). With `ordered`, looks up the judgment made with A
+   * shown first; its winner is relative to that order as stored.
+   * `templateHash` selects judgments made under custom judge templates.
    */
   async getCachedJudgment(
     judgeProvider: string,
     judgeModel: string,
     stage: string,
     cacheIdA: string,
-    cacheIdB: string
+    cacheIdB: string,
+    ordered = false,
+    templateHash?: string
   ): Promise<CachedJudgment | null> {
     const path = this.judgmentPath(
       judgeProvider,
       judgeModel,
       stage,
       cacheIdA,
-      cacheIdB
+      cacheIdB,
+      ordered,
+      templateHash
     );
     if (!existsSync(path)) return null;
 
@@ -296,14 +400,16 @@ export class SampleCache {
       const raw = await readFile(path, "utf-8");
       const entry: CachedJudgment = JSON.parse(raw);
 
-      // Winner and positionSwapped are stored relative to sorted order.
+      // Winners and positionSwapped are stored relative to sorted order.
       // If the caller's A sorts first, they match. Otherwise flip both.
       const [sortedFirst] = [cacheIdA, cacheIdB].sort();
-      if (cacheIdA !== sortedFirst) {
+      if (!ordered && cacheIdA !== sortedFirst) {
         return {
           ...entry,
           winner: flipWinner(entry.winner),
           positionSwapped: flipPositionSwapped(entry.positionSwapped),
+          criterionWinners: flipCriterionWinners(entry.criterionWinners),
+          grade: flipGrade(entry.grade),
         };
       }
       return entry;
@@ -314,7 +420,9 @@ export class SampleCache {
 
   /**
    * Store a judgment. The winner is normalized to sorted cache ID
-   * order so lookups with swapped A/B still hit the same entry.
+   * order so lookups with swapped A/B still hit the same entry. With
+   * `ordered`, the entry is the judgment made with A shown first and is
+   * stored as-is, separate from the (B, A) judgment.
    */
   async addCachedJudgment(
     judgeProvider: string,
@@ -322,20 +430,25 @@ export class SampleCache {
     stage: string,
     cacheIdA: string,
     cacheIdB: string,
-    entry: CachedJudgment
+    entry: CachedJudgment,
+    ordered = false,
+    templateHash?: string
   ): Promise<void> {
     const dir = this.judgmentsDir(judgeProvider, judgeModel);
     await mkdir(dir, { recursive: true });
 
-    // Normalize winner and positionSwapped to sorted order
-    const [sortedFirst] = [cacheIdA, cacheIdB].sort();
+    // Normalize winners and positionSwapped to sorted order
+    const [sortedFirst, sortedSecond] = [cacheIdA, cacheIdB].sort();
     const normalized: CachedJudgment =
-      cacheIdA === sortedFirst
-        ? entry
+      ordered || cacheIdA === sortedFirst
+        ? { ...entry, sampleCacheIds: [cacheIdA, cacheIdB] }
         : {
             ...entry,
             winner: flipWinner(entry.winner),
             positionSwapped: flipPositionSwapped(entry.positionSwapped),
+            criterionWinners: flipCriterionWinners(entry.criterionWinners),
+            grade: flipGrade(entry.grade),
+            sampleCacheIds: [sortedFirst, sortedSecond],
           };
 
     const filePath = this.judgmentPath(
@@ -343,25 +456,82 @@ export class SampleCache {
       judgeModel,
       stage,
       cacheIdA,
-      cacheIdB
+      cacheIdB,
+      ordered,
+      templateHash
     );
     const tmpPath = filePath + ".tmp";
 
     await writeFile(tmpPath, JSON.stringify(normalized, null, 2));
     await rename(tmpPath, filePath);
   }
+
+  // ── Pointwise Scores ───────────────────────────────
+
+  /** Path to a judge model's pointwise score directory. */
+  scoresDir(provider: string, model: string): string {
+    return join(this.baseDir, "scores", modelKey(provider, model));
+  }
+
+  private scorePath(
+    provider: string,
+    model: string,
+    stage: string,
+    sampleCacheId: string,
+    criteria: string[]
+  ): string {
+    const hash = pointwiseScoreHash(stage, sampleCacheId, criteria);
+    return join(this.scoresDir(provider, model), `${hash}.json`);
+  }
+
+  async getCachedPointwiseScore(
+    judgeProvider: string,
+    judgeModel: string,
+    stage: string,
+    sampleCacheId: string,
+    criteria: string[]
+  ): Promise<CachedPointwiseScore | null> {
+    const path = this.scorePath(judgeProvider, judgeModel, stage, sampleCacheId, criteria);
+    if (!existsSync(path)) return null;
+
+    try {
+      const raw = await readFile(path, "utf-8");
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+
+  async addCachedPointwiseScore(
+    judgeProvider: string,
+    judgeModel: string,
+    stage: string,
+    sampleCacheId: string,
+    criteria: string[],
+    entry: CachedPointwiseScore
+  ): Promise<void> {
+    const dir = this.scoresDir(judgeProvider, judgeModel);
+    await mkdir(dir, { recursive: true });
+
+    const filePath = this.scorePath(judgeProvider, judgeModel, stage, sampleCacheId, criteria);
+    const tmpPath = filePath + `.tmp.${randomBytes(4).toString("hex")}`;
+
+    await writeFile(tmpPath, JSON.stringify(entry, null, 2));
+    await rename(tmpPath, filePath);
+  }
 }
 
 /**
  * Randomly select `count` items from an array without replacement.
- * Returns the items in random order.
+ * Returns the items in random order. Pass a seeded `random` for a
+ * reproducible selection.
  */
-export function randomSample<T>(arr: T[], count: number): T[] {
+export function randomSample<T>(arr: T[], count: number, random: Random = Math.random): T[] {
   if (count >= arr.length) return [...arr];
   const copy = [...arr];
   const result: T[] = [];
   for (let i = 0; i < count; i++) {
-    const idx = Math.floor(Math.random() * copy.length);
+    const idx = Math.floor(random() * copy.length);
     result.push(copy[idx]);
     copy.splice(idx, 1);
   }
@@ -383,7 +553,9 @@ export interface TrimResult {
 /**
  * Trim cached outputs for a model to at most `maxOutputs` per prompt.
  * Cascades to linked feedback, revisions, and surgically removes only
- * the judgment files that reference deleted artifacts.
+ * the judgment files that reference deleted artifacts. Judgments made
+ * under custom judge templates are keyed by the template, which is not
+ * known here, so they are matched by the sample cache IDs they store.
  */
 export async function trimModelOutputs(
   cacheDir: string,
@@ -452,9 +624,24 @@ export async function trimModelOutputs(
   const feedbackModelDirs = await safeReaddir(feedbackBase);
   const revisionModelDirs = await safeReaddir(revisionsBase);
 
+  // Self-revisions (no feedback file) hang directly off the write
   for (const writeCacheId of deletedWriteIds) {
+    for (const revModelDir of revisionModelDirs) {
+      const revPath = join(revisionsBase, revModelDir, `${selfFeedbackCacheId(writeCacheId)}.json`);
+      const revEntry = await safeReadJson<{ cacheId: string }>(revPath);
+      if (!revEntry?.cacheId) continue;
+      deletedRevisionIds.push(revEntry.cacheId);
+      await unlink(revPath);
+      revisionsDeleted++;
+    }
+  }
+
+  // Later revision rounds give feedback on a revision, so each deleted
+  // revision is queued in turn to cascade through the whole chain.
+  const targets = [...deletedWriteIds];
+  for (let t = 0; t < targets.length; t++) {
     for (const fbModelDir of feedbackModelDirs) {
-      const fbPath = join(feedbackBase, fbModelDir, `${writeCacheId}.json`);
+      const fbPath = join(feedbackBase, fbModelDir, `${targets[t]}.json`);
       const fbEntry = await safeReadJson<{ cacheId: string }>(fbPath);
       if (!fbEntry?.cacheId) continue;
 
@@ -468,6 +655,7 @@ export async function trimModelOutputs(
         if (!revEntry?.cacheId) continue;
 
         deletedRevisionIds.push(revEntry.cacheId);
+        targets.push(revEntry.cacheId);
         await unlink(revPath);
         revisionsDeleted++;
       }
@@ -509,21 +697,25 @@ export async function trimModelOutputs(
   }
 
   // Revisions from ALL models (needed for revised/improvement judgment hashes)
+  let maxRound = 1;
   for (const revDir of revisionModelDirs) {
     const files = (await safeReaddir(join(revisionsBase, revDir)))
       .filter((f) => f.endsWith(".json"));
     for (const f of files) {
-      const entry = await safeReadJson<{ cacheId: string }>(
+      const entry = await safeReadJson<{ cacheId: string; round?: number }>(
         join(revisionsBase, revDir, f),
       );
       if (entry?.cacheId) allKnownIds.add(entry.cacheId);
+      if (entry?.round) maxRound = Math.max(maxRound, entry.round);
     }
   }
 
   // Compute all stale judgment hashes: every (deletedId, otherId) pair
-  // across all three stages. Invalid stage+type combos simply won't
-  // match any file on disk -- harmless extra hash computations.
-  const STAGES = ["initial", "improvement", "revised"] as const;
+  // across all stages, including later revision rounds. Invalid
+  // stage+type combos simply won't match any file on disk -- harmless
+  // extra hash computations.
+  const STAGES: JudgmentStage[] = ["initial", "improvement", "revised"];
+  for (let round = 2; round <= maxRound; round++) STAGES.push(revisionStage(round));
   const staleHashes = new Set<string>();
 
   const allKnownArr = Array.from(allKnownIds);
@@ -532,6 +724,8 @@ export async function trimModelOutputs(
       if (deletedId === otherId) continue;
       for (const stage of STAGES) {
         staleHashes.add(judgmentPairHash(stage, deletedId, otherId));
+        staleHashes.add(judgmentPairHash(stage, deletedId, otherId, true));
+        staleHashes.add(judgmentPairHash(stage, otherId, deletedId, true));
       }
     }
   }
@@ -544,9 +738,11 @@ export async function trimModelOutputs(
     const files = (await safeReaddir(judgeDirPath))
       .filter((f) => f.endsWith(".json"));
     for (const f of files) {
-      const hash = basename(f, ".json");
-      if (staleHashes.has(hash)) {
-        await unlink(join(judgeDirPath, f));
+      const path = join(judgeDirPath, f);
+      const stale = staleHashes.has(basename(f, ".json"))
+        || (await safeReadJson<CachedJudgment>(path))?.sampleCacheIds?.some((id) => deletedIds.has(id));
+      if (stale) {
+        await unlink(path);
         judgmentsDeleted++;
       }
     }
@@ -575,6 +771,27 @@ export async function trimModelOutputs(
 
 // ── Cache Combining ─────────────────────────────────
 
+/**
+ * Copy every JSON file in `srcDir` into `tgtDir`, skipping names that
+ * already exist. Returns the number of files copied.
+ */
+async function copyFlat(srcDir: string, tgtDir: string): Promise<number> {
+  const files = await safeReaddir(srcDir);
+  if (files.length === 0) return 0;
+
+  await mkdir(tgtDir, { recursive: true });
+  let copied = 0;
+  for (const f of files) {
+    if (!f.endsWith(".json")) continue;
+    const tgtPath = join(tgtDir, f);
+    if (existsSync(tgtPath)) continue;
+    const content = await readFile(join(srcDir, f), "utf-8");
+    await writeFile(tgtPath, content);
+    copied++;
+  }
+  return copied;
+}
+
 export interface CombineResult {
   writesMoved: number;
   feedbackMoved: number;
@@ -582,12 +799,14 @@ export interface CombineResult {
   revisionsMoved: number;
   revisionsRekeyed: number;
   judgmentsMoved: number;
+  scoresMoved: number;
 }
 
 /**
  * Combine cache data from one model key into another.
  * Writes are renumbered to avoid filename conflicts; feedback, revisions,
- * and judgments are copied by cacheId/hash (skipping duplicates).
+ * judgments and pointwise scores are copied by cacheId/hash (skipping
+ * duplicates).
  * Source directories are removed after the merge.
  */
 export async function combineModelCaches(
@@ -595,7 +814,7 @@ export async function combineModelCaches(
   sourceKey: string,
   targetKey: string,
 ): Promise<CombineResult> {
-  const result: CombineResult = { writesMoved: 0, feedbackMoved: 0, feedbackDeduped: 0, revisionsMoved: 0, revisionsRekeyed: 0, judgmentsMoved: 0 };
+  const result: CombineResult = { writesMoved: 0, feedbackMoved: 0, feedbackDeduped: 0, revisionsMoved: 0, revisionsRekeyed: 0, judgmentsMoved: 0, scoresMoved: 0 };
 
   // ── Writes ──────────────────────────────────────────
   const srcWritesBase = join(cacheDir, "writes", sourceKey);
@@ -718,26 +937,18 @@ export async function combineModelCaches(
     }
   }
 
-  // ── Judgments (flat copy, skip existing) ──
-  const srcJudgBase = join(cacheDir, "judgments", sourceKey);
-  const tgtJudgBase = join(cacheDir, "judgments", targetKey);
-  const srcJudgFiles = await safeReaddir(srcJudgBase);
-
-  if (srcJudgFiles.length > 0) {
-    await mkdir(tgtJudgBase, { recursive: true });
-
-    for (const f of srcJudgFiles) {
-      if (!f.endsWith(".json")) continue;
-      const tgtPath = join(tgtJudgBase, f);
-      if (existsSync(tgtPath)) continue;
-      const content = await readFile(join(srcJudgBase, f), "utf-8");
-      await writeFile(tgtPath, content);
-      result.judgmentsMoved++;
-    }
-  }
+  // ── Judgments and pointwise scores (flat copy, skip existing) ──
+  result.judgmentsMoved = await copyFlat(
+    join(cacheDir, "judgments", sourceKey),
+    join(cacheDir, "judgments", targetKey),
+  );
+  result.scoresMoved = await copyFlat(
+    join(cacheDir, "scores", sourceKey),
+    join(cacheDir, "scores", targetKey),
+  );
 
   // ── Clean up source directories ─────────────────────
-  for (const category of ["writes", "feedback", "revisions", "judgments"]) {
+  for (const category of ["writes", "feedback", "revisions", "judgments", "scores"]) {
     const srcDir = join(cacheDir, category, sourceKey);
     if (existsSync(srcDir)) {
       await rm(srcDir, { recursive: true });
@@ -8,14 +8,34 @@ export type ProviderName =
   | "google-vertex-anthropic"
   | "openrouter"
   | "opencode"
-  | "ollama";
+  | "ollama"
+  | "mock";
+
+/**
+ * Generation settings given in a model spec after "@" (e.g.
+ * `openai:gpt-4o@t=1.0,top_p=0.9`). They are part of the model's
+ * identity: the canonical suffix stays on the model ID, so each
+ * setting is cached and rated as a separate player.
+ */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  /** Reasoning effort level (OpenAI-style models; Gemini thinking level). */
+  reasoningEffort?: string;
+  /** Thinking token budget (Claude extended thinking, Gemini thinking). */
+  thinkingBudget?: number;
+  /** Options passed through to the AI SDK, keyed by provider options name. */
+  providerOptions?: Record<string, Record<string, string | number | boolean>>;
+}
 
 export interface ModelConfig {
   provider: ProviderName;
-  model: string;
+  model: string; // Model ID, with its canonical "@params" suffix if any
   label: string; // Display name (resolved from models.dev or explicit)
   registryId: string; // "provider:model" canonical identity for cache and ratings
   apiModelIds?: string[]; // API endpoint specs when aliased (e.g. via ~)
+  params?: GenerationParams; // Spec parameters (part of the identity)
   temperature?: number;
   maxTokens?: number;
   apiBase?: string;
@@ -23,14 +43,16 @@ export interface ModelConfig {
 
 export interface TokenUsage {
   inputTokens: number;
-  outputTokens: number;
+  outputTokens: number; // Includes reasoningTokens
   cacheReadTokens?: number;
   cacheWriteTokens?: number;
+  reasoningTokens?: number; // Hidden reasoning (thinking) tokens, part of outputTokens
 }
 
 /**
  * Extract a TokenUsage from an AI SDK result.usage object.
- * AI SDK v6 exposes cache details via inputTokenDetails.
+ * AI SDK v6 exposes cache details via inputTokenDetails and reasoning
+ * tokens via outputTokenDetails; outputTokens already counts the latter.
  */
 export function extractUsage(
   usage: {
@@ -40,6 +62,9 @@ export function extractUsage(
       cacheReadTokens?: number;
       cacheWriteTokens?: number;
     };
+    outputTokenDetails?: {
+      reasoningTokens?: number;
+    };
   } | undefined
 ): TokenUsage {
   return {
@@ -47,18 +72,26 @@ export function extractUsage(
     outputTokens: usage?.outputTokens ?? 0,
     cacheReadTokens: usage?.inputTokenDetails?.cacheReadTokens ?? undefined,
     cacheWriteTokens: usage?.inputTokenDetails?.cacheWriteTokens ?? undefined,
+    reasoningTokens: usage?.outputTokenDetails?.reasoningTokens || undefined,
   };
 }
 
 export interface CostBreakdown {
   input: number; // USD -- actual (accounts for cached token pricing)
-  output: number; // USD
+  output: number; // USD -- includes reasoning
   total: number; // USD -- actual
   totalUncached: number; // USD -- what it would cost with no cache hits
+  reasoning?: number; // USD -- the part of output spent on reasoning tokens
 }
 
 // ── Model Metadata (models.dev) ─────────────────────
 
+/**
+ * Which writers count as kin of a judge for kin-preference bias:
+ * same models.dev family, same vendor, or none (explicit groups only).
+ */
+export type KinMode = "family" | "provider" | "none";
+
 export interface ModelInfo {
   name: string;
   family: string;
@@ -72,6 +105,8 @@ export interface ModelInfo {
   costPer1MOutput: number;
   costPer1MCacheRead?: number;
   costPer1MCacheWrite?: number;
+  /** Reasoning token price where it differs from output; output price otherwise. */
+  costPer1MReasoning?: number;
 }
 
 // ── Prompt Config ───────────────────────────────────
@@ -85,13 +120,185 @@ export interface PromptConfig {
   judgingCriteria: string[];
   feedbackPrompt?: string;
   revisionPrompt?: string;
+  /**
+   * Replaces the built-in pairwise judge system prompt. May use
+   * `{criteria}` and `{prompt}`; the JSON response format is appended.
+   */
+  judgeSystemPrompt?: string;
+  /**
+   * Replaces the built-in pairwise judge user prompt. Must use
+   * `{sample_a}` and `{sample_b}`; may use `{criteria}` and `{prompt}`.
+   */
+  judgeUserTemplate?: string;
+  maxWords?: number;
+  /** Rule-based checks every sample for this prompt is held to. */
+  constraints?: PromptConstraints;
+}
+
+/**
+ * What a constraint violation does: "report" only records it, "penalty"
+ * adds a weighted loss against the violating sample to the ratings, and
+ * "loss" decides the pairing against it without calling the judge.
+ */
+export type ConstraintAction = "report" | "penalty" | "loss";
+
+/** Deterministic checks from a prompt's [constraints] table. */
+export interface PromptConstraints {
+  minWords?: number;
   maxWords?: number;
+  /** Phrases that must each appear (case-insensitive). */
+  requiredPhrases?: string[];
+  /** Phrases that must not appear (case-insensitive). */
+  forbiddenPhrases?: string[];
+  /** Regular expressions the text must match. */
+  mustMatch?: string[];
+  /** Regular expressions the text must not match. */
+  mustNotMatch?: string[];
+  /** Maximum number of markdown headings. */
+  maxHeadings?: number;
+  onViolation: ConstraintAction;
+  /** Weight of each penalty game when onViolation is "penalty". */
+  penaltyWeight: number;
+}
+
+export type ConstraintRule =
+  | "min_words"
+  | "max_words"
+  | "required_phrase"
+  | "forbidden_phrase"
+  | "must_match"
+  | "must_not_match"
+  | "max_headings";
+
+export interface ConstraintViolation {
+  rule: ConstraintRule;
+  detail: string;
+}
+
+/** Outcome of checking one sample against its prompt's constraints. */
+export interface ConstraintResult {
+  passed: boolean;
+  violations: ConstraintViolation[];
+}
+
+/** Constraint compliance for one model at one stage. */
+export interface ConstraintSummary {
+  model: string;
+  stage: SampleStage;
+  /** Samples checked (samples of prompts with constraints). */
+  checked: number;
+  passed: number;
+  /** Number of samples violating each rule. */
+  violations: Partial<Record<ConstraintRule, number>>;
+}
+
+/**
+ * A writer's self-editing (--self-critique): revisions of its own
+ * samples guided by its own feedback, judged against the originals.
+ */
+export interface SelfEditingRating {
+  model: string;
+  /** Improvement judgments of self-critiqued revisions. */
+  judged: number;
+  /** Judgments where the revision beat the original. */
+  improved: number;
+  ties: number;
+  /** Share of self-revisions that beat the original, ties counting half. */
+  rate: number;
+  /** Improvement judgments of other writers' revisions of its feedback. */
+  crossJudged: number;
+  /** The same rate when it critiques other writers; null without any. */
+  crossRate: number | null;
+  /** The model's feedback rating, when rated. */
+  feedbackRating?: number;
+}
+
+// ── Gold Set ────────────────────────────────────────
+
+/**
+ * A human-labelled pair from a --gold file. Each side is given as a run
+ * sample ID or as the sample's exact text; `winner` is relative to A/B.
+ */
+export interface GoldPair {
+  /** Restricts text matching to this prompt's samples. */
+  promptId?: string;
+  sampleA?: string;
+  textA?: string;
+  sampleB?: string;
+  textB?: string;
+  winner: "A" | "B" | "tie";
+}
+
+/** One judge's agreement with the gold set. */
+export interface GoldAgreement {
+  judge: string;
+  /** Judgments of gold pairs by this judge. */
+  pairs: number;
+  /** Judgments whose verdict matched the gold winner. */
+  agreed: number;
+  agreement: number;
+  /** Cohen's kappa over A/B/tie; null when chance agreement is 1. */
+  kappa: number | null;
+  /** Gold pair judgments made in both presentation orders (--both-orders). */
+  bothOrders: number;
+  /** Share of those with the same verdict in both orders; null when none. */
+  positionConsistency: number | null;
+}
+
+/** Judge agreement with a gold set, as stored on a run. */
+export interface GoldCalibration {
+  /** Pairs in the gold set. */
+  pairs: number;
+  /** Pairs matched to samples of the run. */
+  matched: number;
+  /** Judges with at least one judged gold pair, by descending agreement. */
+  judges: GoldAgreement[];
+}
+
+// ── Judge Agreement ─────────────────────────────────
+
+/** Agreement between two judges on the instances both judged. */
+export interface JudgePairAgreement {
+  judgeA: string;
+  judgeB: string;
+  /** Evaluation instances both judges judged. */
+  instances: number;
+  /** Share of those instances with the same verdict. */
+  agreement: number;
+  /** Cohen's kappa; null when chance agreement is 1. */
+  kappa: number | null;
+  /** Krippendorff's alpha (nominal); null when the verdicts never vary. */
+  alpha: number | null;
+}
+
+/** Inter-rater reliability among judges for one judging stage. */
+export interface StageAgreement {
+  stage: JudgmentStage;
+  /** Judges sharing at least one instance with another judge, sorted. */
+  judges: string[];
+  /** Evaluation instances judged by at least two judges. */
+  instances: number;
+  /** Krippendorff's alpha across all judges; null when undefined. */
+  alpha: number | null;
+  /** One entry per judge pair with shared instances, judgeA < judgeB. */
+  pairs: JudgePairAgreement[];
 }
 
 // ── Convergence ─────────────────────────────────────
 
-/** Signal used to compute judge quality weights. */
-export type JudgeQualityMode = "consensus" | "writing" | "feedback" | "revised";
+/**
+ * Signal used to compute judge quality weights: consensus among judges,
+ * the judge's own rating as a writer/feedback-giver/reviser, or
+ * agreement with a human gold set.
+ */
+export type JudgeQualityMode = "consensus" | "writing" | "feedback" | "revised" | "gold";
+
+/**
+ * How identifyNeeds weighs a candidate's cascade cost: "gain" divides
+ * information gain by the number of uncached API calls, "cost" by the
+ * expected dollar cost of those calls.
+ */
+export type NeedScoringMode = "gain" | "cost";
 
 /** Configuration for adaptive convergence. */
 export interface ConvergenceConfig {
@@ -115,6 +322,8 @@ export interface ConvergenceConfig {
   judgeDecay: number;
   /** Judge prune threshold. Judges with weight below this are excluded from need generation. Default: 0.5. */
   judgePruneThreshold: number;
+  /** Cascade cost measure for need scoring. Default: "gain". */
+  needScoring: NeedScoringMode;
 }
 
 export const DEFAULT_CONVERGENCE: ConvergenceConfig = {
@@ -128,6 +337,7 @@ export const DEFAULT_CONVERGENCE: ConvergenceConfig = {
   judgeQualityMode: "consensus",
   judgeDecay: 0.03,
   judgePruneThreshold: 0.5,
+  needScoring: "gain",
 };
 
 export const DEFAULT_CONCURRENCY = 8;
@@ -139,8 +349,129 @@ export const JUDGE_PRESETS: Record<"low" | "medium" | "high", { judgeDecay: numb
   high:   { judgeDecay: DEFAULT_CONVERGENCE.judgeDecay, judgePruneThreshold: DEFAULT_CONVERGENCE.judgePruneThreshold },
 };
 
+// ── Project File ────────────────────────────────────
+
+/** Project file read by `run` unless --config names another. */
+export const PROJECT_CONFIG_FILE = "writing-bench.toml";
+
+/** Settings applied to a model wherever it appears in a run. */
+export interface ModelOverrides {
+  /** Display name, unless the spec gives one with =label. */
+  label?: string;
+  /** Generation parameters, folded into the model ID like spec "@params". */
+  params?: GenerationParams;
+  apiBase?: string;
+}
+
+/** A named set of writers and judges (model specs). */
+export interface Roster {
+  writers: string[];
+  /** Judges; the writers judge when absent. */
+  judges?: string[];
+}
+
+/** Named run settings selected with `run --profile`. CLI flags override them. */
+export interface RunProfile {
+  /** Roster supplying writers and judges when --models/--judges are omitted. */
+  roster?: string;
+  /** Glob pattern for prompt files. */
+  prompts?: string;
+  /** Prompt ids or tags to keep. */
+  filter?: string[];
+  concurrency?: number;
+  convergence: Partial<ConvergenceConfig>;
+}
+
+/** Contents of the project file. */
+export interface ProjectConfig {
+  /** Overrides keyed by "provider:model" registry ID. */
+  models: Record<string, ModelOverrides>;
+  rosters: Record<string, Roster>;
+  profiles: Record<string, RunProfile>;
+}
+
+// ── Preference Grades ───────────────────────────────
+
+/**
+ * Five-point preference scale for graded judging, relative to
+ * sampleA/sampleB: "A>>B" = A much better, "A>B" = A somewhat better.
+ */
+export type PreferenceGrade = "A>>B" | "A>B" | "tie" | "B>A" | "B>>A";
+
+/** All preference grades, strongest A preference first. */
+export const PREFERENCE_GRADES = ["A>>B", "A>B", "tie", "B>A", "B>>A"] as const satisfies readonly PreferenceGrade[];
+
+/** WHR game result (score for sample A's model) for each preference grade. */
+export type GradeResults = Record<PreferenceGrade, number>;
+
+export const DEFAULT_GRADE_RESULTS: GradeResults = {
+  "A>>B": 1.0,
+  "A>B": 0.75,
+  "tie": 0.5,
+  "B>A": 0.25,
+  "B>>A": 0.0,
+};
+
 // ── Run Data ────────────────────────────────────────
 
+/**
+ * Stage of a revision: "revised" for the first round (the only one in
+ * runs without --revision-rounds), "revised-N" for round N >= 2.
+ */
+export type RevisionStage = "revised" | `revised-${number}`;
+
+/** Stage of a writing sample. */
+export type SampleStage = "initial" | RevisionStage;
+
+/** Stage of a pairwise judgment: two samples of one stage, or a revision vs its original. */
+export type JudgmentStage = SampleStage | "improvement";
+
+/**
+ * Pseudo feedback model for the no-feedback control arm (--self-revision):
+ * the writer revises its own work from a generic "revise and improve"
+ * instruction. Rated alongside real feedback providers as a baseline.
+ */
+export const SELF_FEEDBACK = "__self__";
+
+/** The stage of revision round `round` (1-based). */
+export function revisionStage(round: number): RevisionStage {
+  return round <= 1 ? "revised" : `revised-${round}`;
+}
+
+/** Revision round of `stage`: 0 for initial samples, 1 for "revised", N for "revised-N". */
+export function revisionRound(stage: SampleStage): number {
+  if (stage === "initial") return 0;
+  if (stage === "revised") return 1;
+  return parseInt(stage.slice("revised-".length), 10);
+}
+
+/** Request limits for one provider or model. Unset fields are unlimited. */
+export interface RateLimit {
+  /** Max concurrent in-flight requests. */
+  concurrency?: number;
+  /** Max requests started per rolling minute. */
+  rpm?: number;
+  /** Max tokens (input + output) per rolling minute. */
+  tpm?: number;
+}
+
+/** Rate limits keyed by provider name and by "provider:model" spec. Both apply. */
+export interface RateLimitConfig {
+  providers: Record<string, RateLimit>;
+  models: Record<string, RateLimit>;
+}
+
+/** Live usage of one rate-limit bucket, for the status bar. */
+export interface RateLimitStatus {
+  /** Provider name (e.g. "ollama") or model spec (e.g. "openai:gpt-4o"). */
+  key: string;
+  limit: RateLimit;
+  active: number;
+  waiting: number;
+  requestsLastMinute: number;
+  tokensLastMinute: number;
+}
+
 export interface RunConfig {
   id: string; // ISO timestamp-based
   models: ModelConfig[];
@@ -155,10 +486,43 @@ export interface RunConfig {
   /** Max needs fulfilled concurrently. Controls overall API pressure.
    *  Each need may trigger 1-6 sequential API calls across different
    *  models. Needs are interleaved by model, so effective per-model
-   *  concurrency is roughly concurrency / num_models.
-   *  TODO: Support per-provider concurrency limits for mixed-provider
-   *  setups where providers have different rate limits. */
+   *  concurrency is roughly concurrency / num_models. Per-provider
+   *  limits are applied separately, at the API call, via rateLimits. */
   concurrency: number;
+  /** Per-provider/per-model request limits. Absent = unlimited. */
+  rateLimits?: RateLimitConfig;
+  /** Hard spend ceiling in USD, checked before each batch and need. Absent = unlimited. */
+  budget?: number;
+  /** Have every judge score every sample 1-10 per judging criterion. */
+  pointwise?: boolean;
+  /** Feed pointwise score differences into WHR as pseudo-pairwise games. */
+  pointwiseGames?: boolean;
+  /** Ask judges for a winner per judging criterion as well as overall. */
+  criterionVerdicts?: boolean;
+  /** Ask judges for a five-point preference grade instead of a bare winner. */
+  gradedPreference?: boolean;
+  /** WHR result per grade when gradedPreference is on (default DEFAULT_GRADE_RESULTS). */
+  gradeResults?: GradeResults;
+  /** Judge every pair in both presentation orders; disagreeing verdicts become ties. */
+  bothOrders?: boolean;
+  /** Seed for every random decision (position swaps, ids, retry jitter). Unseeded when unset. */
+  seed?: number;
+  /** Human-labelled pairs from --gold, for judge calibration. */
+  gold?: GoldPair[];
+  /** Feedback-and-revise rounds per sample; round N+1 revises round N's revision. Absent = 1. */
+  revisionRounds?: number;
+  /** Add the SELF_FEEDBACK control arm to the feedback ratings. */
+  selfRevision?: boolean;
+  /** Have every writer critique and revise its own samples; adds selfEditing. */
+  selfCritique?: boolean;
+  /** Kin relation for kin-preference bias. Absent (no kin) in older runs. */
+  kinMode?: KinMode;
+  /** Explicit kin groups (model labels, registry IDs or specs), on top of kinMode. */
+  kinGroups?: string[][];
+  /** Down-weight votes that follow a judge's length or formatting bias. */
+  styleBiasCorrection?: boolean;
+  /** Judge label -> stability weight from `judges retest` (--retest-weights). */
+  retestWeights?: Record<string, number>;
   /** Convergence settings (defaults from DEFAULT_CONVERGENCE). */
   convergence: ConvergenceConfig;
 }
@@ -169,11 +533,13 @@ export interface WritingSample {
   promptId: string;
   outputIndex: number;
   text: string;
-  stage: "initial" | "revised";
-  originalSampleId?: string; // WritingSample.id this revision is based on
+  stage: SampleStage;
+  originalSampleId?: string; // WritingSample.id this revision is based on (previous round's revision after round 1)
   feedbackUsed?: string; // Feedback.id incorporated (stage 3)
   feedbackModel?: string; // Which model gave the feedback
   fromCache?: boolean; // True if loaded from disk cache (no API call this run)
+  /** Present when the prompt has constraints. */
+  constraints?: ConstraintResult;
   usage: TokenUsage;
   cost: CostBreakdown;
   latencyMs: number;
@@ -198,16 +564,65 @@ export interface PairwiseJudgment {
   sampleB: string;
   winner: "A" | "B" | "tie";
   reasoning: string;
-  stage: "initial" | "revised" | "improvement";
+  /** The judge's hidden reasoning (thinking or its summary) when the
+   *  provider exposes it, kept beside the written `reasoning`. */
+  reasoningSummary?: string;
+  stage: JudgmentStage;
   /** Whether the pair was swapped for position-bias randomization.
    *  true = judge saw (B,A) but winner/sampleA/sampleB are corrected back.
    *  undefined for cached judgments where swap info was not persisted. */
   positionSwapped?: boolean;
+  /** Winner per judging criterion (criterion text → winner), relative to
+   *  sampleA/sampleB like `winner`. Present with --criteria-verdicts. */
+  criterionWinners?: Record<string, "A" | "B" | "tie">;
+  /** Preference strength, relative to sampleA/sampleB like `winner`.
+   *  Present with --graded-preference; `winner` is derived from it. */
+  grade?: PreferenceGrade;
+  /** Winners from judging in both presentation orders (--both-orders):
+   *  [sampleA shown first, sampleB shown first], both relative to
+   *  sampleA/sampleB. They disagree when the judge followed position. */
+  orderWinners?: ["A" | "B" | "tie", "A" | "B" | "tie"];
+  /** True when a constraint violation decided the pairing and no judge
+   *  was called (on_violation = "loss"). */
+  constraintLoss?: boolean;
   usage: TokenUsage;
   cost: CostBreakdown;
   latencyMs: number;
 }
 
+/** A judge's absolute 1-10 scores for one sample, per judging criterion. */
+export interface PointwiseScore {
+  id: string;
+  judgeModel: string;
+  promptId: string;
+  sampleId: string; // WritingSample.id
+  stage: SampleStage;
+  /** Criterion text → score. */
+  scores: Record<string, number>;
+  reasoning: string;
+  usage: TokenUsage;
+  cost: CostBreakdown;
+  latencyMs: number;
+}
+
+/** Distribution of one model's pointwise scores on one criterion. */
+export interface ScoreDistribution {
+  mean: number;
+  stdDev: number;
+  count: number;
+  /** Number of scores of 1..10 (index 0 = score 1). */
+  histogram: number[];
+}
+
+/** Per-criterion score distributions for one model at one stage. */
+export interface PointwiseSummary {
+  model: string;
+  stage: SampleStage;
+  /** Distribution of each sample's mean score across criteria. */
+  overall: ScoreDistribution;
+  criteria: Record<string, ScoreDistribution>;
+}
+
 // ── ELO ─────────────────────────────────────────────
 
 export interface EloRating {
@@ -222,10 +637,44 @@ export interface EloRating {
 }
 
 export interface EloSnapshot {
-  stage: "initial" | "revised";
+  stage: SampleStage;
   ratings: EloRating[];
   feedbackRatings?: EloRating[]; // Only in revised stage
   byTag?: Record<string, EloRating[]>; // ELO per prompt tag
+  byCriterion?: Record<string, EloRating[]>; // ELO per judging criterion (--criteria-verdicts)
+  lengthControlled?: LengthControlledRatings; // Only in initial stage
+}
+
+/** A judged game plus the word-count gap between the two samples. */
+export interface LengthGame {
+  playerWhite: string;
+  playerBlack: string;
+  /** 1.0 = white wins, 0.0 = black wins, 0.5 = tie (fractional for grades). */
+  result: number;
+  weight?: number;
+  /** Judge that decided the game; each judge gets its own length coefficient. */
+  judge: string;
+  /** White's word count minus black's, in hundreds of words. */
+  lengthDiff: number;
+  /** Identical games this entry stands for (cumulative storage); 1 when absent. */
+  count?: number;
+}
+
+/** A judge's estimated preference for longer outputs. */
+export interface LengthCoefficient {
+  judge: string;
+  /** Elo points a sample gains per 100 words it is longer than its opponent. */
+  eloPer100Words: number;
+  /** 95% CI half-width of the coefficient. */
+  ci95: number;
+  /** Games this judge decided. */
+  games: number;
+}
+
+/** Writing ratings with each judge's length preference fitted out. */
+export interface LengthControlledRatings {
+  ratings: EloRating[];
+  lengthCoefficients: LengthCoefficient[];
 }
 
 // ── Errors ──────────────────────────────────────────
@@ -295,14 +744,31 @@ export interface ModelSpeed {
   avgLatencyMs: number; // Average latency per call
 }
 
+/** Why the adaptive loop ended. */
+export type StopReason = "converged" | "exhausted" | "maxRounds" | "budget";
+
 export interface RunResult {
   config: RunConfig;
   samples: WritingSample[];
   feedback: Feedback[];
   judgments: PairwiseJudgment[];
+  /** Present when the run used --pointwise. */
+  pointwise?: {
+    scores: PointwiseScore[];
+    summary: PointwiseSummary[];
+  };
+  /** Present when any prompt has constraints. */
+  constraints?: ConstraintSummary[];
+  /** Present when the run had a gold set. */
+  gold?: GoldCalibration;
+  /** Present with --self-critique. */
+  selfEditing?: SelfEditingRating[];
+  /** Ratings as of the end of the run; later human votes are not included. */
   elo: {
     initial: EloSnapshot;
     revised: EloSnapshot;
+    /** Revised ratings per revision round, round 1 first. Present when revisionRounds > 1. */
+    rounds?: EloSnapshot[];
   };
   meta: {
     totalTokens: number;
@@ -318,10 +784,56 @@ export interface RunResult {
     speedByModel: Record<string, ModelSpeed>;
     durationMs: number;
     errors?: TaskError[];
+    /** Absent in runs saved before stop reasons were recorded. */
+    stopReason?: StopReason;
+    budget?: number;
+    budgetRemaining?: number;
   };
   modelInfo: Record<string, ModelInfo>;
 }
 
+// ── Run Checkpoint ──────────────────────────────────
+
+/** Per-model speed accumulator: [totalLatencyMs, totalOutputTokens, calls]. */
+export type SpeedAccum = [number, number, number];
+
+/**
+ * Persisted mid-run state of the adaptive runner, written at round
+ * boundaries and on SIGINT. `run --resume <id>` restores the runner
+ * from this so the loop continues where it stopped instead of
+ * re-seeding from scratch under a new run ID.
+ */
+export interface RunCheckpoint {
+  config: RunConfig;
+  savedAt: string;
+  /** Wall-clock time spent in previous sessions of this run. */
+  elapsedMs: number;
+  judgingRound: number;
+  opsDone: number;
+  /** Initial and revised samples (every round), in insertion order. */
+  samples: WritingSample[];
+  feedback: Feedback[];
+  judgments: PairwiseJudgment[];
+  pointwiseScores: PointwiseScore[];
+  errors: TaskError[];
+  /** CompletedWork sets, serialized as arrays keyed by field name. */
+  completedWork: Record<string, string[]>;
+  /** Sample/feedback ID → cache ID, needed to find downstream cache entries. */
+  sampleToCacheId: Record<string, string>;
+  feedbackToCacheId: Record<string, string>;
+  tallies: {
+    totalTokens: number;
+    totalCost: number;
+    totalCostUncached: number;
+    costByModel: Record<string, number>;
+    costByStage: Record<string, number>;
+    costByModelByStage: Record<string, Record<string, number>>;
+    speedAccum: Record<string, SpeedAccum>;
+    speedAccumByStage: Record<string, Record<string, SpeedAccum>>;
+    cacheSavings: CacheSavings;
+  };
+}
+
 // ── Judge Quality Export ────────────────────────────
 
 /** Serialized judge quality entry for web export. */
@@ -337,6 +849,15 @@ export interface JudgeQualityExport {
   positionBias: number | null;
   selfBiasSufficient: boolean;
   positionBiasSufficient: boolean;
+  /** Kin-preference bias delta (null until sufficient). */
+  kinBias: number | null;
+  kinBiasSufficient: boolean;
+  /** Length bias delta (null until sufficient). */
+  lengthBias: number | null;
+  /** Markdown formatting bias delta (null until sufficient). */
+  formattingBias: number | null;
+  lengthBiasSufficient: boolean;
+  formattingBiasSufficient: boolean;
   status: "active" | "pruned";
 }
 
@@ -358,11 +879,15 @@ export interface CumulativeElo {
   writing: Record<string, EloRating>;
   feedbackGiving: Record<string, EloRating>;
   writingByTag: Record<string, Record<string, EloRating>>; // tag -> model -> rating
+  /** Writing ratings with judges' length preferences fitted out. */
+  writingLengthControlled?: LengthControlledRatings;
   /** Accumulated pairwise outcomes for WHR recomputation. */
   pairwise?: {
     writing: PairwiseRecord[];
     feedbackGiving: PairwiseRecord[];
     writingByTag: Record<string, PairwiseRecord[]>;
+    /** Writing games with word-count gaps, merged by mergeLengthGames (absent before length control). */
+    writingLength?: LengthGame[];
   };
   history: Array<{
     runId: string;
@@ -379,6 +904,7 @@ export type BenchmarkStage =
   | "feedback"
   | "revisedWriting"
   | "revisedJudging"
+  | "scoring"
   | "computingElo"
   | "seeding"
   | "adaptive"
@@ -418,6 +944,8 @@ export interface BenchmarkProgress {
   judgeQualityMode?: JudgeQualityMode;
   totalCost: number;
   totalCostUncached: number;
+  /** --budget ceiling in USD, if set. */
+  budget?: number;
   costByModel: Record<string, number>;
   costByStage: Record<string, number>;
   costByModelByStage: Record<string, Record<string, number>>;
@@ -436,6 +964,8 @@ export interface BenchmarkProgress {
   batchSummary?: string;
   /** Models suspended this batch due to rate-limit / server errors. */
   suspendedModels?: string[];
+  /** Per-provider/per-model rate limit usage (only when limits are configured). */
+  rateLimits?: RateLimitStatus[];
   /** Per-judge bias statistics (only present when judge quality is active). */
   judgeBias?: {
     selfPreference: Record<string, {
@@ -450,15 +980,40 @@ export interface BenchmarkProgress {
       positionARate: number;
       positionBiasDelta: number;
       sufficient: boolean;
+      strongCount?: number;
+      strongPositionARate?: number;
+      weakCount?: number;
+      weakPositionARate?: number;
     }>;
+    /** Same fields as selfPreference, for kin models' samples. */
+    kinPreference: Record<string, {
+      selfJudgmentCount: number;
+      selfWinRate: number;
+      expectedWinRate: number;
+      biasDelta: number;
+      sufficient: boolean;
+    }>;
+    lengthBias: Record<string, StyleBiasSummary>;
+    formattingBias: Record<string, StyleBiasSummary>;
   };
 }
 
+/** A judge's length or formatting bias as reported in progress events. */
+export interface StyleBiasSummary {
+  comparedCount: number;
+  featureWinRate: number;
+  expectedWinRate: number;
+  biasDelta: number;
+  sufficient: boolean;
+}
+
 export type BenchmarkEvent =
   | { type: "progress"; data: BenchmarkProgress }
   | { type: "sampleComplete"; data: WritingSample }
   | { type: "judgmentComplete"; data: PairwiseJudgment }
+  | { type: "scoreComplete"; data: PointwiseScore }
   | { type: "feedbackComplete"; data: Feedback }
   | { type: "stageComplete"; data: { stage: BenchmarkStage } }
+  | { type: "roundComplete"; data: { round: number } }
   | { type: "error"; data: TaskError }
   | { type: "complete"; data: RunResult };
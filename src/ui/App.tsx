@@ -130,6 +130,7 @@ export function App({ subscribe, showSpeed }: AppProps) {
         currentOp={progress.currentOp}
         totalCost={progress.totalCost}
         totalCostUncached={progress.totalCostUncached}
+        budget={progress.budget}
         costByStage={progress.costByStage}
         stageProgress={progress.stageProgress}
         opsDone={progress.stageDone}
@@ -140,6 +141,7 @@ export function App({ subscribe, showSpeed }: AppProps) {
         needDescription={progress.needDescription}
         batchSummary={progress.batchSummary}
         suspendedModels={progress.suspendedModels}
+        rateLimits={progress.rateLimits}
       />
 
       <RunProgress progress={progress.stageProgress} opsDone={progress.stageDone} />
@@ -8,6 +8,7 @@ const STAGE_COLS = [
   { key: "feedback", label: "Feedback" },
   { key: "revised", label: "Revise" },
   { key: "revisedJudging", label: "Re-Judge" },
+  { key: "scoring", label: "Score" },
 ] as const;
 
 interface CostBreakdownTableProps {
@@ -43,13 +43,16 @@ export function JudgeQualityTable({ ratings, weights, pruneThreshold, mode, judg
   const wltW = Math.max(7, ...ratings.map((r) => `${r.wins}/${r.losses}/${r.ties}`.length));
   const weightW = 7;
   const selfW = 7;
+  const kinW = 7;
   const posW = 7;
+  const lenW = 7;
+  const mdW = 7;
   const statusW = 7;
 
   return (
     <Box flexDirection="column" marginBottom={1}>
       <Text bold color="yellow">
-        Judge Quality{mode && mode !== "consensus" ? ` (${mode} ELO)` : ""}
+        Judge Quality{mode === "gold" ? " (gold agreement)" : mode && mode !== "consensus" ? ` (${mode} ELO)` : ""}
       </Text>
       <Box>
         <Text color="gray">
@@ -60,7 +63,10 @@ export function JudgeQualityTable({ ratings, weights, pruneThreshold, mode, judg
           {"  "}{"W/L/T".padStart(wltW)}
           {"  "}{"Weight".padStart(weightW)}
           {hasBias ? `  ${"Self%".padStart(selfW)}` : ""}
+          {hasBias ? `  ${"Kin%".padStart(kinW)}` : ""}
           {hasBias ? `  ${"Pos%".padStart(posW)}` : ""}
+          {hasBias ? `  ${"Len%".padStart(lenW)}` : ""}
+          {hasBias ? `  ${"Md%".padStart(mdW)}` : ""}
           {"  "}{"Status".padStart(statusW)}
         </Text>
       </Box>
@@ -71,7 +77,7 @@ export function JudgeQualityTable({ ratings, weights, pruneThreshold, mode, judg
             + (hasCi ? 2 + ciW : 0)
             + 2 + wltW
             + 2 + weightW
-            + (hasBias ? 2 + selfW + 2 + posW : 0)
+            + (hasBias ? 2 + selfW + 2 + kinW + 2 + posW + 2 + lenW + 2 + mdW : 0)
             + 2 + statusW
           )}
         </Text>
@@ -90,12 +96,26 @@ export function JudgeQualityTable({ ratings, weights, pruneThreshold, mode, judg
         const selfFmt = selfBias
           ? formatBias(selfBias.biasDelta, selfBias.sufficient, selfBias.selfJudgmentCount > 0)
           : { text: "n/a", color: "gray" };
+        // Kin bias: "n/a" when no kin model's sample reached this judge
+        const kinBias = judgeBias?.kinPreference?.[r.model];
+        const kinFmt = kinBias
+          ? formatBias(kinBias.biasDelta, kinBias.sufficient, kinBias.selfJudgmentCount > 0)
+          : { text: "n/a", color: "gray" };
         // Position bias: always "..." (accumulating) rather than "n/a" when the judge
         // is a writer -- count=0 just means no position-known judgments yet (legacy cache)
         const isWriter = selfBias != null;
         const posFmt = posBias
           ? formatBias(posBias.positionBiasDelta, posBias.sufficient, isWriter)
           : { text: isWriter ? "..." : "n/a", color: "gray" };
+        // Length and Markdown preference apply to every judge
+        const lenBias = judgeBias?.lengthBias?.[r.model];
+        const mdBias = judgeBias?.formattingBias?.[r.model];
+        const lenFmt = lenBias
+          ? formatBias(lenBias.biasDelta, lenBias.sufficient, true)
+          : { text: "...", color: "gray" };
+        const mdFmt = mdBias
+          ? formatBias(mdBias.biasDelta, mdBias.sufficient, true)
+          : { text: "...", color: "gray" };
 
         return (
           <Box key={r.model}>
@@ -120,11 +140,26 @@ export function JudgeQualityTable({ ratings, weights, pruneThreshold, mode, judg
                 {"  "}{selfFmt.text.padStart(selfW)}
               </Text>
             )}
+            {hasBias && (
+              <Text color={kinFmt.color}>
+                {"  "}{kinFmt.text.padStart(kinW)}
+              </Text>
+            )}
             {hasBias && (
               <Text color={posFmt.color}>
                 {"  "}{posFmt.text.padStart(posW)}
               </Text>
             )}
+            {hasBias && (
+              <Text color={lenFmt.color}>
+                {"  "}{lenFmt.text.padStart(lenW)}
+              </Text>
+            )}
+            {hasBias && (
+              <Text color={mdFmt.color}>
+                {"  "}{mdFmt.text.padStart(mdW)}
+              </Text>
+            )}
             <Text color={isPruned ? "red" : "green"}>
               {"  "}{(isPruned ? "pruned" : "active").padStart(statusW)}
             </Text>
@@ -1,7 +1,7 @@
 import React from "react";
 import { Box, Text } from "ink";
 import Spinner from "ink-spinner";
-import type { BenchmarkStage, CacheSavings } from "../types.js";
+import type { BenchmarkStage, CacheSavings, RateLimitStatus } from "../types.js";
 import { formatConvergenceTarget } from "../engine/need-identifier.js";
 
 const STAGE_LABELS: Record<BenchmarkStage, string> = {
@@ -10,6 +10,7 @@ const STAGE_LABELS: Record<BenchmarkStage, string> = {
   feedback: "Feedback",
   revisedWriting: "Revising",
   revisedJudging: "Re-Judging",
+  scoring: "Scoring",
   computingElo: "Computing ELO",
   seeding: "Seeding Cache",
   adaptive: "Adaptive",
@@ -22,6 +23,7 @@ const STAGE_COST_LABELS: Record<string, string> = {
   feedback: "Feedback",
   revised: "Revise",
   revisedJudging: "Re-Judge",
+  scoring: "Score",
 };
 
 interface StatusBarProps {
@@ -30,6 +32,7 @@ interface StatusBarProps {
   currentOp: string;
   totalCost: number;
   totalCostUncached: number;
+  budget?: number;
   costByStage: Record<string, number>;
   stageProgress: number;
   opsDone: number;
@@ -40,6 +43,22 @@ interface StatusBarProps {
   needDescription?: string;
   batchSummary?: string;
   suspendedModels?: string[];
+  rateLimits?: RateLimitStatus[];
+}
+
+/** Compact token count: 12345 → "12.3k". */
+function formatTokens(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+}
+
+/** One bucket's usage against its configured limits, e.g. "ollama 2/2 (+3 queued) 40/60rpm". */
+function formatRateLimit(s: RateLimitStatus): string {
+  const parts = [s.key];
+  parts.push(s.limit.concurrency != null ? `${s.active}/${s.limit.concurrency}` : `${s.active} active`);
+  if (s.waiting > 0) parts.push(`(+${s.waiting} queued)`);
+  if (s.limit.rpm != null) parts.push(`${s.requestsLastMinute}/${s.limit.rpm}rpm`);
+  if (s.limit.tpm != null) parts.push(`${formatTokens(s.tokensLastMinute)}/${formatTokens(s.limit.tpm)}tpm`);
+  return parts.join(" ");
 }
 
 export function StatusBar({
@@ -48,6 +67,7 @@ export function StatusBar({
   currentOp,
   totalCost,
   totalCostUncached,
+  budget,
   costByStage,
   stageProgress,
   opsDone,
@@ -58,6 +78,7 @@ export function StatusBar({
   needDescription,
   batchSummary,
   suspendedModels,
+  rateLimits,
 }: StatusBarProps) {
   const isComplete = stage === "complete";
   const pct = isComplete ? 100 : Math.round(stageProgress * 100);
@@ -115,6 +136,11 @@ export function StatusBar({
         </Text>
         <Text color="gray">{"  "}|{"  "}</Text>
         <Text color="green">${totalCost.toFixed(4)}</Text>
+        {budget != null && (
+          <Text color={totalCost >= budget ? "red" : "gray"}>
+            {" "}/ ${budget.toFixed(2)} budget
+          </Text>
+        )}
         {showUncached && (
           <Text color="gray">
             {"  "}(uncached: ${totalCostUncached.toFixed(4)})
@@ -158,6 +184,13 @@ export function StatusBar({
           </Text>
         </Box>
       )}
+      {!isComplete && rateLimits && rateLimits.length > 0 && (
+        <Box marginLeft={3}>
+          <Text color="gray">
+            {"Limits: "}{rateLimits.map(formatRateLimit).join("  |  ")}
+          </Text>
+        </Box>
+      )}
       {!isComplete && currentOp && (
         <Box marginLeft={3}>
           {needDescription && (
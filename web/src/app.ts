@@ -3,16 +3,19 @@ import { $$, renderError } from "./helpers.js";
 import { state, setJudgmentApi } from "./state.js";
 import { renderDashboard, renderRunsPage } from "./dashboard.js";
 import { renderRunDetailPage } from "./run-detail.js";
+import { renderVotePage } from "./vote.js";
 
 // ── Router ──────────────────────────────────────────
 
 interface Page {
-  page: "dashboard" | "runs" | "run";
+  page: "dashboard" | "runs" | "run" | "vote";
   id?: string;
 }
 
 function getPage(): Page {
   const params = new URLSearchParams(location.search);
+  const voteRunId = params.get("vote");
+  if (voteRunId) return { page: "vote", id: voteRunId };
   const runId = params.get("run");
   if (runId) return { page: "run", id: runId };
   if (params.get("page") === "runs") return { page: "runs" };
@@ -37,7 +40,7 @@ function route(): void {
   $$(".nav a").forEach((a) => {
     const dataPage = a.getAttribute("data-page");
     const isActive =
-      dataPage === page || (page === "run" && dataPage === "runs");
+      dataPage === page || ((page === "run" || page === "vote") && dataPage === "runs");
     a.classList.toggle("active", isActive);
   });
 
@@ -51,6 +54,9 @@ function route(): void {
     case "run":
       renderRunDetailPage(id!);
       break;
+    case "vote":
+      renderVotePage(id!);
+      break;
   }
 }
 
@@ -139,6 +139,7 @@ const headingIds = new Set(getHeadingList().map((h) => h.id));
 const REQUIRED_ANCHORS = [
   "judge-quality-estimation",
   "position-bias-mitigation",
+  "length-controlled-ratings",
 ];
 
 const missing = REQUIRED_ANCHORS.filter((a) => !headingIds.has(a));
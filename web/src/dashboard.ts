@@ -1,6 +1,6 @@
 import type { RunsIndex, RunIndexEntry, TagAlternatives } from "./types.js";
 import { el, render, renderEloTable, formatDate, sectionDesc, SECTION_DESC } from "./helpers.js";
-import { renderJudgeQualitySection } from "./judge-quality.js";
+import { renderJudgeAgreementSection, renderJudgeQualitySection } from "./judge-quality.js";
 import { createRatingToggle } from "./rating-toggle.js";
 import { createRatingSettings } from "./rating-settings.js";
 import { clearRatingSubscribers, fetchTagAlternatives } from "./state.js";
@@ -77,6 +77,25 @@ export function renderDashboard(index: RunsIndex): void {
     frag.appendChild(jqDetails);
   }
 
+  if (index.cumulativeJudgeAgreement && index.cumulativeJudgeAgreement.length > 0) {
+    frag.appendChild(el("h2", {}, "Judge Agreement"));
+    frag.appendChild(sectionDesc(SECTION_DESC.judgeAgreement));
+    const agDetails = el("details");
+    agDetails.appendChild(el("summary", {}, "Judge Agreement"));
+    const agInner = el("div", { className: "details-content" });
+    agDetails.appendChild(agInner);
+
+    let agLoaded = false;
+    agDetails.addEventListener("toggle", () => {
+      if (!(agDetails as HTMLDetailsElement).open || agLoaded) return;
+      agLoaded = true;
+      const agSection = renderJudgeAgreementSection(index.cumulativeJudgeAgreement!);
+      if (agSection) agInner.appendChild(agSection);
+    });
+
+    frag.appendChild(agDetails);
+  }
+
   if (
     index.cumulativeElo.byTag &&
     Object.keys(index.cumulativeElo.byTag).length > 0
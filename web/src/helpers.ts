@@ -81,6 +81,9 @@ export function sampleMetaEl(meta: SampleMeta, content?: SampleContent): HTMLEle
   const cachePart = content.usage.cacheReadTokens
     ? ` (${content.usage.cacheReadTokens} cached)`
     : "";
+  const reasoningPart = content.usage.reasoningTokens
+    ? ` (${content.usage.reasoningTokens} reasoning)`
+    : "";
   const uncachedPart =
     content.cost.totalUncached != null &&
     content.cost.totalUncached > content.cost.total + 0.00005
@@ -89,7 +92,7 @@ export function sampleMetaEl(meta: SampleMeta, content?: SampleContent): HTMLEle
   return el(
     "p",
     { className: "muted small mt-1" },
-    `${tokens} tokens${cachePart} | $${content.cost.total.toFixed(4)}${uncachedPart} | ${(content.latencyMs / 1000).toFixed(1)}s`,
+    `${tokens} tokens${cachePart}${reasoningPart} | $${content.cost.total.toFixed(4)}${uncachedPart} | ${(content.latencyMs / 1000).toFixed(1)}s`,
   );
 }
 
@@ -394,15 +397,37 @@ export const SECTION_DESC = {
   revisedElo:
     "Head-to-head quality of revised outputs, scoped by feedback " +
     "source to isolate writing ability from feedback quality.",
+  revisionRounds:
+    "Revised ratings after each round of feedback and revision. Each " +
+    "round revises the previous round's output; the last column is the " +
+    "change since round 1.",
   feedbackElo:
     "How useful each model's editorial feedback is, measured " +
-    "indirectly through the improvement it produces in revised outputs.",
+    "indirectly through the improvement it produces in revised outputs. " +
+    "__self__ (when present) is the no-feedback control: writers revising " +
+    "on their own.",
   judgeQuality:
     "Judge reliability estimated via cross-evaluation consensus. " +
     "Higher-rated judges contribute more to Elo computation.",
+  judgeAgreement:
+    "How often each pair of judges gives the same verdict on the same " +
+    "pair of outputs. Kappa and alpha correct for chance: near 0 means " +
+    "no better than chance, near 1 means redundant judges. Hover a " +
+    "cell for all statistics.",
   eloByTag:
     "Ratings filtered by prompt category. Expand a tag to see " +
     "how models perform on that subset.",
+  eloByCriterion:
+    "Ratings from the judges' per-criterion verdicts. Expand a " +
+    "criterion to see which models win on that aspect of the writing.",
+  selfEditing:
+    "How often each writer's revision of its own sample, guided by its " +
+    "own critique, beats the original (ties count half), next to the " +
+    "same rate when its critique guides other writers.",
+  constraints:
+    "Share of each model's outputs that pass the prompts' rule-based " +
+    "checks (word range, required phrases, headings, ...), with the " +
+    "number of outputs breaking each rule.",
 };
 
 /** Create a description paragraph for use below section headings. */
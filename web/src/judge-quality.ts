@@ -1,4 +1,4 @@
-import type { JudgeQualityEntry, RunManifest } from "./types.js";
+import type { JudgePairAgreement, JudgeQualityEntry, RunManifest, StageAgreement } from "./types.js";
 import { el, formatWeight, formatBias, biasClass, judgmentMetaToPairwise, buildSampleMaps } from "./helpers.js";
 import { getRatingState, subscribeRating } from "./state.js";
 import { computeJudgeQuality, computeEloBasedJudgeQuality } from "../../src/engine/judge-quality.js";
@@ -138,10 +138,16 @@ function computeJudgeQualityEntries(
 
   const pruneThreshold = DEFAULT_CONVERGENCE.judgePruneThreshold;
 
+  // Length and formatting bias need sample texts, which the manifest
+  // doesn't carry, and kin bias needs the run's kin relation; none of
+  // them depend on quality mode or decay, so reuse the exported values.
+  const exported = new Map((manifest.judgeQuality ?? []).map((e) => [e.model, e]));
+
   return quality.ratings.map((r) => {
     const weight = quality.weights.get(r.model) ?? 1.0;
     const selfPref = biasData.selfPreference.get(r.model);
     const posBias = biasData.positionBias.get(r.model);
+    const style = exported.get(r.model);
 
     return {
       model: r.model,
@@ -155,6 +161,12 @@ function computeJudgeQualityEntries(
       positionBias: posBias?.sufficient ? posBias.positionBiasDelta : null,
       selfBiasSufficient: selfPref?.sufficient ?? false,
       positionBiasSufficient: posBias?.sufficient ?? false,
+      kinBias: style?.kinBias ?? null,
+      kinBiasSufficient: style?.kinBiasSufficient ?? false,
+      lengthBias: style?.lengthBias ?? null,
+      formattingBias: style?.formattingBias ?? null,
+      lengthBiasSufficient: style?.lengthBiasSufficient ?? false,
+      formattingBiasSufficient: style?.formattingBiasSufficient ?? false,
       status: weight < pruneThreshold ? "pruned" as const : "active" as const,
     };
   });
@@ -171,7 +183,10 @@ function renderJudgeQualityTable(entries: JudgeQualityEntry[]): HTMLElement {
 
   const hasCi = entries.some((e) => e.ci95 != null && isFinite(e.ci95));
   const hasSelfBias = entries.some((e) => e.selfBias != null || e.selfBiasSufficient);
+  const hasKinBias = entries.some((e) => e.kinBias != null || e.kinBiasSufficient);
   const hasPosBias = entries.some((e) => e.positionBias != null || e.positionBiasSufficient);
+  const hasLengthBias = entries.some((e) => e.lengthBias != null || e.lengthBiasSufficient);
+  const hasFormattingBias = entries.some((e) => e.formattingBias != null || e.formattingBiasSufficient);
 
   // Header
   const headerCells = [
@@ -188,7 +203,10 @@ function renderJudgeQualityTable(entries: JudgeQualityEntry[]): HTMLElement {
   headerCells.push(el("th", {}, "W/L/T"));
   headerCells.push(el("th", {}, "Weight"));
   if (hasSelfBias) headerCells.push(el("th", {}, "Self Bias"));
+  if (hasKinBias) headerCells.push(el("th", {}, "Kin Bias"));
   if (hasPosBias) headerCells.push(el("th", {}, "Pos Bias"));
+  if (hasLengthBias) headerCells.push(el("th", {}, "Length Bias"));
+  if (hasFormattingBias) headerCells.push(el("th", {}, "Format Bias"));
   headerCells.push(el("th", {}, "Status"));
 
   table.appendChild(el("thead", {}, el("tr", {}, ...headerCells)));
@@ -234,6 +252,13 @@ function renderJudgeQualityTable(entries: JudgeQualityEntry[]): HTMLElement {
       );
     }
 
+    if (hasKinBias) {
+      cells.push(
+        el("td", { className: biasClass(e.kinBias, e.kinBiasSufficient) },
+          formatBias(e.kinBias, e.kinBiasSufficient)),
+      );
+    }
+
     if (hasPosBias) {
       cells.push(
         el("td", { className: biasClass(e.positionBias, e.positionBiasSufficient) },
@@ -241,6 +266,20 @@ function renderJudgeQualityTable(entries: JudgeQualityEntry[]): HTMLElement {
       );
     }
 
+    if (hasLengthBias) {
+      cells.push(
+        el("td", { className: biasClass(e.lengthBias, e.lengthBiasSufficient) },
+          formatBias(e.lengthBias, e.lengthBiasSufficient)),
+      );
+    }
+
+    if (hasFormattingBias) {
+      cells.push(
+        el("td", { className: biasClass(e.formattingBias, e.formattingBiasSufficient) },
+          formatBias(e.formattingBias, e.formattingBiasSufficient)),
+      );
+    }
+
     const statusCls = e.status === "pruned" ? "bias-high" : "bias-low";
     cells.push(el("td", { className: statusCls }, e.status));
 
@@ -252,3 +291,111 @@ function renderJudgeQualityTable(entries: JudgeQualityEntry[]): HTMLElement {
   wrapper.appendChild(table);
   return wrapper;
 }
+
+// ── Judge Agreement Heatmap ─────────────────────────
+
+type AgreementMetric = "agreement" | "kappa" | "alpha";
+
+const AGREEMENT_METRICS: Array<[AgreementMetric, string]> = [
+  ["kappa", "Cohen's kappa"],
+  ["alpha", "Krippendorff's alpha"],
+  ["agreement", "Raw agreement"],
+];
+
+/**
+ * Render judge-by-judge agreement as a heatmap with a tab per stage and
+ * per statistic. Green cells are judges that agree beyond chance, red
+ * ones disagree; hover a cell for all three statistics.
+ */
+export function renderJudgeAgreementSection(stages: StageAgreement[]): HTMLElement | null {
+  if (stages.length === 0) return null;
+  const container = el("div");
+  const heatmap = el("div");
+  let stage = stages[0];
+  let metric: AgreementMetric = "kappa";
+
+  function tabBar<T>(options: Array<[T, string]>, current: T, onSelect: (value: T) => void): HTMLElement {
+    const bar = el("div", { className: "tabs" });
+    for (const [value, label] of options) {
+      const tab = el("button", {
+        className: value === current ? "tab active" : "tab",
+        onClick: () => {
+          for (const t of bar.children) t.classList.remove("active");
+          tab.classList.add("active");
+          onSelect(value);
+        },
+      }, label);
+      bar.appendChild(tab);
+    }
+    return bar;
+  }
+
+  function update(): void {
+    heatmap.replaceChildren(renderAgreementHeatmap(stage, metric));
+  }
+
+  if (stages.length > 1) {
+    container.appendChild(tabBar(stages.map((s) => [s, s.stage] as [StageAgreement, string]), stage, (s) => {
+      stage = s;
+      update();
+    }));
+  }
+  container.appendChild(tabBar(AGREEMENT_METRICS, metric, (m) => {
+    metric = m;
+    update();
+  }));
+  container.appendChild(heatmap);
+  update();
+  return container;
+}
+
+/** Heatmap cell background: red below chance, green above. */
+function heatColor(value: number, metric: AgreementMetric): string {
+  // Raw agreement has no chance correction; centre it on a coin flip
+  const v = metric === "agreement" ? value * 2 - 1 : value;
+  const clamped = Math.max(-1, Math.min(1, v));
+  const hue = clamped >= 0 ? 120 : 0;
+  return `hsla(${hue}, 60%, 45%, ${(0.1 + 0.5 * Math.abs(clamped)).toFixed(2)})`;
+}
+
+function renderAgreementHeatmap(stage: StageAgreement, metric: AgreementMetric): HTMLElement {
+  const lookup = new Map<string, JudgePairAgreement>();
+  for (const p of stage.pairs) {
+    lookup.set(`${p.judgeA}\u0000${p.judgeB}`, p);
+    lookup.set(`${p.judgeB}\u0000${p.judgeA}`, p);
+  }
+  const fmt = (v: number | null) =>
+    v == null ? "-" : metric === "agreement" ? `${Math.round(v * 100)}%` : v.toFixed(2);
+
+  const table = el("table", { className: "agreement-heatmap" });
+  table.appendChild(el("thead", {}, el("tr", {},
+    el("th", {}, "Judge"),
+    ...stage.judges.map((_, i) => el("th", { title: stage.judges[i] }, `#${i + 1}`)),
+  )));
+
+  const tbody = el("tbody");
+  stage.judges.forEach((judge, i) => {
+    const cells = stage.judges.map((other) => {
+      if (other === judge) return el("td", { className: "muted" }, "");
+      const p = lookup.get(`${judge}\u0000${other}`);
+      if (!p) return el("td", { className: "muted" }, "-");
+      const v = p[metric];
+      const td = el("td", {
+        title: `${judge} vs ${other}: ${p.instances} shared, ` +
+          `agreement ${Math.round(p.agreement * 100)}%, kappa ${p.kappa?.toFixed(2) ?? "-"}, ` +
+          `alpha ${p.alpha?.toFixed(2) ?? "-"}`,
+      }, fmt(v));
+      if (v != null) td.style.background = heatColor(v, metric);
+      return td;
+    });
+    tbody.appendChild(el("tr", {}, el("td", {}, `${i + 1}. ${judge}`), ...cells));
+  });
+  table.appendChild(tbody);
+
+  const wrapper = el("div", { className: "table-scroll" });
+  wrapper.appendChild(el("p", { className: "muted" },
+    `${stage.instances} pairs judged by two or more judges; ` +
+    `Krippendorff's alpha across all judges: ${stage.alpha?.toFixed(2) ?? "-"}`));
+  wrapper.appendChild(table);
+  return wrapper;
+}
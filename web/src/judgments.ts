@@ -71,6 +71,49 @@ export function buildJudgmentLabel(
 
 // ── Judgments Section with Model vs Model comparison ─
 
+/**
+ * Per-judge order consistency for --both-orders runs: how often the
+ * verdicts from the two presentation orders disagreed. Null when no
+ * judgment was made in both orders.
+ */
+function renderOrderConsistencyTable(judgments: JudgmentMeta[]): HTMLElement | null {
+  const byJudge = new Map<string, { total: number; inconsistent: number }>();
+  for (const j of judgments) {
+    if (!j.orderWinners) continue;
+    const entry = byJudge.get(j.judgeModel) ?? { total: 0, inconsistent: 0 };
+    entry.total++;
+    if (j.orderWinners[0] !== j.orderWinners[1]) entry.inconsistent++;
+    byJudge.set(j.judgeModel, entry);
+  }
+  if (byJudge.size === 0) return null;
+
+  const rows = [...byJudge].sort(([a], [b]) => a.localeCompare(b)).map(([judge, { total, inconsistent }]) =>
+    el(
+      "tr",
+      {},
+      el("td", {}, judge),
+      el("td", {}, String(total)),
+      el("td", {}, String(inconsistent)),
+      el("td", {}, `${((inconsistent / total) * 100).toFixed(1)}%`),
+    ));
+
+  return el(
+    "div",
+    { className: "order-consistency" },
+    el("p", { className: "muted small" }, "Judged in both orders; inconsistent verdicts count as ties."),
+    el(
+      "table",
+      {},
+      el("thead", {}, el("tr", {},
+        el("th", {}, "Judge"),
+        el("th", {}, "Pairs"),
+        el("th", {}, "Inconsistent"),
+        el("th", {}, "Rate"))),
+      el("tbody", {}, ...rows),
+    ),
+  );
+}
+
 export function renderJudgmentsSection(manifest: RunManifest): HTMLElement {
   const container = el("div");
   container.id = "judgments-section";
@@ -82,6 +125,9 @@ export function renderJudgmentsSection(manifest: RunManifest): HTMLElement {
 
   const runId = manifest.config.id;
 
+  const orderConsistency = renderOrderConsistencyTable(judgments);
+  if (orderConsistency) container.appendChild(orderConsistency);
+
   // Build sample lookup once
   const sampleMap = new Map(manifest.samples.map((s) => [s.id, s]));
 
@@ -547,6 +593,18 @@ export function renderJudgmentsSection(manifest: RunManifest): HTMLElement {
             { className: `judgment-winner ${winnerClass}` },
             winnerLabel,
           ),
+          // Preference strength (--graded-preference runs)
+          j.grade && j.grade !== "tie"
+            ? el("span", { className: "muted" }, j.grade.includes(">>") ? " (strong)" : " (slight)")
+            : null,
+          // Verdicts disagreed across presentation orders (--both-orders runs)
+          j.orderWinners && j.orderWinners[0] !== j.orderWinners[1]
+            ? el("span", { className: "muted" }, " (orders disagreed)")
+            : null,
+          // Decided by prompt constraints, no judge call
+          j.constraintLoss
+            ? el("span", { className: "muted" }, " (constraint violation)")
+            : null,
         ),
         expandBtn,
       );
@@ -556,6 +614,22 @@ export function renderJudgmentsSection(manifest: RunManifest): HTMLElement {
         el("div", { className: "judgment-body" }, matchupLine, rightSide),
       );
 
+      // Per-criterion verdicts (--criteria-verdicts runs)
+      if (j.criterionWinners) {
+        const verdicts = el("div", { className: "judgment-criteria" });
+        for (const [criterion, w] of Object.entries(j.criterionWinners)) {
+          const label = w === "tie" ? "Tie" : (w === "A" ? labelA : labelB);
+          const cls = w === "A" ? "a" : w === "B" ? "b" : "tie";
+          verdicts.appendChild(el(
+            "div",
+            { className: "judgment-criterion" },
+            el("span", { className: "muted" }, `${criterion}: `),
+            el("span", { className: `judgment-winner ${cls}` }, label),
+          ));
+        }
+        judgEl.appendChild(verdicts);
+      }
+
       // Reasoning expands below the full card width
       judgEl.appendChild(reasoningContainer);
 
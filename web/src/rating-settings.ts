@@ -51,14 +51,19 @@ export function createRatingSettings(config: RatingSettingsConfig): HTMLElement
     { mode: "default", label: "default", needsManifest: false },
     { mode: "equalWeight", label: "equal weights", needsManifest: false },
     { mode: "noBiasCorrection", label: "no bias corr.", needsManifest: false },
+    { mode: "lengthControlled", label: "length-controlled", needsManifest: false },
     { mode: "custom", label: "custom", needsManifest: true },
   ];
 
   const tabButtons: HTMLElement[] = [];
 
+  const hasLengthControl = !!config.alternativeRatings.lengthControlled;
+  const isShown = (mode: RatingMode, needsManifest: boolean) =>
+    // Hide Custom tab on dashboard (no manifest), and length control for old exports
+    !(needsManifest && !config.manifest) && (mode !== "lengthControlled" || hasLengthControl);
+
   for (const { mode, label, needsManifest } of modes) {
-    // Hide Custom tab on dashboard (no manifest)
-    if (needsManifest && !config.manifest) continue;
+    if (!isShown(mode, needsManifest)) continue;
 
     const state = getRatingState();
     const btn = el("button", {
@@ -88,6 +93,8 @@ export function createRatingSettings(config: RatingSettingsConfig): HTMLElement
       "All judges treated equally -- no quality weighting or bias correction.",
     noBiasCorrection:
       "Judges weighted by reliability, without position-bias correction.",
+    lengthControlled:
+      "Writing ratings with each judge's preference for longer outputs fitted out.",
     custom:
       "Customize judge inclusion, quality weighting, and bias correction.",
   };
@@ -98,11 +105,21 @@ export function createRatingSettings(config: RatingSettingsConfig): HTMLElement
     default: "methodology.html#judge-quality-estimation",
     equalWeight: "methodology.html#judge-quality-estimation",
     noBiasCorrection: "methodology.html#position-bias-mitigation",
+    lengthControlled: "methodology.html#length-controlled-ratings",
     custom: "methodology.html#judge-quality-estimation",
   };
 
+  /** Tab description, plus each judge's length coefficient on the length-controlled tab. */
+  function describe(mode: RatingMode): string {
+    const coefficients = config.alternativeRatings?.lengthControlled?.lengthCoefficients;
+    if (mode !== "lengthControlled" || !coefficients?.length) return TAB_DESCRIPTIONS[mode] + " ";
+    const perJudge = coefficients.map((c) =>
+      `${c.judge} ${c.eloPer100Words >= 0 ? "+" : ""}${c.eloPer100Words} \u00b1${c.ci95}`);
+    return `${TAB_DESCRIPTIONS[mode]} Elo per 100 extra words: ${perJudge.join(", ")}. `;
+  }
+
   const initMode = getRatingState().ratingMode;
-  const descText = document.createTextNode(TAB_DESCRIPTIONS[initMode] + " ");
+  const descText = document.createTextNode(describe(initMode));
   const learnMoreLink = el("a", { href: TAB_METHODOLOGY_LINKS[initMode] }, "Learn more");
   const descEl = el("p", { className: "section-desc" });
   descEl.appendChild(descText);
@@ -267,7 +284,7 @@ export function createRatingSettings(config: RatingSettingsConfig): HTMLElement
     // Update tab active states
     let i = 0;
     for (const { mode, needsManifest } of modes) {
-      if (needsManifest && !config.manifest) continue;
+      if (!isShown(mode, needsManifest)) continue;
       const btn = tabButtons[i];
       if (btn) {
         if (mode === s.ratingMode) {
@@ -280,7 +297,7 @@ export function createRatingSettings(config: RatingSettingsConfig): HTMLElement
     }
 
     // Update tab description text and link
-    descText.textContent = TAB_DESCRIPTIONS[s.ratingMode] + " ";
+    descText.textContent = describe(s.ratingMode);
     learnMoreLink.setAttribute("href", TAB_METHODOLOGY_LINKS[s.ratingMode]);
 
     // Show/hide custom panel
@@ -117,6 +117,11 @@ export function createRatingToggle(config: RatingToggleConfig): RatingToggleResu
         return enrichRatings(alt.equalWeight[dim] ?? config.defaultRatings);
       case "noBiasCorrection":
         return enrichRatings(alt.noBiasCorrection[dim] ?? config.defaultRatings);
+      case "lengthControlled":
+        // Only writing ratings are length-controlled
+        return dim === "initial" && alt.lengthControlled
+          ? enrichRatings(alt.lengthControlled.initial)
+          : config.defaultRatings;
       case "custom":
         return enrichRatings(computeClientSideRatings("custom"));
     }
@@ -150,7 +155,8 @@ export function createRatingToggle(config: RatingToggleConfig): RatingToggleResu
 
   function computeClientSideRatings(mode: RatingMode): RatingLike[] {
     const manifest = config.manifest;
-    if (!manifest) return config.defaultRatings;
+    // Word counts are not in the manifest, so length control is not recomputed per tag
+    if (!manifest || mode === "lengthControlled") return config.defaultRatings;
 
     const state = getRatingState();
 
@@ -1,8 +1,8 @@
-import type { RunManifest } from "./types.js";
-import { el, $$, render, renderError, renderCostItem, formatDate, sectionDesc, SECTION_DESC } from "./helpers.js";
+import type { ConstraintSummary, EloSnapshot, RunManifest, SelfEditingRating } from "./types.js";
+import { el, $$, render, renderError, renderCostItem, renderEloTable, formatDate, sectionDesc, SECTION_DESC } from "./helpers.js";
 import { renderPromptSection } from "./prompt-section.js";
 import { renderJudgmentsSection } from "./judgments.js";
-import { renderJudgeQualitySection } from "./judge-quality.js";
+import { renderJudgeAgreementSection, renderJudgeQualitySection } from "./judge-quality.js";
 import { createRatingToggle } from "./rating-toggle.js";
 import { createRatingSettings } from "./rating-settings.js";
 import { clearRatingSubscribers, getJudgmentApi } from "./state.js";
@@ -43,6 +43,11 @@ export function renderRunDetail(manifest: RunManifest): void {
     );
   }
 
+  frag.appendChild(el("p", {},
+    el("a", { href: `?vote=${encodeURIComponent(runId)}` }, "vote on this run's outputs"),
+    el("span", { className: "muted" }, " (needs serve)"),
+  ));
+
   // Unified rating settings (sticky tab bar + custom panel)
   frag.appendChild(createRatingSettings({
     alternativeRatings: manifest.alternativeRatings,
@@ -81,6 +86,12 @@ export function renderRunDetail(manifest: RunManifest): void {
     eloTableOpts: { ...eloOpts, costStages: ["revised"] },
   }).container);
 
+  if (manifest.elo.rounds && manifest.elo.rounds.length > 1) {
+    frag.appendChild(el("h2", {}, "Revision Rounds"));
+    frag.appendChild(sectionDesc(SECTION_DESC.revisionRounds));
+    frag.appendChild(renderRoundsTable(manifest.elo.rounds));
+  }
+
   if (
     manifest.elo.revised.feedbackRatings &&
     manifest.elo.revised.feedbackRatings.length > 0
@@ -96,6 +107,18 @@ export function renderRunDetail(manifest: RunManifest): void {
     }).container);
   }
 
+  if (manifest.selfEditing && manifest.selfEditing.length > 0) {
+    frag.appendChild(el("h2", {}, "Self-Editing"));
+    frag.appendChild(sectionDesc(SECTION_DESC.selfEditing));
+    frag.appendChild(renderSelfEditingTable(manifest.selfEditing));
+  }
+
+  if (manifest.constraints && manifest.constraints.length > 0) {
+    frag.appendChild(el("h2", {}, "Constraint Compliance"));
+    frag.appendChild(sectionDesc(SECTION_DESC.constraints));
+    frag.appendChild(renderConstraintTable(manifest.constraints));
+  }
+
   // Judge quality section (collapsed by default, lazy DOM on expand)
   if (manifest.judgeQuality && manifest.judgeQuality.length > 0) {
     frag.appendChild(el("h2", {}, "Judge Quality"));
@@ -116,6 +139,25 @@ export function renderRunDetail(manifest: RunManifest): void {
     frag.appendChild(jqDetails);
   }
 
+  if (manifest.judgeAgreement && manifest.judgeAgreement.length > 0) {
+    frag.appendChild(el("h2", {}, "Judge Agreement"));
+    frag.appendChild(sectionDesc(SECTION_DESC.judgeAgreement));
+    const agDetails = el("details");
+    agDetails.appendChild(el("summary", {}, "Judge Agreement"));
+    const agInner = el("div", { className: "details-content" });
+    agDetails.appendChild(agInner);
+
+    let agLoaded = false;
+    agDetails.addEventListener("toggle", () => {
+      if (!(agDetails as HTMLDetailsElement).open || agLoaded) return;
+      agLoaded = true;
+      const agSection = renderJudgeAgreementSection(manifest.judgeAgreement!);
+      if (agSection) agInner.appendChild(agSection);
+    });
+
+    frag.appendChild(agDetails);
+  }
+
   // ELO by category (lazy DOM construction on expand)
   if (
     manifest.elo.initial.byTag &&
@@ -159,6 +201,36 @@ export function renderRunDetail(manifest: RunManifest): void {
     }
   }
 
+  // ELO by judging criterion (from --criteria-verdicts runs)
+  const byCriterion = manifest.elo.initial.byCriterion;
+  if (byCriterion && Object.keys(byCriterion).length > 0) {
+    frag.appendChild(el("h2", {}, "ELO by Criterion"));
+    frag.appendChild(sectionDesc(SECTION_DESC.eloByCriterion));
+    for (const [criterion, ratings] of Object.entries(byCriterion)) {
+      const d = el("details");
+      d.appendChild(el("summary", {}, criterion));
+      const inner = el("div", { className: "details-content" });
+      d.appendChild(inner);
+
+      let loaded = false;
+      d.addEventListener("toggle", () => {
+        if (!(d as HTMLDetailsElement).open || loaded) return;
+        loaded = true;
+
+        inner.appendChild(el("h4", {}, "Initial"));
+        inner.appendChild(renderEloTable(ratings, { ...eloOpts, costStages: ["initial"] }));
+
+        const revised = manifest.elo.revised.byCriterion?.[criterion];
+        if (revised && revised.length > 0) {
+          inner.appendChild(el("h4", {}, "Revised"));
+          inner.appendChild(renderEloTable(revised, { ...eloOpts, costStages: ["revised"] }));
+        }
+      });
+
+      frag.appendChild(d);
+    }
+  }
+
   // Per-prompt sections with filter
   const promptHeader = el("div", { className: "section-header" });
   promptHeader.appendChild(el("h2", {}, "Outputs by Prompt"));
@@ -216,6 +288,79 @@ export function renderRunDetail(manifest: RunManifest): void {
   render(frag);
 }
 
+/** Per-model revised rating in each revision round, plus the change since round 1. */
+function renderRoundsTable(rounds: EloSnapshot[]): HTMLElement {
+  const byRound = rounds.map((r) => new Map(r.ratings.map((e) => [e.model, e.rating])));
+  const models = [...new Set(rounds.flatMap((r) => r.ratings.map((e) => e.model)))];
+  const table = el("table");
+  table.appendChild(el("thead", {}, el("tr", {},
+    el("th", {}, "Model"),
+    ...rounds.map((_, i) => el("th", {}, `Round ${i + 1}`)),
+    el("th", {}, "\u0394"),
+  )));
+  const tbody = el("tbody");
+  for (const model of models) {
+    const ratings = byRound.map((m) => m.get(model));
+    const rated = ratings.filter((r) => r != null);
+    const delta = rated.length > 1 ? rated[rated.length - 1] - rated[0] : null;
+    tbody.appendChild(el("tr", {},
+      el("td", {}, model),
+      ...ratings.map((r) => el("td", {}, r != null ? String(r) : "-")),
+      el("td", { className: "muted" }, delta != null ? `${delta >= 0 ? "+" : ""}${delta}` : "-"),
+    ));
+  }
+  table.appendChild(tbody);
+  return table;
+}
+
+/** Per-writer self-editing rate beside its rate when critiquing others. */
+function renderSelfEditingTable(ratings: SelfEditingRating[]): HTMLElement {
+  const pct = (x: number) => `${Math.round(100 * x)}%`;
+  const table = el("table");
+  table.appendChild(el("thead", {}, el("tr", {},
+    el("th", {}, "Model"),
+    el("th", {}, "Self"),
+    el("th", {}, "Others"),
+    el("th", {}, "Feedback ELO"),
+  )));
+  const tbody = el("tbody");
+  for (const r of ratings) {
+    tbody.appendChild(el("tr", {},
+      el("td", {}, r.model),
+      el("td", {}, `${pct(r.rate)} (${r.judged})`),
+      el("td", {}, r.crossRate != null ? `${pct(r.crossRate)} (${r.crossJudged})` : "-"),
+      el("td", { className: "muted" }, r.feedbackRating != null ? String(r.feedbackRating) : "-"),
+    ));
+  }
+  table.appendChild(tbody);
+  return table;
+}
+
+/** Per-model, per-stage constraint pass rates and violations by rule. */
+function renderConstraintTable(summaries: ConstraintSummary[]): HTMLElement {
+  const table = el("table");
+  table.appendChild(el("thead", {}, el("tr", {},
+    el("th", {}, "Model"),
+    el("th", {}, "Stage"),
+    el("th", {}, "Passed"),
+    el("th", {}, "Rate"),
+    el("th", {}, "Violations"),
+  )));
+  const tbody = el("tbody");
+  for (const s of summaries) {
+    const violations = Object.entries(s.violations).map(([rule, n]) => `${rule} ${n}`).join(", ");
+    tbody.appendChild(el("tr", {},
+      el("td", {}, s.model),
+      el("td", {}, s.stage),
+      el("td", {}, `${s.passed}/${s.checked}`),
+      el("td", {}, `${Math.round((100 * s.passed) / s.checked)}%`),
+      el("td", { className: "muted" }, violations || "-"),
+    ));
+  }
+  table.appendChild(tbody);
+  return table;
+}
+
 // ── Run Detail Page (with loading state) ────────────
 
 export async function renderRunDetailPage(id: string): Promise<void> {
@@ -11,7 +11,7 @@ export const state: AppState = { index: null };
 
 // ── Rating settings state ───────────────────────────
 
-export type RatingMode = "default" | "equalWeight" | "noBiasCorrection" | "custom";
+export type RatingMode = "default" | "equalWeight" | "noBiasCorrection" | "lengthControlled" | "custom";
 export type QualityMode = "consensus" | "writing" | "feedback" | "revised";
 
 export interface RatingState {
@@ -1,11 +1,17 @@
 // Types mirroring the backend RunResult shape for the web viewer.
 // These describe the JSON data loaded from the export files.
 
+/** "revised" is round 1; later revision rounds are "revised-2", "revised-3", ... */
+export type SampleStage = "initial" | "revised" | `revised-${number}`;
+
+export type JudgmentStage = SampleStage | "improvement";
+
 export interface TokenUsage {
   inputTokens: number;
   outputTokens: number;
   cacheReadTokens?: number;
   cacheWriteTokens?: number;
+  reasoningTokens?: number;
 }
 
 export interface CostBreakdown {
@@ -13,6 +19,7 @@ export interface CostBreakdown {
   output: number;
   total: number;
   totalUncached: number;
+  reasoning?: number;
 }
 
 export interface ModelSpeed {
@@ -61,10 +68,20 @@ export interface EloRating {
 }
 
 export interface EloSnapshot {
-  stage: "initial" | "revised";
+  stage: SampleStage;
   ratings: EloRating[];
   feedbackRatings?: EloRating[];
   byTag?: Record<string, EloRating[]>;
+  byCriterion?: Record<string, EloRating[]>;
+  lengthControlled?: { ratings: EloRating[]; lengthCoefficients: LengthCoefficient[] };
+}
+
+/** A judge's estimated preference for longer outputs. */
+export interface LengthCoefficient {
+  judge: string;
+  eloPer100Words: number;
+  ci95: number;
+  games: number;
 }
 
 // ── Legacy full RunResult types (kept for reference) ─
@@ -75,7 +92,7 @@ export interface WritingSample {
   promptId: string;
   outputIndex: number;
   text: string;
-  stage: "initial" | "revised";
+  stage: SampleStage;
   originalSampleId?: string;
   feedbackUsed?: string;
   feedbackModel?: string;
@@ -104,7 +121,7 @@ export interface PairwiseJudgment {
   sampleB: string;
   winner: "A" | "B" | "tie";
   reasoning: string;
-  stage: "initial" | "revised" | "improvement";
+  stage: JudgmentStage;
   usage: TokenUsage;
   cost: CostBreakdown;
   latencyMs: number;
@@ -159,9 +176,35 @@ export interface JudgeQualityEntry {
   positionBias: number | null;
   selfBiasSufficient: boolean;
   positionBiasSufficient: boolean;
+  kinBias: number | null;
+  kinBiasSufficient: boolean;
+  lengthBias: number | null;
+  formattingBias: number | null;
+  lengthBiasSufficient: boolean;
+  formattingBiasSufficient: boolean;
   status: "active" | "pruned";
 }
 
+/** Agreement between two judges on the instances both judged. */
+export interface JudgePairAgreement {
+  judgeA: string;
+  judgeB: string;
+  instances: number;
+  agreement: number;
+  kappa: number | null;
+  alpha: number | null;
+}
+
+/** Judge-by-judge agreement for one judging stage. */
+export interface StageAgreement {
+  stage: "initial" | "revised" | "improvement";
+  judges: string[];
+  instances: number;
+  /** Krippendorff's alpha across all judges. */
+  alpha: number | null;
+  pairs: JudgePairAgreement[];
+}
+
 /** Pre-computed alternative rating sets. */
 export interface AlternativeRatings {
   equalWeight: {
@@ -174,6 +217,10 @@ export interface AlternativeRatings {
     revised: EloRating[];
     feedback: EloRating[];
   };
+  lengthControlled?: {
+    initial: EloRating[];
+    lengthCoefficients: LengthCoefficient[];
+  };
 }
 
 // ── Tiered data: Run Manifest (Tier 1) ──────────────
@@ -184,11 +231,43 @@ export interface SampleMeta {
   model: string;
   promptId: string;
   outputIndex: number;
-  stage: "initial" | "revised";
+  stage: SampleStage;
   originalSampleId?: string;
   feedbackUsed?: string;
   feedbackModel?: string;
   fromCache?: boolean;
+  /** Present when the prompt has constraints. */
+  constraints?: ConstraintResult;
+}
+
+/** Outcome of checking one sample against its prompt's constraints. */
+export interface ConstraintResult {
+  passed: boolean;
+  violations: Array<{ rule: string; detail: string }>;
+}
+
+/** Constraint compliance for one model at one stage. */
+export interface ConstraintSummary {
+  model: string;
+  stage: SampleStage;
+  checked: number;
+  passed: number;
+  /** Number of samples violating each rule. */
+  violations: Record<string, number>;
+}
+
+/** A writer's self-editing: revisions of its own samples guided by its own feedback. */
+export interface SelfEditingRating {
+  model: string;
+  judged: number;
+  improved: number;
+  ties: number;
+  /** Share of self-revisions that beat the original, ties counting half. */
+  rate: number;
+  crossJudged: number;
+  /** The same rate when it critiques other writers. */
+  crossRate: number | null;
+  feedbackRating?: number;
 }
 
 /** Feedback structural metadata without text or per-call cost detail. */
@@ -206,8 +285,13 @@ export interface JudgmentMeta {
   sampleA: string;
   sampleB: string;
   winner: "A" | "B" | "tie";
-  stage: "initial" | "revised" | "improvement";
+  stage: JudgmentStage;
   positionSwapped?: boolean;
+  criterionWinners?: Record<string, "A" | "B" | "tie">;
+  grade?: "A>>B" | "A>B" | "tie" | "B>A" | "B>>A";
+  orderWinners?: ["A" | "B" | "tie", "A" | "B" | "tie"];
+  /** True when prompt constraints decided the pairing without a judge. */
+  constraintLoss?: boolean;
 }
 
 /** Lean run data loaded as the first tier (immediate page load). */
@@ -224,6 +308,8 @@ export interface RunManifest {
   elo: {
     initial: EloSnapshot;
     revised: EloSnapshot;
+    /** Revised ratings per revision round, round 1 first. */
+    rounds?: EloSnapshot[];
   };
   meta: {
     totalTokens: number;
@@ -247,8 +333,14 @@ export interface RunManifest {
   promptJudgmentSlices: Record<string, { start: number; count: number }>;
   /** Judge quality data (absent for old runs or single-judge runs). */
   judgeQuality?: JudgeQualityEntry[];
+  /** Judge-by-judge agreement per stage (absent when no pair has two judges). */
+  judgeAgreement?: StageAgreement[];
   /** Pre-computed alternative rating sets (absent for single-judge runs). */
   alternativeRatings?: AlternativeRatings;
+  /** Per-model constraint compliance (absent when no prompt has constraints). */
+  constraints?: ConstraintSummary[];
+  /** Per-writer self-editing rates (--self-critique runs only). */
+  selfEditing?: SelfEditingRating[];
 }
 
 // ── Tiered data: Per-prompt Content (Tier 2) ────────
@@ -332,6 +424,8 @@ export interface RunsIndex {
   }>;
   /** Cumulative judge quality (aggregated across all runs). */
   cumulativeJudgeQuality?: JudgeQualityEntry[];
+  /** Cumulative judge-by-judge agreement per stage. */
+  cumulativeJudgeAgreement?: StageAgreement[];
   /** Cumulative alternative rating sets. */
   cumulativeAlternativeRatings?: AlternativeRatings;
 }
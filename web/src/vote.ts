@@ -0,0 +1,149 @@
+import { el, render } from "./helpers.js";
+
+// ── Types ───────────────────────────────────────────
+
+/** A blind pair from `GET /api/vote/next`, in display order. */
+interface VotePair {
+  runId: string;
+  prompt: { id: string; name: string; prompt: string };
+  sampleA: { id: string; text: string };
+  sampleB: { id: string; text: string };
+}
+
+const VOTER_KEY = "writing-bench-voter";
+
+// ── API ─────────────────────────────────────────────
+
+async function apiJson<T>(res: Response): Promise<T> {
+  const body = await res.json().catch(() => null);
+  if (!res.ok || body == null) {
+    throw new Error(body?.error ?? "Voting needs the viewer to be run with the serve command.");
+  }
+  return body as T;
+}
+
+async function fetchPair(runId: string, voter: string): Promise<VotePair | null> {
+  const params = new URLSearchParams({ run: runId, voter });
+  const body = await apiJson<VotePair | { done: true }>(await fetch(`api/vote/next?${params}`));
+  return "done" in body ? null : body;
+}
+
+async function submitVote(
+  runId: string,
+  voter: string,
+  pair: VotePair,
+  winner: "A" | "B" | "tie",
+  reasoning: string,
+  latencyMs: number,
+): Promise<void> {
+  await apiJson(await fetch("api/vote", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      run: runId,
+      voter,
+      sampleA: pair.sampleA.id,
+      sampleB: pair.sampleB.id,
+      winner,
+      reasoning,
+      latencyMs,
+    }),
+  }));
+}
+
+// ── Vote Page ───────────────────────────────────────
+
+/**
+ * Blind voting on one run's initial outputs. Pairs are picked by the
+ * server; model names are never shown. Votes are recorded as judgments
+ * by `human:<voter>`.
+ */
+export function renderVotePage(runId: string): void {
+  const frag = document.createDocumentFragment();
+  frag.appendChild(el("p", {}, el("a", { href: `?run=${encodeURIComponent(runId)}` }, "< back to run")));
+  frag.appendChild(el("h2", {}, "Blind Vote"));
+  frag.appendChild(el("p", { className: "section-desc" },
+    "Read both outputs and pick the better one. Models are hidden and the " +
+    "order is random. Votes count toward the cumulative leaderboard after " +
+    "the next export."));
+
+  const voterInput = el("input", {
+    type: "text",
+    placeholder: "your name",
+    value: localStorage.getItem(VOTER_KEY) ?? "",
+  }) as HTMLInputElement;
+  const startBtn = el("button", {}, "Start");
+  frag.appendChild(el("div", { className: "vote-voter vote-buttons" }, voterInput, startBtn));
+
+  const body = el("div");
+  frag.appendChild(body);
+  render(frag);
+
+  const start = () => {
+    const voter = voterInput.value.trim();
+    if (!voter) return;
+    localStorage.setItem(VOTER_KEY, voter);
+    void showNext(body, runId, voter);
+  };
+  startBtn.addEventListener("click", start);
+  voterInput.addEventListener("keydown", (e) => {
+    if ((e as KeyboardEvent).key === "Enter") start();
+  });
+  if (voterInput.value) start();
+}
+
+/** Load the next pair for `voter` into `body`. */
+async function showNext(body: HTMLElement, runId: string, voter: string): Promise<void> {
+  body.replaceChildren(el("p", { className: "muted" }, "loading pair..."));
+
+  let pair: VotePair | null;
+  try {
+    pair = await fetchPair(runId, voter);
+  } catch (e) {
+    body.replaceChildren(el("div", { id: "error" }, e instanceof Error ? e.message : String(e)));
+    return;
+  }
+  if (!pair) {
+    body.replaceChildren(el("p", {}, "Nothing left to vote on in this run. Thank you!"));
+    return;
+  }
+  renderPair(body, runId, voter, pair);
+}
+
+/** Show `pair` blind with vote buttons; a vote loads the next pair. */
+function renderPair(body: HTMLElement, runId: string, voter: string, pair: VotePair): void {
+  const shownAt = Date.now();
+  const promptDetails = el("details", {},
+    el("summary", {}, pair.prompt.name),
+    el("div", { className: "feedback-text" }, pair.prompt.prompt),
+  );
+  const reason = el("textarea", { className: "vote-reason", placeholder: "why? (optional)" }) as HTMLTextAreaElement;
+  const status = el("p", { className: "muted" });
+
+  const buttons = ([["A", "Output 1 is better"], ["tie", "Tie"], ["B", "Output 2 is better"]] as const)
+    .map(([winner, label]) => {
+      const btn = el("button", {}, label) as HTMLButtonElement;
+      btn.addEventListener("click", async () => {
+        for (const b of buttons) b.disabled = true;
+        try {
+          await submitVote(runId, voter, pair, winner, reason.value, Date.now() - shownAt);
+          void showNext(body, runId, voter);
+        } catch (e) {
+          status.textContent = `Vote failed: ${e instanceof Error ? e.message : String(e)}`;
+          for (const b of buttons) b.disabled = false;
+        }
+      });
+      return btn;
+    });
+
+  body.replaceChildren(
+    promptDetails,
+    el("div", { className: "vote-pair" },
+      el("div", {}, el("h4", {}, "Output 1"), el("div", { className: "output-text" }, pair.sampleA.text)),
+      el("div", {}, el("h4", {}, "Output 2"), el("div", { className: "output-text" }, pair.sampleB.text)),
+    ),
+    reason,
+    el("div", { className: "vote-buttons" }, ...buttons),
+    status,
+  );
+}